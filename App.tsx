@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect } from 'react';
-import { View, Product, Sale, StockLog, User, UserRole, Customer } from './types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { View, Product, Sale, StockLog, User, Customer, UserAccount, Role, Permission, StoreSettings, ReturnLine, Promotion, TaxSettings, AccountEntry, CreditPolicy, PaymentMethod, LoyaltyEntry, LoyaltySettings, ParkedCart, Quotation, SalesOrder, SalesOrderItem, Delivery, DeliveryLine, Payment, Supplier, PurchaseOrder, PurchaseOrderItem, PurchaseReceipt, ReceiptLine, LandedCharge, ReorderSettings } from './types';
 import Sidebar from './components/Sidebar';
 import Dashboard from './components/Dashboard';
 import Inventory from './components/Inventory';
@@ -8,37 +8,107 @@ import POS from './components/POS';
 import Reports from './components/Reports';
 import SalesHistory from './components/SalesHistory';
 import Login from './components/Login';
+import Backup from './components/Backup';
+import Users from './components/Users';
+import LockScreen from './components/LockScreen';
+import AuditLog from './components/AuditLog';
+import Promotions from './components/Promotions';
+import Taxes from './components/Taxes';
+import Accounts from './components/Accounts';
+import Customers from './components/Customers';
+import Quotations from './components/Quotations';
+import SalesOrders from './components/SalesOrders';
+import Suppliers from './components/Suppliers';
+import PurchaseOrders from './components/PurchaseOrders';
+import Reorder from './components/Reorder';
+import { loadDatabase, syncCollection, Collections, StoreName } from './services/db';
+import { restoreSession, startSession, endSession, toSessionUser, setSessionLocked, switchSessionUser, revokeSessions, logSessionEvent } from './services/auth';
+import { hasPermission, resolveRole } from './services/permissions';
+import { loadSettings, saveSettings, DEFAULT_SETTINGS } from './services/settings';
+import { recordAudit, AuditRecord } from './services/audit';
+import { baseUnitsInCart, sameLine } from './services/units';
+import { accountBalance, checkCredit, returnCredit } from './services/accounts';
+import { mergeCustomerRecords, normalizePhone } from './services/customers';
+import { expiryFor, loyaltyBalance, pendingExpiries, pointsInPayments, pointsToReverse } from './services/loyalty';
+import { isCartExpired } from './services/carts';
+import { canConvertQuotation, isQuotationLapsed } from './services/quotations';
+import { applyDelivery, canInvoiceOrder, deliveryUnits, invoiceLines, isOrderOpen, orderStatusFor, reservedStock } from './services/salesOrders';
+import { changeDue } from './services/payments';
+import { roundMoney } from './services/pricing';
+import { canExemptSale } from './services/tax';
+import { applyReceipt, canReceiveOrder, purchaseStatusFor } from './services/purchasing';
+import { costItems, landReceipt, nextBuyPrice, sellPriceFor } from './services/costing';
+import { LotDetails, allocateLots, fitLots, receiveLot, returnToLots } from './services/lots';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel'];
+
+// Stock logs are audited through their own entries, so snapshots leave them out
+const withoutHistory = ({ stockHistory, ...rest }: Product) => rest;
 
 const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<View>(View.DASHBOARD);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
   
-  const [currentUser, setCurrentUser] = useState<User | null>(() => {
-    const saved = localStorage.getItem('sarkartrade_user');
-    return saved ? JSON.parse(saved) : null;
-  });
-
-  const [products, setProducts] = useState<Product[]>(() => {
-    const saved = localStorage.getItem('sarkartrade_products');
-    return saved ? JSON.parse(saved) : [];
-  });
-  
-  const [sales, setSales] = useState<Sale[]>(() => {
-    const saved = localStorage.getItem('sarkartrade_sales');
-    return saved ? JSON.parse(saved) : [];
-  });
-
-  const [customers, setCustomers] = useState<Customer[]>(() => {
-    const saved = localStorage.getItem('sarkartrade_customers');
-    return saved ? JSON.parse(saved) : [];
-  });
-
-  const [categories, setCategories] = useState<string[]>(() => {
-    const saved = localStorage.getItem('sarkartrade_categories');
-    if (saved) return JSON.parse(saved);
-    const derived = Array.from(new Set(products.map(p => p.category)));
-    return derived.length > 0 ? derived.sort() : ['General', 'Electronics', 'Groceries', 'Beverages'];
-  });
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  const [settings, setSettings] = useState<StoreSettings>(DEFAULT_SETTINGS);
+
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [accountEntries, setAccountEntries] = useState<AccountEntry[]>([]);
+  const [loyaltyEntries, setLoyaltyEntries] = useState<LoyaltyEntry[]>([]);
+  const [parkedCarts, setParkedCarts] = useState<ParkedCart[]>([]);
+  const [quotations, setQuotations] = useState<Quotation[]>([]);
+  const [salesOrders, setSalesOrders] = useState<SalesOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  // Quotation waiting to be loaded into the POS cart
+  const [convertingQuoteId, setConvertingQuoteId] = useState<string | null>(null);
+
+  // Last snapshot written to IndexedDB, used to diff out incremental writes
+  const persisted = useRef<Collections | null>(null);
+
+  useEffect(() => {
+    loadDatabase()
+      .then(async ({ collections: data, failures }) => {
+        persisted.current = data;
+        setProducts(data.products);
+        setSales(data.sales);
+        setCustomers(data.customers);
+        setCategories(data.categories);
+        setUsers(data.users);
+        setRoles(data.roles);
+        setPromotions(data.promotions);
+        setAccountEntries(data.accountEntries);
+        setLoyaltyEntries(data.loyaltyEntries);
+        setParkedCarts(data.parkedCarts);
+        setQuotations(data.quotations);
+        setSalesOrders(data.salesOrders);
+        setSuppliers(data.suppliers);
+        setPurchaseOrders(data.purchaseOrders);
+        setSettings(await loadSettings());
+        const restored = await restoreSession(data.users);
+        if (restored) {
+          setCurrentUser(toSessionUser(restored.account));
+          setIsLocked(restored.locked);
+        }
+        setIsLoaded(true);
+        if (failures.length > 0) {
+          console.error("Records kept at their old schema version:", failures);
+          alert(`${failures.length} stored record(s) could not be upgraded and were left untouched. They are hidden until the issue is resolved.`);
+        }
+      })
+      .catch(err => {
+        console.error("Storage load error:", err);
+        alert("Could not open offline storage. Your browser may be blocking IndexedDB.");
+      });
+  }, []);
 
   // Effect to handle visual saving indicator
   useEffect(() => {
@@ -52,66 +122,190 @@ const App: React.FC = () => {
     }
   }, [saveStatus]);
 
-  // Persist to LocalStorage with status updates
-  useEffect(() => {
-    if (!currentUser) return;
+  // Persist changed records to IndexedDB with status updates
+  const persist = <K extends StoreName>(store: K, next: Collections[K]) => {
+    if (!persisted.current) return;
+    const previous = persisted.current[store];
+    if (previous === next) return;
+    persisted.current = { ...persisted.current, [store]: next };
     setSaveStatus('saving');
-    localStorage.setItem('sarkartrade_products', JSON.stringify(products));
-  }, [products]);
+    syncCollection(store, previous, next).catch(err => console.error("Storage sync error:", err));
+  };
 
+  useEffect(() => persist('products', products), [products]);
+  useEffect(() => persist('sales', sales), [sales]);
+  useEffect(() => persist('customers', customers), [customers]);
+  useEffect(() => persist('categories', categories), [categories]);
+  useEffect(() => persist('users', users), [users]);
+  useEffect(() => persist('roles', roles), [roles]);
+  useEffect(() => persist('promotions', promotions), [promotions]);
+  useEffect(() => persist('accountEntries', accountEntries), [accountEntries]);
+  useEffect(() => persist('loyaltyEntries', loyaltyEntries), [loyaltyEntries]);
+  useEffect(() => persist('parkedCarts', parkedCarts), [parkedCarts]);
+  useEffect(() => persist('quotations', quotations), [quotations]);
+  useEffect(() => persist('salesOrders', salesOrders), [salesOrders]);
+  useEffect(() => persist('suppliers', suppliers), [suppliers]);
+  useEffect(() => persist('purchaseOrders', purchaseOrders), [purchaseOrders]);
+
+  const reserved = useMemo(() => reservedStock(salesOrders), [salesOrders]);
+
+  // Points past their expiry date are written off in the log once the app notices them
   useEffect(() => {
-    if (!currentUser) return;
-    setSaveStatus('saving');
-    localStorage.setItem('sarkartrade_sales', JSON.stringify(sales));
-  }, [sales]);
+    if (!isLoaded) return;
+    const expiries = pendingExpiries(loyaltyEntries);
+    if (expiries.length > 0) setLoyaltyEntries(prev => [...prev, ...expiries]);
+  }, [isLoaded, loyaltyEntries]);
 
+  // Open quotations past their validity date are marked expired once the app notices them
   useEffect(() => {
-    if (!currentUser) return;
-    setSaveStatus('saving');
-    localStorage.setItem('sarkartrade_customers', JSON.stringify(customers));
-  }, [customers]);
+    if (!isLoaded || !quotations.some(q => isQuotationLapsed(q))) return;
+    setQuotations(prev => prev.map(q => isQuotationLapsed(q) ? { ...q, status: 'EXPIRED' as const } : q));
+  }, [isLoaded, quotations]);
 
+  // Parked carts past the configured age are dropped, checked every minute
   useEffect(() => {
-    if (!currentUser) return;
-    setSaveStatus('saving');
-    localStorage.setItem('sarkartrade_categories', JSON.stringify(categories));
-  }, [categories]);
+    if (!isLoaded) return;
+    const dropExpired = () => setParkedCarts(prev =>
+      prev.some(c => isCartExpired(c, settings.parkedCartHours)) ? prev.filter(c => !isCartExpired(c, settings.parkedCartHours)) : prev
+    );
+    dropExpired();
+    const timer = setInterval(dropExpired, 60000);
+    return () => clearInterval(timer);
+  }, [isLoaded, settings.parkedCartHours]);
+
+  const lockScreen = (reason: string) => {
+    if (!currentUser || isLocked) return;
+    setIsLocked(true);
+    setSessionLocked(true).catch(err => console.error("Session lock error:", err));
+    logSessionEvent('LOCK', currentUser, { reason });
+  };
 
+  // Lock the terminal after a period without input; the app stays mounted so the POS cart survives
   useEffect(() => {
-    if (currentUser) {
-      localStorage.setItem('sarkartrade_user', JSON.stringify(currentUser));
-    } else {
-      localStorage.removeItem('sarkartrade_user');
-    }
-  }, [currentUser]);
+    if (!currentUser || isLocked || settings.idleLockMinutes <= 0) return;
+    let lastActivity = Date.now();
+    const markActive = () => { lastActivity = Date.now(); };
+    ACTIVITY_EVENTS.forEach(name => window.addEventListener(name, markActive, { passive: true }));
+    const timer = setInterval(() => {
+      if (Date.now() - lastActivity >= settings.idleLockMinutes * 60000) lockScreen('Idle timeout');
+    }, 5000);
+    return () => {
+      clearInterval(timer);
+      ACTIVITY_EVENTS.forEach(name => window.removeEventListener(name, markActive));
+    };
+  }, [currentUser, isLocked, settings.idleLockMinutes]);
 
-  const handleLogin = (user: User) => {
+  const handleLogin = async (account: UserAccount, remember: boolean) => {
+    try {
+      await startSession(account.id, remember);
+    } catch (err) {
+      console.error("Session start error:", err);
+    }
+    const user = toSessionUser(account);
+    logSessionEvent('LOGIN', user);
     setCurrentUser(user);
+    setIsLocked(false);
     setCurrentView(View.DASHBOARD);
   };
 
   const handleLogout = () => {
+    endSession().catch(err => console.error("Session end error:", err));
+    if (currentUser) logSessionEvent('LOGOUT', currentUser);
     setCurrentUser(null);
+    setIsLocked(false);
+  };
+
+  const handleUnlock = async (account: UserAccount) => {
+    if (!currentUser) return;
+    const user = toSessionUser(account);
+    const same = account.id === currentUser.id;
+    // The account may have been disabled, or this session revoked, while the lock screen was up
+    let resumed = !!users.find(u => u.id === account.id)?.active;
+    if (resumed) {
+      try {
+        resumed = same ? await setSessionLocked(false) : await switchSessionUser(account.id);
+      } catch (err) {
+        console.error(same ? "Session unlock error:" : "Session switch error:", err);
+      }
+    }
+    if (!resumed) {
+      alert("This session has ended. Sign in again.");
+      handleLogout();
+      return;
+    }
+    if (same) {
+      logSessionEvent('UNLOCK', user);
+    } else {
+      logSessionEvent('SWITCH', user, { previousUserId: currentUser.id, previousUserName: currentUser.fullName });
+      setCurrentUser(user);
+    }
+    setIsLocked(false);
+  };
+
+  const updateSettings = (next: StoreSettings) => {
+    if (!can(Permission.USERS_MANAGE)) return;
+    audit({ action: 'SETTINGS_UPDATE', entityType: 'settings', entityId: 'store', before: settings, after: next });
+    setSettings(next);
+    saveSettings(next).catch(err => console.error("Settings save error:", err));
   };
 
-  const isAdmin = currentUser?.role === UserRole.ADMIN;
+  const updateTaxSettings = (tax: TaxSettings) => {
+    if (!can(Permission.TAX_MANAGE)) return;
+    audit({ action: 'SETTINGS_UPDATE', entityType: 'settings', entityId: 'tax', before: settings.tax, after: tax });
+    const next = { ...settings, tax };
+    setSettings(next);
+    saveSettings(next).catch(err => console.error("Settings save error:", err));
+  };
+
+  const updateLoyaltySettings = (loyalty: LoyaltySettings) => {
+    if (!can(Permission.PROMOTIONS_MANAGE)) return;
+    audit({ action: 'SETTINGS_UPDATE', entityType: 'settings', entityId: 'loyalty', before: settings.loyalty, after: loyalty });
+    const next = { ...settings, loyalty };
+    setSettings(next);
+    saveSettings(next).catch(err => console.error("Settings save error:", err));
+  };
+
+  const updateReorderSettings = (reorder: ReorderSettings) => {
+    if (!can(Permission.PURCHASING_MANAGE)) return;
+    audit({ action: 'SETTINGS_UPDATE', entityType: 'settings', entityId: 'reorder', before: settings.reorder, after: reorder });
+    const next = { ...settings, reorder };
+    setSettings(next);
+    saveSettings(next).catch(err => console.error("Settings save error:", err));
+  };
+
+  const createInitialAdmin = (account: UserAccount) => {
+    // Only allowed while the directory is empty (first run)
+    if (users.length > 0) return;
+    setUsers([account]);
+  };
+
+  const can = (permission: Permission) => hasPermission(roles, currentUser, permission);
+
+  const audit = (record: AuditRecord) => {
+    if (currentUser) recordAudit(currentUser, record);
+  };
 
   const addCategory = (name: string) => {
-    if (!isAdmin) return;
+    if (!can(Permission.INVENTORY_EDIT)) return;
     if (!categories.includes(name)) {
+      audit({ action: 'CATEGORY_CREATE', entityType: 'category', entityId: name, after: name });
       setCategories(prev => [...prev, name].sort());
     }
   };
 
   const renameCategory = (oldName: string, newName: string) => {
-    if (!isAdmin) return;
+    if (!can(Permission.INVENTORY_EDIT)) return;
     if (categories.includes(newName)) return;
+    const moved = products.filter(p => p.category === oldName).length;
+    audit({ action: 'CATEGORY_RENAME', entityType: 'category', entityId: oldName, before: oldName, after: newName, summary: `${moved} product(s) moved` });
     setCategories(prev => prev.map(c => c === oldName ? newName : c).sort());
     setProducts(prev => prev.map(p => p.category === oldName ? { ...p, category: newName } : p));
   };
 
   const deleteCategory = (name: string) => {
-    if (!isAdmin) return;
+    if (!can(Permission.INVENTORY_EDIT)) return;
+    const moved = products.filter(p => p.category === name).length;
+    audit({ action: 'CATEGORY_DELETE', entityType: 'category', entityId: name, before: name, summary: `${moved} product(s) moved to General` });
     setCategories(prev => prev.filter(c => c !== name));
     setProducts(prev => prev.map(p => p.category === name ? { ...p, category: 'General' } : p));
     if (!categories.includes('General')) {
@@ -119,8 +313,19 @@ const App: React.FC = () => {
     }
   };
 
-  const addProduct = (p: Product) => {
-    if (!isAdmin) return;
+  const addProduct = (added: Product) => {
+    if (!can(Permission.INVENTORY_EDIT)) return;
+    // Same masking as updateProduct: prices and opening stock need their own permissions
+    const p: Product = {
+      ...added,
+      ...(can(Permission.PRICING_EDIT) ? {} : {
+        buyPrice: 0,
+        marginPercent: 0,
+        sellPrice: 0,
+        units: added.units.map(({ price, ...u }) => u)
+      }),
+      ...(can(Permission.INVENTORY_ADJUST) ? {} : { stock: 0, lots: [] })
+    };
     const initialLog: StockLog = {
       id: `LOG-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
       timestamp: new Date().toISOString(),
@@ -128,39 +333,58 @@ const App: React.FC = () => {
       amount: p.stock,
       balance: p.stock
     };
+    audit({ action: 'PRODUCT_CREATE', entityType: 'product', entityId: p.id, summary: p.name, after: withoutHistory(p) });
     setProducts(prev => [...prev, { ...p, stockHistory: [initialLog] }]);
     if (!categories.includes(p.category)) {
       addCategory(p.category);
     }
   };
   
-  const updateProduct = (updated: Product) => {
-    if (!isAdmin) return;
-    setProducts(prev => prev.map(p => {
-      if (p.id === updated.id) {
-        const history = p.stockHistory || [];
-        if (updated.stock !== p.stock) {
-          const log: StockLog = {
-            id: `LOG-${Date.now()}`,
-            timestamp: new Date().toISOString(),
-            type: 'ADJUSTMENT',
-            amount: updated.stock - p.stock,
-            balance: updated.stock,
-            reason: 'Manual Update'
-          };
-          return { ...updated, stockHistory: [log, ...history] };
-        }
-        return { ...updated, stockHistory: history };
-      }
-      return p;
-    }));
-    if (!categories.includes(updated.category)) {
-      addCategory(updated.category);
+  const updateProduct = (edited: Product) => {
+    if (!can(Permission.INVENTORY_EDIT)) return;
+    const current = products.find(p => p.id === edited.id);
+    if (!current) return;
+    // Fields the user may not change keep their stored values
+    const updated: Product = {
+      ...edited,
+      ...(can(Permission.PRICING_EDIT) ? {} : {
+        buyPrice: current.buyPrice,
+        marginPercent: current.marginPercent,
+        sellPrice: current.sellPrice,
+        units: edited.units.map(u => ({ ...u, price: current.units.find(c => c.id === u.id)?.price }))
+      }),
+      stock: can(Permission.INVENTORY_ADJUST) ? edited.stock : current.stock,
+      stockHistory: current.stockHistory,
+      lots: current.lots
+    };
+    if (updated.stock !== current.stock) {
+      const log: StockLog = {
+        id: `LOG-${Date.now()}`,
+        timestamp: new Date().toISOString(),
+        type: 'ADJUSTMENT',
+        amount: updated.stock - current.stock,
+        balance: updated.stock,
+        reason: 'Manual Update'
+      };
+      updated.stockHistory = [log, ...current.stockHistory];
+      updated.lots = fitLots(current.lots, updated.stock);
+    }
+    audit({ action: 'PRODUCT_UPDATE', entityType: 'product', entityId: current.id, summary: current.name, before: withoutHistory(current), after: withoutHistory(updated) });
+    setProducts(prev => prev.map(p => p.id === updated.id ? updated : p));
+    if (!categories.includes(edited.category)) {
+      addCategory(edited.category);
     }
   };
 
   const bulkUpdateProducts = (productIds: string[], updates: Partial<Product>) => {
-    if (!isAdmin) return;
+    if (!can(Permission.INVENTORY_EDIT)) return;
+    const touchesPricing = ['buyPrice', 'marginPercent', 'sellPrice'].some(key => key in updates);
+    if (touchesPricing && !can(Permission.PRICING_EDIT)) return;
+    const fields = Object.keys(updates) as (keyof Product)[];
+    const before = Object.fromEntries(products
+      .filter(p => productIds.includes(p.id))
+      .map(p => [p.id, Object.fromEntries(fields.map(f => [f, p[f]]))]));
+    audit({ action: 'PRODUCT_BULK_UPDATE', entityType: 'product', entityId: productIds.join(','), summary: `${productIds.length} product(s)`, before, after: updates });
     setProducts(prev => prev.map(p => {
       if (productIds.includes(p.id)) {
         return { ...p, ...updates };
@@ -170,7 +394,11 @@ const App: React.FC = () => {
   };
 
   const adjustStock = (id: string, amount: number, reason: string) => {
-    if (!isAdmin) return;
+    if (!can(Permission.INVENTORY_ADJUST)) return;
+    const current = products.find(p => p.id === id);
+    if (current) {
+      audit({ action: 'STOCK_ADJUST', entityType: 'product', entityId: id, summary: `${current.name}: ${reason}`, before: { stock: current.stock }, after: { stock: Math.max(0, current.stock + amount) } });
+    }
     setProducts(prev => prev.map(p => {
       if (p.id === id) {
         const newStock = Math.max(0, p.stock + amount);
@@ -185,56 +413,180 @@ const App: React.FC = () => {
         return { 
           ...p, 
           stock: newStock,
-          stockHistory: [log, ...(p.stockHistory || [])]
+          lots: fitLots(p.lots, newStock),
+          stockHistory: [log, ...p.stockHistory]
         };
       }
       return p;
     }));
   };
 
-  const deleteProduct = (id: string) => {
-    if (!isAdmin) return;
-    setProducts(prev => prev.filter(p => p.id !== id));
+  // Expired or spoiled lots leave stock as a whole, under their own log type
+  const writeOffLot = (productId: string, lotId: string, reason: string) => {
+    if (!can(Permission.INVENTORY_ADJUST)) return;
+    const current = products.find(p => p.id === productId);
+    const lot = current?.lots.find(l => l.id === lotId);
+    if (!current || !lot) return;
+    audit({ action: 'STOCK_WRITE_OFF', entityType: 'product', entityId: productId, summary: `${current.name}: ${reason}`, before: { stock: current.stock, lot }, after: { stock: current.stock - lot.quantity } });
+    setProducts(prev => prev.map(p => {
+      if (p.id !== productId) return p;
+      const newStock = p.stock - lot.quantity;
+      const log: StockLog = {
+        id: `LOG-${Date.now()}-${p.id}`,
+        timestamp: new Date().toISOString(),
+        type: 'WRITE_OFF',
+        amount: -lot.quantity,
+        balance: newStock,
+        reason,
+        lotId
+      };
+      return { ...p, stock: newStock, lots: p.lots.filter(l => l.id !== lotId), stockHistory: [log, ...p.stockHistory] };
+    }));
+  };
+
+  // Products are never removed: past sales and stock logs keep pointing at them
+  const archiveProduct = (id: string) => {
+    if (!can(Permission.INVENTORY_DELETE)) return;
+    const current = products.find(p => p.id === id);
+    if (!current || current.archivedAt) return;
+    const archivedAt = new Date().toISOString();
+    audit({ action: 'PRODUCT_ARCHIVE', entityType: 'product', entityId: id, summary: current.name, before: { archivedAt: null }, after: { archivedAt } });
+    setProducts(prev => prev.map(p => p.id === id ? { ...p, archivedAt } : p));
+  };
+
+  const restoreProduct = (id: string) => {
+    if (!can(Permission.INVENTORY_DELETE)) return;
+    const current = products.find(p => p.id === id);
+    if (!current || !current.archivedAt) return;
+    audit({ action: 'PRODUCT_RESTORE', entityType: 'product', entityId: id, summary: current.name, before: { archivedAt: current.archivedAt }, after: { archivedAt: null } });
+    setProducts(prev => prev.map(p => {
+      if (p.id === id) {
+        const { archivedAt, ...restored } = p;
+        return restored;
+      }
+      return p;
+    }));
   };
 
-  const completeSale = (sale: Sale) => {
+  const canExempt = (ref: string | undefined, customerId: string | undefined) =>
+    canExemptSale(ref, customerId ? customers.find(c => c.id === customerId) : undefined, can(Permission.SALES_DISCOUNT));
+
+  // Order invoices pass takeStock false: their goods left the shelf with each delivery
+  const completeSale = (sale: Sale, takeStock = true): boolean => {
+    if (!can(Permission.SALES_CREATE)) return false;
+    // Promotions apply on their own; anything the cashier keyed in needs the discount permission
+    const hasManualDiscount = !!sale.cartDiscount || sale.items.some(item => item.lineDiscount);
+    if (takeStock && hasManualDiscount && !can(Permission.SALES_DISCOUNT)) return false;
+    // Invoices carry the exemption their order was checked for when it was saved
+    if (takeStock && !canExempt(sale.taxExemptRef, sale.customerId)) return false;
+    // Each On Account payment becomes a charge on that customer's ledger
+    const charges = sale.payments.filter(p => p.method === 'On Account');
+    const chargedCustomers = charges.map(p => customers.find(c => c.id === p.customerId));
+    if (chargedCustomers.some((customer, idx) => !customer || checkCredit(customer, accountBalance(accountEntries, customer.id), charges[idx].amount).status === 'BLOCK')) return false;
+    // Points can only be spent by the sale's own customer, and only what they hold
+    const redeemed = sale.payments.filter(p => p.method === 'Points');
+    if (redeemed.some(p => !p.customerId || p.customerId !== sale.customerId)) return false;
+    if (sale.customerId && pointsInPayments(redeemed) > loyaltyBalance(loyaltyEntries, sale.customerId)) return false;
     const timestamp = new Date().toISOString();
-    const processedSale = { ...sale, processedBy: currentUser?.fullName };
+    // Stamped here rather than in the POS so a cashier switch mid-cart credits whoever completes it
+    // Invoiced orders were picked and costed as each delivery left the shelf
+    const picked = takeStock ? allocateLots(sale.items, products) : undefined;
+    const processedSale = {
+      ...sale,
+      ...(picked ? { items: costItems(picked.items, products, settings.costing.valuation) } : {}),
+      processedBy: currentUser?.fullName,
+      processedById: currentUser?.id
+    };
+    audit({ action: 'SALE_CREATE', entityType: 'sale', entityId: sale.id, summary: `${sale.items.length} item(s), ${sale.total.toFixed(2)}`, after: processedSale });
     
-    setProducts(prev => prev.map(p => {
-      const soldItem = sale.items.find(item => item.productId === p.id);
-      if (soldItem) {
-        const newStock = p.stock - soldItem.quantity;
+    if (takeStock) setProducts(prev => prev.map(p => {
+      // Pack sizes are converted to base units; one product may span several lines
+      const soldUnits = baseUnitsInCart(sale.items, p.id);
+      if (soldUnits > 0) {
+        const newStock = p.stock - soldUnits;
         const log: StockLog = {
           id: `LOG-${Date.now()}-${p.id}`,
           timestamp: timestamp,
           type: 'SALE',
-          amount: -soldItem.quantity,
+          amount: -soldUnits,
           balance: newStock
         };
         return { 
           ...p, 
           stock: newStock,
-          stockHistory: [log, ...(p.stockHistory || [])]
+          lots: picked?.lots.get(p.id) ?? p.lots,
+          stockHistory: [log, ...p.stockHistory]
         };
       }
       return p;
     }));
     setSales(prev => [processedSale, ...prev]);
+    if (sale.quotationId) {
+      setQuotations(prev => prev.map(q => q.id === sale.quotationId && q.status !== 'ACCEPTED' ? { ...q, status: 'ACCEPTED' as const, saleId: sale.id } : q));
+    }
+    if (charges.length > 0) {
+      setAccountEntries(prev => [...prev, ...charges.map(p => ({
+        id: `ACC-${Date.now()}-${p.id}`,
+        customerId: p.customerId!,
+        timestamp,
+        type: 'CHARGE' as const,
+        amount: p.amount,
+        saleId: sale.id,
+        ...(p.reference ? { reference: p.reference } : {}),
+        recordedBy: currentUser?.fullName,
+        recordedById: currentUser?.id
+      }))]);
+    }
+    const customerId = sale.customerId;
+    if (customerId && (redeemed.length > 0 || sale.pointsEarned)) {
+      const expiresAt = expiryFor(settings.loyalty, timestamp);
+      // Redemptions are listed first so they draw on points held before this sale
+      const loyaltyLog: LoyaltyEntry[] = [
+        ...redeemed.map(p => ({
+          id: `LOY-${Date.now()}-${p.id}`,
+          customerId,
+          timestamp,
+          type: 'REDEEM' as const,
+          points: p.points || 0,
+          saleId: sale.id
+        })),
+        ...(sale.pointsEarned ? [{
+          id: `LOY-${Date.now()}-${sale.id}`,
+          customerId,
+          timestamp,
+          type: 'EARN' as const,
+          points: sale.pointsEarned,
+          saleId: sale.id,
+          ...(expiresAt ? { expiresAt } : {})
+        }] : [])
+      ];
+      setLoyaltyEntries(prev => [...prev, ...loyaltyLog.filter(e => e.points > 0)]);
+    }
+    return true;
   };
 
-  const processReturn = (saleId: string, returns: { productId: string, quantity: number }[]) => {
-    if (!isAdmin) return;
+  const processReturn = (saleId: string, returns: ReturnLine[]) => {
+    if (!can(Permission.SALES_REFUND)) return;
+    const sale = sales.find(s => s.id === saleId);
+    if (!sale) return;
+    audit({
+      action: 'SALE_RETURN',
+      entityType: 'sale',
+      entityId: saleId,
+      summary: `${returns.reduce((acc, r) => acc + r.quantity, 0)} unit(s) returned`,
+      before: sale.items.map(i => ({ productId: i.productId, unitId: i.unitId, returnedQuantity: i.returnedQuantity })),
+      after: returns
+    });
     setSales(prev => prev.map(s => {
       if (s.id === saleId) {
         return {
           ...s,
           items: s.items.map(item => {
-            const returnInfo = returns.find(r => r.productId === item.productId);
+            const returnInfo = returns.find(r => sameLine(r, item));
             if (returnInfo) {
               return {
                 ...item,
-                returnedQuantity: (item.returnedQuantity || 0) + returnInfo.quantity
+                returnedQuantity: item.returnedQuantity + returnInfo.quantity
               };
             }
             return item;
@@ -244,22 +596,64 @@ const App: React.FC = () => {
       return s;
     }));
 
+    // Points earned on the returned units are taken back from the sale's own lot
+    const reversedPoints = returns.reduce((acc, ret) => {
+      const line = sale.items.find(item => sameLine(item, ret));
+      return acc + (line ? pointsToReverse(line, ret.quantity) : 0);
+    }, 0);
+    const earnEntry = loyaltyEntries.find(e => e.type === 'EARN' && e.saleId === saleId);
+    if (sale.customerId && reversedPoints > 0) {
+      const customerId = sale.customerId;
+      setLoyaltyEntries(prev => [...prev, {
+        id: `LOY-RET-${Date.now()}-${saleId}`,
+        customerId,
+        timestamp: new Date().toISOString(),
+        type: 'REVERSE',
+        points: reversedPoints,
+        saleId,
+        ...(earnEntry ? { lotId: earnEntry.id } : {})
+      }]);
+    }
+
+    // Goods charged to an account come off what the customer owes
+    const charge = accountEntries.find(e => e.type === 'CHARGE' && e.saleId === saleId);
+    const credit = returnCredit(sale, returns, accountEntries);
+    if (charge && credit > 0) {
+      setAccountEntries(prev => [...prev, {
+        id: `ACC-RET-${Date.now()}-${saleId}`,
+        customerId: charge.customerId,
+        timestamp: new Date().toISOString(),
+        type: 'CREDIT',
+        amount: credit,
+        saleId,
+        note: `Return from Sale #${saleId.slice(-6)}`,
+        recordedBy: currentUser?.fullName,
+        recordedById: currentUser?.id
+      }]);
+    }
+
     returns.forEach(ret => {
+      const line = sale.items.find(item => sameLine(item, ret));
+      if (!line) return;
+      const units = ret.quantity * line.unitFactor;
       setProducts(prev => prev.map(p => {
         if (p.id === ret.productId) {
-          const newStock = p.stock + ret.quantity;
+          const newStock = p.stock + units;
           const log: StockLog = {
             id: `LOG-RET-${Date.now()}-${p.id}`,
             timestamp: new Date().toISOString(),
             type: 'RESTOCK',
-            amount: ret.quantity,
+            amount: units,
             balance: newStock,
-            reason: `Return from Sale #${saleId.slice(-6)}`
+            reason: `Return from Sale #${saleId.slice(-6)}`,
+            // Returned goods go back on the shelf at what they cost when sold
+            ...(line.cost !== undefined ? { unitCost: line.cost / (line.quantity * line.unitFactor) } : {})
           };
           return {
             ...p,
             stock: newStock,
-            stockHistory: [log, ...(p.stockHistory || [])]
+            lots: line.lots ? returnToLots(p.lots, line.lots, line.returnedQuantity * line.unitFactor, units, log.timestamp) : p.lots,
+            stockHistory: [log, ...p.stockHistory]
           };
         }
         return p;
@@ -267,30 +661,70 @@ const App: React.FC = () => {
     });
   };
 
-  const restockProduct = (id: string, amount: number) => {
-    if (!isAdmin) return;
+  // A known unit cost moves the buy price by the configured costing method
+  // Lot details open or top up a lot; stock received without them stays untracked
+  const restockProduct = (id: string, amount: number, unitCost?: number, purchaseOrderId?: string, lot?: LotDetails) => {
+    if (!can(Permission.INVENTORY_ADJUST)) return;
+    const costed = (p: Product) => {
+      if (unitCost === undefined) return {};
+      const buyPrice = nextBuyPrice(p, amount, unitCost, settings.costing.method);
+      return { buyPrice, sellPrice: settings.costing.repriceOnReceipt ? sellPriceFor(buyPrice, p.marginPercent) : p.sellPrice };
+    };
+    const current = products.find(p => p.id === id);
+    if (current) {
+      const pricing = costed(current);
+      audit({
+        action: 'STOCK_RESTOCK',
+        entityType: 'product',
+        entityId: id,
+        summary: purchaseOrderId ? `${current.name} (PO #${purchaseOrderId.slice(-8)})` : current.name,
+        before: { stock: current.stock, ...('buyPrice' in pricing ? { buyPrice: current.buyPrice, sellPrice: current.sellPrice } : {}) },
+        after: { stock: current.stock + amount, ...pricing }
+      });
+    }
     setProducts(prev => prev.map(p => {
       if (p.id === id) {
         const newStock = p.stock + amount;
+        const timestamp = new Date().toISOString();
+        const received = lot && (lot.lotNumber || lot.expiryDate) ? receiveLot(p.lots, amount, lot, `LOT-${Date.now()}-${p.id}`, timestamp) : undefined;
         const log: StockLog = {
           id: `LOG-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
-          timestamp: new Date().toISOString(),
+          timestamp,
           type: 'RESTOCK',
           amount: amount,
-          balance: newStock
+          balance: newStock,
+          ...(purchaseOrderId ? { reason: `Received on PO #${purchaseOrderId.slice(-8)}`, purchaseOrderId } : {}),
+          ...(unitCost !== undefined ? { unitCost } : {}),
+          ...(received ? { lotId: received.lotId } : {})
         };
         return { 
           ...p, 
+          ...costed(p),
           stock: newStock,
+          ...(received ? { lots: received.lots } : {}),
           lastRestocked: new Date().toISOString(),
-          stockHistory: [log, ...(p.stockHistory || [])]
+          stockHistory: [log, ...p.stockHistory]
         };
       }
       return p;
     }));
   };
 
-  const saveCustomer = (customer: Customer) => {
+  // The POS adds customers while selling; editing one needs the customer permission
+  const saveCustomer = (edited: Customer): boolean => {
+    const current = customers.find(c => c.id === edited.id);
+    if (!can(Permission.CUSTOMERS_MANAGE) && (current || !can(Permission.SALES_CREATE))) return false;
+    // Credit terms are only changed through updateCreditTerms
+    const { creditLimit, creditPolicy, taxExemptRef, ...details } = edited;
+    // A certificate on file lets sales go tax-free, so only staff who may waive tax set one
+    const exemptRef = can(Permission.SALES_DISCOUNT) || can(Permission.CUSTOMERS_MANAGE) ? taxExemptRef : current?.taxExemptRef;
+    const customer: Customer = {
+      ...details,
+      ...(exemptRef ? { taxExemptRef: exemptRef } : {}),
+      ...(current?.creditLimit !== undefined ? { creditLimit: current.creditLimit } : {}),
+      ...(current?.creditPolicy ? { creditPolicy: current.creditPolicy } : {})
+    };
+    audit({ action: 'CUSTOMER_SAVE', entityType: 'customer', entityId: customer.id, summary: customer.name, before: customers.find(c => c.id === customer.id), after: customer });
     setCustomers(prev => {
       const exists = prev.find(c => c.id === customer.id);
       if (exists) {
@@ -298,10 +732,390 @@ const App: React.FC = () => {
       }
       return [...prev, customer];
     });
+    return true;
   };
 
+  const mergeCustomers = (keptId: string, duplicateIds: string[]) => {
+    if (!can(Permission.CUSTOMERS_MANAGE)) return;
+    const kept = customers.find(c => c.id === keptId);
+    const duplicates = customers.filter(c => duplicateIds.includes(c.id) && c.id !== keptId);
+    if (!kept || duplicates.length === 0) return;
+    const merged = mergeCustomerRecords(kept, duplicates);
+    const movedEntries = accountEntries.filter(e => duplicateIds.includes(e.customerId)).length;
+    audit({ action: 'CUSTOMER_MERGE', entityType: 'customer', entityId: keptId, summary: `${duplicates.length} duplicate(s) merged into ${kept.name}`, before: [kept, ...duplicates], after: merged });
+    setCustomers(prev => prev.filter(c => !duplicates.some(d => d.id === c.id)).map(c => c.id === keptId ? merged : c));
+    // Whatever the duplicates owed now sits on the kept account
+    if (movedEntries > 0) {
+      setAccountEntries(prev => prev.map(e => duplicateIds.includes(e.customerId) ? { ...e, customerId: keptId } : e));
+    }
+    if (loyaltyEntries.some(e => duplicateIds.includes(e.customerId))) {
+      setLoyaltyEntries(prev => prev.map(e => duplicateIds.includes(e.customerId) ? { ...e, customerId: keptId } : e));
+    }
+    // Their sales move too, along with sales the shared number left unlinked
+    const phone = normalizePhone(merged.phone);
+    setSales(prev => prev.map(s => {
+      const relink = (s.customerId && duplicateIds.includes(s.customerId)) ||
+        (!s.customerId && phone && s.customerPhone && normalizePhone(s.customerPhone) === phone);
+      return relink ? { ...s, customerId: keptId } : s;
+    }));
+  };
+
+  const importCustomers = (records: Customer[]) => {
+    if (!can(Permission.CUSTOMERS_MANAGE) || records.length === 0) return;
+    const created = records.filter(r => !customers.some(c => c.id === r.id)).length;
+    audit({ action: 'CUSTOMER_IMPORT', entityType: 'customer', entityId: records.map(r => r.id).join(','), summary: `${created} created, ${records.length - created} updated`, after: records });
+    setCustomers(prev => [
+      ...prev.map(c => records.find(r => r.id === c.id) || c),
+      ...records.filter(r => !prev.some(c => c.id === r.id))
+    ]);
+  };
+
+  const updateCreditTerms = (customerId: string, creditLimit: number | undefined, creditPolicy: CreditPolicy) => {
+    if (!can(Permission.ACCOUNTS_MANAGE)) return;
+    const current = customers.find(c => c.id === customerId);
+    if (!current) return;
+    const { creditLimit: _, creditPolicy: __, ...details } = current;
+    const updated: Customer = { ...details, ...(creditLimit !== undefined ? { creditLimit } : {}), creditPolicy };
+    audit({ action: 'CUSTOMER_SAVE', entityType: 'customer', entityId: customerId, summary: `${current.name}: credit terms`, before: current, after: updated });
+    setCustomers(prev => prev.map(c => c.id === customerId ? updated : c));
+  };
+
+  const collectAccountPayment = (customerId: string, amount: number, method: PaymentMethod, reference?: string, note?: string) => {
+    if (!can(Permission.ACCOUNTS_MANAGE)) return;
+    const customer = customers.find(c => c.id === customerId);
+    if (!customer || !(amount > 0) || method === 'On Account') return;
+    const entry: AccountEntry = {
+      id: `ACC-${Date.now()}`,
+      customerId,
+      timestamp: new Date().toISOString(),
+      type: 'PAYMENT',
+      amount,
+      method,
+      ...(reference ? { reference } : {}),
+      ...(note ? { note } : {}),
+      recordedBy: currentUser?.fullName,
+      recordedById: currentUser?.id
+    };
+    const balance = accountBalance(accountEntries, customerId);
+    audit({ action: 'ACCOUNT_PAYMENT', entityType: 'customer', entityId: customerId, summary: `${customer.name}: ${amount.toFixed(2)} by ${method}`, before: { balance }, after: entry });
+    setAccountEntries(prev => [...prev, entry]);
+  };
+
+  const savePromotion = (promotion: Promotion) => {
+    if (!can(Permission.PROMOTIONS_MANAGE)) return;
+    audit({ action: 'PROMOTION_SAVE', entityType: 'promotion', entityId: promotion.id, summary: promotion.name, before: promotions.find(p => p.id === promotion.id), after: promotion });
+    setPromotions(prev => {
+      const exists = prev.find(p => p.id === promotion.id);
+      if (exists) {
+        return prev.map(p => p.id === promotion.id ? promotion : p);
+      }
+      return [...prev, promotion];
+    });
+  };
+
+  // Whoever parks a cart is recorded so the next cashier knows whose customer it is
+  const parkCart = (cart: ParkedCart) => {
+    if (!can(Permission.SALES_CREATE)) return;
+    setParkedCarts(prev => [...prev, { ...cart, parkedBy: currentUser?.fullName, parkedById: currentUser?.id }]);
+  };
+
+  const removeParkedCart = (id: string) => {
+    if (!can(Permission.SALES_CREATE)) return;
+    setParkedCarts(prev => prev.filter(c => c.id !== id));
+  };
+
+  const saveQuotation = (quotation: Quotation) => {
+    if (!can(Permission.SALES_CREATE)) return;
+    const current = quotations.find(q => q.id === quotation.id);
+    const stored = current ? quotation : { ...quotation, createdBy: currentUser?.fullName, createdById: currentUser?.id };
+    audit({ action: 'QUOTATION_SAVE', entityType: 'quotation', entityId: quotation.id, summary: `${stored.status}, ${stored.total.toFixed(2)}`, before: current, after: stored });
+    setQuotations(prev => current ? prev.map(q => q.id === quotation.id ? stored : q) : [...prev, stored]);
+  };
+
+  // Converted quotations stay on file next to their sale
+  const deleteQuotation = (id: string) => {
+    if (!can(Permission.SALES_CREATE)) return;
+    const current = quotations.find(q => q.id === id);
+    if (!current || current.status === 'ACCEPTED') return;
+    audit({ action: 'QUOTATION_DELETE', entityType: 'quotation', entityId: id, before: current });
+    setQuotations(prev => prev.filter(q => q.id !== id));
+  };
+
+  const convertQuotation = (id: string) => {
+    if (!can(Permission.SALES_CREATE)) return;
+    const quotation = quotations.find(q => q.id === id);
+    if (!quotation || !canConvertQuotation(quotation)) return;
+    setConvertingQuoteId(id);
+    setCurrentView(View.POS);
+  };
+
+  const saveSalesOrder = (order: SalesOrder): boolean => {
+    if (!can(Permission.SALES_CREATE)) return false;
+    const hasManualDiscount = !!order.cartDiscount || order.items.some(item => item.lineDiscount);
+    if (hasManualDiscount && !can(Permission.SALES_DISCOUNT)) return false;
+    if (!canExempt(order.taxExemptRef, order.customerId)) return false;
+    const stored = { ...order, createdBy: currentUser?.fullName, createdById: currentUser?.id };
+    audit({ action: 'ORDER_CREATE', entityType: 'order', entityId: order.id, summary: `${order.items.length} item(s), ${order.total.toFixed(2)}`, after: stored });
+    setSalesOrders(prev => [...prev, stored]);
+    return true;
+  };
+
+  // Each delivery takes its goods off the shelf; the reservation shrinks by the same amount
+  const deliverSalesOrder = (orderId: string, lines: DeliveryLine[], note?: string) => {
+    if (!can(Permission.SALES_CREATE)) return;
+    const order = salesOrders.find(o => o.id === orderId);
+    if (!order) return;
+    let items: SalesOrderItem[];
+    try {
+      items = applyDelivery(order, lines, products);
+    } catch (err) {
+      console.error("Delivery error:", err);
+      return;
+    }
+    // Lot picks and cost of goods build up on each line with every delivery
+    const outgoing = lines.map(line => {
+      const { lots, cost, ...item } = order.items.find(i => sameLine(i, line))!;
+      return { ...item, quantity: line.quantity };
+    });
+    const picked = allocateLots(outgoing, products);
+    const costed = costItems(picked.items, products, settings.costing.valuation);
+    items = items.map(item => {
+      const delivered = costed.filter(c => sameLine(c, item));
+      const cost = delivered.reduce((acc, c) => acc + c.cost, 0);
+      const lots = delivered.flatMap(c => c.lots || []);
+      return {
+        ...item,
+        ...(cost > 0 ? { cost: roundMoney((item.cost || 0) + cost) } : {}),
+        ...(lots.length > 0 ? { lots: [...(item.lots || []), ...lots] } : {})
+      };
+    });
+    const timestamp = new Date().toISOString();
+    const delivery: Delivery = {
+      id: `DEL-${Date.now()}`,
+      timestamp,
+      lines,
+      ...(note ? { note } : {}),
+      deliveredBy: currentUser?.fullName,
+      deliveredById: currentUser?.id
+    };
+    audit({ action: 'ORDER_DELIVER', entityType: 'order', entityId: orderId, summary: `Delivery ${order.deliveries.length + 1}`, before: { status: order.status }, after: delivery });
+    setProducts(prev => prev.map(p => {
+      const leaving = deliveryUnits(order, lines, p.id);
+      if (leaving <= 0) return p;
+      const newStock = p.stock - leaving;
+      const log: StockLog = {
+        id: `LOG-${Date.now()}-${p.id}`,
+        timestamp,
+        type: 'SALE',
+        amount: -leaving,
+        balance: newStock,
+        reason: `Order #${orderId.slice(-8)} delivery`
+      };
+      return { ...p, stock: newStock, lots: picked.lots.get(p.id) ?? p.lots, stockHistory: [log, ...p.stockHistory] };
+    }));
+    setSalesOrders(prev => prev.map(o => o.id === orderId ? { ...o, items, status: orderStatusFor(items), deliveries: [...o.deliveries, delivery] } : o));
+  };
+
+  const cancelSalesOrder = (orderId: string) => {
+    if (!can(Permission.SALES_CREATE)) return;
+    const order = salesOrders.find(o => o.id === orderId);
+    if (!order || !isOrderOpen(order)) return;
+    audit({ action: 'ORDER_CANCEL', entityType: 'order', entityId: orderId, summary: order.customerName, before: { status: order.status } });
+    setSalesOrders(prev => prev.map(o => o.id === orderId ? { ...o, status: 'CANCELLED' as const, cancelledAt: new Date().toISOString() } : o));
+  };
+
+  // The invoice is a sale for what was delivered; stock already left with the deliveries
+  const invoiceSalesOrder = (orderId: string, payment: Payment) => {
+    if (!can(Permission.SALES_CREATE)) return;
+    const order = salesOrders.find(o => o.id === orderId);
+    if (!order || !canInvoiceOrder(order)) return;
+    const invoice = invoiceLines(order, products, settings.tax);
+    if (payment.amount !== invoice.total) return;
+    const sale: Sale = {
+      id: `SALE-${Date.now()}`,
+      timestamp: new Date().toISOString(),
+      ...(order.customerId ? { customerId: order.customerId } : {}),
+      customerName: order.customerName,
+      customerAddress: order.customerAddress,
+      customerPhone: order.customerPhone,
+      ...invoice,
+      pricesIncludeTax: order.pricesIncludeTax,
+      ...(order.taxExemptRef ? { taxExemptRef: order.taxExemptRef } : {}),
+      payments: [payment],
+      change: changeDue([payment]),
+      salesOrderId: order.id
+    };
+    if (!completeSale(sale, false)) return;
+    setSalesOrders(prev => prev.map(o => o.id === orderId ? { ...o, saleId: sale.id, status: o.status === 'FULFILLED' ? 'INVOICED' as const : o.status } : o));
+  };
+
+  const saveSupplier = (supplier: Supplier) => {
+    if (!can(Permission.PURCHASING_MANAGE)) return;
+    audit({ action: 'SUPPLIER_SAVE', entityType: 'supplier', entityId: supplier.id, summary: supplier.name, before: suppliers.find(s => s.id === supplier.id), after: supplier });
+    setSuppliers(prev => prev.some(s => s.id === supplier.id) ? prev.map(s => s.id === supplier.id ? supplier : s) : [...prev, supplier]);
+    // Open orders carry the supplier's name for printing, so keep it current
+    setPurchaseOrders(prev => prev.map(o => o.supplierId === supplier.id && o.status !== 'CLOSED' && o.supplierName !== supplier.name ? { ...o, supplierName: supplier.name } : o));
+  };
+
+  // Suppliers with purchase orders on file stay, so the orders keep their history
+  const deleteSupplier = (id: string) => {
+    if (!can(Permission.PURCHASING_MANAGE)) return;
+    if (purchaseOrders.some(o => o.supplierId === id)) return;
+    const current = suppliers.find(s => s.id === id);
+    audit({ action: 'SUPPLIER_DELETE', entityType: 'supplier', entityId: id, summary: current?.name, before: current });
+    setSuppliers(prev => prev.filter(s => s.id !== id));
+    // Products it supplied fall back to the unassigned reorder group
+    setProducts(prev => prev.map(p => {
+      if (p.supplierId !== id) return p;
+      const { supplierId, ...rest } = p;
+      return rest;
+    }));
+  };
+
+  // Orders can be edited until they are sent; after that only receipts and closing change them
+  const savePurchaseOrder = (order: PurchaseOrder) => {
+    if (!can(Permission.PURCHASING_MANAGE)) return;
+    const current = purchaseOrders.find(o => o.id === order.id);
+    if (current && current.status !== 'DRAFT') return;
+    const stored = current ? order : { ...order, createdBy: currentUser?.fullName, createdById: currentUser?.id };
+    audit({ action: 'PO_SAVE', entityType: 'purchaseOrder', entityId: order.id, summary: `${order.supplierName}, ${order.status}`, before: current, after: stored });
+    setPurchaseOrders(prev => current ? prev.map(o => o.id === order.id ? stored : o) : [...prev, stored]);
+  };
+
+  const deletePurchaseOrder = (id: string) => {
+    if (!can(Permission.PURCHASING_MANAGE)) return;
+    const current = purchaseOrders.find(o => o.id === id);
+    if (!current || current.status !== 'DRAFT') return;
+    audit({ action: 'PO_DELETE', entityType: 'purchaseOrder', entityId: id, summary: current.supplierName, before: current });
+    setPurchaseOrders(prev => prev.filter(o => o.id !== id));
+  };
+
+  // Received goods go through the normal restock, so each line gets a RESTOCK log pointing at the order
+  const receivePurchaseOrder = (orderId: string, entered: Omit<ReceiptLine, 'landedCost'>[], charges: LandedCharge[], note?: string) => {
+    if (!can(Permission.INVENTORY_ADJUST)) return;
+    const order = purchaseOrders.find(o => o.id === orderId);
+    if (!order) return;
+    const lines = landReceipt(entered, charges);
+    let items: PurchaseOrderItem[];
+    try {
+      items = applyReceipt(order, lines, products);
+    } catch (err) {
+      console.error("Receipt error:", err);
+      return;
+    }
+    const timestamp = new Date().toISOString();
+    const receipt: PurchaseReceipt = {
+      id: `GRN-${Date.now()}`,
+      timestamp,
+      lines,
+      charges,
+      ...(note ? { note } : {}),
+      receivedBy: currentUser?.fullName,
+      receivedById: currentUser?.id
+    };
+    const status = purchaseStatusFor(items);
+    audit({ action: 'PO_RECEIVE', entityType: 'purchaseOrder', entityId: orderId, summary: `Receipt ${order.receipts.length + 1}`, before: { status: order.status }, after: receipt });
+    lines.forEach(line => restockProduct(line.productId, line.quantity, line.landedCost, orderId, { lotNumber: line.lotNumber, expiryDate: line.expiryDate }));
+    setPurchaseOrders(prev => prev.map(o => o.id === orderId ? {
+      ...o,
+      items,
+      status,
+      receipts: [...o.receipts, receipt],
+      ...(status === 'CLOSED' ? { closedAt: timestamp } : {})
+    } : o));
+  };
+
+  // Closing short writes off whatever the supplier never shipped
+  const closePurchaseOrder = (id: string) => {
+    if (!can(Permission.PURCHASING_MANAGE)) return;
+    const current = purchaseOrders.find(o => o.id === id);
+    if (!current || !canReceiveOrder(current)) return;
+    audit({ action: 'PO_CLOSE', entityType: 'purchaseOrder', entityId: id, summary: current.supplierName, before: { status: current.status } });
+    setPurchaseOrders(prev => prev.map(o => o.id === id ? { ...o, status: 'CLOSED' as const, closedAt: new Date().toISOString() } : o));
+  };
+
+  const deletePromotion = (id: string) => {
+    if (!can(Permission.PROMOTIONS_MANAGE)) return;
+    const current = promotions.find(p => p.id === id);
+    audit({ action: 'PROMOTION_DELETE', entityType: 'promotion', entityId: id, summary: current?.name, before: current });
+    setPromotions(prev => prev.filter(p => p.id !== id));
+  };
+
+  const restoreBackup = (data: Collections) => {
+    if (!can(Permission.BACKUP_MANAGE)) return;
+    const counts = (c: Collections) => Object.fromEntries(Object.entries(c).map(([store, records]) => [store, records.length]));
+    audit({
+      action: 'BACKUP_RESTORE',
+      entityType: 'backup',
+      entityId: new Date().toISOString(),
+      before: counts({ products, sales, customers, categories, users, roles, promotions, accountEntries, loyaltyEntries, parkedCarts, quotations, salesOrders, suppliers, purchaseOrders }),
+      after: counts(data)
+    });
+    setProducts(data.products);
+    setSales(data.sales);
+    setCustomers(data.customers);
+    setCategories(data.categories);
+    setUsers(data.users);
+    setRoles(data.roles);
+    setPromotions(data.promotions);
+    setAccountEntries(data.accountEntries);
+    setLoyaltyEntries(data.loyaltyEntries);
+    setParkedCarts(data.parkedCarts);
+    setQuotations(data.quotations);
+    setSalesOrders(data.salesOrders);
+    setSuppliers(data.suppliers);
+    setPurchaseOrders(data.purchaseOrders);
+  };
+
+  const saveUser = (account: UserAccount) => {
+    if (!can(Permission.USERS_MANAGE)) return;
+    const before = users.find(u => u.id === account.id);
+    audit({ action: 'USER_SAVE', entityType: 'user', entityId: account.id, summary: account.username, before, after: account });
+    // Sessions signed in with the old credentials, or by a now disabled account, stop working
+    if (before && (!account.active || before.passwordHash !== account.passwordHash || before.pinHash !== account.pinHash)) {
+      revokeSessions(account.id, account.active).catch(err => console.error("Session revoke error:", err));
+    }
+    setUsers(prev => {
+      const exists = prev.find(u => u.id === account.id);
+      if (exists) {
+        return prev.map(u => u.id === account.id ? account : u);
+      }
+      return [...prev, account];
+    });
+  };
+
+  const saveRole = (role: Role) => {
+    if (!can(Permission.USERS_MANAGE)) return;
+    audit({ action: 'ROLE_SAVE', entityType: 'role', entityId: role.id, summary: role.name, before: roles.find(r => r.id === role.id), after: role });
+    setRoles(prev => {
+      const exists = prev.find(r => r.id === role.id);
+      if (exists) {
+        return prev.map(r => r.id === role.id ? role : r);
+      }
+      return [...prev, role];
+    });
+  };
+
+  const deleteRole = (id: string) => {
+    if (!can(Permission.USERS_MANAGE)) return;
+    if (users.some(u => u.role === id)) return;
+    audit({ action: 'ROLE_DELETE', entityType: 'role', entityId: id, before: roles.find(r => r.id === id) });
+    setRoles(prev => prev.filter(r => r.id !== id));
+  };
+
+  if (!isLoaded) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50">
+        <div className="text-center">
+          <div className="w-12 h-12 border-4 border-indigo-100 border-t-indigo-600 rounded-full animate-spin mb-4 mx-auto"></div>
+          <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Loading Store Data</p>
+        </div>
+      </div>
+    );
+  }
+
   if (!currentUser) {
-    return <Login onLogin={handleLogin} />;
+    return <Login users={users} onLogin={handleLogin} onCreateAdmin={createInitialAdmin} />;
   }
 
   const renderView = () => {
@@ -319,25 +1133,163 @@ const App: React.FC = () => {
             onAdd={addProduct} 
             onUpdate={updateProduct} 
             onBulkUpdate={bulkUpdateProducts}
-            onDelete={deleteProduct}
-            onRestock={restockProduct}
+            onArchive={archiveProduct}
+            onRestore={restoreProduct}
+            onRestock={(id, amount, unitCost, lot) => restockProduct(id, amount, unitCost, undefined, lot)}
+            onWriteOffLot={writeOffLot}
             onAdjust={adjustStock}
-            userRole={currentUser.role}
+            taxClasses={settings.tax.classes}
+            suppliers={suppliers}
+            reserved={reserved}
+            can={can}
           />
         );
       case View.POS:
-        return (
+        return can(Permission.SALES_CREATE) ? (
           <POS 
-            products={products} 
+            products={products.filter(p => !p.archivedAt)} 
             customers={customers}
+            accountEntries={accountEntries}
+            loyaltyEntries={loyaltyEntries}
+            promotions={promotions}
+            taxSettings={settings.tax}
+            loyaltySettings={settings.loyalty}
+            parkedCarts={parkedCarts}
+            parkedCartHours={settings.parkedCartHours}
+            onParkCart={parkCart}
+            onRemoveParkedCart={removeParkedCart}
+            convertingQuote={quotations.find(q => q.id === convertingQuoteId)}
+            onQuoteLoaded={() => setConvertingQuoteId(null)}
+            onSaveQuote={saveQuotation}
+            reserved={reserved}
+            onSaveOrder={saveSalesOrder}
             onSaveCustomer={saveCustomer}
             onComplete={completeSale} 
+            canDiscount={can(Permission.SALES_DISCOUNT)}
+            isLocked={isLocked}
           />
-        );
+        ) : <Dashboard products={products} sales={sales} setView={setCurrentView} />;
       case View.REPORTS:
-        return isAdmin ? <Reports products={products} sales={sales} /> : <Dashboard products={products} sales={sales} setView={setCurrentView} />;
+        return can(Permission.REPORTS_VIEW) ? <Reports products={products} sales={sales} valuation={settings.costing.valuation} /> : <Dashboard products={products} sales={sales} setView={setCurrentView} />;
       case View.HISTORY:
-        return <SalesHistory sales={sales} onProcessReturn={processReturn} userRole={currentUser.role} />;
+        return <SalesHistory sales={sales} onProcessReturn={processReturn} can={can} />;
+      case View.BACKUP:
+        return can(Permission.BACKUP_MANAGE) ? (
+          <Backup
+            collections={{ products, sales, customers, categories, users, roles, promotions, accountEntries, loyaltyEntries, parkedCarts, quotations, salesOrders, suppliers, purchaseOrders }}
+            userName={currentUser.fullName}
+            onRestore={restoreBackup}
+          />
+        ) : <Dashboard products={products} sales={sales} setView={setCurrentView} />;
+      case View.PROMOTIONS:
+        return can(Permission.PROMOTIONS_MANAGE) ? (
+          <Promotions
+            promotions={promotions}
+            products={products}
+            categories={categories}
+            loyalty={settings.loyalty}
+            onSave={savePromotion}
+            onDelete={deletePromotion}
+            onSaveLoyalty={updateLoyaltySettings}
+          />
+        ) : <Dashboard products={products} sales={sales} setView={setCurrentView} />;
+      case View.TAXES:
+        return can(Permission.TAX_MANAGE) ? (
+          <Taxes settings={settings.tax} categories={categories} onSave={updateTaxSettings} />
+        ) : <Dashboard products={products} sales={sales} setView={setCurrentView} />;
+      case View.CUSTOMERS:
+        return can(Permission.CUSTOMERS_MANAGE) ? (
+          <Customers
+            customers={customers}
+            sales={sales}
+            accountEntries={accountEntries}
+            loyaltyEntries={loyaltyEntries}
+            onSave={saveCustomer}
+            onMerge={mergeCustomers}
+            onImport={importCustomers}
+          />
+        ) : <Dashboard products={products} sales={sales} setView={setCurrentView} />;
+      case View.QUOTATIONS:
+        return can(Permission.SALES_CREATE) ? (
+          <Quotations
+            quotations={quotations}
+            onSave={saveQuotation}
+            onDelete={deleteQuotation}
+            onConvert={convertQuotation}
+          />
+        ) : <Dashboard products={products} sales={sales} setView={setCurrentView} />;
+      case View.ORDERS:
+        return can(Permission.SALES_CREATE) ? (
+          <SalesOrders
+            orders={salesOrders}
+            products={products}
+            customers={customers}
+            accountEntries={accountEntries}
+            taxSettings={settings.tax}
+            onDeliver={deliverSalesOrder}
+            onCancel={cancelSalesOrder}
+            onInvoice={invoiceSalesOrder}
+          />
+        ) : <Dashboard products={products} sales={sales} setView={setCurrentView} />;
+      case View.SUPPLIERS:
+        return can(Permission.PURCHASING_MANAGE) ? (
+          <Suppliers
+            suppliers={suppliers}
+            purchaseOrders={purchaseOrders}
+            onSave={saveSupplier}
+            onDelete={deleteSupplier}
+          />
+        ) : <Dashboard products={products} sales={sales} setView={setCurrentView} />;
+      case View.PURCHASE_ORDERS:
+        return can(Permission.INVENTORY_ADJUST) || can(Permission.PURCHASING_MANAGE) ? (
+          <PurchaseOrders
+            orders={purchaseOrders}
+            suppliers={suppliers}
+            products={products}
+            onSave={savePurchaseOrder}
+            onDelete={deletePurchaseOrder}
+            onReceive={receivePurchaseOrder}
+            onClose={closePurchaseOrder}
+            can={can}
+          />
+        ) : <Dashboard products={products} sales={sales} setView={setCurrentView} />;
+      case View.REORDER:
+        return can(Permission.PURCHASING_MANAGE) ? (
+          <Reorder
+            products={products}
+            suppliers={suppliers}
+            purchaseOrders={purchaseOrders}
+            reserved={reserved}
+            settings={settings.reorder}
+            onUpdateSettings={updateReorderSettings}
+            onSaveOrder={savePurchaseOrder}
+          />
+        ) : <Dashboard products={products} sales={sales} setView={setCurrentView} />;
+      case View.ACCOUNTS:
+        return can(Permission.ACCOUNTS_MANAGE) ? (
+          <Accounts
+            customers={customers}
+            entries={accountEntries}
+            sales={sales}
+            onCollect={collectAccountPayment}
+            onUpdateTerms={updateCreditTerms}
+          />
+        ) : <Dashboard products={products} sales={sales} setView={setCurrentView} />;
+      case View.USERS:
+        return can(Permission.USERS_MANAGE) ? (
+          <Users
+            users={users}
+            roles={roles}
+            currentUserId={currentUser.id}
+            settings={settings}
+            onSave={saveUser}
+            onSaveRole={saveRole}
+            onDeleteRole={deleteRole}
+            onUpdateSettings={updateSettings}
+          />
+        ) : <Dashboard products={products} sales={sales} setView={setCurrentView} />;
+      case View.AUDIT:
+        return can(Permission.AUDIT_VIEW) ? <AuditLog users={users} /> : <Dashboard products={products} sales={sales} setView={setCurrentView} />;
       default:
         return <Dashboard products={products} sales={sales} setView={setCurrentView} />;
     }
@@ -346,7 +1298,15 @@ const App: React.FC = () => {
   return (
     <div className="flex min-h-screen bg-slate-50">
       <div className="no-print">
-        <Sidebar currentView={currentView} setView={setCurrentView} user={currentUser} onLogout={handleLogout} />
+        <Sidebar
+          currentView={currentView}
+          setView={setCurrentView}
+          user={currentUser}
+          roleName={resolveRole(roles, currentUser.role)?.name || currentUser.role}
+          can={can}
+          onLock={() => lockScreen('Locked manually')}
+          onLogout={handleLogout}
+        />
       </div>
       <main className="flex-1 p-4 md:p-8 overflow-y-auto relative">
         <div className="max-w-7xl mx-auto">
@@ -363,6 +1323,10 @@ const App: React.FC = () => {
           </div>
         </div>
       </main>
+
+      {isLocked && (
+        <LockScreen users={users} lockedUser={currentUser} onUnlock={handleUnlock} onSignOut={handleLogout} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,408 @@
+import React, { useMemo, useState } from 'react';
+import { AccountEntry, CreditPolicy, Customer, PaymentMethod, Sale } from '../types';
+import { AGING_BUCKETS, accountBalance, ageBalance, buildStatement, entriesFor } from '../services/accounts';
+import { COLLECTION_METHODS } from '../services/payments';
+import { dayKey, roundMoney } from '../services/pricing';
+
+interface AccountsProps {
+  customers: Customer[];
+  entries: AccountEntry[];
+  sales: Sale[];
+  onCollect: (customerId: string, amount: number, method: PaymentMethod, reference?: string, note?: string) => void;
+  onUpdateTerms: (customerId: string, creditLimit: number | undefined, creditPolicy: CreditPolicy) => void;
+}
+
+const Accounts: React.FC<AccountsProps> = ({ customers, entries, sales, onCollect, onUpdateTerms }) => {
+  const [activeTab, setActiveTab] = useState<'balances' | 'aging'>('balances');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [onlyOwing, setOnlyOwing] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [collectMethod, setCollectMethod] = useState<PaymentMethod>('Cash');
+  const [statementFrom, setStatementFrom] = useState(() => {
+    const d = new Date();
+    d.setDate(d.getDate() - 30);
+    return dayKey(d);
+  });
+  const [statementTo, setStatementTo] = useState(() => dayKey(new Date()));
+
+  const balances = useMemo(() => new Map(customers.map(c => [c.id, accountBalance(entries, c.id)])), [customers, entries]);
+
+  const filteredCustomers = customers
+    .filter(c => !onlyOwing || (balances.get(c.id) || 0) !== 0)
+    .filter(c => c.name.toLowerCase().includes(searchTerm.toLowerCase()) || c.phone.includes(searchTerm))
+    .sort((a, b) => (balances.get(b.id) || 0) - (balances.get(a.id) || 0));
+
+  const aging = useMemo(() => {
+    const now = new Date();
+    return customers
+      .map(c => ({ customer: c, aged: ageBalance(entries, c.id, now) }))
+      .filter(row => row.aged.total > 0)
+      .sort((a, b) => b.aged.total - a.aged.total);
+  }, [customers, entries]);
+
+  const agingTotals = AGING_BUCKETS.map((_, idx) => roundMoney(aging.reduce((acc, row) => acc + row.aged.buckets[idx], 0)));
+  const totalOutstanding = roundMoney(agingTotals.reduce((acc, v) => acc + v, 0));
+
+  const selected = customers.find(c => c.id === selectedId);
+  const selectedBalance = selected ? balances.get(selected.id) || 0 : 0;
+  const ledger = selected ? entriesFor(entries, selected.id).reverse() : [];
+  const statement = selected ? buildStatement(entries, selected.id, statementFrom, statementTo) : null;
+  // Aged as it stood at the end of the statement period
+  const statementEnd = new Date(`${statementTo}T23:59:59.999`);
+  const statementAging = selected ? ageBalance(entries.filter(e => new Date(e.timestamp) <= statementEnd), selected.id, statementEnd) : null;
+
+  const describeEntry = (entry: AccountEntry) => {
+    if (entry.type === 'CHARGE') {
+      const sale = sales.find(s => s.id === entry.saleId);
+      return entry.saleId ? `Sale #${entry.saleId.slice(-6)}${sale ? ` (${sale.items.length} item(s))` : ''}` : 'Charge';
+    }
+    if (entry.type === 'CREDIT') return entry.saleId ? `Return credit, Sale #${entry.saleId.slice(-6)}` : 'Credit';
+    return `Payment by ${entry.method}${entry.reference ? ` #${entry.reference}` : ''}`;
+  };
+
+  const handleCollect = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!selected) return;
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    const amount = roundMoney(parseFloat(formData.get('amount') as string));
+    if (!(amount > 0)) {
+      alert("Enter an amount greater than zero.");
+      return;
+    }
+    if (amount > selectedBalance && !confirm(`This is more than the $${Math.max(0, selectedBalance).toFixed(2)} owed. Keep the difference as credit on the account?`)) return;
+    const reference = (formData.get('reference') as string).trim();
+    const note = (formData.get('note') as string).trim();
+    onCollect(selected.id, amount, collectMethod, reference || undefined, note || undefined);
+    form.reset();
+  };
+
+  const handleTerms = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!selected) return;
+    const formData = new FormData(e.currentTarget);
+    const rawLimit = (formData.get('creditLimit') as string).trim();
+    const creditLimit = rawLimit === '' ? undefined : parseFloat(rawLimit);
+    if (creditLimit !== undefined && !(creditLimit >= 0)) {
+      alert("Enter a credit limit of zero or more, or leave it blank for no limit.");
+      return;
+    }
+    onUpdateTerms(selected.id, creditLimit, formData.get('creditPolicy') as CreditPolicy);
+  };
+
+  const handleExportAgingCSV = () => {
+    const headers = ['Customer', 'Phone', ...AGING_BUCKETS.map(b => b.label), 'Total'];
+    const rows = aging.map(({ customer, aged }) => [
+      `"${customer.name}"`,
+      customer.phone,
+      ...aged.buckets.map(v => v.toFixed(2)),
+      aged.total.toFixed(2)
+    ]);
+    const csvContent = [headers, ...rows].map(e => e.join(",")).join("\n");
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.setAttribute("href", url);
+    link.setAttribute("download", `sarkar_aging_${dayKey(new Date())}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div className="space-y-6 animate-fadeIn">
+      <div className="no-print space-y-6">
+        <header className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-3xl font-bold text-slate-800 tracking-tight">Accounts</h2>
+            <p className="text-slate-500 font-medium">Customer credit, payments collected and what is still owed.</p>
+          </div>
+          <div className="flex bg-white p-1 rounded-xl border border-slate-200 shadow-sm">
+            {(['balances', 'aging'] as const).map(tab => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`px-4 py-2 rounded-lg text-xs font-black uppercase transition ${activeTab === tab ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-600'}`}
+              >
+                {tab === 'balances' ? 'Balances' : 'Aging'}
+              </button>
+            ))}
+          </div>
+        </header>
+
+        {activeTab === 'balances' ? (
+          <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+            <div className="lg:col-span-2 bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+              <div className="p-4 border-b space-y-3">
+                <input
+                  type="text"
+                  placeholder="Search by name or phone..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="w-full px-4 py-2.5 bg-slate-50 border border-slate-200 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                <label className="flex items-center gap-2 text-[10px] font-black uppercase text-slate-500 cursor-pointer">
+                  <input type="checkbox" checked={onlyOwing} onChange={(e) => setOnlyOwing(e.target.checked)} className="rounded text-indigo-600" />
+                  Only customers with a balance
+                </label>
+              </div>
+              <div className="divide-y divide-slate-100 max-h-[600px] overflow-y-auto">
+                {filteredCustomers.map(c => {
+                  const balance = balances.get(c.id) || 0;
+                  return (
+                    <button
+                      key={c.id}
+                      onClick={() => setSelectedId(c.id)}
+                      className={`w-full text-left px-4 py-3 flex justify-between items-center transition ${selectedId === c.id ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+                    >
+                      <div className="min-w-0">
+                        <p className="font-bold text-sm text-slate-800 truncate">{c.name}</p>
+                        <p className="text-[10px] font-bold text-slate-400">{c.phone}</p>
+                      </div>
+                      <div className="text-right shrink-0">
+                        <p className={`font-black text-sm ${balance > 0 ? 'text-rose-600' : balance < 0 ? 'text-emerald-600' : 'text-slate-400'}`}>${balance.toFixed(2)}</p>
+                        {c.creditLimit !== undefined && (
+                          <p className={`text-[10px] font-bold ${balance > c.creditLimit ? 'text-rose-500' : 'text-slate-400'}`}>of ${c.creditLimit.toFixed(2)}</p>
+                        )}
+                      </div>
+                    </button>
+                  );
+                })}
+                {filteredCustomers.length === 0 && (
+                  <p className="p-8 text-center text-xs font-bold text-slate-400 uppercase italic">No accounts to show</p>
+                )}
+              </div>
+            </div>
+
+            <div className="lg:col-span-3 space-y-6">
+              {selected && statement ? (
+                <>
+                  <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <h3 className="text-xl font-black text-slate-800">{selected.name}</h3>
+                        <p className="text-xs font-bold text-slate-400">{selected.phone}{selected.address && ` · ${selected.address}`}</p>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-[10px] font-black uppercase text-slate-400 tracking-widest">{selectedBalance >= 0 ? 'Owes' : 'In Credit'}</p>
+                        <p className={`text-3xl font-black ${selectedBalance > 0 ? 'text-rose-600' : 'text-emerald-600'}`}>${Math.abs(selectedBalance).toFixed(2)}</p>
+                      </div>
+                    </div>
+
+                    <form key={selected.id} onSubmit={handleTerms} className="mt-6 grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+                      <div>
+                        <label className="text-[10px] font-black uppercase text-slate-400">Credit Limit</label>
+                        <input
+                          name="creditLimit"
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          placeholder="No limit"
+                          defaultValue={selected.creditLimit ?? ''}
+                          className="w-full mt-1 px-3 py-2 border-2 border-slate-100 rounded-lg text-sm font-bold outline-none focus:border-indigo-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-[10px] font-black uppercase text-slate-400">Over the Limit</label>
+                        <select
+                          name="creditPolicy"
+                          defaultValue={selected.creditPolicy || 'BLOCK'}
+                          className="w-full mt-1 px-3 py-2 border-2 border-slate-100 rounded-lg text-sm font-bold outline-none focus:border-indigo-500 bg-white"
+                        >
+                          <option value="BLOCK">Block the sale</option>
+                          <option value="WARN">Warn the cashier</option>
+                        </select>
+                      </div>
+                      <button type="submit" className="bg-slate-900 text-white px-4 py-2.5 rounded-lg font-bold text-xs uppercase hover:bg-slate-800 transition">Save Terms</button>
+                    </form>
+                  </div>
+
+                  <form onSubmit={handleCollect} className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-4">
+                    <h3 className="font-bold text-slate-800">Collect Payment</h3>
+                    <div className="grid grid-cols-3 gap-2">
+                      {COLLECTION_METHODS.map(method => (
+                        <button
+                          key={method}
+                          type="button"
+                          onClick={() => setCollectMethod(method)}
+                          className={`py-2 rounded-lg text-[10px] font-black uppercase border-2 transition ${collectMethod === method ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-slate-100 text-slate-400 hover:border-indigo-200'}`}
+                        >
+                          {method}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                      <input
+                        name="amount"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        required
+                        placeholder={selectedBalance > 0 ? selectedBalance.toFixed(2) : 'Amount'}
+                        className="px-3 py-2 border-2 border-slate-100 rounded-lg text-sm font-bold outline-none focus:border-indigo-500"
+                      />
+                      <input name="reference" placeholder="Reference" className="px-3 py-2 border-2 border-slate-100 rounded-lg text-sm font-bold outline-none focus:border-indigo-500" />
+                      <input name="note" placeholder="Note" className="px-3 py-2 border-2 border-slate-100 rounded-lg text-sm font-bold outline-none focus:border-indigo-500" />
+                    </div>
+                    <button type="submit" className="w-full bg-emerald-600 text-white py-3 rounded-xl font-bold hover:bg-emerald-700 transition">Record Payment</button>
+                  </form>
+
+                  <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+                    <div className="p-6 border-b flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                      <h3 className="font-bold text-slate-800">Ledger</h3>
+                      <div className="flex items-center gap-2">
+                        <input type="date" value={statementFrom} onChange={(e) => setStatementFrom(e.target.value)} className="px-2 py-1.5 border border-slate-200 rounded-lg text-xs font-bold" />
+                        <span className="text-xs text-slate-400">to</span>
+                        <input type="date" value={statementTo} onChange={(e) => setStatementTo(e.target.value)} className="px-2 py-1.5 border border-slate-200 rounded-lg text-xs font-bold" />
+                        <button onClick={() => window.print()} className="bg-slate-900 text-white px-4 py-2 rounded-lg font-bold text-xs uppercase">Print Statement</button>
+                      </div>
+                    </div>
+                    <table className="w-full text-left">
+                      <thead className="bg-slate-50 text-[10px] font-black uppercase text-slate-400">
+                        <tr>
+                          <th className="px-6 py-3">Date</th>
+                          <th className="px-6 py-3">Detail</th>
+                          <th className="px-6 py-3 text-right">Amount</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100 text-sm font-medium">
+                        {ledger.map(entry => (
+                          <tr key={entry.id}>
+                            <td className="px-6 py-3 text-slate-500 text-xs">{new Date(entry.timestamp).toLocaleString()}</td>
+                            <td className="px-6 py-3">
+                              <p className="font-bold text-slate-700">{describeEntry(entry)}</p>
+                              {(entry.note || entry.recordedBy) && (
+                                <p className="text-[10px] font-bold text-slate-400">{[entry.note, entry.recordedBy && `by ${entry.recordedBy}`].filter(Boolean).join(' · ')}</p>
+                              )}
+                            </td>
+                            <td className={`px-6 py-3 text-right font-black ${entry.type === 'CHARGE' ? 'text-rose-600' : 'text-emerald-600'}`}>
+                              {entry.type === 'CHARGE' ? '+' : '-'}${entry.amount.toFixed(2)}
+                            </td>
+                          </tr>
+                        ))}
+                        {ledger.length === 0 && (
+                          <tr><td colSpan={3} className="px-6 py-8 text-center text-xs font-bold text-slate-400 uppercase italic">Nothing on account yet</td></tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              ) : (
+                <div className="bg-white p-12 rounded-2xl shadow-sm border border-dashed border-slate-200 text-center">
+                  <p className="text-xs font-bold text-slate-400 uppercase">Select a customer to see their account</p>
+                </div>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {AGING_BUCKETS.map((bucket, idx) => (
+                <div key={bucket.label} className="bg-white p-5 rounded-2xl shadow-sm border border-slate-200">
+                  <p className="text-[10px] font-black uppercase text-slate-400 tracking-widest">{bucket.label}</p>
+                  <p className={`text-2xl font-black mt-1 ${idx === AGING_BUCKETS.length - 1 ? 'text-rose-600' : 'text-slate-800'}`}>${agingTotals[idx].toFixed(2)}</p>
+                </div>
+              ))}
+              <div className="bg-indigo-600 p-5 rounded-2xl shadow-sm text-white">
+                <p className="text-[10px] font-black uppercase text-indigo-200 tracking-widest">Outstanding</p>
+                <p className="text-2xl font-black mt-1">${totalOutstanding.toFixed(2)}</p>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+              <div className="p-6 border-b flex justify-between items-center">
+                <div>
+                  <h3 className="font-bold text-slate-800">Aging Report</h3>
+                  <p className="text-xs font-medium text-slate-500 mt-1">Payments settle the oldest charges first; what is left is aged from its sale date.</p>
+                </div>
+                <button onClick={handleExportAgingCSV} className="bg-white border border-slate-200 text-slate-600 px-4 py-2.5 rounded-xl font-bold hover:bg-slate-50 transition">Export CSV</button>
+              </div>
+              <table className="w-full text-left">
+                <thead className="bg-slate-50 text-[10px] font-black uppercase text-slate-400">
+                  <tr>
+                    <th className="px-6 py-3">Customer</th>
+                    {AGING_BUCKETS.map(b => <th key={b.label} className="px-6 py-3 text-right">{b.label}</th>)}
+                    <th className="px-6 py-3 text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 text-sm font-medium">
+                  {aging.map(({ customer, aged }) => (
+                    <tr key={customer.id} className="hover:bg-slate-50 cursor-pointer" onClick={() => { setSelectedId(customer.id); setActiveTab('balances'); }}>
+                      <td className="px-6 py-3">
+                        <p className="font-bold text-slate-800">{customer.name}</p>
+                        <p className="text-[10px] font-bold text-slate-400">{customer.phone}</p>
+                      </td>
+                      {aged.buckets.map((amount, idx) => (
+                        <td key={idx} className={`px-6 py-3 text-right ${amount > 0 && idx === AGING_BUCKETS.length - 1 ? 'text-rose-600 font-bold' : 'text-slate-600'}`}>${amount.toFixed(2)}</td>
+                      ))}
+                      <td className="px-6 py-3 text-right font-black text-slate-800">${aged.total.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                  {aging.length === 0 && (
+                    <tr><td colSpan={AGING_BUCKETS.length + 2} className="px-6 py-8 text-center text-xs font-bold text-slate-400 uppercase italic">No outstanding balances</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {selected && statement && statementAging && activeTab === 'balances' && (
+        <div className="print-only bg-white p-10 font-mono text-[11px] leading-snug text-black">
+          <div className="text-center mb-8">
+            <h1 className="text-xl font-black uppercase tracking-tighter">SARKAR TRADE STOCK</h1>
+            <p>Quality Supply & Logistics</p>
+            <div className="border-t border-dashed border-black my-5"></div>
+            <p className="font-bold text-sm uppercase">STATEMENT OF ACCOUNT</p>
+            <p>{statementFrom} to {statementTo}</p>
+          </div>
+          <div className="mb-6">
+            <p className="font-bold">{selected.name}</p>
+            <p>{selected.phone}</p>
+            {selected.address && <p>{selected.address}</p>}
+          </div>
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-black">
+                <th className="text-left py-1">Date</th>
+                <th className="text-left py-1">Detail</th>
+                <th className="text-right py-1">Charge</th>
+                <th className="text-right py-1">Payment / Credit</th>
+                <th className="text-right py-1">Balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td className="py-1" colSpan={4}>Opening balance</td>
+                <td className="py-1 text-right">{statement.openingBalance.toFixed(2)}</td>
+              </tr>
+              {statement.lines.map(line => (
+                <tr key={line.id}>
+                  <td className="py-1">{new Date(line.timestamp).toLocaleDateString()}</td>
+                  <td className="py-1">{describeEntry(line)}</td>
+                  <td className="py-1 text-right">{line.type === 'CHARGE' ? line.amount.toFixed(2) : ''}</td>
+                  <td className="py-1 text-right">{line.type !== 'CHARGE' ? line.amount.toFixed(2) : ''}</td>
+                  <td className="py-1 text-right">{line.balance.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="border-t border-dashed border-black my-5"></div>
+          <div className="flex justify-between font-black text-base uppercase"><span>Amount Due:</span> <span>${statement.closingBalance.toFixed(2)}</span></div>
+          <div className="grid grid-cols-3 gap-4 mt-4">
+            {AGING_BUCKETS.map((bucket, idx) => (
+              <div key={bucket.label}>
+                <p className="uppercase">{bucket.label}</p>
+                <p className="font-bold">${statementAging.buckets[idx].toFixed(2)}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Accounts;
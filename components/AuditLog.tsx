@@ -0,0 +1,265 @@
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { AuditEntry, AuditAction, AuditEntityType, UserAccount } from '../types';
+import { loadAuditLog, changedFields, ChainVerification } from '../services/audit';
+
+interface AuditLogProps {
+  users: UserAccount[];
+}
+
+const PAGE_SIZE = 100;
+
+const ACTIONS: AuditAction[] = [
+  'PRODUCT_CREATE', 'PRODUCT_UPDATE', 'PRODUCT_BULK_UPDATE', 'PRODUCT_ARCHIVE', 'PRODUCT_RESTORE',
+  'STOCK_ADJUST', 'STOCK_RESTOCK', 'STOCK_WRITE_OFF',
+  'CATEGORY_CREATE', 'CATEGORY_RENAME', 'CATEGORY_DELETE',
+  'SALE_CREATE', 'SALE_RETURN',
+  'CUSTOMER_SAVE', 'CUSTOMER_MERGE', 'CUSTOMER_IMPORT', 'ACCOUNT_PAYMENT',
+  'PROMOTION_SAVE', 'PROMOTION_DELETE',
+  'QUOTATION_SAVE', 'QUOTATION_DELETE',
+  'ORDER_CREATE', 'ORDER_DELIVER', 'ORDER_CANCEL',
+  'SUPPLIER_SAVE', 'SUPPLIER_DELETE',
+  'PO_SAVE', 'PO_DELETE', 'PO_RECEIVE', 'PO_CLOSE',
+  'USER_SAVE', 'ROLE_SAVE', 'ROLE_DELETE',
+  'SETTINGS_UPDATE', 'BACKUP_RESTORE'
+];
+
+const ENTITY_TYPES: AuditEntityType[] = ['product', 'category', 'sale', 'quotation', 'order', 'supplier', 'purchaseOrder', 'customer', 'promotion', 'user', 'role', 'settings', 'backup'];
+
+const actionStyle = (action: AuditAction) => {
+  if (action.endsWith('DELETE') || action.endsWith('ARCHIVE')) return 'bg-rose-50 text-rose-600';
+  if (action.endsWith('CREATE')) return 'bg-emerald-50 text-emerald-600';
+  if (action === 'BACKUP_RESTORE' || action === 'SALE_RETURN') return 'bg-amber-50 text-amber-600';
+  return 'bg-indigo-50 text-indigo-600';
+};
+
+const formatValue = (value: unknown) => value === undefined ? '—' : JSON.stringify(value, null, 2);
+
+const AuditLog: React.FC<AuditLogProps> = ({ users }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [verification, setVerification] = useState<ChainVerification | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedEntry, setSelectedEntry] = useState<AuditEntry | null>(null);
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [userFilter, setUserFilter] = useState('All');
+  const [actionFilter, setActionFilter] = useState('All');
+  const [entityFilter, setEntityFilter] = useState('All');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const refresh = () => {
+    setIsLoading(true);
+    loadAuditLog()
+      .then(({ entries, verification }) => {
+        setEntries(entries);
+        setVerification(verification);
+      })
+      .catch(err => {
+        console.error("Audit log load error:", err);
+        alert("Could not read the audit log.");
+      })
+      .finally(() => setIsLoading(false));
+  };
+
+  useEffect(refresh, []);
+
+  const filteredEntries = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    return entries
+      .filter(e => {
+        const day = e.timestamp.slice(0, 10);
+        return (userFilter === 'All' || e.userId === userFilter) &&
+          (actionFilter === 'All' || e.action === actionFilter) &&
+          (entityFilter === 'All' || e.entityType === entityFilter) &&
+          (!fromDate || day >= fromDate) &&
+          (!toDate || day <= toDate) &&
+          (!term || e.entityId.toLowerCase().includes(term) || e.summary?.toLowerCase().includes(term) || e.userName.toLowerCase().includes(term));
+      })
+      .reverse();
+  }, [entries, searchTerm, userFilter, actionFilter, entityFilter, fromDate, toDate]);
+
+  const download = (content: string, type: string, extension: string) => {
+    const blob = new Blob([content], { type });
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+    link.setAttribute("href", url);
+    link.setAttribute("download", `sarkar_audit_${new Date().toISOString().slice(0, 10)}.${extension}`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const handleExportCSV = () => {
+    const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+    const headers = ['Seq', 'Timestamp', 'User', 'Action', 'Entity Type', 'Entity ID', 'Summary', 'Before', 'After', 'Hash'];
+    const rows = filteredEntries.map(e => [
+      e.seq,
+      e.timestamp,
+      quote(e.userName),
+      e.action,
+      e.entityType,
+      quote(e.entityId),
+      quote(e.summary || ''),
+      quote(e.before === undefined ? '' : JSON.stringify(e.before)),
+      quote(e.after === undefined ? '' : JSON.stringify(e.after)),
+      e.hash
+    ]);
+    download([headers, ...rows].map(r => r.join(",")).join("\n"), 'text/csv;charset=utf-8;', 'csv');
+  };
+
+  // The full chain, unfiltered, so the export can be verified independently
+  const handleExportJSON = () => {
+    download(JSON.stringify({ exportedAt: new Date().toISOString(), verification, entries }, null, 2), 'application/json', 'json');
+  };
+
+  const staff = useMemo(() => {
+    const known = new Map(users.map(u => [u.id, u.fullName]));
+    entries.forEach(e => { if (!known.has(e.userId)) known.set(e.userId, e.userName); });
+    return Array.from(known.entries());
+  }, [users, entries]);
+
+  return (
+    <div className="space-y-6 animate-fadeIn">
+      <header className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-slate-800 tracking-tight">Audit Log</h2>
+          <p className="text-slate-500 font-medium">Append-only record of every change, chained so edits are detectable.</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={refresh} className="bg-white border border-slate-200 text-slate-600 px-4 py-2.5 rounded-xl font-bold hover:bg-slate-50 transition">Re-verify</button>
+          <button onClick={handleExportCSV} className="bg-white border border-slate-200 text-slate-600 px-4 py-2.5 rounded-xl font-bold hover:bg-slate-50 transition">Export CSV</button>
+          <button onClick={handleExportJSON} className="bg-indigo-600 text-white px-4 py-2.5 rounded-xl font-bold hover:bg-indigo-700 transition shadow-lg shadow-indigo-100">Export Chain</button>
+        </div>
+      </header>
+
+      {verification && (
+        verification.valid ? (
+          <div className="bg-emerald-50 border border-emerald-100 text-emerald-700 p-4 rounded-xl text-xs font-bold">
+            Chain intact: all {verification.count} entries verified.
+          </div>
+        ) : (
+          <div className="bg-rose-50 border border-rose-100 text-rose-600 p-4 rounded-xl text-xs font-bold">
+            Tampering detected: entry #{verification.brokenAt} does not match the chain. It or an earlier entry was altered, removed or reordered.
+          </div>
+        )
+      )}
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 border-b border-slate-100 grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3">
+          <input
+            type="text"
+            placeholder="Search entity, summary or staff..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="lg:col-span-2 px-4 py-2 bg-slate-50 border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <select value={userFilter} onChange={(e) => setUserFilter(e.target.value)} className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg font-bold text-slate-600 text-sm">
+            <option value="All">All Staff</option>
+            {staff.map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+          </select>
+          <select value={actionFilter} onChange={(e) => setActionFilter(e.target.value)} className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg font-bold text-slate-600 text-sm">
+            <option value="All">All Actions</option>
+            {ACTIONS.map(a => <option key={a} value={a}>{a}</option>)}
+          </select>
+          <select value={entityFilter} onChange={(e) => setEntityFilter(e.target.value)} className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg font-bold text-slate-600 text-sm capitalize">
+            <option value="All">All Records</option>
+            {ENTITY_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+          <div className="flex gap-2">
+            <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="w-full px-2 py-2 bg-slate-50 border border-slate-200 rounded-lg text-xs font-bold text-slate-600" title="From" />
+            <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="w-full px-2 py-2 bg-slate-50 border border-slate-200 rounded-lg text-xs font-bold text-slate-600" title="To" />
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-slate-50 text-slate-400 text-[10px] font-black uppercase tracking-widest">
+              <tr>
+                <th className="px-6 py-4">#</th>
+                <th className="px-6 py-4">Timestamp</th>
+                <th className="px-6 py-4">Staff</th>
+                <th className="px-6 py-4">Action</th>
+                <th className="px-6 py-4">Record</th>
+                <th className="px-6 py-4 text-right">Details</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 text-sm font-medium">
+              {filteredEntries.slice(0, visibleCount).map(e => (
+                <tr key={e.seq} className={`hover:bg-slate-50 transition-colors ${verification?.brokenAt !== undefined && e.seq >= verification.brokenAt ? 'bg-rose-50/50' : ''}`}>
+                  <td className="px-6 py-4 font-mono text-slate-400">{e.seq}</td>
+                  <td className="px-6 py-4 text-slate-400 whitespace-nowrap">{new Date(e.timestamp).toLocaleString()}</td>
+                  <td className="px-6 py-4 font-bold text-slate-700">{e.userName}</td>
+                  <td className="px-6 py-4">
+                    <span className={`text-[10px] font-black uppercase px-2 py-0.5 rounded ${actionStyle(e.action)}`}>{e.action}</span>
+                  </td>
+                  <td className="px-6 py-4 text-slate-600">
+                    <span className="text-[10px] font-black uppercase text-slate-400 mr-2">{e.entityType}</span>
+                    {e.summary || e.entityId}
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <button onClick={() => setSelectedEntry(e)} className="text-indigo-600 font-black text-xs uppercase hover:underline">View</button>
+                  </td>
+                </tr>
+              ))}
+              {!isLoading && filteredEntries.length === 0 && (
+                <tr><td colSpan={6} className="px-6 py-10 text-center text-slate-400 italic">No audit entries match these filters.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        {filteredEntries.length > visibleCount && (
+          <div className="p-4 border-t text-center">
+            <button onClick={() => setVisibleCount(prev => prev + PAGE_SIZE)} className="text-indigo-600 font-black text-xs uppercase hover:underline">
+              Show more ({filteredEntries.length - visibleCount} remaining)
+            </button>
+          </div>
+        )}
+      </div>
+
+      {selectedEntry && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl overflow-hidden animate-slideUp">
+            <div className="bg-slate-900 p-6 flex justify-between items-center text-white">
+              <h3 className="font-black uppercase tracking-tight">Entry #{selectedEntry.seq} · {selectedEntry.action}</h3>
+              <button onClick={() => setSelectedEntry(null)}><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" /></svg></button>
+            </div>
+            <div className="p-6 space-y-4 max-h-[75vh] overflow-y-auto custom-scrollbar">
+              <div className="grid grid-cols-2 gap-4 text-xs font-bold text-slate-600">
+                <p>Staff: <span className="text-slate-900">{selectedEntry.userName}</span></p>
+                <p>When: <span className="text-slate-900">{new Date(selectedEntry.timestamp).toLocaleString()}</span></p>
+                <p className="col-span-2">Record: <span className="font-mono text-slate-900 break-all">{selectedEntry.entityType} {selectedEntry.entityId}</span></p>
+                {selectedEntry.summary && <p className="col-span-2">Summary: <span className="text-slate-900">{selectedEntry.summary}</span></p>}
+              </div>
+              {changedFields(selectedEntry.before, selectedEntry.after).length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {changedFields(selectedEntry.before, selectedEntry.after).map(field => (
+                    <span key={field} className="text-[10px] font-black uppercase px-2 py-0.5 rounded bg-amber-50 text-amber-600">{field}</span>
+                  ))}
+                </div>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <p className="text-[10px] font-black uppercase text-slate-400 mb-1">Before</p>
+                  <pre className="bg-slate-50 p-3 rounded-xl text-[10px] font-mono text-slate-600 overflow-auto max-h-80">{formatValue(selectedEntry.before)}</pre>
+                </div>
+                <div>
+                  <p className="text-[10px] font-black uppercase text-slate-400 mb-1">After</p>
+                  <pre className="bg-slate-50 p-3 rounded-xl text-[10px] font-mono text-slate-600 overflow-auto max-h-80">{formatValue(selectedEntry.after)}</pre>
+                </div>
+              </div>
+              <div className="text-[10px] font-mono text-slate-400 break-all space-y-1">
+                <p>prev: {selectedEntry.prevHash}</p>
+                <p>hash: {selectedEntry.hash}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLog;
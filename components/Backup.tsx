@@ -0,0 +1,220 @@
+
+import React, { useState, useRef } from 'react';
+import { Collections, StoreName, STORE_NAMES } from '../services/db';
+import { createBackup, parseBackup, diffBackup, applyBackup, BackupError, ParsedBackup, RestoreMode } from '../services/backup';
+
+interface BackupProps {
+  collections: Collections;
+  userName: string;
+  onRestore: (data: Collections) => void;
+}
+
+const STORE_LABELS: Record<StoreName, string> = {
+  products: 'Products',
+  sales: 'Sales',
+  customers: 'Customers',
+  categories: 'Categories',
+  users: 'Staff Accounts',
+  roles: 'Roles',
+  promotions: 'Promotions',
+  accountEntries: 'Account Ledger',
+  loyaltyEntries: 'Loyalty Points',
+  parkedCarts: 'Parked Carts',
+  quotations: 'Quotations',
+  salesOrders: 'Sales Orders',
+  suppliers: 'Suppliers',
+  purchaseOrders: 'Purchase Orders'
+};
+
+const Backup: React.FC<BackupProps> = ({ collections, userName, onRestore }) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<ParsedBackup | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [error, setError] = useState<{ message: string; details: string[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const backup = await createBackup(collections, userName);
+      const blob = new Blob([JSON.stringify(backup)], { type: 'application/json' });
+      const link = document.createElement("a");
+      const url = URL.createObjectURL(blob);
+      link.setAttribute("href", url);
+      link.setAttribute("download", `sarkar_backup_${new Date().toISOString().slice(0, 10)}.json`);
+      link.style.visibility = 'hidden';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (err) {
+      console.error("Backup export error:", err);
+      alert("Failed to create the backup file.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setPendingRestore(null);
+    setIsConfirming(false);
+    try {
+      setPendingRestore(await parseBackup(await file.text()));
+    } catch (err) {
+      if (err instanceof BackupError) {
+        setError({ message: err.message, details: err.details });
+      } else {
+        console.error("Backup read error:", err);
+        setError({ message: 'Could not read the backup file.', details: [] });
+      }
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const confirmRestore = () => {
+    if (!pendingRestore) return;
+    onRestore(applyBackup(collections, pendingRestore, restoreMode));
+    setPendingRestore(null);
+    setIsConfirming(false);
+    alert("Backup restored successfully.");
+  };
+
+  const diff = pendingRestore ? diffBackup(collections, pendingRestore) : null;
+
+  return (
+    <div className="space-y-6 animate-fadeIn">
+      <header>
+        <h2 className="text-3xl font-bold text-slate-800 tracking-tight">Backup & Restore</h2>
+        <p className="text-slate-500 font-medium">Move store data to a new machine or recover after clearing the browser.</p>
+      </header>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-5">
+          <div>
+            <h3 className="font-bold text-slate-800">Export Backup</h3>
+            <p className="text-xs text-slate-400 font-medium mt-1">A single checksummed JSON file with everything stored on this device.</p>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {STORE_NAMES.map(store => (
+              <div key={store} className="bg-slate-50 p-3 rounded-xl border border-slate-100">
+                <p className="text-[10px] font-black uppercase text-slate-400 tracking-widest">{STORE_LABELS[store]}</p>
+                <p className="text-xl font-black text-slate-800">{collections[store].length}</p>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="w-full py-4 bg-indigo-600 text-white font-black rounded-2xl shadow-xl shadow-indigo-100 hover:bg-indigo-700 transition uppercase tracking-widest text-xs disabled:opacity-50"
+          >
+            {isExporting ? 'Preparing...' : 'Download Backup'}
+          </button>
+        </div>
+
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-5">
+          <div>
+            <h3 className="font-bold text-slate-800">Restore Backup</h3>
+            <p className="text-xs text-slate-400 font-medium mt-1">The file is verified and previewed before anything changes.</p>
+          </div>
+          <div
+            onClick={() => fileInputRef.current?.click()}
+            className="flex flex-col items-center justify-center py-10 border-4 border-dashed border-slate-100 rounded-[2rem] bg-slate-50 hover:bg-indigo-50/50 transition cursor-pointer group"
+          >
+            <svg className="w-10 h-10 text-indigo-600 mb-4 group-hover:scale-110 transition" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a2 2 0 002 2h12a2 2 0 002-2v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
+            <p className="font-black text-slate-800 uppercase tracking-widest text-xs text-center px-4">Choose Backup File</p>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileChange} />
+          </div>
+
+          {error && (
+            <div className="bg-rose-50 border border-rose-100 text-rose-600 p-4 rounded-xl text-xs font-bold space-y-2">
+              <p>{error.message}</p>
+              {error.details.length > 0 && (
+                <ul className="max-h-40 overflow-y-auto font-mono text-[10px] font-medium space-y-0.5 custom-scrollbar">
+                  {error.details.slice(0, 50).map((d, idx) => <li key={idx}>{d}</li>)}
+                  {error.details.length > 50 && <li>...and {error.details.length - 50} more</li>}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {pendingRestore && diff && (
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden animate-fadeIn">
+          <div className="p-6 border-b flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <div>
+              <h3 className="font-bold text-slate-800">Restore Preview</h3>
+              <p className="text-xs text-slate-400 font-medium mt-1">
+                Created {new Date(pendingRestore.createdAt).toLocaleString()}{pendingRestore.createdBy && ` by ${pendingRestore.createdBy}`}
+              </p>
+            </div>
+            <div className="flex bg-slate-100 p-1 rounded-xl">
+              {(['merge', 'replace'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => { setRestoreMode(mode); setIsConfirming(false); }}
+                  className={`px-4 py-2 rounded-lg font-bold text-xs uppercase transition ${restoreMode === mode ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead className="bg-slate-50 text-[10px] uppercase font-bold text-slate-400">
+                <tr>
+                  <th className="px-6 py-4">Collection</th>
+                  <th className="px-6 py-4">In Backup</th>
+                  <th className="px-6 py-4">New</th>
+                  <th className="px-6 py-4">Changed</th>
+                  <th className="px-6 py-4">Unchanged</th>
+                  <th className="px-6 py-4">Only On Device</th>
+                </tr>
+              </thead>
+              <tbody className="text-sm divide-y">
+                {STORE_NAMES.map(store => (
+                  <tr key={store}>
+                    <td className="px-6 py-4 font-bold text-slate-700">
+                      {STORE_LABELS[store]}
+                      {pendingRestore.missing.includes(store) && <span className="block text-[9px] font-black uppercase text-slate-400">Not in backup, kept</span>}
+                    </td>
+                    <td className="px-6 py-4">{diff[store].incoming}</td>
+                    <td className="px-6 py-4 font-black text-emerald-600">{diff[store].added}</td>
+                    <td className="px-6 py-4 font-black text-amber-600">{diff[store].changed}</td>
+                    <td className="px-6 py-4 text-slate-400">{diff[store].unchanged}</td>
+                    <td className={`px-6 py-4 font-black ${restoreMode === 'replace' && diff[store].localOnly > 0 ? 'text-rose-600' : 'text-slate-400'}`}>
+                      {diff[store].localOnly}{restoreMode === 'replace' && diff[store].localOnly > 0 && ' (removed)'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="p-6 border-t flex flex-col sm:flex-row justify-between items-center gap-4">
+            <p className="text-xs font-bold text-slate-500">
+              {restoreMode === 'merge'
+                ? 'Merge keeps records only on this device; the backup wins where both have a record.'
+                : 'Replace makes this device an exact copy of the backup.'}
+            </p>
+            <div className="flex gap-3">
+              <button onClick={() => { setPendingRestore(null); setIsConfirming(false); }} className="px-6 py-3 font-bold text-slate-400 hover:text-slate-600 transition uppercase text-xs">Cancel</button>
+              {isConfirming ? (
+                <button onClick={confirmRestore} className="px-8 py-3 bg-rose-600 text-white font-black rounded-xl hover:bg-rose-700 transition shadow-xl uppercase text-xs">Confirm {restoreMode}</button>
+              ) : (
+                <button onClick={() => setIsConfirming(true)} className="px-8 py-3 bg-indigo-600 text-white font-black rounded-xl hover:bg-indigo-700 transition shadow-xl uppercase text-xs">Restore</button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Backup;
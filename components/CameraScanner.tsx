@@ -0,0 +1,93 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { createFrameDecoder } from '../services/barcode';
+
+interface CameraScannerProps {
+  onDetected: (code: string) => void;
+  onClose: () => void;
+}
+
+const SCAN_INTERVAL_MS = 150;
+// Ignore the same code while it stays in view so one item is not added repeatedly
+const REPEAT_COOLDOWN_MS = 1500;
+
+const CameraScanner: React.FC<CameraScannerProps> = ({ onDetected, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState('');
+  const [lastCode, setLastCode] = useState('');
+  const handler = useRef(onDetected);
+  handler.current = onDetected;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+    let recent = { code: '', at: 0 };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+        // Closed while the permission prompt was up: cleanup ran before there was a stream to stop
+        if (stopped || !videoRef.current) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        const decode = await createFrameDecoder();
+
+        const tick = async () => {
+          if (stopped || !videoRef.current) return;
+          const code = await decode(videoRef.current).catch(() => null);
+          const now = Date.now();
+          if (code && (code !== recent.code || now - recent.at > REPEAT_COOLDOWN_MS)) {
+            handler.current(code);
+            setLastCode(code);
+          }
+          if (code) recent = { code, at: now };
+          timer = setTimeout(tick, SCAN_INTERVAL_MS);
+        };
+        tick();
+      } catch (err) {
+        console.error("Camera scan error:", err);
+        setError(err instanceof DOMException && err.name === 'NotAllowedError'
+          ? 'Camera access was denied. Allow it in the browser settings to scan.'
+          : 'Could not start the camera on this device.');
+      }
+    };
+    start();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm z-[70] flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-md overflow-hidden animate-slideUp">
+        <div className="bg-slate-900 p-5 flex justify-between items-center text-white">
+          <h3 className="font-black uppercase tracking-tight">Camera Scan</h3>
+          <button onClick={onClose}><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" /></svg></button>
+        </div>
+        <div className="p-5 space-y-4">
+          {error ? (
+            <div className="bg-rose-50 border border-rose-100 text-rose-600 p-4 rounded-xl text-xs font-bold text-center">{error}</div>
+          ) : (
+            <div className="relative rounded-2xl overflow-hidden bg-black aspect-[4/3]">
+              <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+              <div className="absolute inset-x-8 top-1/2 -translate-y-1/2 h-24 border-2 border-emerald-400 rounded-xl shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]"></div>
+            </div>
+          )}
+          <p className="text-center text-xs font-bold text-slate-500">
+            {lastCode ? <>Last scanned: <span className="font-mono text-slate-900">{lastCode}</span></> : 'Hold the barcode inside the frame.'}
+          </p>
+          <button onClick={onClose} className="w-full py-3 bg-slate-100 text-slate-600 font-black rounded-xl hover:bg-slate-200 transition uppercase tracking-widest text-xs">Done</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CameraScanner;
@@ -0,0 +1,374 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AccountEntry, Customer, LoyaltyEntry, Sale } from '../types';
+import { customerStats, customersToCSV, findDuplicateGroups, importCustomersCSV, normalizePhone, salesForCustomer } from '../services/customers';
+import { accountBalance } from '../services/accounts';
+import { loyaltyBalance } from '../services/loyalty';
+import { paymentLabel } from '../services/payments';
+
+interface CustomersProps {
+  customers: Customer[];
+  sales: Sale[];
+  accountEntries: AccountEntry[];
+  loyaltyEntries: LoyaltyEntry[];
+  onSave: (customer: Customer) => boolean;
+  onMerge: (keptId: string, duplicateIds: string[]) => void;
+  onImport: (customers: Customer[]) => void;
+}
+
+type SortKey = 'name' | 'lifetimeValue' | 'lastVisit';
+
+const Customers: React.FC<CustomersProps> = ({ customers, sales, accountEntries, loyaltyEntries, onSave, onMerge, onImport }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('lastVisit');
+  const [editing, setEditing] = useState<Customer | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
+  // Record kept for each duplicate group, keyed by the group's phone digits
+  const [keepChoices, setKeepChoices] = useState<Record<string, string>>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const stats = useMemo(() => new Map(customers.map(c => [c.id, customerStats(sales, c)])), [customers, sales]);
+  const duplicateGroups = useMemo(() => findDuplicateGroups(customers), [customers]);
+
+  const filteredCustomers = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    const digits = normalizePhone(searchTerm);
+    return customers
+      .filter(c =>
+        c.name.toLowerCase().includes(term) ||
+        (c.email || '').toLowerCase().includes(term) ||
+        (digits.length > 0 && normalizePhone(c.phone).includes(digits))
+      )
+      .sort((a, b) => {
+        if (sortKey === 'name') return a.name.localeCompare(b.name);
+        if (sortKey === 'lifetimeValue') return (stats.get(b.id)?.lifetimeValue || 0) - (stats.get(a.id)?.lifetimeValue || 0);
+        return (stats.get(b.id)?.lastVisit || '').localeCompare(stats.get(a.id)?.lastVisit || '');
+      });
+  }, [customers, stats, searchTerm, sortKey]);
+
+  const historyCustomer = customers.find(c => c.id === historyId);
+  const history = historyCustomer ? salesForCustomer(sales, historyCustomer) : [];
+  const pointsLog = historyCustomer
+    ? loyaltyEntries.filter(e => e.customerId === historyCustomer.id).sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    : [];
+
+  const openModal = (customer: Customer | null) => {
+    setEditing(customer);
+    setIsModalOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const name = (formData.get('name') as string).trim();
+    const phone = (formData.get('phone') as string).trim();
+    if (!name || !normalizePhone(phone)) {
+      alert("Name and Phone are required to save a customer.");
+      return;
+    }
+    const clash = customers.find(c => c.id !== editing?.id && normalizePhone(c.phone) === normalizePhone(phone));
+    if (clash && !confirm(`${clash.name} already has this phone number. Save anyway? You can merge the two later.`)) return;
+    const email = (formData.get('email') as string).trim();
+    const taxExemptRef = (formData.get('taxExemptRef') as string).trim();
+    const { email: _, taxExemptRef: __, ...rest } = editing || ({} as Partial<Customer>);
+    const saved = onSave({
+      ...rest,
+      id: editing?.id || `CUST-${Date.now()}`,
+      name,
+      phone,
+      address: (formData.get('address') as string).trim(),
+      ...(email ? { email } : {}),
+      ...(taxExemptRef ? { taxExemptRef } : {})
+    });
+    if (!saved) {
+      alert("You do not have permission to change customers.");
+      return;
+    }
+    setIsModalOpen(false);
+  };
+
+  const openMerge = () => {
+    setKeepChoices(Object.fromEntries(duplicateGroups.map(group => [normalizePhone(group[0].phone), group[0].id])));
+    setIsMergeOpen(true);
+  };
+
+  const handleMerge = (group: Customer[]) => {
+    const keptId = keepChoices[normalizePhone(group[0].phone)] || group[0].id;
+    const kept = group.find(c => c.id === keptId)!;
+    const others = group.filter(c => c.id !== keptId);
+    if (!confirm(`Merge ${others.map(c => c.name).join(', ')} into ${kept.name}? Their sales, account balances and points move to ${kept.name} and the duplicates are removed.`)) return;
+    onMerge(keptId, others.map(c => c.id));
+    if (duplicateGroups.length <= 1) setIsMergeOpen(false);
+  };
+
+  const handleExportCSV = () => {
+    const blob = new Blob([customersToCSV(filteredCustomers)], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+    link.setAttribute("href", url);
+    link.setAttribute("download", `sarkar_customers_${new Date().toISOString().slice(0, 10)}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const result = importCustomersCSV(await file.text(), customers);
+      if (result.customers.length === 0) {
+        alert(result.errors.join('\n') || "No customers found in the file.");
+        return;
+      }
+      const skipped = result.errors.length > 0 ? `\n\n${result.errors.length} row(s) will be skipped:\n${result.errors.slice(0, 10).join('\n')}` : '';
+      if (!confirm(`Import ${result.created} new and update ${result.updated} existing customer(s)?${skipped}`)) return;
+      onImport(result.customers);
+    } catch (err) {
+      console.error("Customer import error:", err);
+      alert("Could not read the file.");
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fadeIn">
+      <header className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-slate-800 tracking-tight">Customers</h2>
+          <p className="text-slate-500 font-medium">Everyone you have saved at the counter, with what they have bought.</p>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleImportFile} className="hidden" />
+          <button onClick={() => fileInputRef.current?.click()} className="bg-white border border-slate-200 text-slate-600 px-4 py-2.5 rounded-xl font-bold hover:bg-slate-50 transition">Import CSV</button>
+          <button onClick={handleExportCSV} className="bg-white border border-slate-200 text-slate-600 px-4 py-2.5 rounded-xl font-bold hover:bg-slate-50 transition">Export CSV</button>
+          <button
+            onClick={() => openModal(null)}
+            className="bg-indigo-600 text-white px-6 py-2.5 rounded-xl font-bold hover:bg-indigo-700 transition shadow-lg shadow-indigo-100"
+          >
+            + New Customer
+          </button>
+        </div>
+      </header>
+
+      {duplicateGroups.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 p-4 rounded-2xl flex justify-between items-center">
+          <p className="text-sm font-bold text-amber-800">
+            {duplicateGroups.length} phone number(s) are shared by more than one customer.
+          </p>
+          <button onClick={openMerge} className="bg-amber-600 text-white px-4 py-2 rounded-lg font-black text-xs uppercase hover:bg-amber-700 transition">Review Duplicates</button>
+        </div>
+      )}
+
+      <div className="bg-white p-4 rounded-2xl shadow-sm border border-slate-200 flex flex-col sm:flex-row gap-3">
+        <input
+          type="text"
+          placeholder="Search by name, phone or email..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="flex-1 px-4 py-2 bg-slate-50 border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <select value={sortKey} onChange={(e) => setSortKey(e.target.value as SortKey)} className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg font-bold text-slate-600 text-sm">
+          <option value="lastVisit">Most recent visit</option>
+          <option value="lifetimeValue">Highest lifetime value</option>
+          <option value="name">Name</option>
+        </select>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-slate-50 text-slate-400 text-[10px] font-black uppercase tracking-widest">
+              <tr>
+                <th className="px-6 py-4">Customer</th>
+                <th className="px-6 py-4">Contact</th>
+                <th className="px-6 py-4 text-right">Visits</th>
+                <th className="px-6 py-4 text-right">Lifetime Value</th>
+                <th className="px-6 py-4">Last Visit</th>
+                <th className="px-6 py-4 text-right">On Account</th>
+                <th className="px-6 py-4 text-right">Points</th>
+                <th className="px-6 py-4 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 text-sm font-medium">
+              {filteredCustomers.map(c => {
+                const s = stats.get(c.id);
+                const balance = accountBalance(accountEntries, c.id);
+                return (
+                  <tr key={c.id} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4">
+                      <p className="font-bold text-slate-800">{c.name}</p>
+                      {c.taxExemptRef && <span className="text-[10px] font-black uppercase text-amber-600">Tax exempt</span>}
+                    </td>
+                    <td className="px-6 py-4 text-xs text-slate-500">
+                      <p className="font-bold text-slate-600">{c.phone}</p>
+                      {c.email && <p>{c.email}</p>}
+                    </td>
+                    <td className="px-6 py-4 text-right font-bold text-slate-600">{s?.visits || 0}</td>
+                    <td className="px-6 py-4 text-right font-black text-slate-800">${(s?.lifetimeValue || 0).toFixed(2)}</td>
+                    <td className="px-6 py-4 text-xs text-slate-500">{s?.lastVisit ? new Date(s.lastVisit).toLocaleDateString() : 'Never'}</td>
+                    <td className={`px-6 py-4 text-right font-bold ${balance > 0 ? 'text-rose-600' : 'text-slate-400'}`}>${balance.toFixed(2)}</td>
+                    <td className="px-6 py-4 text-right font-bold text-indigo-600">{loyaltyBalance(loyaltyEntries, c.id)}</td>
+                    <td className="px-6 py-4 text-right">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => setHistoryId(c.id)}
+                          className="bg-slate-100 text-slate-600 px-3 py-1 rounded-lg font-black text-xs uppercase hover:bg-slate-200 transition"
+                        >
+                          History
+                        </button>
+                        <button
+                          onClick={() => openModal(c)}
+                          className="bg-indigo-50 text-indigo-600 px-3 py-1 rounded-lg font-black text-xs uppercase hover:bg-indigo-100 transition"
+                        >
+                          Edit
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+              {filteredCustomers.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="px-6 py-12 text-center text-slate-400 font-bold italic">No customers found.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-3xl shadow-2xl w-full max-w-lg overflow-hidden animate-slideUp">
+            <div className="bg-indigo-600 px-8 py-5 flex justify-between items-center text-white">
+              <h3 className="text-xl font-black uppercase tracking-tight">{editing ? 'Edit Customer' : 'New Customer'}</h3>
+              <button onClick={() => setIsModalOpen(false)}><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" /></svg></button>
+            </div>
+            <form onSubmit={handleSubmit} className="p-8 space-y-4">
+              <div>
+                <label className="block text-xs font-black uppercase text-slate-400 mb-1">Full Name</label>
+                <input name="name" required defaultValue={editing?.name} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none transition font-bold text-slate-800" />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-black uppercase text-slate-400 mb-1">Phone</label>
+                  <input name="phone" type="tel" required defaultValue={editing?.phone} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none transition font-bold" />
+                </div>
+                <div>
+                  <label className="block text-xs font-black uppercase text-slate-400 mb-1">Email</label>
+                  <input name="email" type="email" defaultValue={editing?.email} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none transition font-bold" />
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-black uppercase text-slate-400 mb-1">Address</label>
+                <textarea name="address" defaultValue={editing?.address} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none transition font-bold resize-none h-20" />
+              </div>
+              <div>
+                <label className="block text-xs font-black uppercase text-slate-400 mb-1">Tax Exemption Certificate</label>
+                <input name="taxExemptRef" placeholder="Leave blank unless tax exempt" defaultValue={editing?.taxExemptRef} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none transition font-bold" />
+              </div>
+              <div className="flex gap-3 pt-2">
+                <button type="button" onClick={() => setIsModalOpen(false)} className="flex-1 py-3 font-bold text-slate-400 hover:text-slate-600 transition uppercase text-xs">Cancel</button>
+                <button type="submit" className="flex-1 py-3 bg-indigo-600 text-white font-bold rounded-xl hover:bg-indigo-700 transition shadow-lg shadow-indigo-100">Save Customer</button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {historyCustomer && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl overflow-hidden animate-slideUp">
+            <div className="bg-slate-900 px-8 py-5 flex justify-between items-center text-white">
+              <div>
+                <h3 className="text-xl font-black uppercase tracking-tight">{historyCustomer.name}</h3>
+                <p className="text-xs font-bold text-slate-400">
+                  {history.length} visit(s) · ${(stats.get(historyCustomer.id)?.lifetimeValue || 0).toFixed(2)} lifetime · {loyaltyBalance(loyaltyEntries, historyCustomer.id)} points
+                </p>
+              </div>
+              <button onClick={() => setHistoryId(null)}><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" /></svg></button>
+            </div>
+            <div className="max-h-[70vh] overflow-y-auto custom-scrollbar divide-y divide-slate-100">
+              {history.map(sale => (
+                <div key={sale.id} className="px-8 py-4 flex justify-between items-start gap-4">
+                  <div className="min-w-0">
+                    <p className="font-mono text-xs font-bold text-slate-500">#{sale.id.slice(-8)} · {new Date(sale.timestamp).toLocaleString()}</p>
+                    <p className="text-sm font-medium text-slate-700 truncate">
+                      {sale.items.map(item => `${item.quantity}× ${item.name}${item.unitName ? ` (${item.unitName})` : ''}`).join(', ')}
+                    </p>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <p className="font-black text-slate-800">${sale.total.toFixed(2)}</p>
+                    <p className="text-[10px] font-black uppercase text-slate-400">{paymentLabel(sale)}</p>
+                  </div>
+                </div>
+              ))}
+              {history.length === 0 && (
+                <p className="px-8 py-12 text-center text-slate-400 font-bold italic">No purchases recorded for this customer.</p>
+              )}
+              {pointsLog.length > 0 && (
+                <div className="px-8 py-4 space-y-2 bg-slate-50">
+                  <p className="text-[10px] font-black uppercase text-slate-400 tracking-widest">Points Log</p>
+                  {pointsLog.map(entry => (
+                    <div key={entry.id} className="flex justify-between items-center text-xs">
+                      <span className="font-bold text-slate-500">
+                        {new Date(entry.timestamp).toLocaleDateString()} · {entry.type}{entry.saleId ? ` · #${entry.saleId.slice(-8)}` : ''}
+                      </span>
+                      <span className={`font-black ${entry.type === 'EARN' ? 'text-emerald-600' : 'text-rose-500'}`}>
+                        {entry.type === 'EARN' ? '+' : '-'}{entry.points}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isMergeOpen && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl overflow-hidden animate-slideUp">
+            <div className="bg-amber-600 px-8 py-5 flex justify-between items-center text-white">
+              <h3 className="text-xl font-black uppercase tracking-tight">Merge Duplicates</h3>
+              <button onClick={() => setIsMergeOpen(false)}><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" /></svg></button>
+            </div>
+            <div className="p-8 space-y-6 max-h-[70vh] overflow-y-auto custom-scrollbar">
+              <p className="text-xs font-bold text-slate-500">Pick the record to keep in each group. Blank details on it are filled in from the others.</p>
+              {duplicateGroups.map(group => {
+                const phone = normalizePhone(group[0].phone);
+                return (
+                  <div key={phone} className="border-2 border-slate-100 rounded-2xl p-4 space-y-2">
+                    <p className="text-[10px] font-black uppercase text-slate-400 tracking-widest">Phone {group[0].phone}</p>
+                    {group.map(c => (
+                      <label key={c.id} className="flex items-center gap-3 p-2 rounded-xl hover:bg-slate-50 cursor-pointer">
+                        <input
+                          type="radio"
+                          name={`keep-${phone}`}
+                          checked={(keepChoices[phone] || group[0].id) === c.id}
+                          onChange={() => setKeepChoices(prev => ({ ...prev, [phone]: c.id }))}
+                          className="text-indigo-600"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <p className="font-bold text-sm text-slate-800">{c.name}</p>
+                          <p className="text-[10px] font-bold text-slate-400 truncate">{[c.email, c.address].filter(Boolean).join(' · ') || 'No other details'}</p>
+                        </div>
+                        <span className="text-xs font-bold text-slate-500">{stats.get(c.id)?.visits || 0} visit(s)</span>
+                      </label>
+                    ))}
+                    <button onClick={() => handleMerge(group)} className="w-full mt-2 bg-amber-600 text-white py-2 rounded-xl font-black text-xs uppercase hover:bg-amber-700 transition">Merge Group</button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Customers;
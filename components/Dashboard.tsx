@@ -2,6 +2,7 @@
 import React, { useState } from 'react';
 import { Product, Sale, View } from '../types';
 import { GoogleGenAI } from '@google/genai';
+import { NEAR_EXPIRY_DAYS, expiringLots } from '../services/lots';
 
 interface DashboardProps {
   products: Product[];
@@ -14,15 +15,18 @@ const Dashboard: React.FC<DashboardProps> = ({ products, sales, setView }) => {
   const [loadingAi, setLoadingAi] = useState(false);
 
   const totalStockValue = products.reduce((acc, p) => acc + (p.sellPrice * p.stock), 0);
-  const lowStockItems = products.filter(p => p.stock <= p.minStock);
+  const activeProducts = products.filter(p => !p.archivedAt);
+  const lowStockItems = activeProducts.filter(p => p.stock <= p.minStock);
   const todaySales = sales.filter(s => new Date(s.timestamp).toDateString() === new Date().toDateString());
   const dailyRevenue = todaySales.reduce((acc, s) => acc + s.total, 0);
+  const expiring = expiringLots(products);
+  const expiredCount = expiring.filter(e => e.status === 'EXPIRED').length;
 
   const generateAiInsights = async () => {
     setLoadingAi(true);
     try {
       const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const stockSummary = products.map(p => `${p.name}: ${p.stock} left (Min: ${p.minStock})`).join(', ');
+      const stockSummary = activeProducts.map(p => `${p.name}: ${p.stock} left (Min: ${p.minStock})`).join(', ');
       const salesSummary = sales.slice(0, 10).map(s => `Sale of ${s.total} with ${s.items.length} items`).join(', ');
 
       const response = await ai.models.generateContent({
@@ -94,6 +98,35 @@ const Dashboard: React.FC<DashboardProps> = ({ products, sales, setView }) => {
           <p className="text-2xl font-bold mt-2">{todaySales.length}</p>
         </div>
       </div>
+
+      {expiring.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-amber-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-amber-100 bg-amber-50 flex justify-between items-center">
+            <div>
+              <h3 className="font-bold text-amber-900">Expiry Alerts</h3>
+              <p className="text-xs text-amber-700 font-medium">
+                {expiredCount} expired lot(s) · {expiring.length - expiredCount} expiring within {NEAR_EXPIRY_DAYS} days
+              </p>
+            </div>
+            <button onClick={() => setView(View.INVENTORY)} className="text-amber-700 text-xs font-bold hover:underline">Review in inventory</button>
+          </div>
+          <table className="w-full text-left text-sm">
+            <tbody className="divide-y divide-slate-100">
+              {expiring.slice(0, 8).map(({ product, lot, status, days }) => (
+                <tr key={lot.id}>
+                  <td className="px-6 py-2 font-medium text-slate-800">{product.name}</td>
+                  <td className="px-6 py-2 font-mono text-xs text-slate-500">{lot.lotNumber || '—'}</td>
+                  <td className="px-6 py-2 text-slate-500">{lot.quantity} unit(s)</td>
+                  <td className={`px-6 py-2 text-right text-xs font-bold ${status === 'EXPIRED' ? 'text-rose-600' : 'text-amber-600'}`}>
+                    {status === 'EXPIRED' ? `Expired ${lot.expiryDate}` : days === 0 ? 'Expires today' : `Expires in ${days} day(s)`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {expiring.length > 8 && <p className="px-6 py-2 text-xs text-slate-400 font-medium border-t">and {expiring.length - 8} more</p>}
+        </div>
+      )}
     </div>
   );
 };
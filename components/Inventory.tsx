@@ -1,6 +1,7 @@
 
 import React, { useState, useMemo, useRef } from 'react';
-import { Product, StockLog, UserRole } from '../types';
+import { Product, ProductUnit, StockLog, Permission, TaxClass, Supplier, StockLot } from '../types';
+import { LotDetails, daysToExpiry, expiryStatus, untrackedStock } from '../services/lots';
 import { GoogleGenAI, Type } from '@google/genai';
 
 interface InventoryProps {
@@ -12,10 +13,15 @@ interface InventoryProps {
   onAdd: (p: Product) => void;
   onUpdate: (p: Product) => void;
   onBulkUpdate: (ids: string[], updates: Partial<Product>) => void;
-  onDelete: (id: string) => void;
-  onRestock: (id: string, amount: number) => void;
+  onArchive: (id: string) => void;
+  onRestore: (id: string) => void;
+  onRestock: (id: string, amount: number, unitCost?: number, lot?: LotDetails) => void;
+  onWriteOffLot: (productId: string, lotId: string, reason: string) => void;
   onAdjust: (id: string, amount: number, reason: string) => void;
-  userRole: UserRole;
+  taxClasses: TaxClass[];
+  suppliers: Supplier[];
+  reserved: Record<string, number>; // Base units held for open sales orders
+  can: (permission: Permission) => boolean;
 }
 
 interface ScannedItem {
@@ -40,16 +46,25 @@ const Inventory: React.FC<InventoryProps> = ({
   categories,
   onAdd, 
   onUpdate, 
-  onDelete, 
+  onArchive,
+  onRestore,
   onRestock,
-  userRole
+  onWriteOffLot,
+  taxClasses,
+  suppliers,
+  reserved,
+  can
 }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('All');
+  const [showArchived, setShowArchived] = useState(false);
   
-  const isAdmin = userRole === UserRole.ADMIN;
+  const canEdit = can(Permission.INVENTORY_EDIT);
+  const canAdjust = can(Permission.INVENTORY_ADJUST);
+  const canPrice = can(Permission.PRICING_EDIT);
+  const canArchive = can(Permission.INVENTORY_DELETE);
 
   // Multi-column sort state
   const [sortConfigs, setSortConfigs] = useState<SortConfig[]>([
@@ -65,11 +80,21 @@ const Inventory: React.FC<InventoryProps> = ({
   // Quick Restock State
   const [quickRestockProduct, setQuickRestockProduct] = useState<Product | null>(null);
   const [restockAmount, setRestockAmount] = useState<string>('');
+  const [restockCost, setRestockCost] = useState<string>('');
+  const [restockLotNumber, setRestockLotNumber] = useState('');
+  const [restockExpiry, setRestockExpiry] = useState('');
+
+  // Lots of the product whose lot list is open
+  const [lotsProductId, setLotsProductId] = useState<string | null>(null);
+  const lotsProduct = products.find(p => p.id === lotsProductId) || null;
 
   const [formBuyPrice, setFormBuyPrice] = useState<number>(0);
   const [formMargin, setFormMargin] = useState<number>(20);
+  const [formUnits, setFormUnits] = useState<ProductUnit[]>([]);
 
-  const lowStockItems = useMemo(() => products.filter(p => p.stock <= p.minStock), [products]);
+  const activeProducts = useMemo(() => products.filter(p => !p.archivedAt), [products]);
+  const archivedCount = products.length - activeProducts.length;
+  const lowStockItems = useMemo(() => activeProducts.filter(p => p.stock <= p.minStock), [activeProducts]);
 
   const calculatedSellPrice = useMemo(() => {
     return formBuyPrice * (1 + formMargin / 100);
@@ -106,9 +131,10 @@ const Inventory: React.FC<InventoryProps> = ({
   };
 
   const filteredProducts = useMemo(() => {
-    let result = products.filter(p => {
+    let result = (showArchived ? products : activeProducts).filter(p => {
       const matchesSearch = p.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
                             p.sku.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                            p.barcode?.includes(searchTerm) ||
                             (p.description && p.description.toLowerCase().includes(searchTerm.toLowerCase()));
       const matchesCategory = selectedCategory === 'All' || p.category === selectedCategory;
       return matchesSearch && matchesCategory;
@@ -137,7 +163,7 @@ const Inventory: React.FC<InventoryProps> = ({
     }
 
     return result;
-  }, [products, searchTerm, selectedCategory, sortConfigs]);
+  }, [products, activeProducts, showArchived, searchTerm, selectedCategory, sortConfigs]);
 
   const handleExportCSV = () => {
     const headers = ['ID', 'SKU', 'Name', 'Category', 'Description/Notes', 'Buy Price', 'Margin %', 'Sell Price', 'Stock', 'Min Stock', 'Last Restocked'];
@@ -168,7 +194,7 @@ const Inventory: React.FC<InventoryProps> = ({
   };
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!isAdmin) return;
+    if (!canAdjust) return;
     const file = e.target.files?.[0];
     if (!file) return;
 
@@ -213,7 +239,7 @@ const Inventory: React.FC<InventoryProps> = ({
       const rawItems = JSON.parse(textOutput);
       
       const mappedItems = rawItems.map((item: any) => {
-        const match = products.find(p => 
+        const match = activeProducts.find(p => 
           (item.sku && p.sku === item.sku) || p.name.toLowerCase().trim() === item.name.toLowerCase().trim()
         );
         return { 
@@ -236,12 +262,12 @@ const Inventory: React.FC<InventoryProps> = ({
   };
 
   const confirmRestock = () => {
-    if (!isAdmin) return;
+    if (!canAdjust) return;
     const selected = scannedItems.filter(i => i.selected);
     selected.forEach(item => {
       if (item.matchedId) {
-        onRestock(item.matchedId, item.quantity);
-      } else {
+        onRestock(item.matchedId, item.quantity, item.price > 0 ? item.price : undefined);
+      } else if (canEdit) {
         const p: Product = {
           id: `PROD-${Date.now()}-${Math.random().toString(36).substr(2, 4)}`,
           name: item.name,
@@ -254,7 +280,9 @@ const Inventory: React.FC<InventoryProps> = ({
           minStock: 5,
           description: "Imported via AI Scan",
           lastRestocked: new Date().toISOString(),
-          stockHistory: []
+          stockHistory: [],
+          units: [],
+          lots: []
         };
         onAdd(p);
       }
@@ -263,27 +291,63 @@ const Inventory: React.FC<InventoryProps> = ({
     setScannedItems([]);
   };
 
+  const handleWriteOff = (product: Product, lot: StockLot) => {
+    const label = lot.lotNumber ? `lot ${lot.lotNumber}` : 'this lot';
+    if (!confirm(`Write off ${lot.quantity} unit(s) of ${product.name} from ${label}? They will be removed from stock.`)) return;
+    onWriteOffLot(product.id, lot.id, `${expiryStatus(lot) === 'EXPIRED' ? 'Expired' : 'Written off'} ${label}`);
+  };
+
   const handleQuickRestockSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!isAdmin) return;
+    if (!canAdjust) return;
     if (quickRestockProduct && restockAmount) {
-      onRestock(quickRestockProduct.id, parseInt(restockAmount));
+      const unitCost = restockCost === '' ? undefined : parseFloat(restockCost);
+      if (unitCost !== undefined && !(unitCost >= 0)) {
+        alert("Unit cost must be zero or more, or left blank.");
+        return;
+      }
+      const lotNumber = restockLotNumber.trim();
+      onRestock(quickRestockProduct.id, parseInt(restockAmount), unitCost, {
+        ...(lotNumber ? { lotNumber } : {}),
+        ...(restockExpiry ? { expiryDate: restockExpiry } : {})
+      });
       setQuickRestockProduct(null);
       setRestockAmount('');
+      setRestockCost('');
+      setRestockLotNumber('');
+      setRestockExpiry('');
     }
   };
 
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    if (!isAdmin) return;
+    if (!canEdit) return;
     const formData = new FormData(e.currentTarget);
+    const productId = editingProduct?.id || `PROD-${Date.now()}`;
+    const barcode = (formData.get('barcode') as string).trim() || undefined;
+
+    const units = formUnits.map(u => ({ ...u, name: u.name.trim(), barcode: u.barcode?.trim() || undefined }));
+    if (units.some(u => !u.name || !Number.isInteger(u.factor) || u.factor < 1)) {
+      alert("Every pack size needs a name and a whole number of base units.");
+      return;
+    }
+    // A code may only ever resolve to one product and pack size
+    const codes = [barcode, ...units.map(u => u.barcode)].filter(Boolean) as string[];
+    const taken = new Set(products.filter(p => p.id !== productId).flatMap(p => [p.barcode, ...p.units.map(u => u.barcode)]).filter(Boolean));
+    const clash = codes.find((code, idx) => taken.has(code) || codes.indexOf(code) !== idx);
+    if (clash) {
+      alert(`Barcode ${clash} is already in use.`);
+      return;
+    }
+
     const buy = parseFloat(formData.get('buyPrice') as string) || 0;
     const margin = parseFloat(formData.get('marginPercent') as string) || 0;
     
     const productData: Product = {
-      id: editingProduct?.id || `PROD-${Date.now()}`,
+      id: productId,
       name: formData.get('name') as string,
       sku: formData.get('sku') as string,
+      barcode,
       category: formData.get('category') as string,
       buyPrice: buy,
       marginPercent: margin,
@@ -292,7 +356,11 @@ const Inventory: React.FC<InventoryProps> = ({
       minStock: parseInt(formData.get('minStock') as string) || 0,
       description: formData.get('description') as string,
       lastRestocked: editingProduct?.lastRestocked || new Date().toISOString(),
-      stockHistory: editingProduct?.stockHistory || []
+      stockHistory: editingProduct?.stockHistory || [],
+      lots: editingProduct?.lots || [],
+      units,
+      taxClassId: (formData.get('taxClassId') as string) || undefined,
+      supplierId: (formData.get('supplierId') as string) || undefined
     };
 
     if (editingProduct) onUpdate(productData);
@@ -361,22 +429,22 @@ const Inventory: React.FC<InventoryProps> = ({
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
             <span className="hidden sm:inline">Export CSV</span>
           </button>
-          {isAdmin && (
-            <>
-              <button 
-                onClick={() => setIsScanModalOpen(true)} 
-                className="bg-emerald-600 text-white px-5 py-2.5 rounded-xl font-bold flex items-center gap-2 hover:bg-emerald-700 transition shadow-lg shadow-emerald-100"
-              >
-                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" /></svg>
-                Scan Voucher
-              </button>
-              <button 
-                onClick={() => { setEditingProduct(null); setFormBuyPrice(0); setFormMargin(20); setIsModalOpen(true); }} 
-                className="bg-indigo-600 text-white px-6 py-2.5 rounded-xl font-bold hover:bg-indigo-700 transition shadow-lg shadow-indigo-100"
-              >
-                + Add Product
-              </button>
-            </>
+          {canAdjust && (
+            <button 
+              onClick={() => setIsScanModalOpen(true)} 
+              className="bg-emerald-600 text-white px-5 py-2.5 rounded-xl font-bold flex items-center gap-2 hover:bg-emerald-700 transition shadow-lg shadow-emerald-100"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" /></svg>
+              Scan Voucher
+            </button>
+          )}
+          {canEdit && (
+            <button 
+              onClick={() => { setEditingProduct(null); setFormBuyPrice(0); setFormMargin(20); setFormUnits([]); setIsModalOpen(true); }} 
+              className="bg-indigo-600 text-white px-6 py-2.5 rounded-xl font-bold hover:bg-indigo-700 transition shadow-lg shadow-indigo-100"
+            >
+              + Add Product
+            </button>
           )}
         </div>
       </header>
@@ -414,7 +482,7 @@ const Inventory: React.FC<InventoryProps> = ({
           <svg className="w-5 h-5 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
           <input 
             type="text" 
-            placeholder="Search by name, SKU or notes..." 
+            placeholder="Search by name, SKU, barcode or notes..." 
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="w-full pl-10 pr-4 py-2 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
@@ -428,6 +496,12 @@ const Inventory: React.FC<InventoryProps> = ({
           <option value="All">All Categories</option>
           {categories.map(cat => <option key={cat} value={cat}>{cat}</option>)}
         </select>
+        {archivedCount > 0 && (
+          <label className="flex items-center gap-2 text-[10px] font-black uppercase text-slate-500 tracking-widest whitespace-nowrap cursor-pointer">
+            <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} className="w-4 h-4 rounded text-indigo-600 focus:ring-0" />
+            Show Archived ({archivedCount})
+          </label>
+        )}
         {sortConfigs.length > 0 && (
           <button 
             onClick={() => setSortConfigs([])} 
@@ -454,9 +528,9 @@ const Inventory: React.FC<InventoryProps> = ({
             </thead>
             <tbody className="divide-y divide-slate-100 text-sm">
               {filteredProducts.map(p => {
-                const isLow = p.stock <= p.minStock;
+                const isLow = !p.archivedAt && p.stock <= p.minStock;
                 return (
-                  <tr key={p.id} className="hover:bg-indigo-50/30 transition-colors group">
+                  <tr key={p.id} className={`hover:bg-indigo-50/30 transition-colors group ${p.archivedAt ? 'opacity-60' : ''}`}>
                     <td className="px-6 py-4 relative">
                       {isLow && (
                         <div className="absolute left-1 top-1/2 -translate-y-1/2 w-1.5 h-6 bg-rose-500 rounded-full" title="Low Stock Condition"></div>
@@ -465,6 +539,9 @@ const Inventory: React.FC<InventoryProps> = ({
                         <span className="text-[10px] font-mono text-slate-400 font-bold uppercase mb-0.5 tracking-tighter">{p.sku}</span>
                         <div className="flex items-center gap-2">
                           <span className="font-bold text-slate-800 text-base">{p.name}</span>
+                          {p.archivedAt && (
+                            <span className="text-[9px] font-black uppercase bg-slate-200 text-slate-500 px-1.5 py-0.5 rounded" title={`Archived ${new Date(p.archivedAt).toLocaleString()}`}>Archived</span>
+                          )}
                           {isLow && (
                             <div className="w-2 h-2 rounded-full bg-rose-600 pulse-red" title="Critical Stock"></div>
                           )}
@@ -491,23 +568,59 @@ const Inventory: React.FC<InventoryProps> = ({
                         <span className={`text-lg font-black ${isLow ? 'text-rose-600' : 'text-slate-800'}`}>{p.stock}</span>
                         <span className="text-[10px] text-slate-400 font-bold uppercase tracking-tight">/ {p.minStock} min</span>
                       </div>
+                      {(reserved[p.id] || 0) > 0 && (
+                        <p className="text-[10px] font-black uppercase text-amber-600 mt-1">{reserved[p.id]} reserved · {p.stock - reserved[p.id]} available</p>
+                      )}
+                      {p.lots.length > 0 && (() => {
+                        const statuses = p.lots.map(l => expiryStatus(l));
+                        const tone = statuses.includes('EXPIRED') ? 'text-rose-600' : statuses.includes('NEAR') ? 'text-amber-600' : 'text-slate-400';
+                        return (
+                          <button onClick={() => setLotsProductId(p.id)} className={`text-[10px] font-black uppercase mt-1 hover:underline ${tone}`}>
+                            {p.lots.length} lot(s){statuses.includes('EXPIRED') ? ' · expired' : statuses.includes('NEAR') ? ' · expiring' : ''}
+                          </button>
+                        );
+                      })()}
                     </td>
                     <td className="px-6 py-4 text-right">
-                      {isAdmin ? (
-                        <div className="flex justify-end gap-2">
-                          <button 
-                            onClick={() => setQuickRestockProduct(p)} 
-                            title="Quick Restock"
-                            className="bg-emerald-50 text-emerald-600 p-2 rounded-lg hover:bg-emerald-100 transition"
+                      {p.archivedAt ? (
+                        canArchive ? (
+                          <button
+                            onClick={() => onRestore(p.id)}
+                            className="bg-emerald-50 text-emerald-600 px-3 py-1 rounded-lg font-black text-xs uppercase hover:bg-emerald-100 transition"
                           >
-                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M12 4v16m8-8H4" /></svg>
-                          </button>
-                          <button 
-                            onClick={() => { setEditingProduct(p); setFormBuyPrice(p.buyPrice); setFormMargin(p.marginPercent); setIsModalOpen(true); }} 
-                            className="bg-indigo-50 text-indigo-600 px-3 py-1 rounded-lg font-black text-xs uppercase hover:bg-indigo-100 transition"
-                          >
-                            Edit
+                            Restore
                           </button>
+                        ) : (
+                          <span className="text-[10px] font-bold text-slate-300 uppercase italic">Archived</span>
+                        )
+                      ) : canEdit || canAdjust || canArchive ? (
+                        <div className="flex justify-end gap-2">
+                          {canAdjust && (
+                            <button 
+                              onClick={() => setQuickRestockProduct(p)} 
+                              title="Quick Restock"
+                              className="bg-emerald-50 text-emerald-600 p-2 rounded-lg hover:bg-emerald-100 transition"
+                            >
+                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M12 4v16m8-8H4" /></svg>
+                            </button>
+                          )}
+                          {canEdit && (
+                            <button 
+                              onClick={() => { setEditingProduct(p); setFormBuyPrice(p.buyPrice); setFormMargin(p.marginPercent); setFormUnits(p.units); setIsModalOpen(true); }} 
+                              className="bg-indigo-50 text-indigo-600 px-3 py-1 rounded-lg font-black text-xs uppercase hover:bg-indigo-100 transition"
+                            >
+                              Edit
+                            </button>
+                          )}
+                          {canArchive && (
+                            <button
+                              onClick={() => { if (confirm(`Archive "${p.name}"? It will be hidden from the POS but its sales and stock history are kept.`)) onArchive(p.id); }}
+                              title="Archive"
+                              className="bg-rose-50 text-rose-600 p-2 rounded-lg hover:bg-rose-100 transition"
+                            >
+                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" /></svg>
+                            </button>
+                          )}
                         </div>
                       ) : (
                         <span className="text-[10px] font-bold text-slate-300 uppercase italic">Read Only</span>
@@ -521,8 +634,8 @@ const Inventory: React.FC<InventoryProps> = ({
         </div>
       </div>
 
-      {/* Quick Restock Modal (Admin Only) */}
-      {isAdmin && quickRestockProduct && (
+      {/* Quick Restock Modal */}
+      {canAdjust && quickRestockProduct && (
         <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[60] flex items-center justify-center p-4">
           <div className="bg-white rounded-3xl shadow-2xl w-full max-w-sm overflow-hidden animate-slideUp">
             <div className="bg-emerald-600 p-6 flex justify-between items-center text-white">
@@ -542,6 +655,39 @@ const Inventory: React.FC<InventoryProps> = ({
                   placeholder="0"
                 />
               </div>
+              <div>
+                <label className="block text-xs font-black uppercase text-slate-400 mb-1">Unit Cost (optional)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={restockCost}
+                  onChange={(e) => setRestockCost(e.target.value)}
+                  className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl font-mono text-sm outline-none focus:border-emerald-500"
+                  placeholder={`Currently $${quickRestockProduct.buyPrice.toFixed(2)}`}
+                />
+                <p className="text-[10px] font-bold text-slate-400 mt-1">Updates the buy price when given. Leave blank to keep it.</p>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-black uppercase text-slate-400 mb-1">Lot No.</label>
+                  <input
+                    value={restockLotNumber}
+                    onChange={(e) => setRestockLotNumber(e.target.value)}
+                    className="w-full px-3 py-2.5 border-2 border-slate-100 rounded-xl font-mono text-sm outline-none focus:border-emerald-500"
+                    placeholder="Optional"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-black uppercase text-slate-400 mb-1">Expiry</label>
+                  <input
+                    type="date"
+                    value={restockExpiry}
+                    onChange={(e) => setRestockExpiry(e.target.value)}
+                    className="w-full px-3 py-2.5 border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-600 outline-none focus:border-emerald-500"
+                  />
+                </div>
+              </div>
               <button type="submit" className="w-full py-4 bg-emerald-600 text-white font-black rounded-2xl shadow-xl shadow-emerald-100 hover:bg-emerald-700 transition uppercase tracking-widest text-xs">
                 Update Stock
               </button>
@@ -550,8 +696,72 @@ const Inventory: React.FC<InventoryProps> = ({
         </div>
       )}
 
-      {/* Product Add/Edit Modal (Admin Only) */}
-      {isAdmin && isModalOpen && (
+      {/* Lots Modal */}
+      {lotsProduct && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[60] flex items-center justify-center p-4">
+          <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl overflow-hidden animate-slideUp">
+            <div className="bg-slate-800 p-6 flex justify-between items-center text-white">
+              <div>
+                <h3 className="font-black uppercase tracking-tight">Stock Lots</h3>
+                <p className="text-xs font-bold text-slate-300">{lotsProduct.name} · {lotsProduct.stock} on hand, {untrackedStock(lotsProduct)} without a lot</p>
+              </div>
+              <button onClick={() => setLotsProductId(null)}><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" /></svg></button>
+            </div>
+            <div className="max-h-[60vh] overflow-y-auto">
+              <table className="w-full text-left">
+                <thead className="bg-slate-50 text-slate-400 text-[10px] font-black uppercase tracking-widest">
+                  <tr>
+                    <th className="px-6 py-3">Lot</th>
+                    <th className="px-6 py-3">Expiry</th>
+                    <th className="px-6 py-3">Received</th>
+                    <th className="px-6 py-3 text-right">Qty</th>
+                    <th className="px-6 py-3 text-right"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 text-sm font-medium">
+                  {[...lotsProduct.lots].sort((a, b) => (a.expiryDate || '9999').localeCompare(b.expiryDate || '9999')).map(lot => {
+                    const status = expiryStatus(lot);
+                    const days = daysToExpiry(lot);
+                    return (
+                      <tr key={lot.id} className={status === 'EXPIRED' ? 'bg-rose-50/50' : ''}>
+                        <td className="px-6 py-3 font-mono font-bold text-slate-700">{lot.lotNumber || '—'}</td>
+                        <td className="px-6 py-3">
+                          {lot.expiryDate ? (
+                            <>
+                              <span className="font-bold text-slate-700">{lot.expiryDate}</span>
+                              <span className={`block text-[10px] font-black uppercase ${status === 'EXPIRED' ? 'text-rose-600' : status === 'NEAR' ? 'text-amber-600' : 'text-slate-400'}`}>
+                                {status === 'EXPIRED' ? 'Expired' : days === 0 ? 'Expires today' : `${days} day(s) left`}
+                              </span>
+                            </>
+                          ) : <span className="text-slate-400">No expiry</span>}
+                        </td>
+                        <td className="px-6 py-3 text-xs text-slate-500">{new Date(lot.receivedAt).toLocaleDateString()}</td>
+                        <td className="px-6 py-3 text-right font-black text-slate-800">{lot.quantity}</td>
+                        <td className="px-6 py-3 text-right">
+                          {canAdjust && (
+                            <button
+                              onClick={() => handleWriteOff(lotsProduct, lot)}
+                              className="bg-rose-50 text-rose-600 px-3 py-1 rounded-lg font-black text-xs uppercase hover:bg-rose-100 transition"
+                            >
+                              Write Off
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                  {lotsProduct.lots.length === 0 && (
+                    <tr><td colSpan={5} className="px-6 py-10 text-center text-slate-400 font-bold italic">No lots on hand.</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Product Add/Edit Modal */}
+      {canEdit && isModalOpen && (
         <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 overflow-y-auto">
           <div className="bg-white rounded-3xl shadow-2xl w-full max-w-lg overflow-hidden animate-slideUp my-auto">
             <div className="bg-indigo-600 px-8 py-5 flex justify-between items-center text-white">
@@ -569,12 +779,30 @@ const Inventory: React.FC<InventoryProps> = ({
                     <label className="block text-xs font-black uppercase text-slate-400 mb-1">SKU Code</label>
                     <input name="sku" required defaultValue={editingProduct?.sku} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none transition font-mono font-bold" />
                   </div>
+                  <div>
+                    <label className="block text-xs font-black uppercase text-slate-400 mb-1">Barcode</label>
+                    <input name="barcode" defaultValue={editingProduct?.barcode} placeholder="Same as SKU" className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none transition font-mono font-bold" />
+                  </div>
                   <div>
                     <label className="block text-xs font-black uppercase text-slate-400 mb-1">Category</label>
                     <select name="category" defaultValue={editingProduct?.category || 'General'} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl bg-white focus:border-indigo-500 outline-none font-bold text-slate-600">
                       {categories.map(c => <option key={c} value={c}>{c}</option>)}
                     </select>
                   </div>
+                  <div>
+                    <label className="block text-xs font-black uppercase text-slate-400 mb-1">Preferred Supplier</label>
+                    <select name="supplierId" defaultValue={editingProduct?.supplierId || ''} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl bg-white focus:border-indigo-500 outline-none font-bold text-slate-600">
+                      <option value="">None</option>
+                      {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-xs font-black uppercase text-slate-400 mb-1">Tax Class</label>
+                    <select name="taxClassId" defaultValue={editingProduct?.taxClassId || ''} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl bg-white focus:border-indigo-500 outline-none font-bold text-slate-600">
+                      <option value="">Category default</option>
+                      {taxClasses.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                  </div>
                 </div>
 
                 <div>
@@ -592,11 +820,11 @@ const Inventory: React.FC<InventoryProps> = ({
                   <div className="grid grid-cols-2 gap-4">
                     <div>
                       <label className="block text-[10px] font-black uppercase text-slate-400 mb-1">Buy Price ($)</label>
-                      <input name="buyPrice" type="number" step="0.01" required value={formBuyPrice} onChange={(e) => setFormBuyPrice(parseFloat(e.target.value) || 0)} className="w-full px-4 py-2 border-2 border-white rounded-xl font-mono text-sm shadow-sm" />
+                      <input name="buyPrice" type="number" step="0.01" required disabled={!canPrice} value={formBuyPrice} onChange={(e) => setFormBuyPrice(parseFloat(e.target.value) || 0)} className="w-full px-4 py-2 border-2 border-white rounded-xl font-mono text-sm shadow-sm" />
                     </div>
                     <div>
                       <label className="block text-[10px] font-black uppercase text-indigo-400 mb-1">Margin (%)</label>
-                      <input name="marginPercent" type="number" required value={formMargin} onChange={(e) => setFormMargin(parseFloat(e.target.value) || 0)} className="w-full px-4 py-2 border-2 border-indigo-100 rounded-xl text-indigo-600 font-black text-sm shadow-sm" />
+                      <input name="marginPercent" type="number" required disabled={!canPrice} value={formMargin} onChange={(e) => setFormMargin(parseFloat(e.target.value) || 0)} className="w-full px-4 py-2 border-2 border-indigo-100 rounded-xl text-indigo-600 font-black text-sm shadow-sm" />
                     </div>
                   </div>
                   <div className="pt-3 border-t-2 border-white flex justify-between items-center">
@@ -608,13 +836,50 @@ const Inventory: React.FC<InventoryProps> = ({
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <label className="block text-xs font-black uppercase text-slate-400 mb-1">Stock</label>
-                    <input name="stock" type="number" required defaultValue={editingProduct?.stock || 0} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl font-bold" />
+                    <input name="stock" type="number" required disabled={!!editingProduct && !canAdjust} defaultValue={editingProduct?.stock || 0} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl font-bold" />
                   </div>
                   <div>
                     <label className="block text-xs font-black uppercase text-slate-400 mb-1">Min Alert</label>
                     <input name="minStock" type="number" required defaultValue={editingProduct?.minStock || 5} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl font-bold" />
                   </div>
                 </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <label className="block text-xs font-black uppercase text-slate-400">Pack Sizes</label>
+                    <button
+                      type="button"
+                      onClick={() => setFormUnits(prev => [...prev, { id: `UNIT-${Date.now()}`, name: '', factor: 6 }])}
+                      className="text-[10px] font-black uppercase text-indigo-600 hover:text-indigo-800"
+                    >
+                      + Add Pack Size
+                    </button>
+                  </div>
+                  {formUnits.length === 0 && (
+                    <p className="text-[10px] font-bold text-slate-400 italic">Sold by the single unit only.</p>
+                  )}
+                  {formUnits.map(unit => {
+                    const change = (updates: Partial<ProductUnit>) => setFormUnits(prev => prev.map(u => u.id === unit.id ? { ...u, ...updates } : u));
+                    return (
+                      <div key={unit.id} className="grid grid-cols-12 gap-2 items-center">
+                        <input value={unit.name} onChange={(e) => change({ name: e.target.value })} placeholder="Carton" className="col-span-3 px-2 py-2 border-2 border-slate-100 rounded-lg text-xs font-bold outline-none focus:border-indigo-500" />
+                        <input value={unit.barcode || ''} onChange={(e) => change({ barcode: e.target.value })} placeholder="Barcode" className="col-span-4 px-2 py-2 border-2 border-slate-100 rounded-lg text-xs font-mono font-bold outline-none focus:border-indigo-500" />
+                        <input type="number" min="1" value={unit.factor} onChange={(e) => change({ factor: parseInt(e.target.value) || 0 })} title="Units per pack" className="col-span-2 px-2 py-2 border-2 border-slate-100 rounded-lg text-xs font-bold outline-none focus:border-indigo-500" />
+                        <input
+                          type="number"
+                          step="0.01"
+                          disabled={!canPrice}
+                          value={unit.price ?? ''}
+                          onChange={(e) => change({ price: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+                          placeholder={(calculatedSellPrice * unit.factor).toFixed(2)}
+                          title="Pack price (blank = unit price x units)"
+                          className="col-span-2 px-2 py-2 border-2 border-slate-100 rounded-lg text-xs font-bold outline-none focus:border-indigo-500"
+                        />
+                        <button type="button" onClick={() => setFormUnits(prev => prev.filter(u => u.id !== unit.id))} className="col-span-1 text-rose-400 hover:text-rose-600 font-black">×</button>
+                      </div>
+                    );
+                  })}
+                </div>
               </div>
               
               <div className="pt-6 flex justify-end gap-3">
@@ -626,8 +891,8 @@ const Inventory: React.FC<InventoryProps> = ({
         </div>
       )}
 
-      {/* Invoice Scan Modal (Admin Only) */}
-      {isAdmin && isScanModalOpen && (
+      {/* Invoice Scan Modal */}
+      {canAdjust && isScanModalOpen && (
         <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
           <div className="bg-white rounded-3xl shadow-2xl w-full max-w-xl overflow-hidden animate-slideUp">
             <div className="bg-emerald-600 px-8 py-5 flex justify-between items-center text-white">
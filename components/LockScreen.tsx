@@ -0,0 +1,156 @@
+
+import React, { useState } from 'react';
+import { User, UserAccount } from '../types';
+import { unlockAs, AuthError } from '../services/auth';
+
+interface LockScreenProps {
+  users: UserAccount[];
+  lockedUser: User;
+  onUnlock: (account: UserAccount) => void;
+  onSignOut: () => void;
+}
+
+const MAX_ATTEMPTS = 5;
+const COOLDOWN_SECONDS = 30;
+
+const LockScreen: React.FC<LockScreenProps> = ({ users, lockedUser, onUnlock, onSignOut }) => {
+  const activeUsers = users.filter(u => u.active);
+  const [selectedId, setSelectedId] = useState(lockedUser.id);
+  const [secret, setSecret] = useState('');
+  const [usePassword, setUsePassword] = useState(false);
+  const [error, setError] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [failedAttempts, setFailedAttempts] = useState(0);
+  const [blockedUntil, setBlockedUntil] = useState(0);
+
+  const selected = activeUsers.find(u => u.id === selectedId);
+  const needsPassword = usePassword || !selected?.pinHash;
+
+  const selectUser = (id: string) => {
+    setSelectedId(id);
+    setSecret('');
+    setUsePassword(false);
+    setError('');
+  };
+
+  const pressKey = (key: string) => {
+    if (key === 'del') setSecret(prev => prev.slice(0, -1));
+    else if (secret.length < 6) setSecret(prev => prev + key);
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !secret) return;
+    if (Date.now() < blockedUntil) {
+      setError(`Too many attempts. Try again in ${Math.ceil((blockedUntil - Date.now()) / 1000)}s.`);
+      return;
+    }
+    setError('');
+    setIsVerifying(true);
+    try {
+      onUnlock(await unlockAs(selected, secret, needsPassword));
+    } catch (err) {
+      const attempts = failedAttempts + 1;
+      setFailedAttempts(attempts >= MAX_ATTEMPTS ? 0 : attempts);
+      if (attempts >= MAX_ATTEMPTS) setBlockedUntil(Date.now() + COOLDOWN_SECONDS * 1000);
+      if (err instanceof AuthError) {
+        setError(err.message);
+      } else {
+        console.error("Unlock error:", err);
+        setError('Could not unlock. Please try again.');
+      }
+    } finally {
+      setSecret('');
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900 p-4 no-print">
+      <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-md overflow-hidden animate-slideUp">
+        <div className="bg-indigo-600 p-8 text-center text-white">
+          <div className="w-14 h-14 bg-white/20 backdrop-blur-md rounded-2xl flex items-center justify-center mx-auto mb-4 border border-white/30">
+            <svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+            </svg>
+          </div>
+          <h1 className="text-2xl font-black uppercase tracking-tight">Terminal Locked</h1>
+          <p className="text-indigo-200 font-bold text-xs mt-1 uppercase tracking-widest">Last used by {lockedUser.fullName}</p>
+        </div>
+
+        <form onSubmit={handleUnlock} className="p-8 space-y-6">
+          <div className="flex gap-2 overflow-x-auto pb-1 custom-scrollbar">
+            {activeUsers.map(u => (
+              <button
+                key={u.id}
+                type="button"
+                onClick={() => selectUser(u.id)}
+                className={`flex flex-col items-center gap-1 px-3 py-2 rounded-xl shrink-0 transition ${u.id === selectedId ? 'bg-indigo-50 ring-2 ring-indigo-500' : 'hover:bg-slate-50'}`}
+              >
+                <div className="w-10 h-10 rounded-full bg-gradient-to-tr from-indigo-500 to-purple-500 flex items-center justify-center font-bold text-white">
+                  {u.fullName.charAt(0)}
+                </div>
+                <span className="text-[10px] font-black uppercase text-slate-500 max-w-[5rem] truncate">{u.fullName}</span>
+              </button>
+            ))}
+          </div>
+
+          {error && (
+            <div className="bg-rose-50 border border-rose-100 text-rose-600 p-4 rounded-xl text-xs font-bold text-center">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-[10px] font-black uppercase text-slate-400 mb-2 tracking-widest">
+              {needsPassword ? 'Password' : 'PIN'}{selectedId !== lockedUser.id && ' · switches cashier'}
+            </label>
+            <input
+              type="password"
+              inputMode={needsPassword ? 'text' : 'numeric'}
+              value={secret}
+              onChange={(e) => setSecret(needsPassword ? e.target.value : e.target.value.replace(/\D/g, '').slice(0, 6))}
+              className="w-full px-5 py-3.5 bg-slate-50 border-2 border-slate-100 rounded-2xl focus:border-indigo-500 outline-none transition font-bold text-center tracking-[0.5em]"
+              placeholder={needsPassword ? '••••••••' : '••••'}
+              autoFocus
+            />
+          </div>
+
+          {!needsPassword && (
+            <div className="grid grid-cols-3 gap-2">
+              {['1', '2', '3', '4', '5', '6', '7', '8', '9', 'del', '0'].map(key => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => pressKey(key)}
+                  className={`py-3 rounded-xl bg-slate-50 hover:bg-indigo-50 font-black text-slate-700 transition ${key === '0' ? 'col-span-2' : ''}`}
+                >
+                  {key === 'del' ? '⌫' : key}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isVerifying || !secret}
+            className="w-full py-4 bg-indigo-600 text-white font-black rounded-2xl shadow-xl shadow-indigo-100 hover:bg-indigo-700 transition uppercase tracking-widest text-xs disabled:opacity-50"
+          >
+            {isVerifying ? 'Verifying...' : 'Unlock'}
+          </button>
+
+          <div className="flex justify-between text-[10px] font-black uppercase tracking-widest">
+            {selected?.pinHash ? (
+              <button type="button" onClick={() => { setUsePassword(!usePassword); setSecret(''); }} className="text-indigo-500 hover:text-indigo-700">
+                {usePassword ? 'Use PIN' : 'Use Password'}
+              </button>
+            ) : <span />}
+            <button type="button" onClick={onSignOut} className="text-rose-400 hover:text-rose-600">Sign Out</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default LockScreen;
@@ -1,65 +1,79 @@
 
-import React, { useState, useEffect } from 'react';
-import { User, UserRole } from '../types';
+import React, { useState } from 'react';
+import { UserAccount, UserRole } from '../types';
+import { authenticate, hashPassword, AuthError } from '../services/auth';
 
 interface LoginProps {
-  onLogin: (user: User) => void;
+  users: UserAccount[];
+  onLogin: (account: UserAccount, remember: boolean) => void;
+  onCreateAdmin: (account: UserAccount) => void;
 }
 
-const Login: React.FC<LoginProps> = ({ onLogin }) => {
+const Login: React.FC<LoginProps> = ({ users, onLogin, onCreateAdmin }) => {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [rememberMe, setRememberMe] = useState(false);
   const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
-  // Load saved credentials on mount
-  useEffect(() => {
-    const saved = localStorage.getItem('sarkartrade_saved_creds');
-    if (saved) {
-      const { u, p } = JSON.parse(saved);
-      setUsername(u || '');
-      setPassword(p || '');
-      setRememberMe(true);
-    }
-  }, []);
+  // First run: no directory yet, so the first account becomes the administrator
+  const isSetup = users.length === 0;
+  const [fullName, setFullName] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
 
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    // Simulation of a basic authentication system
-    if (username === 'admin' && password === 'admin') {
-      const user = {
-        id: '1',
-        username: 'admin',
-        role: UserRole.ADMIN,
-        fullName: 'Admin User'
-      };
-      
-      if (rememberMe) {
-        localStorage.setItem('sarkartrade_saved_creds', JSON.stringify({ u: username, p: password }));
+    setError('');
+    setIsSubmitting(true);
+    try {
+      const account = await authenticate(users, username, password);
+      onLogin(account, rememberMe);
+    } catch (err) {
+      if (err instanceof AuthError) {
+        setError(err.message);
       } else {
-        localStorage.removeItem('sarkartrade_saved_creds');
-      }
-      
-      onLogin(user);
-    } else if (username === 'sales' && password === 'sales') {
-      const user = {
-        id: '2',
-        username: 'sales',
-        role: UserRole.SALESPERSON,
-        fullName: 'Sales Associate'
-      };
-
-      if (rememberMe) {
-        localStorage.setItem('sarkartrade_saved_creds', JSON.stringify({ u: username, p: password }));
-      } else {
-        localStorage.removeItem('sarkartrade_saved_creds');
+        console.error("Login error:", err);
+        setError('Login failed. Please try again.');
       }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
 
-      onLogin(user);
-    } else {
-      setError('Invalid username or password. Use admin/admin or sales/sales.');
+  const handleSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (!fullName.trim() || !username.trim()) {
+      setError('Full name and username are required.');
+      return;
+    }
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters.');
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match.');
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const account: UserAccount = {
+        id: `USER-${Date.now()}`,
+        username: username.trim(),
+        fullName: fullName.trim(),
+        role: UserRole.ADMIN,
+        passwordHash: await hashPassword(password),
+        active: true,
+        createdAt: new Date().toISOString()
+      };
+      onCreateAdmin(account);
+      onLogin(account, rememberMe);
+    } catch (err) {
+      console.error("Setup error:", err);
+      setError('Could not create the account. Please try again.');
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -76,13 +90,32 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
           <p className="text-indigo-200 font-bold text-sm mt-1 uppercase tracking-widest">Management Suite</p>
         </div>
         
-        <form onSubmit={handleLogin} className="p-10 space-y-6">
+        <form onSubmit={isSetup ? handleSetup : handleLogin} className="p-10 space-y-6">
+          {isSetup && (
+            <div className="bg-indigo-50 border border-indigo-100 text-indigo-700 p-4 rounded-xl text-xs font-bold text-center">
+              Welcome! Create the administrator account to get started.
+            </div>
+          )}
+
           {error && (
             <div className="bg-rose-50 border border-rose-100 text-rose-600 p-4 rounded-xl text-xs font-bold text-center">
               {error}
             </div>
           )}
           
+          {isSetup && (
+            <div>
+              <label className="block text-[10px] font-black uppercase text-slate-400 mb-2 tracking-widest">Full Name</label>
+              <input 
+                type="text" 
+                value={fullName}
+                onChange={(e) => setFullName(e.target.value)}
+                className="w-full px-5 py-3.5 bg-slate-50 border-2 border-slate-100 rounded-2xl focus:border-indigo-500 outline-none transition font-bold"
+                placeholder="e.g. Rahim Sarkar"
+              />
+            </div>
+          )}
+
           <div>
             <label className="block text-[10px] font-black uppercase text-slate-400 mb-2 tracking-widest">Username</label>
             <input 
@@ -125,6 +158,19 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
             </div>
           </div>
 
+          {isSetup && (
+            <div>
+              <label className="block text-[10px] font-black uppercase text-slate-400 mb-2 tracking-widest">Confirm Password</label>
+              <input 
+                type={showPassword ? "text" : "password"} 
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="w-full px-5 py-3.5 bg-slate-50 border-2 border-slate-100 rounded-2xl focus:border-indigo-500 outline-none transition font-bold"
+                placeholder="••••••••"
+              />
+            </div>
+          )}
+
           <div className="flex items-center gap-3 px-1">
             <label className="flex items-center gap-2 cursor-pointer group">
               <div className="relative">
@@ -148,18 +194,11 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
           
           <button 
             type="submit"
-            className="w-full py-4 bg-indigo-600 text-white font-black rounded-2xl shadow-xl shadow-indigo-100 hover:bg-indigo-700 transition uppercase tracking-widest text-xs"
+            disabled={isSubmitting}
+            className="w-full py-4 bg-indigo-600 text-white font-black rounded-2xl shadow-xl shadow-indigo-100 hover:bg-indigo-700 transition uppercase tracking-widest text-xs disabled:opacity-50"
           >
-            Enter Workspace
+            {isSubmitting ? 'Verifying...' : isSetup ? 'Create Administrator' : 'Enter Workspace'}
           </button>
-
-          <div className="pt-4 border-t border-slate-100 text-center">
-            <p className="text-[10px] font-bold text-slate-400 uppercase">Demo Credentials</p>
-            <div className="flex justify-center gap-4 mt-2">
-              <span className="text-[10px] font-black text-slate-600">Admin: admin/admin</span>
-              <span className="text-[10px] font-black text-slate-600">Sales: sales/sales</span>
-            </div>
-          </div>
         </form>
       </div>
     </div>
@@ -0,0 +1,69 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { Product, Sale, SalesOrder } from '../types';
+import { DEFAULT_TAX_SETTINGS } from '../services/tax';
+import { DEFAULT_LOYALTY_SETTINGS } from '../services/loyalty';
+import POS from './POS';
+
+const rice: Product = {
+  id: 'RICE', name: 'Basmati Rice', sku: 'R-1', category: 'Grocery', buyPrice: 5, marginPercent: 20, sellPrice: 6, stock: 10, minStock: 0,
+  description: '', lastRestocked: '2026-01-01T00:00:00Z', stockHistory: [], units: [], lots: []
+};
+
+const renderPOS = (onComplete: (sale: Sale) => boolean, onSaveOrder: (order: SalesOrder) => boolean = () => true) => render(
+  <POS
+    products={[rice]} customers={[]} accountEntries={[]} loyaltyEntries={[]} promotions={[]}
+    taxSettings={DEFAULT_TAX_SETTINGS} loyaltySettings={DEFAULT_LOYALTY_SETTINGS}
+    parkedCarts={[]} parkedCartHours={24} onParkCart={() => {}} onRemoveParkedCart={() => {}}
+    onQuoteLoaded={() => {}} onSaveQuote={() => {}} reserved={{}}
+    onSaveOrder={onSaveOrder} onSaveCustomer={() => true} onComplete={onComplete}
+    canDiscount={false} isLocked={false}
+  />
+);
+
+const finishButton = () => screen.getByRole('button', { name: /Finish Order/i }) as HTMLButtonElement;
+
+describe('POS checkout', () => {
+  beforeEach(() => {
+    vi.stubGlobal('alert', vi.fn());
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+  });
+
+  it('shows the receipt once the sale is recorded', () => {
+    const onComplete = vi.fn(() => true);
+    renderPOS(onComplete);
+    fireEvent.click(screen.getByText('Basmati Rice'));
+    fireEvent.click(finishButton());
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(screen.getByText('Sale Completed!')).toBeTruthy();
+  });
+
+  it('keeps the cart and explains when the sale is refused', () => {
+    renderPOS(() => false);
+    fireEvent.click(screen.getByText('Basmati Rice'));
+    fireEvent.click(finishButton());
+    expect(screen.queryByText('Sale Completed!')).toBeNull();
+    expect(alert).toHaveBeenCalledWith(expect.stringMatching(/could not be completed/));
+    expect(finishButton().disabled).toBe(false);
+  });
+
+  it('keeps the order form open when the sales order is refused', () => {
+    const onSaveOrder = vi.fn(() => false);
+    renderPOS(() => true, onSaveOrder);
+    fireEvent.click(screen.getByText('Basmati Rice'));
+    fireEvent.change(screen.getByPlaceholderText('Full Name'), { target: { value: 'Asha' } });
+    fireEvent.change(screen.getByPlaceholderText('Phone Number'), { target: { value: '0123' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save Order' }));
+    fireEvent.submit(screen.getByPlaceholderText('Delivery date, address details...').closest('form')!);
+    expect(onSaveOrder).toHaveBeenCalledTimes(1);
+    expect(alert).toHaveBeenCalledWith(expect.stringMatching(/could not be saved/));
+    expect(alert).not.toHaveBeenCalledWith(expect.stringMatching(/Sales order #/));
+    expect(screen.getByPlaceholderText('Delivery date, address details...')).toBeTruthy();
+  });
+});
@@ -1,15 +1,48 @@
 
-import React, { useState, useMemo, useRef } from 'react';
-import { Product, Sale, SaleItem, Customer } from '../types';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { Product, ProductUnit, Sale, SaleItem, Customer, Promotion, Discount, DiscountType, TaxSettings, Payment, PaymentMethod, AccountEntry, LoyaltyEntry, LoyaltySettings, ParkedCart, Quotation, SalesOrder } from '../types';
 import { GoogleGenAI, Type } from '@google/genai';
+import CameraScanner from './CameraScanner';
+import { useBarcodeScanner } from '../hooks/useBarcodeScanner';
+import { findByCode } from '../services/barcode';
+import { sameLine, baseUnitsInCart, createSaleItem, lineKey } from '../services/units';
+import { priceCart, lineGross, describeDiscount, dayKey } from '../services/pricing';
+import { applyTax } from '../services/tax';
+import { PAYMENT_METHODS, PaymentError, amountPaid, balanceDue, changeDue, createPayment, onAccountTotal } from '../services/payments';
+import { accountBalance, checkCredit, describeCreditCheck } from '../services/accounts';
+import { createPointsPayment, earnPoints, loyaltyBalance, pointsInPayments } from '../services/loyalty';
+import { cartExpiresAt, refreshCartItems } from '../services/carts';
+import { DEFAULT_QUOTE_VALIDITY_DAYS, validityDate } from '../services/quotations';
+import { availableStock, toOrderItems } from '../services/salesOrders';
+import { allocateLots, expiryStatus, nextLot } from '../services/lots';
+import QuotationPrint from './QuotationPrint';
 
 interface POSProps {
   products: Product[];
   customers: Customer[];
-  onSaveCustomer: (customer: Customer) => void;
-  onComplete: (sale: Sale) => void;
+  accountEntries: AccountEntry[];
+  loyaltyEntries: LoyaltyEntry[];
+  promotions: Promotion[];
+  taxSettings: TaxSettings;
+  loyaltySettings: LoyaltySettings;
+  parkedCarts: ParkedCart[];
+  parkedCartHours: number;
+  onParkCart: (cart: ParkedCart) => void;
+  onRemoveParkedCart: (id: string) => void;
+  convertingQuote?: Quotation;
+  onQuoteLoaded: () => void;
+  onSaveQuote: (quotation: Quotation) => void;
+  reserved: Record<string, number>; // Base units held for open sales orders
+  onSaveOrder: (order: SalesOrder) => boolean; // False when the order was refused and nothing was saved
+  onSaveCustomer: (customer: Customer) => boolean;
+  onComplete: (sale: Sale) => boolean; // False when the sale was refused and nothing was recorded
+  canDiscount: boolean;
+  isLocked: boolean;
 }
 
+// Line key being discounted, or the whole cart
+type DiscountTarget = string | 'CART';
+
 interface ScannedOrderItem {
   name: string;
   quantity: number;
@@ -18,8 +51,11 @@ interface ScannedOrderItem {
   selected: boolean;
 }
 
-const POS: React.FC<POSProps> = ({ products, customers, onSaveCustomer, onComplete }) => {
+const POS: React.FC<POSProps> = ({ products, customers, accountEntries, loyaltyEntries, promotions, taxSettings, loyaltySettings, parkedCarts, parkedCartHours, onParkCart, onRemoveParkedCart, convertingQuote, onQuoteLoaded, onSaveQuote, reserved, onSaveOrder, onSaveCustomer, onComplete, canDiscount, isLocked }) => {
   const [cart, setCart] = useState<SaleItem[]>([]);
+  const [cartDiscount, setCartDiscount] = useState<Discount | undefined>(undefined);
+  const [discountTarget, setDiscountTarget] = useState<DiscountTarget | null>(null);
+  const [discountType, setDiscountType] = useState<DiscountType>('PERCENT');
   const [searchTerm, setSearchTerm] = useState('');
   
   // Enhanced Customer Details
@@ -27,11 +63,29 @@ const POS: React.FC<POSProps> = ({ products, customers, onSaveCustomer, onComple
   const [customerAddress, setCustomerAddress] = useState('');
   const [customerPhone, setCustomerPhone] = useState('');
   const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null);
+  const [isTaxExempt, setIsTaxExempt] = useState(false);
+  const [taxExemptRef, setTaxExemptRef] = useState('');
 
-  const [paymentMethod, setPaymentMethod] = useState<'Cash' | 'Card' | 'Transfer'>('Cash');
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('Cash');
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentReference, setPaymentReference] = useState('');
   const [completedSale, setCompletedSale] = useState<Sale | null>(null);
   const [isCartExpanded, setIsCartExpanded] = useState(false);
 
+  // Parked Carts
+  const [isParkOpen, setIsParkOpen] = useState(false);
+  const [isParkedListOpen, setIsParkedListOpen] = useState(false);
+  const [parkName, setParkName] = useState('');
+
+  // Quotations
+  const [isQuoteOpen, setIsQuoteOpen] = useState(false);
+  const [savedQuote, setSavedQuote] = useState<Quotation | null>(null);
+  const [quotationId, setQuotationId] = useState<string | null>(null);
+
+  // Sales Orders
+  const [isOrderOpen, setIsOrderOpen] = useState(false);
+
   // Customer Management Search
   const [customerSearchTerm, setCustomerSearchTerm] = useState('');
   const [isCustomerListOpen, setIsCustomerListOpen] = useState(false);
@@ -42,21 +96,49 @@ const POS: React.FC<POSProps> = ({ products, customers, onSaveCustomer, onComple
   const [scannedItems, setScannedItems] = useState<ScannedOrderItem[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Barcode Scanning State
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [scanNotice, setScanNotice] = useState<{ message: string; ok: boolean } | null>(null);
+
+  useEffect(() => {
+    if (!scanNotice) return;
+    const timer = setTimeout(() => setScanNotice(null), 2500);
+    return () => clearTimeout(timer);
+  }, [scanNotice]);
+
+  // Stock promised to sales orders cannot be sold over the counter
+  const available = (product: Product) => availableStock(product, reserved);
+
+  // Checkout picks lots first expiry first out; shown here so the cashier takes the right stock
+  const cartLots = useMemo(() => allocateLots(cart, products).items, [cart, products]);
+  const nextLots = useMemo(
+    () => new Map(products.filter(p => p.lots.length > 0).map(p => [p.id, nextLot(p, baseUnitsInCart(cart, p.id))])),
+    [cart, products]
+  );
+
   const filteredProducts = products.filter(p => 
     p.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
-    p.sku.toLowerCase().includes(searchTerm.toLowerCase())
-  ).filter(p => p.stock > 0);
+    p.sku.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    p.barcode?.includes(searchTerm)
+  ).filter(p => available(p) > 0);
 
   const filteredCustomers = customers.filter(c => 
     c.name.toLowerCase().includes(customerSearchTerm.toLowerCase()) ||
     c.phone.includes(customerSearchTerm)
   );
 
+  const selectedCustomer = customers.find(c => c.id === selectedCustomerId);
+  const selectedBalance = selectedCustomer ? accountBalance(accountEntries, selectedCustomer.id) : 0;
+  const selectedPoints = selectedCustomer && loyaltySettings.enabled ? loyaltyBalance(loyaltyEntries, selectedCustomer.id) : 0;
+  const paymentMethods = PAYMENT_METHODS.filter(method => method !== 'Points' || loyaltySettings.enabled);
+
   const handleSelectCustomer = (customer: Customer) => {
     setCustomerName(customer.name);
     setCustomerAddress(customer.address);
     setCustomerPhone(customer.phone);
     setSelectedCustomerId(customer.id);
+    setIsTaxExempt(!!customer.taxExemptRef);
+    setTaxExemptRef(customer.taxExemptRef || '');
     setIsCustomerListOpen(false);
     setCustomerSearchTerm('');
   };
@@ -66,6 +148,8 @@ const POS: React.FC<POSProps> = ({ products, customers, onSaveCustomer, onComple
     setCustomerAddress('');
     setCustomerPhone('');
     setSelectedCustomerId(null);
+    setIsTaxExempt(false);
+    setTaxExemptRef('');
   };
 
   const handleSaveAsNewCustomer = () => {
@@ -77,9 +161,13 @@ const POS: React.FC<POSProps> = ({ products, customers, onSaveCustomer, onComple
       id: selectedCustomerId || `CUST-${Date.now()}`,
       name: customerName,
       address: customerAddress,
-      phone: customerPhone
+      phone: customerPhone,
+      ...(isTaxExempt && taxExemptRef.trim() ? { taxExemptRef: taxExemptRef.trim() } : {})
     };
-    onSaveCustomer(newCustomer);
+    if (!onSaveCustomer(newCustomer)) {
+      alert("You do not have permission to change this customer's details.");
+      return;
+    }
     setSelectedCustomerId(newCustomer.id);
     alert("Customer details saved!");
   };
@@ -148,24 +236,19 @@ const POS: React.FC<POSProps> = ({ products, customers, onSaveCustomer, onComple
 
   const addScannedToCart = () => {
     const toAdd = scannedItems.filter(i => i.selected && i.matchedProduct);
-    const newCart = [...cart];
+    let newCart = [...cart];
 
     toAdd.forEach(item => {
       const prod = item.matchedProduct!;
-      const existing = newCart.find(c => c.productId === prod.id);
-      const qtyToAdd = Math.min(item.quantity, prod.stock);
+      const qtyToAdd = Math.min(item.quantity, available(prod) - baseUnitsInCart(newCart, prod.id));
+      if (qtyToAdd <= 0) return;
+      const existing = newCart.find(c => sameLine(c, { productId: prod.id }));
 
       if (existing) {
-        existing.quantity = Math.min(existing.quantity + qtyToAdd, prod.stock);
-        existing.total = existing.quantity * existing.price;
+        const quantity = existing.quantity + qtyToAdd;
+        newCart = newCart.map(c => c === existing ? { ...c, quantity, total: quantity * c.price } : c);
       } else {
-        newCart.push({
-          productId: prod.id,
-          name: prod.name,
-          quantity: qtyToAdd,
-          price: prod.sellPrice,
-          total: qtyToAdd * prod.sellPrice
-        });
+        newCart.push(createSaleItem(prod, qtyToAdd));
       }
     });
 
@@ -174,63 +257,418 @@ const POS: React.FC<POSProps> = ({ products, customers, onSaveCustomer, onComple
     setScannedItems([]);
   };
 
-  const addToCart = (product: Product) => {
-    const existing = cart.find(item => item.productId === product.id);
-    if (existing) {
-      if (existing.quantity >= product.stock) return;
-      setCart(cart.map(item => 
-        item.productId === product.id 
-          ? { ...item, quantity: item.quantity + 1, total: (item.quantity + 1) * item.price } 
-          : item
-      ));
-    } else {
-      setCart([...cart, {
-        productId: product.id,
-        name: product.name,
-        quantity: 1,
-        price: product.sellPrice,
-        total: product.sellPrice
-      }]);
+  // Stock is held in base units, so a carton needs `factor` of them free across all lines
+  const hasStockFor = (items: SaleItem[], product: Product, unit?: ProductUnit) =>
+    baseUnitsInCart(items, product.id) + (unit?.factor || 1) <= available(product);
+
+  // Functional update so back-to-back scans each see the previous one's cart
+  const addToCart = (product: Product, unit?: ProductUnit) => {
+    setCart(prevCart => {
+      if (!hasStockFor(prevCart, product, unit)) return prevCart;
+      const line = { productId: product.id, unitId: unit?.id };
+      const existing = prevCart.find(item => sameLine(item, line));
+      if (existing) {
+        return prevCart.map(item => 
+          item === existing
+            ? { ...item, quantity: item.quantity + 1, total: (item.quantity + 1) * item.price } 
+            : item
+        );
+      }
+      return [...prevCart, createSaleItem(product, 1, unit)];
+    });
+  };
+
+  const handleBarcode = (code: string) => {
+    // A scan while the search box has focus also typed the code into it
+    setSearchTerm(prev => prev.endsWith(code) ? prev.slice(0, -code.length) : prev);
+    const match = findByCode(products, code);
+    if (!match) {
+      setScanNotice({ message: `No product found for ${code}`, ok: false });
+      return;
+    }
+    const { product, unit } = match;
+    const label = unit ? `${product.name} (${unit.name})` : product.name;
+    if (!hasStockFor(cart, product, unit)) {
+      setScanNotice({ message: `Not enough stock for ${label}`, ok: false });
+      return;
     }
+    addToCart(product, unit);
+    setScanNotice({ message: `Added ${label}`, ok: true });
   };
 
-  const updateQuantity = (productId: string, delta: number) => {
+  useBarcodeScanner(handleBarcode, !isLocked && !completedSale && !isScanModalOpen && !discountTarget);
+
+  const updateQuantity = (key: string, delta: number) => {
     setCart(prevCart => prevCart.map(item => {
-      if (item.productId === productId) {
+      if (lineKey(item) === key) {
         const newQty = Math.max(0, item.quantity + delta);
-        const prod = products.find(p => p.id === productId);
-        if (newQty > (prod?.stock || 0)) return item;
+        const prod = products.find(p => p.id === item.productId);
+        const otherLines = baseUnitsInCart(prevCart, item.productId) - item.quantity * item.unitFactor;
+        if (otherLines + newQty * item.unitFactor > (prod ? available(prod) : 0)) return item;
         return newQty === 0 ? null : { ...item, quantity: newQty, total: newQty * item.price };
       }
       return item;
     }).filter(Boolean) as SaleItem[]);
   };
 
-  const subtotal = cart.reduce((acc, item) => acc + item.total, 0);
-  const tax = subtotal * 0.05; 
-  const total = subtotal + tax;
+  // Cart lines stay at full price; discounts and promotions are priced fresh on every change
+  const priced = useMemo(() => priceCart(cart, products, promotions, cartDiscount), [cart, products, promotions, cartDiscount]);
+  const pricedLine = (key: string) => priced.items.find(item => lineKey(item) === key);
+  const promotionFor = (key: string) => priced.discounts.find(d => d.source === 'PROMOTION' && d.lineKeys.includes(key));
+
+  // Exemption only counts once a certificate reference is on record
+  const exemptRef = isTaxExempt ? taxExemptRef.trim() : '';
+  const taxed = useMemo(() => applyTax(priced.items, products, taxSettings, !!exemptRef), [priced, products, taxSettings, exemptRef]);
+  const { subtotal, tax, total } = taxed;
+
+  const editingLine = discountTarget && discountTarget !== 'CART' ? cart.find(item => lineKey(item) === discountTarget) : undefined;
+  const editingDiscount = discountTarget === 'CART' ? cartDiscount : editingLine?.lineDiscount;
+
+  const openDiscount = (target: DiscountTarget) => {
+    const current = target === 'CART' ? cartDiscount : cart.find(item => lineKey(item) === target)?.lineDiscount;
+    setDiscountType(current?.type || 'PERCENT');
+    setDiscountTarget(target);
+  };
+
+  const applyDiscount = (discount?: Discount) => {
+    if (!discountTarget || !canDiscount) return;
+    if (discountTarget === 'CART') {
+      setCartDiscount(discount);
+    } else {
+      setCart(prevCart => prevCart.map(item => {
+        if (lineKey(item) !== discountTarget) return item;
+        const { lineDiscount, ...rest } = item;
+        return discount ? { ...rest, lineDiscount: discount } : rest;
+      }));
+    }
+    setDiscountTarget(null);
+  };
+
+  const handleDiscountSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const value = parseFloat(formData.get('value') as string);
+    if (!(value > 0) || (discountType === 'PERCENT' && value > 100)) {
+      alert(discountType === 'PERCENT' ? "Enter a percentage between 0 and 100." : "Enter an amount greater than zero.");
+      return;
+    }
+    const reason = (formData.get('reason') as string).trim();
+    applyDiscount({ type: discountType, value, ...(reason ? { reason } : {}) });
+  };
+
+  const due = balanceDue(total, payments);
+  const enteredAmount = paymentAmount.trim() === '' ? undefined : parseFloat(paymentAmount);
+  // Change for the cash being keyed in, on top of any already taken
+  const pendingChange = paymentMethod === 'Cash' && enteredAmount !== undefined && enteredAmount > due ? enteredAmount - due : 0;
+
+  // Adds what is in the payment inputs; returns the new list, or null when it was rejected
+  const takePayment = (): Payment[] | null => {
+    try {
+      const payment = paymentMethod === 'Points'
+        ? createPointsPayment(loyaltySettings, due, selectedPoints - pointsInPayments(payments), enteredAmount, selectedCustomerId || undefined)
+        : createPayment(paymentMethod, due, enteredAmount, paymentReference, selectedCustomerId || undefined);
+      const next = [...payments, payment];
+      setPayments(next);
+      setPaymentAmount('');
+      setPaymentReference('');
+      return next;
+    } catch (err) {
+      if (err instanceof PaymentError) {
+        alert(err.message);
+      } else {
+        console.error("Payment error:", err);
+        alert("Could not add the payment.");
+      }
+      return null;
+    }
+  };
 
   const handleFinish = () => {
     if (cart.length === 0) return;
+    if (!canDiscount && (cartDiscount || cart.some(item => item.lineDiscount))) {
+      alert("This cart has manual discounts. Remove them or have a staff member who may give discounts complete the sale.");
+      return;
+    }
+    if (amountPaid(payments) > total) {
+      alert("The payments add up to more than the total. Remove one and take it again.");
+      return;
+    }
+    // With a balance left, the payment inputs settle it in one step
+    const settled = due > 0 ? takePayment() : payments;
+    if (!settled) return;
+    const remaining = balanceDue(total, settled);
+    if (remaining > 0) {
+      alert(`$${remaining.toFixed(2)} is still due. Take another payment to finish.`);
+      return;
+    }
+    const charged = onAccountTotal(settled);
+    if (charged > 0) {
+      const customer = customers.find(c => c.id === selectedCustomerId);
+      if (!customer || settled.some(p => p.method === 'On Account' && p.customerId !== customer.id)) {
+        alert("On Account payments must be charged to the customer on this sale. Remove them and take them again.");
+        return;
+      }
+      const check = checkCredit(customer, accountBalance(accountEntries, customer.id), charged);
+      if (check.status === 'BLOCK') {
+        alert(`${describeCreditCheck(customer, check)} Take the rest by another method.`);
+        return;
+      }
+      if (check.status === 'WARN' && !confirm(`${describeCreditCheck(customer, check)} Charge it anyway?`)) return;
+    }
+    const redeemedPoints = pointsInPayments(settled);
+    if (redeemedPoints > 0 && (settled.some(p => p.method === 'Points' && p.customerId !== selectedCustomerId) || redeemedPoints > selectedPoints)) {
+      alert("The points taken do not match this customer's balance. Remove the points payment and take it again.");
+      return;
+    }
+    // Saved customers earn on what they paid for with something other than points
+    const earned = selectedCustomerId && loyaltySettings.enabled
+      ? earnPoints(taxed.items, products, loyaltySettings, taxSettings.pricesIncludeTax, total, settled.filter(p => p.method === 'Points').reduce((acc, p) => acc + p.amount, 0))
+      : { items: taxed.items, points: 0 };
     const sale: Sale = {
       id: `SALE-${Date.now()}`,
       timestamp: new Date().toISOString(),
+      ...(selectedCustomerId ? { customerId: selectedCustomerId } : {}),
       customerName: customerName || 'Walk-in Customer',
       customerAddress: customerAddress,
       customerPhone: customerPhone,
-      items: [...cart],
-      subtotal, tax, total, paymentMethod
+      items: earned.items,
+      grossSubtotal: priced.grossSubtotal,
+      discountTotal: priced.discountTotal,
+      discounts: priced.discounts,
+      ...(cartDiscount ? { cartDiscount } : {}),
+      subtotal, tax, total,
+      payments: settled,
+      change: changeDue(settled),
+      ...(earned.points > 0 ? { pointsEarned: earned.points } : {}),
+      ...(quotationId ? { quotationId } : {}),
+      pricesIncludeTax: taxSettings.pricesIncludeTax,
+      taxLines: taxed.taxLines,
+      ...(exemptRef ? { taxExemptRef: exemptRef } : {})
     };
-    onComplete(sale);
+    if (!onComplete(sale)) {
+      alert("The sale could not be completed. Check the payments and customer, then try again.");
+      return;
+    }
     setCompletedSale(sale);
+    resetCart();
+  };
+
+  const resetCart = () => {
     setCart([]);
-    setCustomerName('');
-    setCustomerAddress('');
-    setCustomerPhone('');
-    setSelectedCustomerId(null);
+    setCartDiscount(undefined);
+    setPayments([]);
+    clearCustomer();
+    setQuotationId(null);
     setIsCartExpanded(false);
   };
 
+  type CartDetails = Pick<ParkedCart, 'cartDiscount' | 'customerId' | 'customerName' | 'customerAddress' | 'customerPhone' | 'taxExempt' | 'taxExemptRef' | 'quotationId'>;
+
+  const loadCart = (items: SaleItem[], details: CartDetails) => {
+    setCart(items);
+    setCartDiscount(details.cartDiscount);
+    setCustomerName(details.customerName);
+    setCustomerAddress(details.customerAddress);
+    setCustomerPhone(details.customerPhone);
+    setSelectedCustomerId(details.customerId && customers.some(c => c.id === details.customerId) ? details.customerId : null);
+    setIsTaxExempt(details.taxExempt);
+    setTaxExemptRef(details.taxExemptRef);
+    setQuotationId(details.quotationId || null);
+  };
+
+  const openParkCart = () => {
+    if (cart.length === 0) return;
+    if (payments.length > 0) {
+      alert("Remove the payments taken on this cart before parking it.");
+      return;
+    }
+    setParkName(customerName || `Cart ${parkedCarts.length + 1}`);
+    setIsParkOpen(true);
+  };
+
+  const handleParkCart = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!parkName.trim()) return;
+    onParkCart({
+      id: `CART-${Date.now()}`,
+      name: parkName.trim(),
+      parkedAt: new Date().toISOString(),
+      items: cart,
+      ...(cartDiscount ? { cartDiscount } : {}),
+      ...(selectedCustomerId ? { customerId: selectedCustomerId } : {}),
+      customerName,
+      customerAddress,
+      customerPhone,
+      taxExempt: isTaxExempt,
+      taxExemptRef,
+      ...(quotationId ? { quotationId } : {})
+    });
+    resetCart();
+    setIsParkOpen(false);
+  };
+
+  // Prices and stock may have moved while the cart was parked, so its lines are rebuilt first
+  const resumeCart = (parked: ParkedCart) => {
+    if (cart.length > 0 || payments.length > 0) {
+      alert("Park or finish the current cart before resuming another.");
+      return;
+    }
+    const { items, changes } = refreshCartItems(parked.items, products, reserved);
+    if (items.length === 0) {
+      alert(`Nothing in "${parked.name}" can be sold right now:\n${changes.join('\n')}`);
+      return;
+    }
+    loadCart(items, parked);
+    onRemoveParkedCart(parked.id);
+    setIsParkedListOpen(false);
+    if (changes.length > 0) alert(`Some items changed while the cart was parked:\n${changes.join('\n')}`);
+  };
+
+  const discardParkedCart = (parked: ParkedCart) => {
+    if (!confirm(`Discard the parked cart "${parked.name}"? Its items are not kept anywhere else.`)) return;
+    onRemoveParkedCart(parked.id);
+  };
+
+  const openSaveQuote = () => {
+    if (cart.length === 0) return;
+    if (!canDiscount && (cartDiscount || cart.some(item => item.lineDiscount))) {
+      alert("This cart has manual discounts. Remove them or have a staff member who may give discounts save the quotation.");
+      return;
+    }
+    if (payments.length > 0) {
+      alert("Remove the payments taken on this cart before saving it as a quotation.");
+      return;
+    }
+    setIsQuoteOpen(true);
+  };
+
+  // The quote records the cart as priced now; nothing is taken from stock
+  const handleSaveQuote = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const validUntil = formData.get('validUntil') as string;
+    const notes = (formData.get('notes') as string).trim();
+    if (!validUntil || validUntil < dayKey(new Date())) {
+      alert("The quotation must be valid until today or later.");
+      return;
+    }
+    const quotation: Quotation = {
+      id: `QUO-${Date.now()}`,
+      createdAt: new Date().toISOString(),
+      validUntil,
+      status: 'DRAFT',
+      ...(selectedCustomerId ? { customerId: selectedCustomerId } : {}),
+      customerName,
+      customerAddress,
+      customerPhone,
+      items: taxed.items,
+      grossSubtotal: priced.grossSubtotal,
+      discountTotal: priced.discountTotal,
+      discounts: priced.discounts,
+      ...(cartDiscount ? { cartDiscount } : {}),
+      subtotal, tax, total,
+      pricesIncludeTax: taxSettings.pricesIncludeTax,
+      taxLines: taxed.taxLines,
+      ...(exemptRef ? { taxExemptRef: exemptRef } : {}),
+      ...(notes ? { notes } : {})
+    };
+    onSaveQuote(quotation);
+    setSavedQuote(quotation);
+    setIsQuoteOpen(false);
+    resetCart();
+  };
+
+  const openSaveOrder = () => {
+    if (cart.length === 0) return;
+    if (!canDiscount && (cartDiscount || cart.some(item => item.lineDiscount))) {
+      alert("This cart has manual discounts. Remove them or have a staff member who may give discounts take the order.");
+      return;
+    }
+    if (payments.length > 0) {
+      alert("Remove the payments taken on this cart. Orders are paid when they are invoiced.");
+      return;
+    }
+    if (!customerName.trim() || !customerPhone.trim()) {
+      alert("Enter the customer's name and phone so the order can be delivered.");
+      return;
+    }
+    setIsOrderOpen(true);
+  };
+
+  // The cart's stock is reserved for the order and leaves the shelf only when delivered
+  const handleSaveOrder = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const notes = (new FormData(e.currentTarget).get('notes') as string).trim();
+    const order: SalesOrder = {
+      id: `SO-${Date.now()}`,
+      createdAt: new Date().toISOString(),
+      status: 'OPEN',
+      ...(selectedCustomerId ? { customerId: selectedCustomerId } : {}),
+      customerName: customerName.trim(),
+      customerAddress,
+      customerPhone: customerPhone.trim(),
+      items: toOrderItems(taxed.items),
+      grossSubtotal: priced.grossSubtotal,
+      discountTotal: priced.discountTotal,
+      discounts: priced.discounts,
+      ...(cartDiscount ? { cartDiscount } : {}),
+      subtotal, tax, total,
+      pricesIncludeTax: taxSettings.pricesIncludeTax,
+      taxLines: taxed.taxLines,
+      ...(exemptRef ? { taxExemptRef: exemptRef } : {}),
+      deliveries: [],
+      ...(notes ? { notes } : {})
+    };
+    if (!onSaveOrder(order)) {
+      alert("The sales order could not be saved. Check the discounts and tax exemption, then try again.");
+      return;
+    }
+    setIsOrderOpen(false);
+    resetCart();
+    alert(`Sales order #${order.id.slice(-8)} saved. Its stock is reserved until it is delivered or cancelled.`);
+  };
+
+  // A quotation sent over from the Quotations view is loaded at today's prices and stock
+  useEffect(() => {
+    if (!convertingQuote) return;
+    onQuoteLoaded();
+    if (cart.length > 0 || payments.length > 0) {
+      alert("Park or finish the current cart before converting a quotation.");
+      return;
+    }
+    const { items, changes } = refreshCartItems(convertingQuote.items, products, reserved);
+    if (items.length === 0) {
+      alert(`Nothing on quotation #${convertingQuote.id.slice(-8)} can be sold right now:\n${changes.join('\n')}`);
+      return;
+    }
+    loadCart(items, {
+      ...convertingQuote,
+      taxExempt: !!convertingQuote.taxExemptRef,
+      taxExemptRef: convertingQuote.taxExemptRef || '',
+      quotationId: convertingQuote.id
+    });
+    setCompletedSale(null);
+    setSavedQuote(null);
+    if (changes.length > 0) alert(`Some items changed since the quotation was made:\n${changes.join('\n')}`);
+  }, [convertingQuote]);
+
+  if (savedQuote) {
+    return (
+      <div className="max-w-xl mx-auto py-8 animate-fadeIn px-4">
+        <div className="bg-indigo-50 border border-indigo-100 p-8 rounded-3xl text-center no-print">
+          <h2 className="text-2xl font-bold text-indigo-900">Quotation Saved</h2>
+          <p className="text-indigo-700 mt-2 font-mono text-sm uppercase">Quote #{savedQuote.id.slice(-8)} · valid until {savedQuote.validUntil}</p>
+          <p className="text-xs font-medium text-indigo-500 mt-2">No stock has been taken. Convert it from Quotations when the customer orders.</p>
+          <div className="mt-6 flex flex-col sm:flex-row gap-3 justify-center">
+            <button onClick={() => window.print()} className="px-8 py-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 shadow-lg">Print Quotation</button>
+            <button onClick={() => setSavedQuote(null)} className="px-8 py-3 bg-white border rounded-xl font-bold text-slate-600 hover:bg-slate-50 transition">New Sale</button>
+          </div>
+        </div>
+        <QuotationPrint quotation={savedQuote} />
+      </div>
+    );
+  }
+
   if (completedSale) {
     return (
       <div className="max-w-xl mx-auto py-8 animate-fadeIn px-4">
@@ -264,7 +702,6 @@ const POS: React.FC<POSProps> = ({ products, customers, onSaveCustomer, onComple
             <div className="flex justify-between"><span>Customer:</span> <span className="font-bold">{completedSale.customerName}</span></div>
             {completedSale.customerPhone && <div className="flex justify-between"><span>Phone:</span> <span>{completedSale.customerPhone}</span></div>}
             {completedSale.customerAddress && <div className="flex justify-between"><span>Address:</span> <span className="text-right max-w-[150px]">{completedSale.customerAddress}</span></div>}
-            <div className="flex justify-between"><span>Method:</span> <span>{completedSale.paymentMethod}</span></div>
           </div>
 
           <div className="border-t border-b border-dashed border-black py-3 mb-6">
@@ -275,15 +712,43 @@ const POS: React.FC<POSProps> = ({ products, customers, onSaveCustomer, onComple
             </div>
             {completedSale.items.map((item, idx) => (
               <div key={idx} className="flex justify-between mb-1">
-                <span className="w-1/2 truncate uppercase">{item.name}</span>
+                <span className="w-1/2 truncate uppercase">{item.name}{item.unitName && ` (${item.unitName})`}</span>
                 <span className="w-1/6 text-center">x{item.quantity}</span>
-                <span className="w-1/3 text-right">${item.total.toFixed(2)}</span>
+                <span className="w-1/3 text-right">${lineGross(item).toFixed(2)}</span>
               </div>
             ))}
           </div>
 
           <div className="space-y-1.5 ml-auto w-3/4">
+            {completedSale.discountTotal > 0 && (
+              <>
+                <div className="flex justify-between"><span>GROSS:</span> <span>${completedSale.grossSubtotal.toFixed(2)}</span></div>
+                {completedSale.discounts.map((d, idx) => (
+                  <div key={idx} className="flex justify-between"><span className="uppercase truncate mr-2">{d.label}</span> <span>-${d.amount.toFixed(2)}</span></div>
+                ))}
+                <div className="flex justify-between font-bold"><span>YOU SAVED:</span> <span>${completedSale.discountTotal.toFixed(2)}</span></div>
+              </>
+            )}
+            <div className="flex justify-between"><span>SUBTOTAL (EX TAX):</span> <span>${completedSale.subtotal.toFixed(2)}</span></div>
+            {completedSale.taxLines.map((line, idx) => (
+              <div key={idx} className="flex justify-between"><span className="uppercase">{line.name} {line.percent}%:</span> <span>${line.amount.toFixed(2)}</span></div>
+            ))}
+            {completedSale.taxExemptRef && (
+              <div className="flex justify-between"><span>TAX EXEMPT:</span> <span>{completedSale.taxExemptRef}</span></div>
+            )}
             <div className="flex justify-between font-black text-base uppercase"><span>NET TOTAL:</span> <span>${completedSale.total.toFixed(2)}</span></div>
+            {completedSale.payments.map(payment => (
+              <div key={payment.id} className="flex justify-between">
+                <span className="uppercase">{payment.method}{payment.points !== undefined && ` (${payment.points} pts)`}{payment.reference && ` #${payment.reference}`}:</span>
+                <span>${(payment.tendered ?? payment.amount).toFixed(2)}</span>
+              </div>
+            ))}
+            {completedSale.change > 0 && (
+              <div className="flex justify-between font-bold"><span>CHANGE:</span> <span>${completedSale.change.toFixed(2)}</span></div>
+            )}
+            {(completedSale.pointsEarned || 0) > 0 && (
+              <div className="flex justify-between"><span>POINTS EARNED:</span> <span>{completedSale.pointsEarned}</span></div>
+            )}
           </div>
           <div className="text-center mt-16 pt-6 border-t border-dashed border-black">
             <p className="font-bold">THANK YOU FOR YOUR PATRONAGE!</p>
@@ -302,12 +767,20 @@ const POS: React.FC<POSProps> = ({ products, customers, onSaveCustomer, onComple
             <svg className="w-5 h-5 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
             <input 
               type="text" 
-              placeholder="Search products..." 
+              placeholder="Search or scan products..." 
+              data-barcode-input
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="w-full pl-10 pr-4 py-3 bg-slate-50 border rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 font-medium text-sm"
             />
           </div>
+          <button
+            onClick={() => setIsCameraOpen(true)}
+            className="bg-slate-900 text-white p-3 rounded-xl hover:bg-slate-800 transition shadow-lg shadow-slate-200 flex items-center justify-center shrink-0"
+            title="Scan Barcode with Camera"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 7V5a1 1 0 011-1h2M17 4h2a1 1 0 011 1v2M20 17v2a1 1 0 01-1 1h-2M7 20H5a1 1 0 01-1-1v-2M8 8v8M11 8v8M14 8v8M17 8v8" /></svg>
+          </button>
           <button 
             onClick={() => setIsScanModalOpen(true)}
             className="bg-emerald-600 text-white p-3 rounded-xl hover:bg-emerald-700 transition shadow-lg shadow-emerald-100 flex items-center justify-center shrink-0"
@@ -316,6 +789,19 @@ const POS: React.FC<POSProps> = ({ products, customers, onSaveCustomer, onComple
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" /></svg>
             <span className="hidden sm:inline ml-2 font-bold text-sm">Scan Order</span>
           </button>
+          <button
+            onClick={() => setIsParkedListOpen(true)}
+            className="relative bg-amber-500 text-white p-3 rounded-xl hover:bg-amber-600 transition shadow-lg shadow-amber-100 flex items-center justify-center shrink-0"
+            title="Parked Carts"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+            <span className="hidden sm:inline ml-2 font-bold text-sm">Parked</span>
+            {parkedCarts.length > 0 && (
+              <span className="absolute -top-2 -right-2 bg-rose-500 text-white text-[9px] font-black w-5 h-5 rounded-full flex items-center justify-center border-2 border-white">
+                {parkedCarts.length}
+              </span>
+            )}
+          </button>
         </div>
 
         <div className="flex-1 overflow-y-auto custom-scrollbar pb-24 md:pb-4">
@@ -328,9 +814,36 @@ const POS: React.FC<POSProps> = ({ products, customers, onSaveCustomer, onComple
                     <span className="text-indigo-600 font-black text-sm">${p.sellPrice.toFixed(2)}</span>
                   </div>
                   <h4 className="font-bold text-slate-800 text-xs md:text-sm leading-tight line-clamp-2 min-h-[2.5rem] uppercase tracking-tighter">{p.name}</h4>
+                  {p.units.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1.5">
+                      {p.units.filter(u => u.factor <= available(p)).map(u => (
+                        <span
+                          key={u.id}
+                          role="button"
+                          onClick={(e) => { e.stopPropagation(); addToCart(p, u); }}
+                          className="text-[9px] font-black uppercase px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-600 hover:bg-indigo-600 hover:text-white transition"
+                          title={`${u.factor} units`}
+                        >
+                          + {u.name}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
+                {(() => {
+                  const next = nextLots.get(p.id);
+                  const status = next ? expiryStatus(next) : 'OK';
+                  if (!next || status === 'OK') return null;
+                  return (
+                    <span className={`inline-block mt-1.5 text-[9px] font-black uppercase px-1.5 py-0.5 rounded ${status === 'EXPIRED' ? 'bg-rose-50 text-rose-600' : 'bg-amber-50 text-amber-600'}`}>
+                      {status === 'EXPIRED' ? 'Expired lot' : `Exp ${next.expiryDate}`}
+                    </span>
+                  );
+                })()}
                 <div className="mt-3 flex justify-between items-center">
-                  <span className={`text-[10px] font-black ${p.stock <= p.minStock ? 'text-rose-500' : 'text-slate-400'}`}>{p.stock} units</span>
+                  <span className={`text-[10px] font-black ${p.stock <= p.minStock ? 'text-rose-500' : 'text-slate-400'}`}>
+                    {reserved[p.id] ? `${available(p)} of ${p.stock} free` : `${p.stock} units`}
+                  </span>
                   <div className="w-8 h-8 bg-slate-100 rounded-full flex items-center justify-center text-slate-400 group-hover:bg-indigo-600 group-hover:text-white transition shadow-sm font-black">+</div>
                 </div>
               </button>
@@ -386,23 +899,59 @@ const POS: React.FC<POSProps> = ({ products, customers, onSaveCustomer, onComple
         {/* Cart Contents - Scrollable */}
         <div className={`flex-1 flex flex-col overflow-hidden ${!isCartExpanded && 'hidden lg:flex'}`}>
           <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-slate-50/50 custom-scrollbar">
-            {cart.map(item => (
-              <div key={item.productId} className="flex gap-4 bg-white p-4 rounded-2xl border border-slate-200 shadow-sm group">
-                <div className="flex-1 min-w-0">
-                  <p className="font-black text-sm text-slate-800 uppercase leading-tight line-clamp-2">{item.name}</p>
-                  <div className="flex items-center gap-2 mt-2">
-                    <span className="text-[11px] font-bold text-slate-400">${item.price.toFixed(2)}/unit</span>
-                    <span className="w-1 h-1 bg-slate-200 rounded-full"></span>
-                    <span className="text-xs font-black text-indigo-600">Total: ${item.total.toFixed(2)}</span>
+            {cart.map(item => {
+              const key = lineKey(item);
+              const line = pricedLine(key);
+              const promotion = promotionFor(key);
+              const picks = cartLots.find(l => sameLine(l, item))?.lots?.filter(pick => pick.expiryDate || pick.lotNumber) || [];
+              return (
+                <div key={key} className="flex gap-4 bg-white p-4 rounded-2xl border border-slate-200 shadow-sm group">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-black text-sm text-slate-800 uppercase leading-tight line-clamp-2">{item.name}</p>
+                    {item.unitName && (
+                      <p className="text-[10px] font-black text-indigo-500 uppercase mt-0.5">{item.unitName} · {item.unitFactor} units each</p>
+                    )}
+                    {picks.length > 0 && (
+                      <p className="text-[10px] font-bold mt-0.5">
+                        {picks.map(pick => (
+                          <span key={pick.lotId} className={`mr-2 ${expiryStatus(pick) === 'EXPIRED' ? 'text-rose-600' : expiryStatus(pick) === 'NEAR' ? 'text-amber-600' : 'text-slate-400'}`}>
+                            {pick.quantity}× {pick.lotNumber ? `lot ${pick.lotNumber}` : 'lot'}{pick.expiryDate ? ` exp ${pick.expiryDate}` : ''}
+                          </span>
+                        ))}
+                      </p>
+                    )}
+                    <div className="flex items-center gap-2 mt-2">
+                      <span className="text-[11px] font-bold text-slate-400">${item.price.toFixed(2)}/{item.unitName || 'unit'}</span>
+                      <span className="w-1 h-1 bg-slate-200 rounded-full"></span>
+                      {line && line.discount > 0 && (
+                        <span className="text-[11px] font-bold text-slate-300 line-through">${lineGross(item).toFixed(2)}</span>
+                      )}
+                      <span className="text-xs font-black text-indigo-600">Total: ${(line?.total ?? lineGross(item)).toFixed(2)}</span>
+                    </div>
+                    {(item.lineDiscount || promotion || canDiscount) && (
+                      <div className="flex flex-wrap items-center gap-1.5 mt-1.5">
+                        {item.lineDiscount && (
+                          <span className="text-[9px] font-black uppercase px-1.5 py-0.5 rounded bg-amber-50 text-amber-600">{item.lineDiscount.reason || describeDiscount(item.lineDiscount)}</span>
+                        )}
+                        {promotion && (
+                          <span className="text-[9px] font-black uppercase px-1.5 py-0.5 rounded bg-emerald-50 text-emerald-600">{promotion.label}</span>
+                        )}
+                        {canDiscount && (
+                          <button onClick={(e) => { e.stopPropagation(); openDiscount(key); }} className="text-[9px] font-black uppercase text-indigo-400 hover:text-indigo-600">
+                            {item.lineDiscount ? 'Edit Discount' : '+ Discount'}
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center bg-slate-100 rounded-xl p-1 gap-1 h-fit">
+                    <button onClick={(e) => { e.stopPropagation(); updateQuantity(lineKey(item), -1); }} className="w-8 h-8 flex items-center justify-center bg-white rounded-lg shadow-sm font-black text-slate-400 hover:text-rose-500 active:scale-90 transition">-</button>
+                    <span className="w-8 text-center text-sm font-black text-slate-800">{item.quantity}</span>
+                    <button onClick={(e) => { e.stopPropagation(); updateQuantity(lineKey(item), 1); }} className="w-8 h-8 flex items-center justify-center bg-white rounded-lg shadow-sm font-black text-slate-400 hover:text-emerald-500 active:scale-90 transition">+</button>
                   </div>
                 </div>
-                <div className="flex items-center bg-slate-100 rounded-xl p-1 gap-1 h-fit">
-                  <button onClick={(e) => { e.stopPropagation(); updateQuantity(item.productId, -1); }} className="w-8 h-8 flex items-center justify-center bg-white rounded-lg shadow-sm font-black text-slate-400 hover:text-rose-500 active:scale-90 transition">-</button>
-                  <span className="w-8 text-center text-sm font-black text-slate-800">{item.quantity}</span>
-                  <button onClick={(e) => { e.stopPropagation(); updateQuantity(item.productId, 1); }} className="w-8 h-8 flex items-center justify-center bg-white rounded-lg shadow-sm font-black text-slate-400 hover:text-emerald-500 active:scale-90 transition">+</button>
-                </div>
-              </div>
-            ))}
+              );
+            })}
             
             {cart.length === 0 && (
               <div className="text-center py-20 opacity-20 flex flex-col items-center">
@@ -421,6 +970,20 @@ const POS: React.FC<POSProps> = ({ products, customers, onSaveCustomer, onComple
                     <button onClick={clearCustomer} className="text-[9px] font-bold text-rose-500 hover:underline">Clear Selected</button>
                   )}
                 </div>
+                {selectedCustomer && (selectedBalance !== 0 || selectedCustomer.creditLimit !== undefined) && (
+                  <div className="flex justify-between items-center px-4 py-2.5 bg-amber-50 border border-amber-100 rounded-2xl text-[10px] font-black uppercase">
+                    <span className="text-amber-700">{selectedBalance >= 0 ? 'Owes' : 'In credit'} ${Math.abs(selectedBalance).toFixed(2)}</span>
+                    {selectedCustomer.creditLimit !== undefined && (
+                      <span className="text-amber-500">Limit ${selectedCustomer.creditLimit.toFixed(2)} · {selectedCustomer.creditPolicy === 'WARN' ? 'Warn' : 'Block'}</span>
+                    )}
+                  </div>
+                )}
+                {selectedCustomer && loyaltySettings.enabled && (
+                  <div className="flex justify-between items-center px-4 py-2.5 bg-indigo-50 border border-indigo-100 rounded-2xl text-[10px] font-black uppercase">
+                    <span className="text-indigo-700">{selectedPoints} points</span>
+                    <span className="text-indigo-400">Worth ${(selectedPoints * loyaltySettings.pointValue).toFixed(2)}</span>
+                  </div>
+                )}
                 
                 <div className="relative">
                   <input 
@@ -486,43 +1049,166 @@ const POS: React.FC<POSProps> = ({ products, customers, onSaveCustomer, onComple
                     onChange={(e) => setCustomerAddress(e.target.value)} 
                     className="w-full px-4 py-3 bg-slate-50 border-2 border-transparent rounded-2xl text-[11px] font-bold outline-none focus:bg-white focus:border-indigo-500 resize-none h-20 transition"
                   />
+                  {/* Without the discount permission only a certificate already on file shows, read-only */}
+                  {(canDiscount || isTaxExempt) && (
+                    <>
+                      <label className={`flex items-center gap-2 px-1 text-[10px] font-black uppercase text-slate-500 ${canDiscount ? 'cursor-pointer' : 'opacity-50'}`}>
+                        <input
+                          type="checkbox"
+                          checked={isTaxExempt}
+                          disabled={!canDiscount}
+                          onChange={(e) => setIsTaxExempt(e.target.checked)}
+                          className="rounded text-indigo-600"
+                        />
+                        Tax Exempt
+                      </label>
+                      {isTaxExempt && (
+                        <input
+                          type="text"
+                          placeholder="Exemption Certificate No."
+                          value={taxExemptRef}
+                          disabled={!canDiscount}
+                          onChange={(e) => setTaxExemptRef(e.target.value)}
+                          className="w-full px-4 py-3 bg-slate-50 border-2 border-transparent rounded-2xl text-[11px] font-bold outline-none focus:bg-white focus:border-indigo-500 transition"
+                        />
+                      )}
+                    </>
+                  )}
                 </div>
               </div>
 
               {/* Payment Section */}
               <div className="space-y-2">
-                <h4 className="text-[10px] font-black uppercase text-slate-400 tracking-widest px-1">Payment Method</h4>
-                <div className="grid grid-cols-3 gap-2">
-                  {(['Cash', 'Card', 'Transfer'] as const).map(method => (
+                <div className="flex justify-between items-center px-1">
+                  <h4 className="text-[10px] font-black uppercase text-slate-400 tracking-widest">Payment</h4>
+                  {payments.length > 0 && (
+                    <span className="text-[10px] font-black uppercase text-slate-500">Due ${due.toFixed(2)}</span>
+                  )}
+                </div>
+                {payments.map(payment => (
+                  <div key={payment.id} className="flex justify-between items-center bg-white px-4 py-2.5 rounded-2xl border border-slate-200 text-xs font-bold">
+                    <span className="uppercase text-slate-600">
+                      {payment.method}
+                      {payment.reference && <span className="ml-2 font-mono text-slate-400 normal-case">#{payment.reference}</span>}
+                    </span>
+                    <span className="flex items-center gap-3">
+                      <span className="font-black text-slate-800">${payment.amount.toFixed(2)}</span>
+                      <button onClick={() => setPayments(prev => prev.filter(p => p.id !== payment.id))} className="text-rose-400 hover:text-rose-600 font-black">×</button>
+                    </span>
+                  </div>
+                ))}
+                <div className="grid grid-cols-2 gap-2">
+                  {paymentMethods.map(method => (
                     <button
                       key={method}
                       onClick={() => setPaymentMethod(method)}
-                      className={`py-3 rounded-2xl text-[10px] font-black uppercase transition border-2 ${
+                      disabled={(method === 'On Account' || method === 'Points') && !selectedCustomerId}
+                      title={(method === 'On Account' || method === 'Points') && !selectedCustomerId ? 'Select a saved customer first' : undefined}
+                      className={`py-3 rounded-2xl text-[10px] font-black uppercase transition border-2 disabled:opacity-30 ${paymentMethods.length % 2 ? 'last:col-span-2' : ''} ${
                         paymentMethod === method 
                         ? 'bg-indigo-600 border-indigo-600 text-white shadow-lg shadow-indigo-100' 
                         : 'bg-white border-slate-100 text-slate-400 hover:border-indigo-200'
                       }`}
                     >
-                      {method}
+                      {method === 'Points' && selectedCustomerId ? `Points (${selectedPoints - pointsInPayments(payments)})` : method}
                     </button>
                   ))}
                 </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder={due.toFixed(2)}
+                    value={paymentAmount}
+                    onChange={(e) => setPaymentAmount(e.target.value)}
+                    title={paymentMethod === 'Cash' ? 'Cash tendered (blank = exact)' : 'Amount (blank = balance due)'}
+                    className={`${paymentMethod === 'Cash' ? 'col-span-2' : ''} px-4 py-3 bg-white border-2 border-slate-200 rounded-2xl text-xs font-bold outline-none focus:border-indigo-500`}
+                  />
+                  {paymentMethod !== 'Cash' && (
+                    <input
+                      type="text"
+                      placeholder="Reference"
+                      value={paymentReference}
+                      onChange={(e) => setPaymentReference(e.target.value)}
+                      className="px-4 py-3 bg-white border-2 border-slate-200 rounded-2xl text-xs font-bold outline-none focus:border-indigo-500"
+                    />
+                  )}
+                  <button
+                    onClick={() => takePayment()}
+                    disabled={cart.length === 0 || due <= 0}
+                    className="bg-slate-900 text-white text-[10px] font-black rounded-2xl py-3 hover:bg-slate-800 transition active:scale-95 uppercase disabled:opacity-30"
+                  >
+                    Split
+                  </button>
+                </div>
+                {(pendingChange > 0 || changeDue(payments) > 0) && (
+                  <div className="flex justify-between items-center bg-emerald-50 border border-emerald-100 px-4 py-2.5 rounded-2xl">
+                    <span className="text-[10px] font-black uppercase text-emerald-600 tracking-widest">Change Due</span>
+                    <span className="text-lg font-black text-emerald-700">${(changeDue(payments) + pendingChange).toFixed(2)}</span>
+                  </div>
+                )}
               </div>
             </div>
           </div>
 
           {/* FINAL STICKY FOOTER */}
           <div className="p-6 border-t-2 border-slate-100 bg-white shadow-[0_-10px_30px_-15px_rgba(0,0,0,0.1)] shrink-0 z-10">
+            {(priced.discountTotal > 0 || (canDiscount && cart.length > 0)) && (
+              <div className="flex justify-between items-center mb-3 text-[11px] font-bold">
+                {priced.discountTotal > 0 ? (
+                  <span className="text-emerald-600 uppercase">
+                    Savings ${priced.discountTotal.toFixed(2)} <span className="text-slate-300 line-through ml-1">${priced.grossSubtotal.toFixed(2)}</span>
+                  </span>
+                ) : <span />}
+                {canDiscount && cart.length > 0 && (
+                  <button onClick={() => openDiscount('CART')} className="text-[10px] font-black uppercase text-indigo-500 hover:text-indigo-700">
+                    {cartDiscount ? `Cart: ${cartDiscount.reason || describeDiscount(cartDiscount)}` : '+ Cart Discount'}
+                  </button>
+                )}
+              </div>
+            )}
             <div className="flex justify-between items-center mb-6">
               <div className="flex flex-col">
                  <span className="text-[11px] font-black uppercase text-slate-400 tracking-wider">Total Amount Due</span>
-                 <span className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-0.5">Includes 5% Sales Tax</span>
+                 <span className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mt-0.5">
+                   {exemptRef ? 'Tax Exempt' : taxSettings.pricesIncludeTax ? `Includes $${tax.toFixed(2)} Tax` : `$${subtotal.toFixed(2)} + $${tax.toFixed(2)} Tax`}
+                 </span>
               </div>
               <div className="text-right">
                 <span className="text-3xl font-black text-indigo-600 tracking-tight leading-none">${total.toFixed(2)}</span>
               </div>
             </div>
 
+            {quotationId && (
+              <div className="flex justify-between items-center mb-3 px-4 py-2 bg-emerald-50 border border-emerald-100 rounded-2xl text-[10px] font-black uppercase">
+                <span className="text-emerald-700">Converting Quote #{quotationId.slice(-8)}</span>
+                <button onClick={() => setQuotationId(null)} className="text-emerald-500 hover:text-emerald-700">Unlink</button>
+              </div>
+            )}
+            <div className="grid grid-cols-3 gap-2 mb-3">
+              <button
+                disabled={cart.length === 0}
+                onClick={openParkCart}
+                className="bg-amber-50 text-amber-700 font-black py-3 rounded-[1.5rem] hover:bg-amber-100 transition disabled:opacity-30 disabled:pointer-events-none uppercase tracking-[0.2em] text-[10px]"
+              >
+                Park Cart
+              </button>
+              <button
+                disabled={cart.length === 0 || !!quotationId}
+                onClick={openSaveQuote}
+                className="bg-slate-100 text-slate-700 font-black py-3 rounded-[1.5rem] hover:bg-slate-200 transition disabled:opacity-30 disabled:pointer-events-none uppercase tracking-[0.2em] text-[10px]"
+              >
+                Save Quote
+              </button>
+              <button
+                disabled={cart.length === 0}
+                onClick={openSaveOrder}
+                className="bg-emerald-50 text-emerald-700 font-black py-3 rounded-[1.5rem] hover:bg-emerald-100 transition disabled:opacity-30 disabled:pointer-events-none uppercase tracking-[0.2em] text-[10px]"
+              >
+                Save Order
+              </button>
+            </div>
             <button 
               disabled={cart.length === 0} 
               onClick={handleFinish} 
@@ -534,6 +1220,147 @@ const POS: React.FC<POSProps> = ({ products, customers, onSaveCustomer, onComple
         </div>
       </div>
 
+      {/* Park Cart Modal */}
+      {isParkOpen && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+          <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-sm overflow-hidden animate-slideUp">
+            <div className="bg-amber-500 px-8 py-5 flex justify-between items-center text-white">
+              <h3 className="text-xl font-black uppercase tracking-tight">Park Cart</h3>
+              <button onClick={() => setIsParkOpen(false)}><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" /></svg></button>
+            </div>
+            <form onSubmit={handleParkCart} className="p-8 space-y-4">
+              <div>
+                <label className="block text-xs font-black uppercase text-slate-400 mb-1">Name</label>
+                <input
+                  autoFocus
+                  required
+                  value={parkName}
+                  onChange={(e) => setParkName(e.target.value)}
+                  placeholder="e.g. Blue shirt, aisle 3"
+                  className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-amber-500"
+                />
+              </div>
+              <p className="text-[10px] font-bold text-slate-400 uppercase">
+                {cart.length} line(s) · ${total.toFixed(2)} · {parkedCartHours > 0 ? `Kept for ${parkedCartHours} hour(s)` : 'Kept until resumed'}
+              </p>
+              <div className="flex justify-end gap-3">
+                <button type="button" onClick={() => setIsParkOpen(false)} className="px-6 py-3 font-bold text-slate-400 hover:text-slate-600 transition uppercase text-xs">Cancel</button>
+                <button type="submit" className="px-8 py-3 bg-amber-500 text-white font-black rounded-xl hover:bg-amber-600 transition shadow-xl uppercase text-xs">Park</button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Save Quote Modal */}
+      {isQuoteOpen && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+          <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-sm overflow-hidden animate-slideUp">
+            <div className="bg-slate-900 px-8 py-5 flex justify-between items-center text-white">
+              <h3 className="text-xl font-black uppercase tracking-tight">Save Quotation</h3>
+              <button onClick={() => setIsQuoteOpen(false)}><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" /></svg></button>
+            </div>
+            <form onSubmit={handleSaveQuote} className="p-8 space-y-4">
+              <div>
+                <label className="block text-xs font-black uppercase text-slate-400 mb-1">Valid Until</label>
+                <input
+                  name="validUntil"
+                  type="date"
+                  required
+                  min={dayKey(new Date())}
+                  defaultValue={validityDate(DEFAULT_QUOTE_VALIDITY_DAYS)}
+                  className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl font-bold text-slate-600"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-black uppercase text-slate-400 mb-1">Notes</label>
+                <textarea name="notes" rows={3} placeholder="Delivery terms, payment terms..." className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl font-medium text-sm" />
+              </div>
+              <p className="text-[10px] font-bold text-slate-400 uppercase">
+                {customerName || 'Walk-in Customer'} · {cart.length} line(s) · ${total.toFixed(2)}
+              </p>
+              <div className="flex justify-end gap-3">
+                <button type="button" onClick={() => setIsQuoteOpen(false)} className="px-6 py-3 font-bold text-slate-400 hover:text-slate-600 transition uppercase text-xs">Cancel</button>
+                <button type="submit" className="px-8 py-3 bg-slate-900 text-white font-black rounded-xl hover:bg-slate-800 transition shadow-xl uppercase text-xs">Save Quote</button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Save Order Modal */}
+      {isOrderOpen && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+          <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-sm overflow-hidden animate-slideUp">
+            <div className="bg-emerald-600 px-8 py-5 flex justify-between items-center text-white">
+              <h3 className="text-xl font-black uppercase tracking-tight">Save Sales Order</h3>
+              <button onClick={() => setIsOrderOpen(false)}><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" /></svg></button>
+            </div>
+            <form onSubmit={handleSaveOrder} className="p-8 space-y-4">
+              <div>
+                <label className="block text-xs font-black uppercase text-slate-400 mb-1">Delivery Notes</label>
+                <textarea name="notes" rows={3} placeholder="Delivery date, address details..." className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl font-medium text-sm" />
+              </div>
+              <p className="text-[10px] font-bold text-slate-400 uppercase">
+                {customerName} · {cart.length} line(s) · ${total.toFixed(2)} · paid on invoice
+              </p>
+              <div className="flex justify-end gap-3">
+                <button type="button" onClick={() => setIsOrderOpen(false)} className="px-6 py-3 font-bold text-slate-400 hover:text-slate-600 transition uppercase text-xs">Cancel</button>
+                <button type="submit" className="px-8 py-3 bg-emerald-600 text-white font-black rounded-xl hover:bg-emerald-700 transition shadow-xl uppercase text-xs">Save Order</button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Parked Carts Modal */}
+      {isParkedListOpen && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+          <div className="bg-white rounded-[2.5rem] shadow-2xl w-full max-w-xl overflow-hidden animate-slideUp">
+            <div className="bg-amber-500 px-8 py-5 flex justify-between items-center text-white">
+              <h3 className="text-xl font-black uppercase tracking-tight">Parked Carts</h3>
+              <button onClick={() => setIsParkedListOpen(false)}><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" /></svg></button>
+            </div>
+            <div className="max-h-[70vh] overflow-y-auto custom-scrollbar divide-y divide-slate-100">
+              {[...parkedCarts].sort((a, b) => b.parkedAt.localeCompare(a.parkedAt)).map(parked => {
+                const expiresAt = cartExpiresAt(parked, parkedCartHours);
+                return (
+                  <div key={parked.id} className="px-8 py-4 flex justify-between items-center gap-4">
+                    <div className="min-w-0">
+                      <p className="font-black text-slate-800 truncate">{parked.name}</p>
+                      <p className="text-xs font-medium text-slate-500 truncate">
+                        {parked.items.reduce((acc, item) => acc + item.quantity, 0)} item(s){parked.customerName ? ` · ${parked.customerName}` : ''}
+                      </p>
+                      <p className="text-[10px] font-bold uppercase text-slate-400">
+                        Parked {new Date(parked.parkedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}{parked.parkedBy ? ` by ${parked.parkedBy}` : ''}
+                        {' · '}{expiresAt ? `Expires ${expiresAt.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}` : 'No expiry'}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={() => resumeCart(parked)}
+                        className="bg-indigo-50 text-indigo-600 px-3 py-1 rounded-lg font-black text-xs uppercase hover:bg-indigo-100 transition"
+                      >
+                        Resume
+                      </button>
+                      <button
+                        onClick={() => discardParkedCart(parked)}
+                        className="bg-rose-50 text-rose-600 px-3 py-1 rounded-lg font-black text-xs uppercase hover:bg-rose-100 transition"
+                      >
+                        Discard
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+              {parkedCarts.length === 0 && (
+                <p className="px-8 py-12 text-center text-slate-400 font-bold italic">No carts are parked.</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* AI POS Order Scanner Modal */}
       {isScanModalOpen && (
         <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
@@ -603,6 +1430,70 @@ const POS: React.FC<POSProps> = ({ products, customers, onSaveCustomer, onComple
           </div>
         </div>
       )}
+
+      {discountTarget && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+          <div className="bg-white rounded-3xl shadow-2xl w-full max-w-sm overflow-hidden animate-slideUp">
+            <div className="bg-slate-900 p-6 flex justify-between items-center text-white">
+              <div>
+                <h3 className="font-black uppercase tracking-tight">{discountTarget === 'CART' ? 'Cart Discount' : 'Line Discount'}</h3>
+                {editingLine && <p className="text-[10px] font-bold text-slate-400 uppercase mt-0.5">{editingLine.name}{editingLine.unitName && ` (${editingLine.unitName})`}</p>}
+              </div>
+              <button onClick={() => setDiscountTarget(null)}><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" /></svg></button>
+            </div>
+            <form onSubmit={handleDiscountSubmit} className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                {(['PERCENT', 'FIXED'] as const).map(type => (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() => setDiscountType(type)}
+                    className={`py-2.5 rounded-xl text-[10px] font-black uppercase transition border-2 ${discountType === type ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-100 text-slate-400 hover:border-indigo-200'}`}
+                  >
+                    {type === 'PERCENT' ? 'Percent %' : 'Amount $'}
+                  </button>
+                ))}
+              </div>
+              <input
+                name="value"
+                type="number"
+                step="0.01"
+                min="0"
+                required
+                autoFocus
+                defaultValue={editingDiscount?.value}
+                placeholder={discountType === 'PERCENT' ? '10' : '5.00'}
+                className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none font-black text-lg"
+              />
+              <input
+                name="reason"
+                defaultValue={editingDiscount?.reason}
+                placeholder="Reason (optional, shown on receipt)"
+                className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none text-xs font-bold"
+              />
+              {discountTarget !== 'CART' && (
+                <p className="text-[10px] font-bold text-slate-400">A line with its own discount is left out of promotions.</p>
+              )}
+              <div className="flex gap-3">
+                {editingDiscount && (
+                  <button type="button" onClick={() => applyDiscount(undefined)} className="flex-1 py-3 bg-rose-50 text-rose-600 font-black rounded-xl hover:bg-rose-100 transition uppercase text-xs">Remove</button>
+                )}
+                <button type="submit" className="flex-1 py-3 bg-indigo-600 text-white font-black rounded-xl hover:bg-indigo-700 transition uppercase text-xs">Apply</button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {isCameraOpen && (
+        <CameraScanner onDetected={handleBarcode} onClose={() => setIsCameraOpen(false)} />
+      )}
+
+      {scanNotice && (
+        <div className={`fixed top-6 left-1/2 -translate-x-1/2 z-[80] px-4 py-2 rounded-full shadow-lg text-xs font-black uppercase tracking-widest animate-fadeIn ${scanNotice.ok ? 'bg-emerald-600 text-white' : 'bg-rose-600 text-white'}`}>
+          {scanNotice.message}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,425 @@
+import React, { useState } from 'react';
+import { LoyaltySettings, Product, Promotion, PromotionType } from '../types';
+import { dayKey, describePromotion, isPromotionLive } from '../services/pricing';
+
+interface PromotionsProps {
+  promotions: Promotion[];
+  products: Product[];
+  categories: string[];
+  onSave: (promotion: Promotion) => void;
+  onDelete: (id: string) => void;
+  loyalty: LoyaltySettings;
+  onSaveLoyalty: (loyalty: LoyaltySettings) => void;
+}
+
+const TYPE_LABELS: Record<PromotionType, string> = {
+  BUY_X_GET_Y: 'Buy X Get Y',
+  BUNDLE: 'Bundle Price',
+  CATEGORY_PERCENT: 'Category % Off'
+};
+
+const promotionStatus = (promotion: Promotion) => {
+  const today = dayKey(new Date());
+  if (!promotion.active) return { label: 'Paused', style: 'bg-slate-100 text-slate-500' };
+  if (isPromotionLive(promotion)) return { label: 'Live', style: 'bg-emerald-50 text-emerald-600' };
+  if (promotion.startsAt && promotion.startsAt > today) return { label: 'Scheduled', style: 'bg-indigo-50 text-indigo-600' };
+  return { label: 'Ended', style: 'bg-rose-50 text-rose-500' };
+};
+
+const Promotions: React.FC<PromotionsProps> = ({ promotions, products, categories, onSave, onDelete, loyalty, onSaveLoyalty }) => {
+  const [loyaltyDraft, setLoyaltyDraft] = useState<LoyaltySettings>(loyalty);
+  const isLoyaltyDirty = JSON.stringify(loyaltyDraft) !== JSON.stringify(loyalty);
+  const [editing, setEditing] = useState<Promotion | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [formType, setFormType] = useState<PromotionType>('BUY_X_GET_Y');
+  const [formProductIds, setFormProductIds] = useState<string[]>([]);
+  const [productSearch, setProductSearch] = useState('');
+
+  const activeProducts = products.filter(p => !p.archivedAt);
+  const matchingProducts = activeProducts.filter(p =>
+    p.name.toLowerCase().includes(productSearch.toLowerCase()) ||
+    p.sku.toLowerCase().includes(productSearch.toLowerCase())
+  );
+
+  const openModal = (promotion: Promotion | null) => {
+    setEditing(promotion);
+    setFormType(promotion?.type || 'BUY_X_GET_Y');
+    setFormProductIds(promotion?.productIds || []);
+    setProductSearch('');
+    setIsModalOpen(true);
+  };
+
+  const toggleProduct = (id: string) => {
+    setFormProductIds(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]);
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const num = (field: string) => parseFloat(formData.get(field) as string);
+    const startsAt = (formData.get('startsAt') as string) || undefined;
+    const endsAt = (formData.get('endsAt') as string) || undefined;
+    if (startsAt && endsAt && endsAt < startsAt) {
+      alert("The end date must be on or after the start date.");
+      return;
+    }
+
+    const promotion: Promotion = {
+      id: editing?.id || `PROMO-${Date.now()}`,
+      name: (formData.get('name') as string).trim(),
+      type: formType,
+      active: formData.get('active') === 'on',
+      productIds: formType === 'CATEGORY_PERCENT' ? [] : formProductIds,
+      startsAt,
+      endsAt,
+      createdAt: editing?.createdAt || new Date().toISOString()
+    };
+
+    if (formType === 'BUY_X_GET_Y') {
+      promotion.buyQuantity = num('buyQuantity');
+      promotion.getQuantity = num('getQuantity');
+      if (!(promotion.buyQuantity >= 1 && promotion.getQuantity >= 1)) {
+        alert("Buy and free quantities must be at least 1.");
+        return;
+      }
+    } else if (formType === 'BUNDLE') {
+      promotion.bundleQuantity = num('bundleQuantity');
+      promotion.bundlePrice = num('bundlePrice');
+      if (!(promotion.bundleQuantity >= 2 && promotion.bundlePrice >= 0)) {
+        alert("A bundle needs at least 2 units and a price.");
+        return;
+      }
+    } else {
+      promotion.category = formData.get('category') as string;
+      promotion.percent = num('percent');
+      if (!(promotion.percent > 0 && promotion.percent <= 100)) {
+        alert("The discount must be between 0 and 100 percent.");
+        return;
+      }
+    }
+
+    if (formType !== 'CATEGORY_PERCENT' && formProductIds.length === 0) {
+      alert("Pick at least one product for this promotion.");
+      return;
+    }
+
+    onSave(promotion);
+    setIsModalOpen(false);
+  };
+
+  const handleDelete = (promotion: Promotion) => {
+    if (!confirm(`Delete the promotion "${promotion.name}"? Past sales keep the discount they were given.`)) return;
+    onDelete(promotion.id);
+  };
+
+  const setMultiplier = (category: string, value: string) => {
+    setLoyaltyDraft(prev => {
+      const { [category]: _, ...rest } = prev.categoryMultipliers;
+      const multiplier = parseFloat(value);
+      return { ...prev, categoryMultipliers: value === '' || isNaN(multiplier) ? rest : { ...rest, [category]: multiplier } };
+    });
+  };
+
+  const handleSaveLoyalty = () => {
+    const { pointsPerUnit, pointValue, expiryDays, categoryMultipliers } = loyaltyDraft;
+    if (!(pointsPerUnit >= 0) || !(expiryDays >= 0) || Object.values(categoryMultipliers).some(m => !(m >= 0))) {
+      alert("Earning rates, multipliers and expiry days cannot be negative.");
+      return;
+    }
+    if (!(pointValue > 0)) {
+      alert("Each point must be worth more than $0.");
+      return;
+    }
+    onSaveLoyalty({ ...loyaltyDraft, expiryDays: Math.floor(expiryDays) });
+  };
+
+  const scope = (promotion: Promotion) => {
+    if (promotion.type === 'CATEGORY_PERCENT') return promotion.category;
+    const names = promotion.productIds.map(id => products.find(p => p.id === id)?.name || id);
+    return names.length > 2 ? `${names.slice(0, 2).join(', ')} +${names.length - 2} more` : names.join(', ');
+  };
+
+  return (
+    <div className="space-y-6 animate-fadeIn">
+      <header className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-slate-800 tracking-tight">Promotions</h2>
+          <p className="text-slate-500 font-medium">Deals applied automatically at the POS while they are live.</p>
+        </div>
+        <button
+          onClick={() => openModal(null)}
+          className="bg-indigo-600 text-white px-6 py-2.5 rounded-xl font-bold hover:bg-indigo-700 transition shadow-lg shadow-indigo-100"
+        >
+          + New Promotion
+        </button>
+      </header>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-slate-50 text-slate-400 text-[10px] font-black uppercase tracking-widest">
+              <tr>
+                <th className="px-6 py-4">Name</th>
+                <th className="px-6 py-4">Deal</th>
+                <th className="px-6 py-4">Applies To</th>
+                <th className="px-6 py-4">Dates</th>
+                <th className="px-6 py-4">Status</th>
+                <th className="px-6 py-4 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 text-sm font-medium">
+              {promotions.map(promo => {
+                const status = promotionStatus(promo);
+                return (
+                  <tr key={promo.id} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4 font-bold text-slate-800">{promo.name}</td>
+                    <td className="px-6 py-4">
+                      <p className="text-[10px] font-black uppercase text-slate-400">{TYPE_LABELS[promo.type]}</p>
+                      <p className="font-bold text-slate-700">{describePromotion(promo)}</p>
+                    </td>
+                    <td className="px-6 py-4 text-slate-500 text-xs max-w-xs truncate">{scope(promo)}</td>
+                    <td className="px-6 py-4 text-slate-500 text-xs font-mono">
+                      {promo.startsAt || 'Any time'} → {promo.endsAt || 'No end'}
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`text-[10px] font-black uppercase px-2 py-0.5 rounded ${status.style}`}>{status.label}</span>
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => onSave({ ...promo, active: !promo.active })}
+                          className="bg-slate-100 text-slate-600 px-3 py-1 rounded-lg font-black text-xs uppercase hover:bg-slate-200 transition"
+                        >
+                          {promo.active ? 'Pause' : 'Resume'}
+                        </button>
+                        <button
+                          onClick={() => openModal(promo)}
+                          className="bg-indigo-50 text-indigo-600 px-3 py-1 rounded-lg font-black text-xs uppercase hover:bg-indigo-100 transition"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(promo)}
+                          className="bg-rose-50 text-rose-600 px-3 py-1 rounded-lg font-black text-xs uppercase hover:bg-rose-100 transition"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+              {promotions.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-slate-400 font-bold italic">No promotions yet.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-4">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h3 className="font-bold text-slate-800">Loyalty Program</h3>
+            <p className="text-xs font-medium text-slate-500 mt-1">Saved customers earn points on the pre-tax amount they pay and can spend them at the POS.</p>
+          </div>
+          <div className="flex gap-3 items-center">
+            {isLoyaltyDirty && (
+              <button onClick={() => setLoyaltyDraft(loyalty)} className="px-4 py-2 font-bold text-slate-400 hover:text-slate-600 transition uppercase text-xs">Discard</button>
+            )}
+            <button
+              onClick={handleSaveLoyalty}
+              disabled={!isLoyaltyDirty}
+              className="bg-indigo-600 text-white px-6 py-2 rounded-xl font-bold hover:bg-indigo-700 transition shadow-lg shadow-indigo-100 disabled:opacity-40"
+            >
+              Save Loyalty
+            </button>
+          </div>
+        </div>
+
+        <label className="flex items-center gap-3 text-xs font-black uppercase text-slate-500 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={loyaltyDraft.enabled}
+            onChange={(e) => setLoyaltyDraft(prev => ({ ...prev, enabled: e.target.checked }))}
+            className="w-4 h-4 rounded text-indigo-600"
+          />
+          Program enabled
+        </label>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-xs font-black uppercase text-slate-400 mb-1">Points per $1</label>
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              value={loyaltyDraft.pointsPerUnit}
+              onChange={(e) => setLoyaltyDraft(prev => ({ ...prev, pointsPerUnit: parseFloat(e.target.value) || 0 }))}
+              className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl font-bold"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-black uppercase text-slate-400 mb-1">Value per Point ($)</label>
+            <input
+              type="number"
+              step="0.001"
+              min="0"
+              value={loyaltyDraft.pointValue}
+              onChange={(e) => setLoyaltyDraft(prev => ({ ...prev, pointValue: parseFloat(e.target.value) || 0 }))}
+              className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl font-bold"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-black uppercase text-slate-400 mb-1">Expire After (days, 0 = never)</label>
+            <input
+              type="number"
+              step="1"
+              min="0"
+              value={loyaltyDraft.expiryDays}
+              onChange={(e) => setLoyaltyDraft(prev => ({ ...prev, expiryDays: parseInt(e.target.value) || 0 }))}
+              className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl font-bold"
+            />
+          </div>
+        </div>
+
+        <div>
+          <p className="text-xs font-black uppercase text-slate-400 mb-2">Category Multipliers (blank = 1×)</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {categories.map(category => (
+              <div key={category} className="flex items-center gap-2 px-3 py-2 border-2 border-slate-100 rounded-xl">
+                <span className="flex-1 text-xs font-bold text-slate-700 truncate">{category}</span>
+                <input
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={loyaltyDraft.categoryMultipliers[category] ?? ''}
+                  onChange={(e) => setMultiplier(category, e.target.value)}
+                  placeholder="1"
+                  className="w-16 px-2 py-1 border border-slate-200 rounded-lg text-xs font-bold outline-none focus:border-indigo-500"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-3xl shadow-2xl w-full max-w-lg overflow-hidden animate-slideUp">
+            <div className="bg-indigo-600 px-8 py-5 flex justify-between items-center text-white">
+              <h3 className="text-xl font-black uppercase tracking-tight">{editing ? 'Edit Promotion' : 'New Promotion'}</h3>
+              <button onClick={() => setIsModalOpen(false)}><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" /></svg></button>
+            </div>
+            <form onSubmit={handleSubmit} className="p-8 space-y-4 max-h-[80vh] overflow-y-auto custom-scrollbar">
+              <div>
+                <label className="block text-xs font-black uppercase text-slate-400 mb-1">Name (shown on receipts)</label>
+                <input name="name" required defaultValue={editing?.name} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none transition font-bold text-slate-800" />
+              </div>
+
+              <div className="grid grid-cols-3 gap-2">
+                {(Object.keys(TYPE_LABELS) as PromotionType[]).map(type => (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() => setFormType(type)}
+                    className={`py-2.5 rounded-xl text-[10px] font-black uppercase transition border-2 ${formType === type ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-100 text-slate-400 hover:border-indigo-200'}`}
+                  >
+                    {TYPE_LABELS[type]}
+                  </button>
+                ))}
+              </div>
+
+              {formType === 'BUY_X_GET_Y' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-xs font-black uppercase text-slate-400 mb-1">Buy</label>
+                    <input name="buyQuantity" type="number" min="1" required defaultValue={editing?.buyQuantity || 2} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl font-bold" />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-black uppercase text-slate-400 mb-1">Get Free</label>
+                    <input name="getQuantity" type="number" min="1" required defaultValue={editing?.getQuantity || 1} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl font-bold" />
+                  </div>
+                </div>
+              )}
+
+              {formType === 'BUNDLE' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-xs font-black uppercase text-slate-400 mb-1">Units in Bundle</label>
+                    <input name="bundleQuantity" type="number" min="2" required defaultValue={editing?.bundleQuantity || 3} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl font-bold" />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-black uppercase text-slate-400 mb-1">Bundle Price ($)</label>
+                    <input name="bundlePrice" type="number" step="0.01" min="0" required defaultValue={editing?.bundlePrice} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl font-bold" />
+                  </div>
+                </div>
+              )}
+
+              {formType === 'CATEGORY_PERCENT' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-xs font-black uppercase text-slate-400 mb-1">Category</label>
+                    <select name="category" defaultValue={editing?.category || categories[0]} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl bg-white font-bold text-slate-600">
+                      {categories.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-black uppercase text-slate-400 mb-1">Percent Off</label>
+                    <input name="percent" type="number" step="0.1" min="0" max="100" required defaultValue={editing?.percent || 10} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl font-bold" />
+                  </div>
+                </div>
+              )}
+
+              {formType !== 'CATEGORY_PERCENT' && (
+                <div className="space-y-2">
+                  <label className="block text-xs font-black uppercase text-slate-400">Products ({formProductIds.length} selected, any mix counts)</label>
+                  <input
+                    value={productSearch}
+                    onChange={(e) => setProductSearch(e.target.value)}
+                    placeholder="Filter products..."
+                    className="w-full px-4 py-2 border-2 border-slate-100 rounded-xl text-xs font-bold outline-none focus:border-indigo-500"
+                  />
+                  <div className="max-h-40 overflow-y-auto border-2 border-slate-100 rounded-xl divide-y divide-slate-50 custom-scrollbar">
+                    {matchingProducts.map(p => (
+                      <label key={p.id} className="flex items-center gap-3 px-4 py-2 text-xs font-bold text-slate-700 hover:bg-slate-50 cursor-pointer">
+                        <input type="checkbox" checked={formProductIds.includes(p.id)} onChange={() => toggleProduct(p.id)} className="rounded text-indigo-600" />
+                        <span className="flex-1 truncate">{p.name}</span>
+                        <span className="text-slate-400 font-mono">${p.sellPrice.toFixed(2)}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-black uppercase text-slate-400 mb-1">Starts</label>
+                  <input name="startsAt" type="date" defaultValue={editing?.startsAt} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl font-bold text-slate-600" />
+                </div>
+                <div>
+                  <label className="block text-xs font-black uppercase text-slate-400 mb-1">Ends</label>
+                  <input name="endsAt" type="date" defaultValue={editing?.endsAt} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl font-bold text-slate-600" />
+                </div>
+              </div>
+
+              <label className="flex items-center gap-3 text-xs font-black uppercase text-slate-500 cursor-pointer">
+                <input name="active" type="checkbox" defaultChecked={editing?.active ?? true} className="w-4 h-4 rounded text-indigo-600" />
+                Active
+              </label>
+
+              <div className="pt-4 flex justify-end gap-3">
+                <button type="button" onClick={() => setIsModalOpen(false)} className="px-6 py-3 font-bold text-slate-400 hover:text-slate-600 transition uppercase text-xs">Cancel</button>
+                <button type="submit" className="px-10 py-3 bg-indigo-600 text-white font-black rounded-xl hover:bg-indigo-700 transition shadow-xl uppercase text-xs">Save Promotion</button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Promotions;
@@ -0,0 +1,619 @@
+import React, { useState } from 'react';
+import { LandedCharge, Permission, Product, PurchaseOrder, PurchaseOrderStatus, ReceiptLine, Supplier } from '../types';
+import { ReceiptError, applyReceipt, canReceiveOrder, purchaseOrderTotal, receivedValue, remainingToReceive } from '../services/purchasing';
+import { chargesTotal, landReceipt } from '../services/costing';
+
+interface PurchaseOrdersProps {
+  orders: PurchaseOrder[];
+  suppliers: Supplier[];
+  products: Product[];
+  onSave: (order: PurchaseOrder) => void;
+  onDelete: (id: string) => void;
+  onReceive: (orderId: string, lines: Omit<ReceiptLine, 'landedCost'>[], charges: LandedCharge[], note?: string) => void;
+  onClose: (id: string) => void;
+  can: (permission: Permission) => boolean;
+}
+
+interface DraftLine {
+  productId: string;
+  quantity: string;
+  unitCost: string;
+}
+
+// Order being written or edited; inputs stay as typed until it is saved
+interface Draft {
+  id?: string;
+  supplierId: string;
+  expectedDate: string;
+  notes: string;
+  lines: DraftLine[];
+}
+
+const CHARGE_LABELS = ['Freight', 'Duties', 'Other'];
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  DRAFT: 'bg-slate-100 text-slate-500',
+  SENT: 'bg-indigo-50 text-indigo-600',
+  PARTIAL: 'bg-amber-50 text-amber-600',
+  CLOSED: 'bg-emerald-50 text-emerald-600'
+};
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  DRAFT: 'Draft',
+  SENT: 'Sent',
+  PARTIAL: 'Partially Received',
+  CLOSED: 'Closed'
+};
+
+const PurchaseOrders: React.FC<PurchaseOrdersProps> = ({ orders, suppliers, products, onSave, onDelete, onReceive, onClose, can }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | 'All'>('All');
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [receiveNow, setReceiveNow] = useState<Record<string, string>>({});
+  const [receiveCost, setReceiveCost] = useState<Record<string, string>>({});
+  const [receiveLotNumber, setReceiveLotNumber] = useState<Record<string, string>>({});
+  const [receiveExpiry, setReceiveExpiry] = useState<Record<string, string>>({});
+  const [chargeInputs, setChargeInputs] = useState<Record<string, string>>({});
+  const [receiptNote, setReceiptNote] = useState('');
+
+  const canManage = can(Permission.PURCHASING_MANAGE);
+  const canReceive = can(Permission.INVENTORY_ADJUST);
+  const viewing = orders.find(o => o.id === viewingId);
+
+  const filtered = orders
+    .filter(o => statusFilter === 'All' || o.status === statusFilter)
+    .filter(o =>
+      o.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      o.supplierName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      o.items.some(item => item.name.toLowerCase().includes(searchTerm.toLowerCase()))
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const openDraft = (order: PurchaseOrder | null) => {
+    if (!order && suppliers.length === 0) {
+      alert("Add a supplier before raising a purchase order.");
+      return;
+    }
+    setDraft(order ? {
+      id: order.id,
+      supplierId: order.supplierId,
+      expectedDate: order.expectedDate || '',
+      notes: order.notes || '',
+      lines: order.items.map(item => ({ productId: item.productId, quantity: String(item.quantity), unitCost: String(item.unitCost) }))
+    } : { supplierId: suppliers[0].id, expectedDate: '', notes: '', lines: [] });
+    setViewingId(null);
+  };
+
+  const addDraftLine = (productId: string) => {
+    const product = products.find(p => p.id === productId);
+    if (!draft || !product) return;
+    setDraft({ ...draft, lines: [...draft.lines, { productId, quantity: '1', unitCost: String(product.buyPrice) }] });
+  };
+
+  const updateDraftLine = (productId: string, changes: Partial<DraftLine>) => {
+    if (!draft) return;
+    setDraft({ ...draft, lines: draft.lines.map(l => l.productId === productId ? { ...l, ...changes } : l) });
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+    const supplier = suppliers.find(s => s.id === draft.supplierId);
+    if (!supplier) {
+      alert("Choose a supplier for this order.");
+      return;
+    }
+    if (draft.lines.length === 0) {
+      alert("Add at least one product to the order.");
+      return;
+    }
+    const items = [];
+    for (const line of draft.lines) {
+      const product = products.find(p => p.id === line.productId);
+      const quantity = parseInt(line.quantity);
+      const unitCost = parseFloat(line.unitCost);
+      if (!product) continue;
+      if (!(quantity > 0) || !(unitCost >= 0)) {
+        alert(`Enter a quantity and unit cost for ${product.name}.`);
+        return;
+      }
+      items.push({ productId: product.id, name: product.name, quantity, unitCost, receivedQuantity: 0 });
+    }
+    const existing = orders.find(o => o.id === draft.id);
+    const notes = draft.notes.trim();
+    onSave({
+      id: existing?.id || `PO-${Date.now()}`,
+      createdAt: existing?.createdAt || new Date().toISOString(),
+      status: 'DRAFT',
+      supplierId: supplier.id,
+      supplierName: supplier.name,
+      items,
+      receipts: [],
+      ...(draft.expectedDate ? { expectedDate: draft.expectedDate } : {}),
+      ...(notes ? { notes } : {}),
+      ...(existing?.createdBy ? { createdBy: existing.createdBy, createdById: existing.createdById } : {})
+    });
+    setDraft(null);
+  };
+
+  const openOrder = (order: PurchaseOrder) => {
+    setViewingId(order.id);
+    setReceiveNow(Object.fromEntries(order.items.map(item => [item.productId, String(remainingToReceive(item))])));
+    setReceiveCost(Object.fromEntries(order.items.map(item => [item.productId, String(item.unitCost)])));
+    setReceiveLotNumber({});
+    setReceiveExpiry({});
+    setChargeInputs({});
+    setReceiptNote('');
+  };
+
+  const enteredLines = viewing
+    ? viewing.items
+      .map(item => {
+        const lotNumber = (receiveLotNumber[item.productId] || '').trim();
+        const expiryDate = receiveExpiry[item.productId];
+        return {
+          productId: item.productId,
+          quantity: parseInt(receiveNow[item.productId]) || 0,
+          unitCost: parseFloat(receiveCost[item.productId]),
+          ...(lotNumber ? { lotNumber } : {}),
+          ...(expiryDate ? { expiryDate } : {})
+        };
+      })
+      .filter(line => line.quantity > 0)
+    : [];
+  const charges: LandedCharge[] = CHARGE_LABELS
+    .map(label => ({ label, amount: parseFloat(chargeInputs[label]) || 0 }))
+    .filter(c => c.amount !== 0);
+  const landed = landReceipt(enteredLines, charges);
+
+  const handleReceive = () => {
+    if (!viewing) return;
+    if (charges.some(c => c.amount < 0)) {
+      alert("Landed charges cannot be negative.");
+      return;
+    }
+    try {
+      applyReceipt(viewing, landed, products);
+    } catch (err) {
+      if (err instanceof ReceiptError) {
+        alert(err.message);
+        return;
+      }
+      throw err;
+    }
+    onReceive(viewing.id, enteredLines, charges, receiptNote.trim() || undefined);
+    setReceiveNow({});
+    setReceiveLotNumber({});
+    setReceiveExpiry({});
+    setChargeInputs({});
+    setReceiptNote('');
+  };
+
+  const handleDelete = (order: PurchaseOrder) => {
+    if (!confirm(`Delete draft PO #${order.id.slice(-8)}?`)) return;
+    onDelete(order.id);
+    setViewingId(null);
+  };
+
+  const handleClose = (order: PurchaseOrder) => {
+    const outstanding = order.items.reduce((acc, item) => acc + remainingToReceive(item), 0);
+    if (!confirm(`Close PO #${order.id.slice(-8)}? ${outstanding} unit(s) still outstanding will no longer be expected.`)) return;
+    onClose(order.id);
+  };
+
+  const draftTotal = draft
+    ? draft.lines.reduce((acc, l) => acc + (parseInt(l.quantity) || 0) * (parseFloat(l.unitCost) || 0), 0)
+    : 0;
+
+  return (
+    <div className="space-y-6 animate-fadeIn">
+      <div className="no-print space-y-6">
+        <header className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-3xl font-bold text-slate-800 tracking-tight">Purchase Orders</h2>
+            <p className="text-slate-500 font-medium">Stock ordered from suppliers. Receiving a delivery restocks the products on it.</p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <input
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search PO #, supplier or product..."
+              className="px-4 py-2.5 bg-white border border-slate-200 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as PurchaseOrderStatus | 'All')}
+              className="px-3 py-2.5 bg-white border border-slate-200 rounded-xl font-bold text-slate-600 text-sm"
+            >
+              <option value="All">All Statuses</option>
+              {(Object.keys(STATUS_LABELS) as PurchaseOrderStatus[]).map(s => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+            </select>
+            {canManage && (
+              <button
+                onClick={() => openDraft(null)}
+                className="bg-indigo-600 text-white px-6 py-2.5 rounded-xl font-bold hover:bg-indigo-700 transition shadow-lg shadow-indigo-100"
+              >
+                + New PO
+              </button>
+            )}
+          </div>
+        </header>
+
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead className="bg-slate-50 text-slate-400 text-[10px] font-black uppercase tracking-widest">
+                <tr>
+                  <th className="px-6 py-4">PO #</th>
+                  <th className="px-6 py-4">Supplier</th>
+                  <th className="px-6 py-4">Raised</th>
+                  <th className="px-6 py-4">Expected</th>
+                  <th className="px-6 py-4 text-right">Received</th>
+                  <th className="px-6 py-4 text-right">Total</th>
+                  <th className="px-6 py-4">Status</th>
+                  <th className="px-6 py-4 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 text-sm font-medium">
+                {filtered.map(o => {
+                  const ordered = o.items.reduce((acc, item) => acc + item.quantity, 0);
+                  const received = o.items.reduce((acc, item) => acc + item.receivedQuantity, 0);
+                  return (
+                    <tr key={o.id} className="hover:bg-slate-50 transition-colors">
+                      <td className="px-6 py-4 font-mono text-xs font-bold text-slate-500">#{o.id.slice(-8)}</td>
+                      <td className="px-6 py-4 font-bold text-slate-800">{o.supplierName}</td>
+                      <td className="px-6 py-4 text-xs text-slate-500">{new Date(o.createdAt).toLocaleDateString()}</td>
+                      <td className="px-6 py-4 text-xs font-mono text-slate-500">{o.expectedDate || '—'}</td>
+                      <td className="px-6 py-4 text-right font-bold text-slate-600">{received} / {ordered}</td>
+                      <td className="px-6 py-4 text-right font-black text-slate-800">${purchaseOrderTotal(o).toFixed(2)}</td>
+                      <td className="px-6 py-4">
+                        <span className={`text-[10px] font-black uppercase px-2 py-0.5 rounded ${STATUS_STYLES[o.status]}`}>{STATUS_LABELS[o.status]}</span>
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <button
+                          onClick={() => openOrder(o)}
+                          className="bg-slate-100 text-slate-600 px-3 py-1 rounded-lg font-black text-xs uppercase hover:bg-slate-200 transition"
+                        >
+                          Open
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {filtered.length === 0 && (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-12 text-center text-slate-400 font-bold italic">No purchase orders found.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {draft && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 no-print">
+          <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl overflow-hidden animate-slideUp">
+            <div className="bg-indigo-600 px-8 py-5 flex justify-between items-center text-white">
+              <h3 className="text-xl font-black uppercase tracking-tight">{draft.id ? `Edit PO #${draft.id.slice(-8)}` : 'New Purchase Order'}</h3>
+              <button onClick={() => setDraft(null)}><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" /></svg></button>
+            </div>
+            <div className="p-8 space-y-4 max-h-[75vh] overflow-y-auto custom-scrollbar">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-black uppercase text-slate-400 mb-1">Supplier</label>
+                  <select
+                    value={draft.supplierId}
+                    onChange={(e) => setDraft({ ...draft, supplierId: e.target.value })}
+                    className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none transition font-bold bg-white"
+                  >
+                    {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-black uppercase text-slate-400 mb-1">Expected Delivery</label>
+                  <input
+                    type="date"
+                    value={draft.expectedDate}
+                    onChange={(e) => setDraft({ ...draft, expectedDate: e.target.value })}
+                    className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none transition font-bold"
+                  />
+                </div>
+              </div>
+
+              <table className="w-full text-left text-sm">
+                <thead className="text-[10px] font-black uppercase text-slate-400 tracking-widest">
+                  <tr>
+                    <th className="py-2">Product</th>
+                    <th className="py-2 text-right">On Hand</th>
+                    <th className="py-2 text-right">Quantity</th>
+                    <th className="py-2 text-right">Unit Cost</th>
+                    <th className="py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 font-medium">
+                  {draft.lines.map(line => {
+                    const product = products.find(p => p.id === line.productId);
+                    return (
+                      <tr key={line.productId}>
+                        <td className="py-2 font-bold text-slate-800">{product?.name || line.productId}</td>
+                        <td className="py-2 text-right text-slate-400">{product?.stock ?? '—'}</td>
+                        <td className="py-2 text-right">
+                          <input
+                            type="number"
+                            min="1"
+                            value={line.quantity}
+                            onChange={(e) => updateDraftLine(line.productId, { quantity: e.target.value })}
+                            className="w-20 px-2 py-1 border-2 border-slate-100 rounded-lg text-xs font-bold text-right outline-none focus:border-indigo-500"
+                          />
+                        </td>
+                        <td className="py-2 text-right">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={line.unitCost}
+                            onChange={(e) => updateDraftLine(line.productId, { unitCost: e.target.value })}
+                            className="w-24 px-2 py-1 border-2 border-slate-100 rounded-lg text-xs font-bold text-right outline-none focus:border-indigo-500"
+                          />
+                        </td>
+                        <td className="py-2 text-right">
+                          <button
+                            onClick={() => setDraft({ ...draft, lines: draft.lines.filter(l => l.productId !== line.productId) })}
+                            className="text-rose-400 hover:text-rose-600 font-black text-xs uppercase"
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                  {draft.lines.length === 0 && (
+                    <tr>
+                      <td colSpan={5} className="py-6 text-center text-slate-400 font-bold italic text-xs">No products on this order yet.</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+
+              <select
+                value=""
+                onChange={(e) => addDraftLine(e.target.value)}
+                className="w-full px-4 py-2.5 border-2 border-dashed border-slate-200 rounded-xl font-bold text-slate-500 bg-white text-sm"
+              >
+                <option value="">+ Add product...</option>
+                {products
+                  .filter(p => !p.archivedAt && !draft.lines.some(l => l.productId === p.id))
+                  .sort((a, b) => a.name.localeCompare(b.name))
+                  .map(p => <option key={p.id} value={p.id}>{p.name} ({p.sku}) · {p.stock} on hand</option>)}
+              </select>
+
+              <div>
+                <label className="block text-xs font-black uppercase text-slate-400 mb-1">Notes for Supplier</label>
+                <textarea
+                  value={draft.notes}
+                  onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                  className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none transition font-bold resize-none h-20"
+                />
+              </div>
+
+              <div className="flex justify-between items-center pt-2">
+                <p className="font-black text-slate-800">Total ${draftTotal.toFixed(2)}</p>
+                <div className="flex gap-3">
+                  <button onClick={() => setDraft(null)} className="px-6 py-3 font-bold text-slate-400 hover:text-slate-600 transition uppercase text-xs">Cancel</button>
+                  <button onClick={handleSaveDraft} className="px-6 py-3 bg-indigo-600 text-white font-bold rounded-xl hover:bg-indigo-700 transition shadow-lg shadow-indigo-100">Save Draft</button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {viewing && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 no-print">
+          <div className="bg-white rounded-3xl shadow-2xl w-full max-w-5xl overflow-hidden animate-slideUp">
+            <div className="bg-slate-900 px-8 py-5 flex justify-between items-center text-white">
+              <div>
+                <h3 className="text-xl font-black uppercase tracking-tight">PO #{viewing.id.slice(-8)}</h3>
+                <p className="text-xs font-bold text-slate-400">
+                  {viewing.supplierName} · ${purchaseOrderTotal(viewing).toFixed(2)} · {STATUS_LABELS[viewing.status]}{viewing.createdBy ? ` · by ${viewing.createdBy}` : ''}
+                </p>
+              </div>
+              <button onClick={() => setViewingId(null)}><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" /></svg></button>
+            </div>
+            <div className="p-8 space-y-6 max-h-[75vh] overflow-y-auto custom-scrollbar">
+              {viewing.notes && <p className="text-xs font-medium text-slate-500 whitespace-pre-line">{viewing.notes}</p>}
+              <table className="w-full text-left text-sm">
+                <thead className="text-[10px] font-black uppercase text-slate-400 tracking-widest">
+                  <tr>
+                    <th className="py-2">Product</th>
+                    <th className="py-2 text-right">Ordered</th>
+                    <th className="py-2 text-right">Received</th>
+                    <th className="py-2 text-right">Unit Cost</th>
+                    {canReceive && canReceiveOrder(viewing) && (
+                      <>
+                        <th className="py-2 text-right">Receive Now</th>
+                        <th className="py-2 text-right">Invoiced Cost</th>
+                        <th className="py-2 text-right">Landed</th>
+                        <th className="py-2 text-right">Lot No.</th>
+                        <th className="py-2 text-right">Expiry</th>
+                      </>
+                    )}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 font-medium">
+                  {viewing.items.map(item => (
+                    <tr key={item.productId}>
+                      <td className="py-2 font-bold text-slate-800">{item.name}</td>
+                      <td className="py-2 text-right text-slate-600">{item.quantity}</td>
+                      <td className="py-2 text-right text-slate-600">{item.receivedQuantity}</td>
+                      <td className="py-2 text-right text-slate-600">${item.unitCost.toFixed(2)}</td>
+                      {canReceive && canReceiveOrder(viewing) && (
+                        <>
+                          <td className="py-2 text-right">
+                            <input
+                              type="number"
+                              min="0"
+                              max={remainingToReceive(item)}
+                              value={receiveNow[item.productId] ?? ''}
+                              onChange={(e) => setReceiveNow(prev => ({ ...prev, [item.productId]: e.target.value }))}
+                              disabled={remainingToReceive(item) <= 0}
+                              className="w-20 px-2 py-1 border-2 border-slate-100 rounded-lg text-xs font-bold text-right outline-none focus:border-emerald-500 disabled:opacity-40"
+                            />
+                          </td>
+                          <td className="py-2 text-right">
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={receiveCost[item.productId] ?? ''}
+                              onChange={(e) => setReceiveCost(prev => ({ ...prev, [item.productId]: e.target.value }))}
+                              disabled={remainingToReceive(item) <= 0}
+                              className="w-24 px-2 py-1 border-2 border-slate-100 rounded-lg text-xs font-bold text-right outline-none focus:border-emerald-500 disabled:opacity-40"
+                            />
+                          </td>
+                          <td className="py-2 text-right font-bold text-slate-500">
+                            {(() => {
+                              const line = landed.find(l => l.productId === item.productId);
+                              return line && Number.isFinite(line.landedCost) ? `$${line.landedCost.toFixed(2)}` : '—';
+                            })()}
+                          </td>
+                          <td className="py-2 text-right">
+                            <input
+                              value={receiveLotNumber[item.productId] ?? ''}
+                              onChange={(e) => setReceiveLotNumber(prev => ({ ...prev, [item.productId]: e.target.value }))}
+                              disabled={remainingToReceive(item) <= 0}
+                              className="w-24 px-2 py-1 border-2 border-slate-100 rounded-lg text-xs font-mono font-bold text-right outline-none focus:border-emerald-500 disabled:opacity-40"
+                            />
+                          </td>
+                          <td className="py-2 text-right">
+                            <input
+                              type="date"
+                              value={receiveExpiry[item.productId] ?? ''}
+                              onChange={(e) => setReceiveExpiry(prev => ({ ...prev, [item.productId]: e.target.value }))}
+                              disabled={remainingToReceive(item) <= 0}
+                              className="px-2 py-1 border-2 border-slate-100 rounded-lg text-xs font-bold outline-none focus:border-emerald-500 disabled:opacity-40"
+                            />
+                          </td>
+                        </>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {viewing.status !== 'DRAFT' && (
+                <p className="text-xs font-bold text-slate-500 text-right">Received so far: ${receivedValue(viewing).toFixed(2)}</p>
+              )}
+
+              {canReceive && canReceiveOrder(viewing) && (
+                <div className="grid grid-cols-3 gap-3">
+                  {CHARGE_LABELS.map(label => (
+                    <div key={label}>
+                      <label className="block text-[10px] font-black uppercase text-slate-400 mb-1">{label}</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={chargeInputs[label] ?? ''}
+                        onChange={(e) => setChargeInputs(prev => ({ ...prev, [label]: e.target.value }))}
+                        placeholder="0.00"
+                        className="w-full px-3 py-2 border-2 border-slate-100 rounded-xl text-sm font-bold outline-none focus:border-emerald-500"
+                      />
+                    </div>
+                  ))}
+                  <p className="col-span-3 text-[10px] font-bold text-slate-400">Charges are spread over the lines received by value and added to their landed cost.</p>
+                </div>
+              )}
+
+              {canReceive && canReceiveOrder(viewing) && (
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <input
+                    value={receiptNote}
+                    onChange={(e) => setReceiptNote(e.target.value)}
+                    placeholder="Supplier delivery note / invoice number"
+                    className="flex-1 px-4 py-2.5 border-2 border-slate-100 rounded-xl text-sm font-medium outline-none focus:border-emerald-500"
+                  />
+                  <button onClick={handleReceive} className="px-6 py-2.5 bg-emerald-600 text-white font-black rounded-xl hover:bg-emerald-700 transition uppercase text-xs">Receive Goods</button>
+                </div>
+              )}
+
+              {viewing.receipts.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="text-[10px] font-black uppercase text-slate-400 tracking-widest">Receipts</h4>
+                  {viewing.receipts.map((r, idx) => (
+                    <div key={r.id} className="p-3 rounded-xl border-2 border-slate-100 text-xs">
+                      <p className="font-black text-slate-700">#{idx + 1} · {new Date(r.timestamp).toLocaleString()}{r.receivedBy ? ` · ${r.receivedBy}` : ''}</p>
+                      <p className="text-slate-500">
+                        {r.lines.map(l => `${l.quantity}× ${viewing.items.find(item => item.productId === l.productId)?.name || l.productId}${l.lotNumber ? ` (lot ${l.lotNumber})` : ''}${l.expiryDate ? ` exp ${l.expiryDate}` : ''}`).join(', ')}
+                        {r.note ? ` · ${r.note}` : ''}
+                      </p>
+                      {r.charges.length > 0 && (
+                        <p className="text-slate-400">
+                          {r.charges.map(c => `${c.label} $${c.amount.toFixed(2)}`).join(', ')} · ${chargesTotal(r.charges).toFixed(2)} landed
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex flex-wrap justify-end gap-3 pt-2">
+                {canManage && viewing.status === 'DRAFT' && (
+                  <>
+                    <button onClick={() => handleDelete(viewing)} className="px-4 py-2 font-bold text-rose-500 hover:text-rose-700 transition uppercase text-xs mr-auto">Delete</button>
+                    <button onClick={() => openDraft(viewing)} className="px-4 py-2 bg-slate-100 text-slate-600 font-black rounded-xl hover:bg-slate-200 transition uppercase text-xs">Edit</button>
+                    <button
+                      onClick={() => onSave({ ...viewing, status: 'SENT', sentAt: new Date().toISOString() })}
+                      className="px-4 py-2 bg-indigo-600 text-white font-black rounded-xl hover:bg-indigo-700 transition uppercase text-xs"
+                    >
+                      Mark Sent
+                    </button>
+                  </>
+                )}
+                {canManage && canReceiveOrder(viewing) && (
+                  <button onClick={() => handleClose(viewing)} className="px-4 py-2 bg-amber-50 text-amber-600 font-black rounded-xl hover:bg-amber-100 transition uppercase text-xs mr-auto">Close Short</button>
+                )}
+                <button onClick={() => window.print()} className="px-4 py-2 bg-slate-900 text-white font-black rounded-xl hover:bg-slate-800 transition uppercase text-xs">Print</button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {viewing && (
+        <div className="print-only bg-white p-10 font-mono text-[11px] leading-snug text-black">
+          <div className="text-center mb-8">
+            <h1 className="text-xl font-black uppercase tracking-tighter">SARKAR TRADE STOCK</h1>
+            <p>Quality Supply & Logistics</p>
+            <div className="border-t border-dashed border-black my-5"></div>
+            <p className="font-bold text-sm uppercase">PURCHASE ORDER</p>
+            <p>No: {viewing.id.slice(-12)}</p>
+          </div>
+          <div className="space-y-1 mb-6">
+            <div className="flex justify-between"><span>Date:</span> <span>{new Date(viewing.sentAt || viewing.createdAt).toLocaleDateString()}</span></div>
+            <div className="flex justify-between"><span>Supplier:</span> <span className="font-bold">{viewing.supplierName}</span></div>
+            {viewing.expectedDate && <div className="flex justify-between"><span>Deliver By:</span> <span className="font-bold">{viewing.expectedDate}</span></div>}
+          </div>
+          <div className="border-t border-b border-dashed border-black py-3 mb-6">
+            <div className="flex justify-between font-black mb-2 text-xs uppercase">
+              <span className="w-1/2">Product Description</span>
+              <span className="w-1/6 text-center">Qty</span>
+              <span className="w-1/3 text-right">Amount</span>
+            </div>
+            {viewing.items.map(item => (
+              <div key={item.productId} className="flex justify-between mb-1">
+                <span className="w-1/2 truncate uppercase">{item.name}</span>
+                <span className="w-1/6 text-center">x{item.quantity}</span>
+                <span className="w-1/3 text-right">${(item.quantity * item.unitCost).toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between font-black text-base uppercase ml-auto w-3/4"><span>TOTAL:</span> <span>${purchaseOrderTotal(viewing).toFixed(2)}</span></div>
+          {viewing.notes && <p className="mt-8 whitespace-pre-line">{viewing.notes}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PurchaseOrders;
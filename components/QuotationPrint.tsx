@@ -0,0 +1,69 @@
+import React from 'react';
+import { Quotation } from '../types';
+import { lineGross } from '../services/pricing';
+
+interface QuotationPrintProps {
+  quotation: Quotation;
+}
+
+// Printed quotation, doubling as a proforma invoice for customers who pay in advance
+const QuotationPrint: React.FC<QuotationPrintProps> = ({ quotation }) => (
+  <div className="print-only bg-white p-10 font-mono text-[11px] leading-snug text-black">
+    <div className="text-center mb-8">
+      <h1 className="text-xl font-black uppercase tracking-tighter">SARKAR TRADE STOCK</h1>
+      <p>Quality Supply & Logistics</p>
+      <div className="border-t border-dashed border-black my-5"></div>
+      <p className="font-bold text-sm uppercase">QUOTATION / PROFORMA INVOICE</p>
+      <p>No: {quotation.id.slice(-12)}</p>
+    </div>
+
+    <div className="space-y-1 mb-6">
+      <div className="flex justify-between"><span>Date:</span> <span>{new Date(quotation.createdAt).toLocaleDateString()}</span></div>
+      <div className="flex justify-between"><span>Valid Until:</span> <span className="font-bold">{quotation.validUntil}</span></div>
+      <div className="flex justify-between"><span>Customer:</span> <span className="font-bold">{quotation.customerName || 'Walk-in Customer'}</span></div>
+      {quotation.customerPhone && <div className="flex justify-between"><span>Phone:</span> <span>{quotation.customerPhone}</span></div>}
+      {quotation.customerAddress && <div className="flex justify-between"><span>Address:</span> <span className="text-right max-w-[150px]">{quotation.customerAddress}</span></div>}
+    </div>
+
+    <div className="border-t border-b border-dashed border-black py-3 mb-6">
+      <div className="flex justify-between font-black mb-2 text-xs uppercase">
+        <span className="w-1/2">Product Description</span>
+        <span className="w-1/6 text-center">Qty</span>
+        <span className="w-1/3 text-right">Amount</span>
+      </div>
+      {quotation.items.map((item, idx) => (
+        <div key={idx} className="flex justify-between mb-1">
+          <span className="w-1/2 truncate uppercase">{item.name}{item.unitName && ` (${item.unitName})`}</span>
+          <span className="w-1/6 text-center">x{item.quantity}</span>
+          <span className="w-1/3 text-right">${lineGross(item).toFixed(2)}</span>
+        </div>
+      ))}
+    </div>
+
+    <div className="space-y-1.5 ml-auto w-3/4">
+      {quotation.discountTotal > 0 && (
+        <>
+          <div className="flex justify-between"><span>GROSS:</span> <span>${quotation.grossSubtotal.toFixed(2)}</span></div>
+          {quotation.discounts.map((d, idx) => (
+            <div key={idx} className="flex justify-between"><span className="uppercase truncate mr-2">{d.label}</span> <span>-${d.amount.toFixed(2)}</span></div>
+          ))}
+        </>
+      )}
+      <div className="flex justify-between"><span>SUBTOTAL (EX TAX):</span> <span>${quotation.subtotal.toFixed(2)}</span></div>
+      {quotation.taxLines.map((line, idx) => (
+        <div key={idx} className="flex justify-between"><span className="uppercase">{line.name} {line.percent}%:</span> <span>${line.amount.toFixed(2)}</span></div>
+      ))}
+      {quotation.taxExemptRef && (
+        <div className="flex justify-between"><span>TAX EXEMPT:</span> <span>{quotation.taxExemptRef}</span></div>
+      )}
+      <div className="flex justify-between font-black text-base uppercase"><span>TOTAL:</span> <span>${quotation.total.toFixed(2)}</span></div>
+    </div>
+
+    {quotation.notes && <p className="mt-8 whitespace-pre-line">{quotation.notes}</p>}
+    <div className="text-center mt-16 pt-6 border-t border-dashed border-black">
+      <p>Prices are held until the date above and goods are subject to availability when ordered.</p>
+    </div>
+  </div>
+);
+
+export default QuotationPrint;
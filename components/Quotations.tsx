@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { Quotation, QuotationStatus } from '../types';
+import { canConvertQuotation, renewQuotation } from '../services/quotations';
+import QuotationPrint from './QuotationPrint';
+
+interface QuotationsProps {
+  quotations: Quotation[];
+  onSave: (quotation: Quotation) => void;
+  onDelete: (id: string) => void;
+  onConvert: (id: string) => void;
+}
+
+const STATUS_STYLES: Record<QuotationStatus, string> = {
+  DRAFT: 'bg-slate-100 text-slate-500',
+  SENT: 'bg-indigo-50 text-indigo-600',
+  ACCEPTED: 'bg-emerald-50 text-emerald-600',
+  EXPIRED: 'bg-rose-50 text-rose-500'
+};
+
+const Quotations: React.FC<QuotationsProps> = ({ quotations, onSave, onDelete, onConvert }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<QuotationStatus | 'All'>('All');
+  const [viewingId, setViewingId] = useState<string | null>(null);
+
+  const viewing = quotations.find(q => q.id === viewingId);
+  const filtered = quotations
+    .filter(q => statusFilter === 'All' || q.status === statusFilter)
+    .filter(q =>
+      q.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      q.customerName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      q.customerPhone.includes(searchTerm)
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const handleDelete = (quotation: Quotation) => {
+    if (!confirm(`Delete quotation #${quotation.id.slice(-8)}?`)) return;
+    onDelete(quotation.id);
+    setViewingId(null);
+  };
+
+  return (
+    <div className="space-y-6 animate-fadeIn">
+      <div className="no-print space-y-6">
+        <header className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-3xl font-bold text-slate-800 tracking-tight">Quotations</h2>
+            <p className="text-slate-500 font-medium">Price quotes built at the POS. Converting one loads it back into the POS at today's prices.</p>
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search quote # or customer..."
+              className="px-4 py-2.5 bg-white border border-slate-200 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as QuotationStatus | 'All')}
+              className="px-3 py-2.5 bg-white border border-slate-200 rounded-xl font-bold text-slate-600 text-sm"
+            >
+              <option value="All">All Statuses</option>
+              {(Object.keys(STATUS_STYLES) as QuotationStatus[]).map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+          </div>
+        </header>
+
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead className="bg-slate-50 text-slate-400 text-[10px] font-black uppercase tracking-widest">
+                <tr>
+                  <th className="px-6 py-4">Quote #</th>
+                  <th className="px-6 py-4">Customer</th>
+                  <th className="px-6 py-4">Created</th>
+                  <th className="px-6 py-4">Valid Until</th>
+                  <th className="px-6 py-4 text-right">Total</th>
+                  <th className="px-6 py-4">Status</th>
+                  <th className="px-6 py-4 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 text-sm font-medium">
+                {filtered.map(q => (
+                  <tr key={q.id} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4 font-mono text-xs font-bold text-slate-500">#{q.id.slice(-8)}</td>
+                    <td className="px-6 py-4">
+                      <p className="font-bold text-slate-800">{q.customerName || 'Walk-in Customer'}</p>
+                      {q.customerPhone && <p className="text-xs text-slate-500">{q.customerPhone}</p>}
+                    </td>
+                    <td className="px-6 py-4 text-xs text-slate-500">{new Date(q.createdAt).toLocaleDateString()}</td>
+                    <td className="px-6 py-4 text-xs font-mono text-slate-500">{q.validUntil}</td>
+                    <td className="px-6 py-4 text-right font-black text-slate-800">${q.total.toFixed(2)}</td>
+                    <td className="px-6 py-4">
+                      <span className={`text-[10px] font-black uppercase px-2 py-0.5 rounded ${STATUS_STYLES[q.status]}`}>{q.status}</span>
+                      {q.saleId && <p className="text-[10px] font-mono text-slate-400 mt-1">Sale #{q.saleId.slice(-8)}</p>}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => setViewingId(q.id)}
+                          className="bg-slate-100 text-slate-600 px-3 py-1 rounded-lg font-black text-xs uppercase hover:bg-slate-200 transition"
+                        >
+                          View
+                        </button>
+                        {canConvertQuotation(q) && (
+                          <button
+                            onClick={() => onConvert(q.id)}
+                            className="bg-emerald-50 text-emerald-600 px-3 py-1 rounded-lg font-black text-xs uppercase hover:bg-emerald-100 transition"
+                          >
+                            Convert
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+                {filtered.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-12 text-center text-slate-400 font-bold italic">No quotations found.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {viewing && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 no-print">
+          <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl overflow-hidden animate-slideUp">
+            <div className="bg-slate-900 px-8 py-5 flex justify-between items-center text-white">
+              <div>
+                <h3 className="text-xl font-black uppercase tracking-tight">Quote #{viewing.id.slice(-8)}</h3>
+                <p className="text-xs font-bold text-slate-400">
+                  {viewing.customerName || 'Walk-in Customer'} · valid until {viewing.validUntil}{viewing.createdBy ? ` · by ${viewing.createdBy}` : ''}
+                </p>
+              </div>
+              <button onClick={() => setViewingId(null)}><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" /></svg></button>
+            </div>
+            <div className="max-h-[50vh] overflow-y-auto custom-scrollbar divide-y divide-slate-100">
+              {viewing.items.map((item, idx) => (
+                <div key={idx} className="px-8 py-3 flex justify-between items-center gap-4">
+                  <div className="min-w-0">
+                    <p className="font-bold text-sm text-slate-800 truncate">{item.name}{item.unitName ? ` (${item.unitName})` : ''}</p>
+                    <p className="text-xs text-slate-500">{item.quantity} × ${item.price.toFixed(2)}{item.discount > 0 ? ` less $${item.discount.toFixed(2)}` : ''}</p>
+                  </div>
+                  <p className="font-black text-slate-800 shrink-0">${item.total.toFixed(2)}</p>
+                </div>
+              ))}
+            </div>
+            <div className="px-8 py-4 bg-slate-50 space-y-1 text-sm">
+              <div className="flex justify-between text-slate-500 font-bold"><span>Subtotal (ex tax)</span><span>${viewing.subtotal.toFixed(2)}</span></div>
+              <div className="flex justify-between text-slate-500 font-bold"><span>Tax</span><span>${viewing.tax.toFixed(2)}</span></div>
+              <div className="flex justify-between text-slate-800 font-black"><span>Total</span><span>${viewing.total.toFixed(2)}</span></div>
+              {viewing.notes && <p className="pt-2 text-xs text-slate-500 whitespace-pre-line">{viewing.notes}</p>}
+            </div>
+            <div className="px-8 py-5 flex flex-wrap justify-end gap-3">
+              {viewing.status !== 'ACCEPTED' && (
+                <button onClick={() => handleDelete(viewing)} className="px-4 py-2 font-bold text-rose-500 hover:text-rose-700 transition uppercase text-xs mr-auto">Delete</button>
+              )}
+              {viewing.status === 'DRAFT' && (
+                <button
+                  onClick={() => onSave({ ...viewing, status: 'SENT', sentAt: new Date().toISOString() })}
+                  className="px-4 py-2 bg-indigo-50 text-indigo-600 font-black rounded-xl hover:bg-indigo-100 transition uppercase text-xs"
+                >
+                  Mark Sent
+                </button>
+              )}
+              {viewing.status === 'EXPIRED' && (
+                <button
+                  onClick={() => onSave(renewQuotation(viewing))}
+                  className="px-4 py-2 bg-amber-50 text-amber-600 font-black rounded-xl hover:bg-amber-100 transition uppercase text-xs"
+                >
+                  Renew
+                </button>
+              )}
+              <button onClick={() => window.print()} className="px-4 py-2 bg-slate-900 text-white font-black rounded-xl hover:bg-slate-800 transition uppercase text-xs">Print</button>
+              {canConvertQuotation(viewing) && (
+                <button
+                  onClick={() => onConvert(viewing.id)}
+                  className="px-4 py-2 bg-emerald-600 text-white font-black rounded-xl hover:bg-emerald-700 transition uppercase text-xs"
+                >
+                  Convert to Sale
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {viewing && <QuotationPrint quotation={viewing} />}
+    </div>
+  );
+};
+
+export default Quotations;
@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from 'react';
+import { Product, PurchaseOrder, ReorderSettings, Supplier } from '../types';
+import { ReorderSuggestion, reorderSuggestions } from '../services/reorder';
+
+interface ReorderProps {
+  products: Product[];
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+  reserved: Record<string, number>; // Base units held for open sales orders
+  settings: ReorderSettings;
+  onUpdateSettings: (settings: ReorderSettings) => void;
+  onSaveOrder: (order: PurchaseOrder) => void;
+}
+
+const SETTING_FIELDS: { key: keyof ReorderSettings; label: string; min: number }[] = [
+  { key: 'salesWindowDays', label: 'Sales History (days)', min: 1 },
+  { key: 'leadTimeDays', label: 'Default Lead Time (days)', min: 0 },
+  { key: 'safetyDays', label: 'Safety Stock (days)', min: 0 },
+  { key: 'coverDays', label: 'Order Covers (days)', min: 0 }
+];
+
+const Reorder: React.FC<ReorderProps> = ({ products, suppliers, purchaseOrders, reserved, settings, onUpdateSettings, onSaveOrder }) => {
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+
+  const suggestions = useMemo(
+    () => reorderSuggestions(products, suppliers, purchaseOrders, reserved, settings),
+    [products, suppliers, purchaseOrders, reserved, settings]
+  );
+
+  // One group per preferred supplier, products without one last
+  const groups = useMemo(() => {
+    const bySupplier = new Map<string, ReorderSuggestion[]>();
+    suggestions.forEach(s => bySupplier.set(s.supplierId || '', [...(bySupplier.get(s.supplierId || '') || []), s]));
+    return Array.from(bySupplier.entries())
+      .map(([supplierId, lines]) => ({ supplier: suppliers.find(s => s.id === supplierId), lines }))
+      .sort((a, b) => !a.supplier ? 1 : !b.supplier ? -1 : a.supplier.name.localeCompare(b.supplier.name));
+  }, [suggestions, suppliers]);
+
+  const quantityFor = (s: ReorderSuggestion) => {
+    const entered = quantities[s.product.id];
+    return entered === undefined ? s.quantity : Math.max(parseInt(entered) || 0, 0);
+  };
+
+  const draftOrder = (supplier: Supplier, lines: ReorderSuggestion[], index = 0) => {
+    const items = lines
+      .filter(s => quantityFor(s) > 0)
+      .map(s => ({ productId: s.product.id, name: s.product.name, quantity: quantityFor(s), unitCost: s.product.buyPrice, receivedQuantity: 0 }));
+    if (items.length === 0) return false;
+    onSaveOrder({
+      id: `PO-${Date.now()}-${index}`,
+      createdAt: new Date().toISOString(),
+      status: 'DRAFT',
+      supplierId: supplier.id,
+      supplierName: supplier.name,
+      items,
+      receipts: [],
+      notes: 'Raised from reorder suggestions'
+    });
+    setQuantities(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !lines.some(s => s.product.id === id))));
+    return true;
+  };
+
+  const handleDraft = (supplier: Supplier, lines: ReorderSuggestion[]) => {
+    if (!draftOrder(supplier, lines)) alert("Enter an order quantity for at least one product.");
+  };
+
+  const handleDraftAll = () => {
+    const drafted = groups.filter(g => g.supplier).filter((g, idx) => draftOrder(g.supplier!, g.lines, idx));
+    if (drafted.length === 0) alert("There is nothing to order from a known supplier.");
+  };
+
+  return (
+    <div className="space-y-6 animate-fadeIn">
+      <header className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-slate-800 tracking-tight">Reorder</h2>
+          <p className="text-slate-500 font-medium">Suggested purchases from recent sales, lead times and safety stock.</p>
+        </div>
+        <button
+          onClick={handleDraftAll}
+          disabled={!groups.some(g => g.supplier)}
+          className="bg-indigo-600 text-white px-6 py-2.5 rounded-xl font-bold hover:bg-indigo-700 transition shadow-lg shadow-indigo-100 disabled:opacity-40"
+        >
+          Draft All Orders
+        </button>
+      </header>
+
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 grid grid-cols-2 md:grid-cols-4 gap-4">
+        {SETTING_FIELDS.map(field => (
+          <div key={field.key}>
+            <label className="block text-[10px] font-black uppercase text-slate-400 mb-1">{field.label}</label>
+            <input
+              type="number"
+              min={field.min}
+              value={settings[field.key]}
+              onChange={(e) => onUpdateSettings({ ...settings, [field.key]: Math.max(parseInt(e.target.value) || 0, field.min) })}
+              className="w-full px-3 py-2 border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-600 outline-none focus:border-indigo-500"
+            />
+          </div>
+        ))}
+      </div>
+
+      {groups.length === 0 && (
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 px-6 py-12 text-center text-slate-400 font-bold italic">
+          Nothing needs reordering right now.
+        </div>
+      )}
+
+      {groups.map(({ supplier, lines }) => {
+        const total = lines.reduce((acc, s) => acc + quantityFor(s) * s.product.buyPrice, 0);
+        return (
+          <div key={supplier?.id || 'none'} className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+            <div className="px-6 py-4 border-b flex flex-col md:flex-row md:items-center justify-between gap-3">
+              <div>
+                <h3 className="font-bold text-slate-800">{supplier ? supplier.name : 'No Preferred Supplier'}</h3>
+                <p className="text-xs text-slate-400 font-medium">
+                  {supplier
+                    ? `${lines.length} product(s) · lead time ${supplier.leadTimeDays ?? settings.leadTimeDays} day(s)`
+                    : 'Set a preferred supplier on these products in Inventory to order them from here.'}
+                </p>
+              </div>
+              {supplier && (
+                <div className="flex items-center gap-4">
+                  <span className="font-black text-slate-800">${total.toFixed(2)}</span>
+                  <button
+                    onClick={() => handleDraft(supplier, lines)}
+                    className="bg-indigo-50 text-indigo-600 px-4 py-2 rounded-xl font-black text-xs uppercase hover:bg-indigo-100 transition"
+                  >
+                    Create Draft PO
+                  </button>
+                </div>
+              )}
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-left">
+                <thead className="bg-slate-50 text-slate-400 text-[10px] font-black uppercase tracking-widest">
+                  <tr>
+                    <th className="px-6 py-3">Product</th>
+                    <th className="px-6 py-3 text-right">Available</th>
+                    <th className="px-6 py-3 text-right">On Order</th>
+                    <th className="px-6 py-3 text-right">Sold / Day</th>
+                    <th className="px-6 py-3 text-right">Reorder Point</th>
+                    <th className="px-6 py-3 text-right">Order Qty</th>
+                    <th className="px-6 py-3 text-right">Est. Cost</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 text-sm font-medium">
+                  {lines.map(s => (
+                    <tr key={s.product.id} className="hover:bg-slate-50">
+                      <td className="px-6 py-3">
+                        <p className="font-bold text-slate-800">{s.product.name}</p>
+                        <p className="text-[10px] font-mono text-slate-400">{s.product.sku}</p>
+                      </td>
+                      <td className={`px-6 py-3 text-right font-bold ${s.available <= 0 ? 'text-rose-600' : 'text-slate-600'}`}>{s.available}</td>
+                      <td className="px-6 py-3 text-right text-slate-500">{s.onOrder}</td>
+                      <td className="px-6 py-3 text-right text-slate-500">{s.dailySales.toFixed(2)}</td>
+                      <td className="px-6 py-3 text-right text-slate-500">
+                        {s.reorderPoint}
+                        {s.reorderPoint === s.product.minStock && <span className="block text-[10px] text-slate-400">min stock</span>}
+                      </td>
+                      <td className="px-6 py-3 text-right">
+                        <input
+                          type="number"
+                          min="0"
+                          value={quantities[s.product.id] ?? String(s.quantity)}
+                          onChange={(e) => setQuantities(prev => ({ ...prev, [s.product.id]: e.target.value }))}
+                          className="w-24 px-2 py-1.5 border-2 border-slate-100 rounded-lg text-right font-bold outline-none focus:border-indigo-500"
+                        />
+                      </td>
+                      <td className="px-6 py-3 text-right font-black text-slate-800">${(quantityFor(s) * s.product.buyPrice).toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default Reorder;
@@ -1,6 +1,9 @@
 
 import React, { useMemo, useState } from 'react';
-import { Product, Sale, StockLog } from '../types';
+import { Product, Sale, StockLog, ValuationMethod } from '../types';
+import { dayKey } from '../services/pricing';
+import { baseQuantity } from '../services/units';
+import { VALUATION_METHOD_LABELS, costLayers, layersQuantity, layersValue } from '../services/costing';
 import { 
   BarChart, 
   Bar, 
@@ -18,15 +21,33 @@ import {
 interface ReportsProps {
   products: Product[];
   sales: Sale[];
+  valuation: ValuationMethod;
+}
+
+type ProfitGrouping = 'product' | 'category' | 'day';
+
+interface ProfitRow {
+  key: string;
+  label: string;
+  quantity: number;
+  revenue: number;
+  cost: number;
 }
 
 interface CombinedStockLog extends StockLog {
   productName: string;
+  archived: boolean;
 }
 
-const Reports: React.FC<ReportsProps> = ({ products, sales }) => {
-  const [activeTab, setActiveTab] = useState<'sales' | 'inventory' | 'movement'>('sales');
+const Reports: React.FC<ReportsProps> = ({ products, sales, valuation }) => {
+  const [activeTab, setActiveTab] = useState<'sales' | 'profit' | 'inventory' | 'valuation' | 'movement' | 'tax'>('sales');
   const [movementSearch, setMovementSearch] = useState('');
+  const [taxFrom, setTaxFrom] = useState(() => dayKey(new Date()).slice(0, 8) + '01');
+  const [taxTo, setTaxTo] = useState(() => dayKey(new Date()));
+  const [profitFrom, setProfitFrom] = useState(() => dayKey(new Date()).slice(0, 8) + '01');
+  const [profitTo, setProfitTo] = useState(() => dayKey(new Date()));
+  const [profitGrouping, setProfitGrouping] = useState<ProfitGrouping>('product');
+  const [valuationDate, setValuationDate] = useState(() => dayKey(new Date()));
 
   const salesByDay = useMemo(() => {
     const map = new Map();
@@ -48,11 +69,157 @@ const Reports: React.FC<ReportsProps> = ({ products, sales }) => {
     }));
   }, [sales]);
 
+  // Gross and net as priced for the same 7 days, with what each discount cost
+  const discountSummary = useMemo(() => {
+    const since = new Date();
+    since.setHours(0, 0, 0, 0);
+    since.setDate(since.getDate() - 6);
+    const recent = sales.filter(s => new Date(s.timestamp) >= since);
+    const bySource = new Map<string, { label: string; source: string; amount: number; uses: number }>();
+    recent.forEach(s => s.discounts.forEach(d => {
+      const key = `${d.source}:${d.promotionId || d.label}`;
+      const entry = bySource.get(key) || { label: d.label, source: d.source, amount: 0, uses: 0 };
+      bySource.set(key, { ...entry, amount: entry.amount + d.amount, uses: entry.uses + 1 });
+    }));
+    return {
+      gross: recent.reduce((acc, s) => acc + s.grossSubtotal, 0),
+      discounts: recent.reduce((acc, s) => acc + s.discountTotal, 0),
+      net: recent.reduce((acc, s) => acc + s.grossSubtotal - s.discountTotal, 0),
+      discountedSales: recent.filter(s => s.discountTotal > 0).length,
+      breakdown: Array.from(bySource.values()).sort((a, b) => b.amount - a.amount)
+    };
+  }, [sales]);
+
+  // Tax collected per rate over the filing period, by local sale date
+  const taxSummary = useMemo(() => {
+    const inPeriod = sales.filter(s => {
+      const day = dayKey(new Date(s.timestamp));
+      return day >= taxFrom && day <= taxTo;
+    });
+    const rates = new Map<string, { name: string; percent: number; taxable: number; amount: number }>();
+    inPeriod.forEach(s => s.taxLines.forEach(line => {
+      const key = `${line.name}@${line.percent}`;
+      const entry = rates.get(key) || { name: line.name, percent: line.percent, taxable: 0, amount: 0 };
+      rates.set(key, { ...entry, taxable: entry.taxable + line.taxable, amount: entry.amount + line.amount });
+    }));
+    const exempt = inPeriod.filter(s => s.taxExemptRef);
+    return {
+      saleCount: inPeriod.length,
+      netSales: inPeriod.reduce((acc, s) => acc + s.subtotal, 0),
+      tax: inPeriod.reduce((acc, s) => acc + s.tax, 0),
+      total: inPeriod.reduce((acc, s) => acc + s.total, 0),
+      exemptCount: exempt.length,
+      exemptSales: exempt.reduce((acc, s) => acc + s.subtotal, 0),
+      rates: Array.from(rates.values()).sort((a, b) => a.name.localeCompare(b.name) || a.percent - b.percent)
+    };
+  }, [sales, taxFrom, taxTo]);
+
+  /**
+   * Revenue ex tax against cost of goods, net of returns. Sales recorded
+   * before costing have no cost on their lines and use today's buy price.
+   */
+  const profitSummary = useMemo(() => {
+    const rows = new Map<string, ProfitRow>();
+    let estimatedLines = 0;
+    sales.forEach(s => {
+      const day = dayKey(new Date(s.timestamp));
+      if (day < profitFrom || day > profitTo) return;
+      s.items.forEach(item => {
+        const kept = item.quantity > 0 ? (item.quantity - item.returnedQuantity) / item.quantity : 0;
+        if (kept <= 0) return;
+        const product = products.find(p => p.id === item.productId);
+        if (item.cost === undefined) estimatedLines++;
+        const lineCost = item.cost ?? baseQuantity(item) * (product?.buyPrice || 0);
+        const [key, label] = profitGrouping === 'product' ? [item.productId, product?.name || item.name]
+          : profitGrouping === 'category' ? [product?.category || 'Unknown', product?.category || 'Unknown']
+          : [day, day];
+        const row = rows.get(key) || { key, label, quantity: 0, revenue: 0, cost: 0 };
+        rows.set(key, {
+          ...row,
+          quantity: row.quantity + (item.quantity - item.returnedQuantity) * item.unitFactor,
+          revenue: row.revenue + (s.pricesIncludeTax ? item.total - item.tax : item.total) * kept,
+          cost: row.cost + lineCost * kept
+        });
+      });
+    });
+    const list = Array.from(rows.values()).sort((a, b) =>
+      profitGrouping === 'day' ? a.key.localeCompare(b.key) : (b.revenue - b.cost) - (a.revenue - a.cost)
+    );
+    const revenue = list.reduce((acc, r) => acc + r.revenue, 0);
+    const cost = list.reduce((acc, r) => acc + r.cost, 0);
+    return { rows: list, revenue, cost, profit: revenue - cost, estimatedLines };
+  }, [sales, products, profitFrom, profitTo, profitGrouping]);
+
+  // Stock on hand at the end of the chosen day, costed by replaying each product's history
+  const valuationSummary = useMemo(() => {
+    const until = valuationDate >= dayKey(new Date()) ? undefined : new Date(`${valuationDate}T23:59:59.999`).toISOString();
+    const rows = products
+      .map(p => {
+        const layers = costLayers(p, valuation, until);
+        return { product: p, quantity: layersQuantity(layers), value: layersValue(layers) };
+      })
+      .filter(r => r.quantity > 0)
+      .sort((a, b) => b.value - a.value);
+    return { rows, total: rows.reduce((acc, r) => acc + r.value, 0) };
+  }, [products, valuation, valuationDate]);
+
+  const currentCostValue = useMemo(
+    () => new Map(products.map(p => [p.id, layersValue(costLayers(p, valuation))])),
+    [products, valuation]
+  );
+
+  const downloadCSV = (rows: (string | number)[][], filename: string) => {
+    const csvContent = rows.map(e => e.join(",")).join("\n");
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+    link.setAttribute("href", url);
+    link.setAttribute("download", filename);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const handleExportProfitCSV = () => {
+    const headers = [profitGrouping === 'product' ? 'Product' : profitGrouping === 'category' ? 'Category' : 'Day', 'Units', 'Revenue', 'Cost of Goods', 'Gross Profit', 'Margin %'];
+    const rows = profitSummary.rows.map(r => [
+      `"${r.label.replace(/"/g, '""')}"`,
+      r.quantity,
+      r.revenue.toFixed(2),
+      r.cost.toFixed(2),
+      (r.revenue - r.cost).toFixed(2),
+      r.revenue > 0 ? (((r.revenue - r.cost) / r.revenue) * 100).toFixed(1) : ''
+    ]);
+    downloadCSV([headers, ...rows], `sarkar_profit_${profitGrouping}_${profitFrom}_${profitTo}.csv`);
+  };
+
+  const handleExportValuationCSV = () => {
+    const headers = ['Product', 'SKU', 'Units', 'Average Cost', 'Value at Cost'];
+    const rows = valuationSummary.rows.map(r => [
+      `"${r.product.name.replace(/"/g, '""')}"`,
+      `"${r.product.sku}"`,
+      r.quantity,
+      (r.value / r.quantity).toFixed(2),
+      r.value.toFixed(2)
+    ]);
+    downloadCSV([headers, ...rows], `sarkar_valuation_${valuationDate}.csv`);
+  };
+
+  const handleExportTaxCSV = () => {
+    const headers = ['Tax', 'Rate %', 'Taxable', 'Tax Collected'];
+    const rows = taxSummary.rates.map(r => [`"${r.name.replace(/"/g, '""')}"`, r.percent, r.taxable.toFixed(2), r.amount.toFixed(2)]);
+    rows.push(['"Exempt sales"', '', taxSummary.exemptSales.toFixed(2), '0.00']);
+    rows.push(['"Total"', '', taxSummary.netSales.toFixed(2), taxSummary.tax.toFixed(2)]);
+
+    downloadCSV([headers, ...rows], `sarkar_tax_${taxFrom}_${taxTo}.csv`);
+  };
+
   const allStockMovement = useMemo(() => {
     const logs: CombinedStockLog[] = [];
     products.forEach(p => {
-      (p.stockHistory || []).forEach(log => {
-        logs.push({ ...log, productName: p.name });
+      p.stockHistory.forEach(log => {
+        logs.push({ ...log, productName: p.name, archived: !!p.archivedAt });
       });
     });
     return logs.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
@@ -60,7 +227,8 @@ const Reports: React.FC<ReportsProps> = ({ products, sales }) => {
 
   const filteredMovement = allStockMovement.filter(log => 
     log.productName.toLowerCase().includes(movementSearch.toLowerCase()) ||
-    log.type.toLowerCase().includes(movementSearch.toLowerCase())
+    log.type.toLowerCase().includes(movementSearch.toLowerCase()) ||
+    (log.reason || '').toLowerCase().includes(movementSearch.toLowerCase())
   );
 
   const COLORS = ['#4f46e5', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6'];
@@ -73,7 +241,7 @@ const Reports: React.FC<ReportsProps> = ({ products, sales }) => {
           <p className="text-slate-500">Track performance and movement history.</p>
         </div>
         <div className="flex bg-slate-100 p-1 rounded-xl no-print">
-          {(['sales', 'inventory', 'movement'] as const).map(tab => (
+          {(['sales', 'profit', 'inventory', 'valuation', 'movement', 'tax'] as const).map(tab => (
             <button 
               key={tab}
               onClick={() => setActiveTab(tab)}
@@ -101,6 +269,114 @@ const Reports: React.FC<ReportsProps> = ({ products, sales }) => {
               </ResponsiveContainer>
             </div>
           </div>
+
+          <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 flex flex-col">
+            <h3 className="font-bold text-slate-800 mb-6">Gross vs Net (Last 7 Days)</h3>
+            <div className="grid grid-cols-3 gap-3 mb-6">
+              <div className="bg-slate-50 p-3 rounded-xl">
+                <p className="text-[10px] font-black uppercase text-slate-400">Gross</p>
+                <p className="text-lg font-black text-slate-800">${discountSummary.gross.toFixed(2)}</p>
+              </div>
+              <div className="bg-emerald-50 p-3 rounded-xl">
+                <p className="text-[10px] font-black uppercase text-emerald-500">Discounts</p>
+                <p className="text-lg font-black text-emerald-600">-${discountSummary.discounts.toFixed(2)}</p>
+              </div>
+              <div className="bg-indigo-50 p-3 rounded-xl">
+                <p className="text-[10px] font-black uppercase text-indigo-400">Net</p>
+                <p className="text-lg font-black text-indigo-600">${discountSummary.net.toFixed(2)}</p>
+              </div>
+            </div>
+            <p className="text-[10px] font-black uppercase text-slate-400 mb-2">{discountSummary.discountedSales} discounted sale(s)</p>
+            <div className="flex-1 overflow-y-auto max-h-40 divide-y divide-slate-50 custom-scrollbar">
+              {discountSummary.breakdown.map(entry => (
+                <div key={`${entry.source}:${entry.label}`} className="flex justify-between items-center py-2 text-xs">
+                  <span className="font-bold text-slate-700 truncate mr-2">
+                    <span className="text-[9px] font-black uppercase text-slate-400 mr-2">{entry.source}</span>{entry.label}
+                  </span>
+                  <span className="font-black text-slate-800 shrink-0">${entry.amount.toFixed(2)} <span className="text-slate-400 font-bold">({entry.uses}x)</span></span>
+                </div>
+              ))}
+              {discountSummary.breakdown.length === 0 && (
+                <p className="py-6 text-center text-xs font-bold text-slate-400 italic">No discounts given.</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {activeTab === 'profit' && (
+        <div className="space-y-6">
+          <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 flex flex-col md:flex-row md:items-end justify-between gap-4">
+            <div className="flex flex-wrap gap-3">
+              <div>
+                <label className="block text-[10px] font-black uppercase text-slate-400 mb-1">From</label>
+                <input type="date" value={profitFrom} onChange={(e) => setProfitFrom(e.target.value)} className="px-3 py-2 border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-600" />
+              </div>
+              <div>
+                <label className="block text-[10px] font-black uppercase text-slate-400 mb-1">To</label>
+                <input type="date" value={profitTo} onChange={(e) => setProfitTo(e.target.value)} className="px-3 py-2 border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-600" />
+              </div>
+              <div>
+                <label className="block text-[10px] font-black uppercase text-slate-400 mb-1">Group By</label>
+                <select value={profitGrouping} onChange={(e) => setProfitGrouping(e.target.value as ProfitGrouping)} className="px-3 py-2 border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-600 bg-white">
+                  <option value="product">Product</option>
+                  <option value="category">Category</option>
+                  <option value="day">Day</option>
+                </select>
+              </div>
+            </div>
+            <button onClick={handleExportProfitCSV} className="bg-white border border-slate-200 text-slate-600 px-4 py-2.5 rounded-xl font-bold hover:bg-slate-50 transition no-print">Export CSV</button>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Revenue (ex tax)', value: `$${profitSummary.revenue.toFixed(2)}` },
+              { label: 'Cost of Goods', value: `$${profitSummary.cost.toFixed(2)}` },
+              { label: 'Gross Profit', value: `$${profitSummary.profit.toFixed(2)}` },
+              { label: 'Gross Margin', value: profitSummary.revenue > 0 ? `${((profitSummary.profit / profitSummary.revenue) * 100).toFixed(1)}%` : '—' }
+            ].map(card => (
+              <div key={card.label} className="bg-white p-5 rounded-2xl shadow-sm border border-slate-200">
+                <p className="text-[10px] font-black uppercase text-slate-400">{card.label}</p>
+                <p className="text-xl font-black text-slate-800 mt-1">{card.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+            <table className="w-full text-left">
+              <thead className="bg-slate-50 text-slate-400 text-[10px] font-black uppercase tracking-widest">
+                <tr>
+                  <th className="px-6 py-4">{profitGrouping === 'product' ? 'Product' : profitGrouping === 'category' ? 'Category' : 'Day'}</th>
+                  <th className="px-6 py-4 text-right">Units</th>
+                  <th className="px-6 py-4 text-right">Revenue</th>
+                  <th className="px-6 py-4 text-right">Cost of Goods</th>
+                  <th className="px-6 py-4 text-right">Gross Profit</th>
+                  <th className="px-6 py-4 text-right">Margin</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 text-sm font-medium">
+                {profitSummary.rows.map(row => {
+                  const profit = row.revenue - row.cost;
+                  return (
+                    <tr key={row.key} className="hover:bg-slate-50">
+                      <td className="px-6 py-3 font-bold text-slate-800">{row.label}</td>
+                      <td className="px-6 py-3 text-right text-slate-500">{row.quantity}</td>
+                      <td className="px-6 py-3 text-right text-slate-700">${row.revenue.toFixed(2)}</td>
+                      <td className="px-6 py-3 text-right text-slate-700">${row.cost.toFixed(2)}</td>
+                      <td className={`px-6 py-3 text-right font-black ${profit < 0 ? 'text-rose-600' : 'text-slate-900'}`}>${profit.toFixed(2)}</td>
+                      <td className="px-6 py-3 text-right text-slate-500">{row.revenue > 0 ? `${((profit / row.revenue) * 100).toFixed(1)}%` : '—'}</td>
+                    </tr>
+                  );
+                })}
+                {profitSummary.rows.length === 0 && (
+                  <tr><td colSpan={6} className="px-6 py-10 text-center text-slate-400 font-bold italic">No sales in this period.</td></tr>
+                )}
+              </tbody>
+            </table>
+            <p className="px-6 py-3 text-[10px] font-bold text-slate-400 border-t">
+              Returns are deducted.{profitSummary.estimatedLines > 0 ? ` ${profitSummary.estimatedLines} line(s) from before cost tracking use the current buy price.` : ''}
+            </p>
+          </div>
         </div>
       )}
 
@@ -113,23 +389,76 @@ const Reports: React.FC<ReportsProps> = ({ products, sales }) => {
           <div className="overflow-x-auto">
             <table className="w-full text-left">
               <thead className="bg-slate-50 text-[10px] uppercase font-bold text-slate-400">
-                <tr><th className="px-6 py-4">Product</th><th className="px-6 py-4">Stock</th><th className="px-6 py-4">Asset Value</th><th className="px-6 py-4">Status</th></tr>
+                <tr><th className="px-6 py-4">Product</th><th className="px-6 py-4">Stock</th><th className="px-6 py-4">Value at Cost</th><th className="px-6 py-4">Retail Value</th><th className="px-6 py-4">Status</th></tr>
               </thead>
               <tbody className="text-sm divide-y">
                 {products.map(p => (
                   <tr key={p.id}>
                     <td className="px-6 py-4 font-bold text-slate-700">{p.name}</td>
                     <td className="px-6 py-4">{p.stock}</td>
-                    <td className="px-6 py-4 font-black text-slate-900">${(p.sellPrice * p.stock).toFixed(2)}</td>
+                    <td className="px-6 py-4 font-black text-slate-900">${(currentCostValue.get(p.id) || 0).toFixed(2)}</td>
+                    <td className="px-6 py-4 font-bold text-slate-500">${(p.sellPrice * p.stock).toFixed(2)}</td>
                     <td className="px-6 py-4">
-                      <span className={`font-bold ${p.stock <= p.minStock ? 'text-rose-500' : 'text-emerald-500'}`}>
-                        {p.stock <= p.minStock ? 'Low Stock' : 'Healthy'}
-                      </span>
+                      {p.archivedAt ? (
+                        <span className="font-bold text-slate-400">Archived</span>
+                      ) : (
+                        <span className={`font-bold ${p.stock <= p.minStock ? 'text-rose-500' : 'text-emerald-500'}`}>
+                          {p.stock <= p.minStock ? 'Low Stock' : 'Healthy'}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {activeTab === 'valuation' && (
+        <div className="space-y-6">
+          <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 flex flex-col md:flex-row md:items-end justify-between gap-4">
+            <div className="flex gap-3 items-end">
+              <div>
+                <label className="block text-[10px] font-black uppercase text-slate-400 mb-1">As Of</label>
+                <input type="date" value={valuationDate} max={dayKey(new Date())} onChange={(e) => setValuationDate(e.target.value)} className="px-3 py-2 border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-600" />
+              </div>
+              <p className="text-xs font-bold text-slate-400 pb-2">{VALUATION_METHOD_LABELS[valuation]}</p>
+            </div>
+            <div className="flex gap-3 items-center">
+              <p className="text-xl font-black text-slate-800">${valuationSummary.total.toFixed(2)}</p>
+              <button onClick={handleExportValuationCSV} className="bg-white border border-slate-200 text-slate-600 px-4 py-2.5 rounded-xl font-bold hover:bg-slate-50 transition no-print">Export CSV</button>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+            <table className="w-full text-left">
+              <thead className="bg-slate-50 text-slate-400 text-[10px] font-black uppercase tracking-widest">
+                <tr>
+                  <th className="px-6 py-4">Product</th>
+                  <th className="px-6 py-4 text-right">Units</th>
+                  <th className="px-6 py-4 text-right">Average Cost</th>
+                  <th className="px-6 py-4 text-right">Value at Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 text-sm font-medium">
+                {valuationSummary.rows.map(row => (
+                  <tr key={row.product.id} className="hover:bg-slate-50">
+                    <td className="px-6 py-3 font-bold text-slate-800">
+                      {row.product.name}
+                      <span className="ml-2 text-[10px] font-mono text-slate-400">{row.product.sku}</span>
                     </td>
+                    <td className="px-6 py-3 text-right text-slate-500">{row.quantity}</td>
+                    <td className="px-6 py-3 text-right text-slate-700">${(row.value / row.quantity).toFixed(2)}</td>
+                    <td className="px-6 py-3 text-right font-black text-slate-900">${row.value.toFixed(2)}</td>
                   </tr>
                 ))}
+                {valuationSummary.rows.length === 0 && (
+                  <tr><td colSpan={4} className="px-6 py-10 text-center text-slate-400 font-bold italic">No stock on hand at this date.</td></tr>
+                )}
               </tbody>
             </table>
+            <p className="px-6 py-3 text-[10px] font-bold text-slate-400 border-t">Stock received without a recorded cost is carried at the current buy price.</p>
           </div>
         </div>
       )}
@@ -152,12 +481,17 @@ const Reports: React.FC<ReportsProps> = ({ products, sales }) => {
                 {filteredMovement.map((log, idx) => (
                   <tr key={idx} className="hover:bg-slate-50 transition-colors">
                     <td className="px-6 py-2.5 text-slate-400 font-mono">{new Date(log.timestamp).toLocaleString()}</td>
-                    <td className="px-6 py-2.5 font-bold text-slate-700">{log.productName}</td>
+                    <td className="px-6 py-2.5 font-bold text-slate-700">
+                      {log.productName}
+                      {log.archived && <span className="ml-2 text-[9px] font-black uppercase text-slate-400">Archived</span>}
+                    </td>
                     <td className="px-6 py-2.5">
                       <span className={`px-2 py-0.5 rounded-full font-black text-[9px] ${
                         log.type === 'SALE' ? 'bg-indigo-100 text-indigo-700' :
-                        log.type === 'RESTOCK' ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-600'
+                        log.type === 'RESTOCK' ? 'bg-emerald-100 text-emerald-700' :
+                        log.type === 'WRITE_OFF' ? 'bg-rose-100 text-rose-700' : 'bg-slate-100 text-slate-600'
                       }`}>{log.type}</span>
+                      {log.reason && <p className="text-[9px] text-slate-400 mt-0.5">{log.reason}</p>}
                     </td>
                     <td className={`px-6 py-2.5 font-black ${log.amount > 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
                       {log.amount > 0 ? `+${log.amount}` : log.amount}
@@ -170,6 +504,65 @@ const Reports: React.FC<ReportsProps> = ({ products, sales }) => {
           </div>
         </div>
       )}
+
+      {activeTab === 'tax' && (
+        <div className="space-y-6">
+          <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 flex flex-col md:flex-row md:items-end justify-between gap-4">
+            <div className="flex gap-3">
+              <div>
+                <label className="block text-[10px] font-black uppercase text-slate-400 mb-1">From</label>
+                <input type="date" value={taxFrom} onChange={(e) => setTaxFrom(e.target.value)} className="px-3 py-2 border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-600" />
+              </div>
+              <div>
+                <label className="block text-[10px] font-black uppercase text-slate-400 mb-1">To</label>
+                <input type="date" value={taxTo} onChange={(e) => setTaxTo(e.target.value)} className="px-3 py-2 border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-600" />
+              </div>
+            </div>
+            <button onClick={handleExportTaxCSV} className="bg-white border border-slate-200 text-slate-600 px-4 py-2.5 rounded-xl font-bold hover:bg-slate-50 transition no-print">Export CSV</button>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Sales', value: String(taxSummary.saleCount) },
+              { label: 'Net Sales (ex tax)', value: `$${taxSummary.netSales.toFixed(2)}` },
+              { label: 'Tax Collected', value: `$${taxSummary.tax.toFixed(2)}` },
+              { label: 'Exempt Sales', value: `$${taxSummary.exemptSales.toFixed(2)} (${taxSummary.exemptCount})` }
+            ].map(card => (
+              <div key={card.label} className="bg-white p-5 rounded-2xl shadow-sm border border-slate-200">
+                <p className="text-[10px] font-black uppercase text-slate-400">{card.label}</p>
+                <p className="text-xl font-black text-slate-800 mt-1">{card.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+            <table className="w-full text-left">
+              <thead className="bg-slate-50 text-slate-400 text-[10px] font-black uppercase tracking-widest">
+                <tr>
+                  <th className="px-6 py-4">Tax</th>
+                  <th className="px-6 py-4">Rate</th>
+                  <th className="px-6 py-4 text-right">Taxable Amount</th>
+                  <th className="px-6 py-4 text-right">Tax Collected</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 text-sm font-medium">
+                {taxSummary.rates.map(rate => (
+                  <tr key={`${rate.name}@${rate.percent}`} className="hover:bg-slate-50">
+                    <td className="px-6 py-3 font-bold text-slate-800">{rate.name}</td>
+                    <td className="px-6 py-3 text-slate-500">{rate.percent}%</td>
+                    <td className="px-6 py-3 text-right text-slate-700">${rate.taxable.toFixed(2)}</td>
+                    <td className="px-6 py-3 text-right font-black text-slate-900">${rate.amount.toFixed(2)}</td>
+                  </tr>
+                ))}
+                {taxSummary.rates.length === 0 && (
+                  <tr><td colSpan={4} className="px-6 py-10 text-center text-slate-400 font-bold italic">No tax collected in this period.</td></tr>
+                )}
+              </tbody>
+            </table>
+            <p className="px-6 py-3 text-[10px] font-bold text-slate-400 border-t">Returns are not deducted; figures are as sold.</p>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
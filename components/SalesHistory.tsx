@@ -1,14 +1,16 @@
 
 import React, { useState, useMemo } from 'react';
-import { Sale, SaleItem, UserRole } from '../types';
+import { Sale, Permission, ReturnLine } from '../types';
+import { lineKey } from '../services/units';
+import { paymentLabel } from '../services/payments';
 
 interface SalesHistoryProps {
   sales: Sale[];
-  onProcessReturn: (saleId: string, returns: { productId: string, quantity: number }[]) => void;
-  userRole: UserRole;
+  onProcessReturn: (saleId: string, returns: ReturnLine[]) => void;
+  can: (permission: Permission) => boolean;
 }
 
-const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, onProcessReturn, userRole }) => {
+const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, onProcessReturn, can }) => {
   const [selectedSale, setSelectedSale] = useState<Sale | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [dateFilter, setDateFilter] = useState('All');
@@ -18,40 +20,40 @@ const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, onProcessReturn, use
   const [returnQuantities, setReturnQuantities] = useState<Record<string, number>>({});
   const [isConfirmingReturn, setIsConfirmingReturn] = useState(false);
 
-  const isAdmin = userRole === UserRole.ADMIN;
+  const canRefund = can(Permission.SALES_REFUND);
 
   const filteredSales = useMemo(() => {
     return sales.filter(sale => {
       const matchesSearch = sale.id.toLowerCase().includes(searchTerm.toLowerCase()) || 
                             sale.customerName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
                             sale.processedBy?.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchesPayment = paymentFilter === 'All' || sale.paymentMethod === paymentFilter;
+      const matchesPayment = paymentFilter === 'All' || sale.payments.some(p => p.method === paymentFilter);
       return matchesSearch && matchesPayment;
     });
   }, [sales, searchTerm, paymentFilter]);
 
   const handleReturnClick = () => {
-    if (!isAdmin) return;
+    if (!canRefund) return;
     setIsReturnMode(true);
     const initialQtys: Record<string, number> = {};
     selectedSale?.items.forEach(item => {
-      initialQtys[item.productId] = 0;
+      initialQtys[lineKey(item)] = 0;
     });
     setReturnQuantities(initialQtys);
   };
 
-  const handleReturnQtyChange = (productId: string, qty: number, max: number) => {
+  const handleReturnQtyChange = (key: string, qty: number, max: number) => {
     setReturnQuantities(prev => ({
       ...prev,
-      [productId]: Math.min(Math.max(0, qty), max)
+      [key]: Math.min(Math.max(0, qty), max)
     }));
   };
 
   const submitReturn = () => {
-    if (!isAdmin || !selectedSale) return;
-    const returns = (Object.entries(returnQuantities) as [string, number][])
-      .filter(([_, qty]) => qty > 0)
-      .map(([id, qty]) => ({ productId: id, quantity: qty }));
+    if (!canRefund || !selectedSale) return;
+    const returns: ReturnLine[] = selectedSale.items
+      .filter(item => (returnQuantities[lineKey(item)] || 0) > 0)
+      .map(item => ({ productId: item.productId, unitId: item.unitId, quantity: returnQuantities[lineKey(item)] }));
 
     if (returns.length === 0) {
       setIsReturnMode(false);
@@ -139,7 +141,7 @@ const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, onProcessReturn, use
                       <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Staff / Payment</p>
                       <div className="flex flex-col items-end gap-1">
                         <span className="text-[10px] font-bold text-slate-400 uppercase">{selectedSale.processedBy}</span>
-                        <span className="bg-indigo-100 text-indigo-700 px-3 py-1 rounded-full text-[10px] font-black uppercase">{selectedSale.paymentMethod}</span>
+                        <span className="bg-indigo-100 text-indigo-700 px-3 py-1 rounded-full text-[10px] font-black uppercase">{paymentLabel(selectedSale)}</span>
                       </div>
                     </div>
                     {selectedSale.customerAddress && (
@@ -156,9 +158,12 @@ const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, onProcessReturn, use
                       {selectedSale.items.map((item, idx) => (
                         <div key={idx} className="flex justify-between items-center bg-slate-50 p-3 rounded-xl border border-slate-100">
                             <div className="text-xs">
-                              <p className="font-black text-slate-800 uppercase tracking-tighter">{item.name}</p>
+                              <p className="font-black text-slate-800 uppercase tracking-tighter">{item.name}{item.unitName && ` (${item.unitName})`}</p>
                               <p className="text-slate-400 font-bold">{item.quantity} x ${item.price.toFixed(2)}</p>
-                              {item.returnedQuantity && item.returnedQuantity > 0 && (
+                              {item.discount > 0 && (
+                                <p className="text-emerald-600 text-[10px] font-black uppercase mt-0.5">Discount: -${item.discount.toFixed(2)}</p>
+                              )}
+                              {item.returnedQuantity > 0 && (
                                 <p className="text-rose-500 text-[10px] font-black uppercase mt-0.5">Returned: {item.returnedQuantity}</p>
                               )}
                             </div>
@@ -168,6 +173,37 @@ const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, onProcessReturn, use
                     </div>
                   </div>
 
+                  {selectedSale.discounts.length > 0 && (
+                    <div className="space-y-1 text-xs font-bold">
+                      <div className="flex justify-between text-slate-400"><span>Gross</span><span>${selectedSale.grossSubtotal.toFixed(2)}</span></div>
+                      {selectedSale.discounts.map((d, idx) => (
+                        <div key={idx} className="flex justify-between text-emerald-600">
+                          <span className="uppercase">{d.source === 'PROMOTION' ? 'Promo' : d.source === 'CART' ? 'Cart' : 'Line'}: {d.label}</span>
+                          <span>-${d.amount.toFixed(2)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="space-y-1 text-xs font-bold text-slate-400">
+                    <div className="flex justify-between"><span>Subtotal (ex tax)</span><span>${selectedSale.subtotal.toFixed(2)}</span></div>
+                    {selectedSale.taxLines.map((line, idx) => (
+                      <div key={idx} className="flex justify-between"><span>{line.name} {line.percent}%</span><span>${line.amount.toFixed(2)}</span></div>
+                    ))}
+                    {selectedSale.taxExemptRef && (
+                      <div className="flex justify-between text-amber-600"><span>Tax exempt</span><span>{selectedSale.taxExemptRef}</span></div>
+                    )}
+                    {selectedSale.payments.map(payment => (
+                      <div key={payment.id} className="flex justify-between text-slate-600">
+                        <span>{payment.method}{payment.reference && ` #${payment.reference}`}{payment.tendered !== undefined && ` (tendered $${payment.tendered.toFixed(2)})`}</span>
+                        <span>${payment.amount.toFixed(2)}</span>
+                      </div>
+                    ))}
+                    {selectedSale.change > 0 && (
+                      <div className="flex justify-between"><span>Change given</span><span>${selectedSale.change.toFixed(2)}</span></div>
+                    )}
+                  </div>
+
                   <div className="pt-4 border-t-2 border-slate-50 flex justify-between items-end">
                     <div>
                       <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Grand Total</p>
@@ -175,7 +211,7 @@ const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, onProcessReturn, use
                     </div>
                     <div className="flex gap-2">
                       <button onClick={() => window.print()} className="bg-slate-900 text-white px-6 py-3 rounded-xl font-black text-xs uppercase tracking-widest transition active:scale-95">Print</button>
-                      {isAdmin && (
+                      {canRefund && (
                         <button onClick={handleReturnClick} className="bg-rose-50 text-rose-600 px-6 py-3 rounded-xl font-black text-xs uppercase tracking-widest hover:bg-rose-100 transition active:scale-95">Return</button>
                       )}
                     </div>
@@ -190,11 +226,11 @@ const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, onProcessReturn, use
                   
                   <div className="space-y-3">
                     {selectedSale.items.map((item) => {
-                      const returnable = item.quantity - (item.returnedQuantity || 0);
+                      const returnable = item.quantity - item.returnedQuantity;
                       return (
-                        <div key={item.productId} className="bg-slate-50 p-4 rounded-2xl border-2 border-slate-100">
+                        <div key={lineKey(item)} className="bg-slate-50 p-4 rounded-2xl border-2 border-slate-100">
                           <div className="flex justify-between mb-3">
-                            <p className="font-black text-xs text-slate-800 uppercase tracking-tighter truncate">{item.name}</p>
+                            <p className="font-black text-xs text-slate-800 uppercase tracking-tighter truncate">{item.name}{item.unitName && ` (${item.unitName})`}</p>
                             <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{returnable} available</span>
                           </div>
                           <div className="flex items-center gap-4">
@@ -202,11 +238,11 @@ const SalesHistory: React.FC<SalesHistoryProps> = ({ sales, onProcessReturn, use
                               type="range" 
                               min="0" 
                               max={returnable}
-                              value={returnQuantities[item.productId] || 0}
-                              onChange={(e) => handleReturnQtyChange(item.productId, parseInt(e.target.value), returnable)}
+                              value={returnQuantities[lineKey(item)] || 0}
+                              onChange={(e) => handleReturnQtyChange(lineKey(item), parseInt(e.target.value), returnable)}
                               className="flex-1 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-rose-500"
                             />
-                            <span className="w-10 text-center font-black text-rose-600 text-lg">{returnQuantities[item.productId] || 0}</span>
+                            <span className="w-10 text-center font-black text-rose-600 text-lg">{returnQuantities[lineKey(item)] || 0}</span>
                           </div>
                         </div>
                       );
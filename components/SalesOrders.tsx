@@ -0,0 +1,348 @@
+import React, { useState } from 'react';
+import { AccountEntry, Customer, DeliveryLine, Payment, PaymentMethod, Product, SalesOrder, SalesOrderStatus, TaxSettings } from '../types';
+import { DeliveryError, applyDelivery, canInvoiceOrder, invoiceLines, isOrderOpen, remainingQuantity } from '../services/salesOrders';
+import { COLLECTION_METHODS, PaymentError, createPayment } from '../services/payments';
+import { accountBalance, checkCredit, describeCreditCheck } from '../services/accounts';
+import { lineKey } from '../services/units';
+
+interface SalesOrdersProps {
+  orders: SalesOrder[];
+  products: Product[];
+  customers: Customer[];
+  accountEntries: AccountEntry[];
+  taxSettings: TaxSettings;
+  onDeliver: (orderId: string, lines: DeliveryLine[], note?: string) => void;
+  onCancel: (orderId: string) => void;
+  onInvoice: (orderId: string, payment: Payment) => void;
+}
+
+const STATUS_STYLES: Record<SalesOrderStatus, string> = {
+  OPEN: 'bg-indigo-50 text-indigo-600',
+  PARTIAL: 'bg-amber-50 text-amber-600',
+  FULFILLED: 'bg-emerald-50 text-emerald-600',
+  INVOICED: 'bg-slate-100 text-slate-500',
+  CANCELLED: 'bg-rose-50 text-rose-500'
+};
+
+const SalesOrders: React.FC<SalesOrdersProps> = ({ orders, products, customers, accountEntries, taxSettings, onDeliver, onCancel, onInvoice }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<SalesOrderStatus | 'All'>('All');
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [deliverNow, setDeliverNow] = useState<Record<string, string>>({});
+  const [deliveryNote, setDeliveryNote] = useState('');
+  const [printDeliveryId, setPrintDeliveryId] = useState<string | null>(null);
+  const [invoiceMethod, setInvoiceMethod] = useState<PaymentMethod>('Cash');
+  const [invoiceReference, setInvoiceReference] = useState('');
+
+  const viewing = orders.find(o => o.id === viewingId);
+  const invoice = viewing && canInvoiceOrder(viewing) ? invoiceLines(viewing, products, taxSettings) : null;
+  const printDelivery = viewing?.deliveries.find(d => d.id === printDeliveryId) || viewing?.deliveries[viewing.deliveries.length - 1];
+  const invoiceMethods: PaymentMethod[] = viewing?.customerId ? [...COLLECTION_METHODS, 'On Account'] : COLLECTION_METHODS;
+
+  const filtered = orders
+    .filter(o => statusFilter === 'All' || o.status === statusFilter)
+    .filter(o =>
+      o.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      o.customerName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      o.customerPhone.includes(searchTerm)
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const openOrder = (order: SalesOrder) => {
+    setViewingId(order.id);
+    setDeliverNow(Object.fromEntries(order.items.map(item => [lineKey(item), String(remainingQuantity(item))])));
+    setDeliveryNote('');
+    setPrintDeliveryId(null);
+    setInvoiceMethod('Cash');
+    setInvoiceReference('');
+  };
+
+  const handleDeliver = () => {
+    if (!viewing) return;
+    const lines: DeliveryLine[] = viewing.items
+      .map(item => ({ productId: item.productId, ...(item.unitId ? { unitId: item.unitId } : {}), quantity: parseInt(deliverNow[lineKey(item)]) || 0 }))
+      .filter(line => line.quantity > 0);
+    try {
+      applyDelivery(viewing, lines, products);
+    } catch (err) {
+      if (err instanceof DeliveryError) {
+        alert(err.message);
+        return;
+      }
+      throw err;
+    }
+    onDeliver(viewing.id, lines, deliveryNote.trim() || undefined);
+    setDeliverNow({});
+    setDeliveryNote('');
+    setPrintDeliveryId(null);
+  };
+
+  const handleCancel = () => {
+    if (!viewing) return;
+    const delivered = viewing.items.some(item => item.deliveredQuantity > 0);
+    if (!confirm(`Cancel order #${viewing.id.slice(-8)}? Its reserved stock is released.${delivered ? ' What was already delivered can still be invoiced.' : ''}`)) return;
+    onCancel(viewing.id);
+  };
+
+  const handleInvoice = () => {
+    if (!viewing || !invoice) return;
+    let payment: Payment;
+    try {
+      payment = createPayment(invoiceMethod, invoice.total, undefined, invoiceReference, viewing.customerId);
+    } catch (err) {
+      if (err instanceof PaymentError) {
+        alert(err.message);
+        return;
+      }
+      throw err;
+    }
+    const customer = customers.find(c => c.id === viewing.customerId);
+    if (payment.method === 'On Account' && customer) {
+      const check = checkCredit(customer, accountBalance(accountEntries, customer.id), payment.amount);
+      if (check.status === 'BLOCK') {
+        alert(`${describeCreditCheck(customer, check)} Invoice it with another method.`);
+        return;
+      }
+      if (check.status === 'WARN' && !confirm(`${describeCreditCheck(customer, check)} Charge it anyway?`)) return;
+    }
+    onInvoice(viewing.id, payment);
+  };
+
+  return (
+    <div className="space-y-6 animate-fadeIn">
+      <div className="no-print space-y-6">
+        <header className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-3xl font-bold text-slate-800 tracking-tight">Sales Orders</h2>
+            <p className="text-slate-500 font-medium">Orders taken at the POS hold their stock until delivered, then are invoiced.</p>
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search order # or customer..."
+              className="px-4 py-2.5 bg-white border border-slate-200 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as SalesOrderStatus | 'All')}
+              className="px-3 py-2.5 bg-white border border-slate-200 rounded-xl font-bold text-slate-600 text-sm"
+            >
+              <option value="All">All Statuses</option>
+              {(Object.keys(STATUS_STYLES) as SalesOrderStatus[]).map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+          </div>
+        </header>
+
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead className="bg-slate-50 text-slate-400 text-[10px] font-black uppercase tracking-widest">
+                <tr>
+                  <th className="px-6 py-4">Order #</th>
+                  <th className="px-6 py-4">Customer</th>
+                  <th className="px-6 py-4">Taken</th>
+                  <th className="px-6 py-4 text-right">Delivered</th>
+                  <th className="px-6 py-4 text-right">Total</th>
+                  <th className="px-6 py-4">Status</th>
+                  <th className="px-6 py-4 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 text-sm font-medium">
+                {filtered.map(o => {
+                  const ordered = o.items.reduce((acc, item) => acc + item.quantity, 0);
+                  const delivered = o.items.reduce((acc, item) => acc + item.deliveredQuantity, 0);
+                  return (
+                    <tr key={o.id} className="hover:bg-slate-50 transition-colors">
+                      <td className="px-6 py-4 font-mono text-xs font-bold text-slate-500">#{o.id.slice(-8)}</td>
+                      <td className="px-6 py-4">
+                        <p className="font-bold text-slate-800">{o.customerName}</p>
+                        <p className="text-xs text-slate-500">{o.customerPhone}</p>
+                      </td>
+                      <td className="px-6 py-4 text-xs text-slate-500">{new Date(o.createdAt).toLocaleDateString()}</td>
+                      <td className="px-6 py-4 text-right font-bold text-slate-600">{delivered} / {ordered}</td>
+                      <td className="px-6 py-4 text-right font-black text-slate-800">${o.total.toFixed(2)}</td>
+                      <td className="px-6 py-4">
+                        <span className={`text-[10px] font-black uppercase px-2 py-0.5 rounded ${STATUS_STYLES[o.status]}`}>{o.status}</span>
+                        {o.saleId && <p className="text-[10px] font-mono text-slate-400 mt-1">Invoice #{o.saleId.slice(-8)}</p>}
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <button
+                          onClick={() => openOrder(o)}
+                          className="bg-slate-100 text-slate-600 px-3 py-1 rounded-lg font-black text-xs uppercase hover:bg-slate-200 transition"
+                        >
+                          Open
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {filtered.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-12 text-center text-slate-400 font-bold italic">No sales orders found.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {viewing && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 no-print">
+          <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl overflow-hidden animate-slideUp">
+            <div className="bg-emerald-600 px-8 py-5 flex justify-between items-center text-white">
+              <div>
+                <h3 className="text-xl font-black uppercase tracking-tight">Order #{viewing.id.slice(-8)}</h3>
+                <p className="text-xs font-bold text-emerald-100">
+                  {viewing.customerName} · {viewing.customerPhone} · ${viewing.total.toFixed(2)} · {viewing.status}
+                </p>
+              </div>
+              <button onClick={() => setViewingId(null)}><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" /></svg></button>
+            </div>
+            <div className="p-8 space-y-6 max-h-[75vh] overflow-y-auto custom-scrollbar">
+              {viewing.notes && <p className="text-xs font-medium text-slate-500 whitespace-pre-line">{viewing.notes}</p>}
+              <table className="w-full text-left text-sm">
+                <thead className="text-[10px] font-black uppercase text-slate-400 tracking-widest">
+                  <tr>
+                    <th className="py-2">Item</th>
+                    <th className="py-2 text-right">Ordered</th>
+                    <th className="py-2 text-right">Delivered</th>
+                    <th className="py-2 text-right">On Hand</th>
+                    {isOrderOpen(viewing) && <th className="py-2 text-right">Deliver Now</th>}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 font-medium">
+                  {viewing.items.map(item => {
+                    const key = lineKey(item);
+                    const product = products.find(p => p.id === item.productId);
+                    return (
+                      <tr key={key}>
+                        <td className="py-2 font-bold text-slate-800">{item.name}{item.unitName ? ` (${item.unitName})` : ''}</td>
+                        <td className="py-2 text-right text-slate-600">{item.quantity}</td>
+                        <td className="py-2 text-right text-slate-600">{item.deliveredQuantity}</td>
+                        <td className="py-2 text-right text-slate-400">{product ? Math.floor(product.stock / item.unitFactor) : '—'}</td>
+                        {isOrderOpen(viewing) && (
+                          <td className="py-2 text-right">
+                            <input
+                              type="number"
+                              min="0"
+                              max={remainingQuantity(item)}
+                              value={deliverNow[key] ?? ''}
+                              onChange={(e) => setDeliverNow(prev => ({ ...prev, [key]: e.target.value }))}
+                              disabled={remainingQuantity(item) <= 0}
+                              className="w-20 px-2 py-1 border-2 border-slate-100 rounded-lg text-xs font-bold text-right outline-none focus:border-emerald-500 disabled:opacity-40"
+                            />
+                          </td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              {isOrderOpen(viewing) && (
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <input
+                    value={deliveryNote}
+                    onChange={(e) => setDeliveryNote(e.target.value)}
+                    placeholder="Delivery note (driver, vehicle...)"
+                    className="flex-1 px-4 py-2.5 border-2 border-slate-100 rounded-xl text-sm font-medium outline-none focus:border-emerald-500"
+                  />
+                  <button onClick={handleDeliver} className="px-6 py-2.5 bg-emerald-600 text-white font-black rounded-xl hover:bg-emerald-700 transition uppercase text-xs">Record Delivery</button>
+                  <button onClick={handleCancel} className="px-6 py-2.5 bg-rose-50 text-rose-600 font-black rounded-xl hover:bg-rose-100 transition uppercase text-xs">Cancel Order</button>
+                </div>
+              )}
+
+              {viewing.deliveries.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <h4 className="text-[10px] font-black uppercase text-slate-400 tracking-widest">Delivery Notes</h4>
+                    <button onClick={() => window.print()} className="text-[10px] font-black uppercase text-indigo-600 hover:text-indigo-800">Print Selected</button>
+                  </div>
+                  {viewing.deliveries.map((d, idx) => (
+                    <label key={d.id} className={`flex items-center gap-3 p-3 rounded-xl border-2 cursor-pointer ${printDelivery?.id === d.id ? 'border-indigo-200 bg-indigo-50/40' : 'border-slate-100'}`}>
+                      <input type="radio" checked={printDelivery?.id === d.id} onChange={() => setPrintDeliveryId(d.id)} className="text-indigo-600" />
+                      <div className="flex-1 min-w-0 text-xs">
+                        <p className="font-black text-slate-700">#{idx + 1} · {new Date(d.timestamp).toLocaleString()}{d.deliveredBy ? ` · ${d.deliveredBy}` : ''}</p>
+                        <p className="text-slate-500 truncate">
+                          {d.lines.map(l => `${l.quantity}× ${viewing.items.find(item => lineKey(item) === lineKey(l))?.name || l.productId}`).join(', ')}
+                          {d.note ? ` · ${d.note}` : ''}
+                        </p>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              {invoice && (
+                <div className="p-4 bg-slate-50 rounded-2xl space-y-3">
+                  <div className="flex justify-between items-center">
+                    <h4 className="text-[10px] font-black uppercase text-slate-400 tracking-widest">Invoice Delivered Goods</h4>
+                    <span className="font-black text-slate-800">${invoice.total.toFixed(2)}</span>
+                  </div>
+                  <div className="flex flex-col sm:flex-row gap-3">
+                    <select
+                      value={invoiceMethod}
+                      onChange={(e) => setInvoiceMethod(e.target.value as PaymentMethod)}
+                      className="px-4 py-2.5 border-2 border-slate-100 rounded-xl bg-white font-bold text-slate-600 text-sm"
+                    >
+                      {invoiceMethods.map(m => <option key={m} value={m}>{m}</option>)}
+                    </select>
+                    <input
+                      value={invoiceReference}
+                      onChange={(e) => setInvoiceReference(e.target.value)}
+                      placeholder="Reference (optional)"
+                      className="flex-1 px-4 py-2.5 border-2 border-slate-100 rounded-xl text-sm font-medium outline-none focus:border-indigo-500"
+                    />
+                    <button onClick={handleInvoice} className="px-6 py-2.5 bg-indigo-600 text-white font-black rounded-xl hover:bg-indigo-700 transition uppercase text-xs">Create Invoice</button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {viewing && printDelivery && (
+        <div className="print-only bg-white p-10 font-mono text-[11px] leading-snug text-black">
+          <div className="text-center mb-8">
+            <h1 className="text-xl font-black uppercase tracking-tighter">SARKAR TRADE STOCK</h1>
+            <p>Quality Supply & Logistics</p>
+            <div className="border-t border-dashed border-black my-5"></div>
+            <p className="font-bold text-sm uppercase">DELIVERY NOTE</p>
+            <p>Order: {viewing.id.slice(-12)} · Delivery {viewing.deliveries.indexOf(printDelivery) + 1}</p>
+          </div>
+          <div className="space-y-1 mb-6">
+            <div className="flex justify-between"><span>Date:</span> <span>{new Date(printDelivery.timestamp).toLocaleString()}</span></div>
+            <div className="flex justify-between"><span>Customer:</span> <span className="font-bold">{viewing.customerName}</span></div>
+            <div className="flex justify-between"><span>Phone:</span> <span>{viewing.customerPhone}</span></div>
+            {viewing.customerAddress && <div className="flex justify-between"><span>Address:</span> <span className="text-right max-w-[150px]">{viewing.customerAddress}</span></div>}
+          </div>
+          <div className="border-t border-b border-dashed border-black py-3 mb-6">
+            <div className="flex justify-between font-black mb-2 text-xs uppercase">
+              <span className="w-2/3">Product Description</span>
+              <span className="w-1/3 text-right">Qty</span>
+            </div>
+            {printDelivery.lines.map((l, idx) => {
+              const item = viewing.items.find(i => lineKey(i) === lineKey(l));
+              return (
+                <div key={idx} className="flex justify-between mb-1">
+                  <span className="w-2/3 truncate uppercase">{item?.name || l.productId}{item?.unitName && ` (${item.unitName})`}</span>
+                  <span className="w-1/3 text-right">x{l.quantity}</span>
+                </div>
+              );
+            })}
+          </div>
+          {printDelivery.note && <p className="mb-6">{printDelivery.note}</p>}
+          <div className="grid grid-cols-2 gap-8 mt-16">
+            <p className="pt-6 border-t border-dashed border-black text-center">Delivered by</p>
+            <p className="pt-6 border-t border-dashed border-black text-center">Received by</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SalesOrders;
@@ -1,23 +1,43 @@
 
 import React from 'react';
-import { View, User, UserRole } from '../types';
+import { View, User, Permission } from '../types';
 
 interface SidebarProps {
   currentView: View;
   setView: (v: View) => void;
   user: User;
+  roleName: string;
+  can: (permission: Permission) => boolean;
+  onLock: () => void;
   onLogout: () => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ currentView, setView, user, onLogout }) => {
-  const isAdmin = user.role === UserRole.ADMIN;
+interface MenuItem {
+  id: View;
+  label: string;
+  icon: string;
+  permission?: Permission | Permission[]; // Any one of a list is enough
+}
 
-  const menuItems = [
+const Sidebar: React.FC<SidebarProps> = ({ currentView, setView, user, roleName, can, onLock, onLogout }) => {
+  const menuItems: MenuItem[] = [
     { id: View.DASHBOARD, label: 'Dashboard', icon: 'M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6' },
     { id: View.INVENTORY, label: 'Inventory', icon: 'M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4' },
-    { id: View.POS, label: 'Point of Sale', icon: 'M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z' },
-    { id: View.REPORTS, label: 'Reports', icon: 'M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z', adminOnly: true },
+    { id: View.PURCHASE_ORDERS, label: 'Purchase Orders', icon: 'M9 17a2 2 0 11-4 0 2 2 0 014 0zM19 17a2 2 0 11-4 0 2 2 0 014 0zM13 16V6a1 1 0 00-1-1H4a1 1 0 00-1 1v10a1 1 0 001 1h1m8-1a1 1 0 01-1 1H9m4-1V8a1 1 0 011-1h2.586a1 1 0 01.707.293l3.414 3.414a1 1 0 01.293.707V16a1 1 0 01-1 1h-1m-6-1a1 1 0 001 1h1M5 17a2 2 0 104 0m-4 0a2 2 0 114 0m6 0a2 2 0 104 0m-4 0a2 2 0 114 0', permission: [Permission.INVENTORY_ADJUST, Permission.PURCHASING_MANAGE] },
+    { id: View.SUPPLIERS, label: 'Suppliers', icon: 'M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4', permission: Permission.PURCHASING_MANAGE },
+    { id: View.REORDER, label: 'Reorder', icon: 'M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15', permission: Permission.PURCHASING_MANAGE },
+    { id: View.POS, label: 'Point of Sale', icon: 'M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z', permission: Permission.SALES_CREATE },
+    { id: View.QUOTATIONS, label: 'Quotations', icon: 'M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z', permission: Permission.SALES_CREATE },
+    { id: View.ORDERS, label: 'Sales Orders', icon: 'M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01', permission: Permission.SALES_CREATE },
+    { id: View.REPORTS, label: 'Reports', icon: 'M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z', permission: Permission.REPORTS_VIEW },
     { id: View.HISTORY, label: 'Sales History', icon: 'M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z' },
+    { id: View.CUSTOMERS, label: 'Customers', icon: 'M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z', permission: Permission.CUSTOMERS_MANAGE },
+    { id: View.ACCOUNTS, label: 'Accounts', icon: 'M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z', permission: Permission.ACCOUNTS_MANAGE },
+    { id: View.PROMOTIONS, label: 'Promotions', icon: 'M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z', permission: Permission.PROMOTIONS_MANAGE },
+    { id: View.TAXES, label: 'Taxes', icon: 'M9 14l6-6m-5.5.5h.01m4.99 5h.01M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16l3.5-2 3.5 2 3.5-2 3.5 2z', permission: Permission.TAX_MANAGE },
+    { id: View.USERS, label: 'Staff', icon: 'M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z', permission: Permission.USERS_MANAGE },
+    { id: View.AUDIT, label: 'Audit Log', icon: 'M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z', permission: Permission.AUDIT_VIEW },
+    { id: View.BACKUP, label: 'Backup', icon: 'M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4', permission: Permission.BACKUP_MANAGE },
   ];
 
   return (
@@ -36,7 +56,7 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, setView, user, onLogout
       </div>
       
       <nav className="flex-1 px-3 space-y-2">
-        {menuItems.filter(item => !item.adminOnly || isAdmin).map((item) => (
+        {menuItems.filter(item => !item.permission || [item.permission].flat().some(can)).map((item) => (
           <button
             key={item.id}
             onClick={() => setView(item.id)}
@@ -70,10 +90,24 @@ const Sidebar: React.FC<SidebarProps> = ({ currentView, setView, user, onLogout
             </div>
             <div className="opacity-0 group-hover:opacity-100 transition-opacity duration-300 whitespace-nowrap min-w-0 flex-1">
               <p className="text-sm font-bold truncate text-white">{user.fullName}</p>
-              <p className="text-[10px] text-indigo-400 font-bold uppercase tracking-wider truncate">{user.role}</p>
+              <p className="text-[10px] text-indigo-400 font-bold uppercase tracking-wider truncate">{roleName}</p>
             </div>
           </div>
           
+          <button
+            onClick={onLock}
+            className="flex items-center gap-4 px-3.5 py-2 rounded-xl text-indigo-300 hover:bg-indigo-800/40 hover:text-white transition-colors"
+          >
+            <div className="shrink-0">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+              </svg>
+            </div>
+            <span className="text-xs font-black uppercase tracking-widest opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+              Lock / Switch
+            </span>
+          </button>
+
           <button 
             onClick={onLogout}
             className="flex items-center gap-4 px-3.5 py-2 rounded-xl text-rose-400 hover:bg-rose-900/20 hover:text-rose-300 transition-colors"
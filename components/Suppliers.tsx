@@ -0,0 +1,211 @@
+import React, { useMemo, useState } from 'react';
+import { PurchaseOrder, Supplier } from '../types';
+import { canReceiveOrder, purchaseOrderTotal } from '../services/purchasing';
+
+interface SuppliersProps {
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+  onSave: (supplier: Supplier) => void;
+  onDelete: (id: string) => void;
+}
+
+const Suppliers: React.FC<SuppliersProps> = ({ suppliers, purchaseOrders, onSave, onDelete }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [editing, setEditing] = useState<Supplier | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const filteredSuppliers = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    return suppliers
+      .filter(s =>
+        s.name.toLowerCase().includes(term) ||
+        (s.contactName || '').toLowerCase().includes(term) ||
+        s.phone.includes(searchTerm) ||
+        (s.email || '').toLowerCase().includes(term)
+      )
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [suppliers, searchTerm]);
+
+  const ordersFor = (id: string) => purchaseOrders.filter(o => o.supplierId === id);
+
+  const openModal = (supplier: Supplier | null) => {
+    setEditing(supplier);
+    setIsModalOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const name = (formData.get('name') as string).trim();
+    const phone = (formData.get('phone') as string).trim();
+    if (!name || !phone) {
+      alert("Name and Phone are required to save a supplier.");
+      return;
+    }
+    const clash = suppliers.find(s => s.id !== editing?.id && s.name.toLowerCase() === name.toLowerCase());
+    if (clash && !confirm(`A supplier called ${clash.name} already exists. Save anyway?`)) return;
+    const contactName = (formData.get('contactName') as string).trim();
+    const email = (formData.get('email') as string).trim();
+    const notes = (formData.get('notes') as string).trim();
+    const leadTime = formData.get('leadTimeDays') as string;
+    if (leadTime && !(parseInt(leadTime) >= 0)) {
+      alert("Lead time must be a whole number of days.");
+      return;
+    }
+    onSave({
+      id: editing?.id || `SUP-${Date.now()}`,
+      name,
+      phone,
+      address: (formData.get('address') as string).trim(),
+      ...(contactName ? { contactName } : {}),
+      ...(email ? { email } : {}),
+      ...(notes ? { notes } : {}),
+      ...(leadTime ? { leadTimeDays: parseInt(leadTime) } : {})
+    });
+    setIsModalOpen(false);
+  };
+
+  const handleDelete = (supplier: Supplier) => {
+    if (ordersFor(supplier.id).length > 0) {
+      alert(`${supplier.name} has purchase orders on file and cannot be deleted.`);
+      return;
+    }
+    if (!confirm(`Delete supplier ${supplier.name}?`)) return;
+    onDelete(supplier.id);
+  };
+
+  return (
+    <div className="space-y-6 animate-fadeIn">
+      <header className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-slate-800 tracking-tight">Suppliers</h2>
+          <p className="text-slate-500 font-medium">Who you buy stock from, with what is on order from each.</p>
+        </div>
+        <button
+          onClick={() => openModal(null)}
+          className="bg-indigo-600 text-white px-6 py-2.5 rounded-xl font-bold hover:bg-indigo-700 transition shadow-lg shadow-indigo-100"
+        >
+          + New Supplier
+        </button>
+      </header>
+
+      <div className="bg-white p-4 rounded-2xl shadow-sm border border-slate-200">
+        <input
+          type="text"
+          placeholder="Search by name, contact, phone or email..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="w-full px-4 py-2 bg-slate-50 border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-slate-50 text-slate-400 text-[10px] font-black uppercase tracking-widest">
+              <tr>
+                <th className="px-6 py-4">Supplier</th>
+                <th className="px-6 py-4">Contact</th>
+                <th className="px-6 py-4 text-right">Orders</th>
+                <th className="px-6 py-4 text-right">Open Value</th>
+                <th className="px-6 py-4 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 text-sm font-medium">
+              {filteredSuppliers.map(s => {
+                const orders = ordersFor(s.id);
+                const openValue = orders.filter(canReceiveOrder).reduce((acc, o) => acc + purchaseOrderTotal(o), 0);
+                return (
+                  <tr key={s.id} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4">
+                      <p className="font-bold text-slate-800">{s.name}</p>
+                      {s.address && <p className="text-xs text-slate-500 truncate max-w-xs">{s.address}</p>}
+                    </td>
+                    <td className="px-6 py-4">
+                      {s.contactName && <p className="font-bold text-slate-700">{s.contactName}</p>}
+                      <p className="text-xs text-slate-500">{s.phone}{s.email ? ` · ${s.email}` : ''}</p>
+                    </td>
+                    <td className="px-6 py-4 text-right font-bold text-slate-600">{orders.length}</td>
+                    <td className="px-6 py-4 text-right font-black text-slate-800">${openValue.toFixed(2)}</td>
+                    <td className="px-6 py-4 text-right">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => openModal(s)}
+                          className="bg-slate-100 text-slate-600 px-3 py-1 rounded-lg font-black text-xs uppercase hover:bg-slate-200 transition"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(s)}
+                          className="bg-rose-50 text-rose-500 px-3 py-1 rounded-lg font-black text-xs uppercase hover:bg-rose-100 transition"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+              {filteredSuppliers.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center text-slate-400 font-bold italic">No suppliers found.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-3xl shadow-2xl w-full max-w-lg overflow-hidden animate-slideUp">
+            <div className="bg-indigo-600 px-8 py-5 flex justify-between items-center text-white">
+              <h3 className="text-xl font-black uppercase tracking-tight">{editing ? 'Edit Supplier' : 'New Supplier'}</h3>
+              <button onClick={() => setIsModalOpen(false)}><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" /></svg></button>
+            </div>
+            <form onSubmit={handleSubmit} className="p-8 space-y-4">
+              <div>
+                <label className="block text-xs font-black uppercase text-slate-400 mb-1">Company Name</label>
+                <input name="name" required defaultValue={editing?.name} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none transition font-bold text-slate-800" />
+              </div>
+              <div>
+                <label className="block text-xs font-black uppercase text-slate-400 mb-1">Contact Person</label>
+                <input name="contactName" defaultValue={editing?.contactName} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none transition font-bold" />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-black uppercase text-slate-400 mb-1">Phone</label>
+                  <input name="phone" type="tel" required defaultValue={editing?.phone} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none transition font-bold" />
+                </div>
+                <div>
+                  <label className="block text-xs font-black uppercase text-slate-400 mb-1">Email</label>
+                  <input name="email" type="email" defaultValue={editing?.email} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none transition font-bold" />
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-black uppercase text-slate-400 mb-1">Address</label>
+                <textarea name="address" defaultValue={editing?.address} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none transition font-bold resize-none h-20" />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <label className="block text-xs font-black uppercase text-slate-400 mb-1">Notes</label>
+                  <input name="notes" placeholder="Payment terms, delivery days..." defaultValue={editing?.notes} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none transition font-bold" />
+                </div>
+                <div>
+                  <label className="block text-xs font-black uppercase text-slate-400 mb-1">Lead Time (days)</label>
+                  <input name="leadTimeDays" type="number" min="0" placeholder="Default" defaultValue={editing?.leadTimeDays} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none transition font-bold" />
+                </div>
+              </div>
+              <div className="flex gap-3 pt-2">
+                <button type="button" onClick={() => setIsModalOpen(false)} className="flex-1 py-3 font-bold text-slate-400 hover:text-slate-600 transition uppercase text-xs">Cancel</button>
+                <button type="submit" className="flex-1 py-3 bg-indigo-600 text-white font-bold rounded-xl hover:bg-indigo-700 transition shadow-lg shadow-indigo-100">Save Supplier</button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Suppliers;
@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { TaxClass, TaxRate, TaxSettings } from '../types';
+import { combinedPercent } from '../services/tax';
+
+interface TaxesProps {
+  settings: TaxSettings;
+  categories: string[];
+  onSave: (settings: TaxSettings) => void;
+}
+
+const Taxes: React.FC<TaxesProps> = ({ settings, categories, onSave }) => {
+  const [draft, setDraft] = useState<TaxSettings>(settings);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(settings);
+
+  const updateClass = (id: string, updates: Partial<TaxClass>) => {
+    setDraft(prev => ({ ...prev, classes: prev.classes.map(c => c.id === id ? { ...c, ...updates } : c) }));
+  };
+
+  const updateRate = (taxClass: TaxClass, rateId: string, updates: Partial<TaxRate>) => {
+    updateClass(taxClass.id, { rates: taxClass.rates.map(r => r.id === rateId ? { ...r, ...updates } : r) });
+  };
+
+  const addClass = () => {
+    const id = `TAX-${Date.now()}`;
+    setDraft(prev => ({ ...prev, classes: [...prev.classes, { id, name: '', rates: [{ id: `RATE-${Date.now()}`, name: '', percent: 0 }] }] }));
+  };
+
+  // Products still pointing at a removed class fall back to their category's class
+  const removeClass = (id: string) => {
+    setDraft(prev => ({
+      ...prev,
+      classes: prev.classes.filter(c => c.id !== id),
+      categoryClasses: Object.fromEntries(Object.entries(prev.categoryClasses).filter(([, classId]) => classId !== id))
+    }));
+  };
+
+  const setCategoryClass = (category: string, classId: string) => {
+    setDraft(prev => {
+      const { [category]: _, ...rest } = prev.categoryClasses;
+      return { ...prev, categoryClasses: classId ? { ...rest, [category]: classId } : rest };
+    });
+  };
+
+  const handleSave = () => {
+    const problems = draft.classes.flatMap(c => [
+      ...(c.name.trim() ? [] : ['Every tax class needs a name.']),
+      ...c.rates.flatMap(r => [
+        ...(r.name.trim() ? [] : [`Every rate in ${c.name || 'a class'} needs a name.`]),
+        ...(r.percent >= 0 && r.percent <= 100 ? [] : [`Rates in ${c.name || 'a class'} must be between 0 and 100%.`])
+      ])
+    ]);
+    if (problems.length > 0) {
+      alert(Array.from(new Set(problems)).join('\n'));
+      return;
+    }
+    onSave({
+      ...draft,
+      classes: draft.classes.map(c => ({ ...c, name: c.name.trim(), rates: c.rates.map(r => ({ ...r, name: r.name.trim() })) }))
+    });
+  };
+
+  return (
+    <div className="space-y-6 animate-fadeIn">
+      <header className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-slate-800 tracking-tight">Taxes</h2>
+          <p className="text-slate-500 font-medium">Tax classes, their rates and how shelf prices are quoted.</p>
+        </div>
+        <div className="flex gap-3">
+          {isDirty && (
+            <button onClick={() => setDraft(settings)} className="px-6 py-2.5 font-bold text-slate-400 hover:text-slate-600 transition uppercase text-xs">Discard</button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={!isDirty}
+            className="bg-indigo-600 text-white px-6 py-2.5 rounded-xl font-bold hover:bg-indigo-700 transition shadow-lg shadow-indigo-100 disabled:opacity-40"
+          >
+            Save Changes
+          </button>
+        </div>
+      </header>
+
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-4">
+        <h3 className="font-bold text-slate-800">Shelf Prices</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {[false, true].map(inclusive => (
+            <button
+              key={String(inclusive)}
+              onClick={() => setDraft(prev => ({ ...prev, pricesIncludeTax: inclusive }))}
+              className={`p-4 rounded-xl border-2 text-left transition ${draft.pricesIncludeTax === inclusive ? 'border-indigo-600 bg-indigo-50' : 'border-slate-100 hover:border-indigo-200'}`}
+            >
+              <p className="font-black text-sm text-slate-800 uppercase">{inclusive ? 'Include tax' : 'Exclude tax'}</p>
+              <p className="text-xs font-medium text-slate-500 mt-1">
+                {inclusive ? 'The sell price is what the customer pays; tax is backed out of it.' : 'Tax is added on top of the sell price at checkout.'}
+              </p>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="font-bold text-slate-800">Tax Classes</h3>
+          <button onClick={addClass} className="text-[10px] font-black uppercase text-indigo-600 hover:text-indigo-800">+ Add Class</button>
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {draft.classes.map(taxClass => {
+            const isDefault = taxClass.id === draft.defaultClassId;
+            return (
+              <div key={taxClass.id} className={`p-4 rounded-xl border-2 space-y-3 ${isDefault ? 'border-indigo-200 bg-indigo-50/30' : 'border-slate-100'}`}>
+                <div className="flex items-center gap-2">
+                  <input
+                    value={taxClass.name}
+                    onChange={(e) => updateClass(taxClass.id, { name: e.target.value })}
+                    placeholder="Class name"
+                    className="flex-1 px-3 py-2 border-2 border-slate-100 rounded-lg text-sm font-bold outline-none focus:border-indigo-500 bg-white"
+                  />
+                  <span className="text-xs font-black text-slate-500 shrink-0">{combinedPercent(taxClass)}%</span>
+                </div>
+                {taxClass.rates.map(rate => (
+                  <div key={rate.id} className="grid grid-cols-12 gap-2 items-center">
+                    <input
+                      value={rate.name}
+                      onChange={(e) => updateRate(taxClass, rate.id, { name: e.target.value })}
+                      placeholder="e.g. CGST"
+                      className="col-span-7 px-2 py-1.5 border-2 border-slate-100 rounded-lg text-xs font-bold outline-none focus:border-indigo-500 bg-white"
+                    />
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max="100"
+                      value={rate.percent}
+                      onChange={(e) => updateRate(taxClass, rate.id, { percent: parseFloat(e.target.value) || 0 })}
+                      className="col-span-4 px-2 py-1.5 border-2 border-slate-100 rounded-lg text-xs font-bold outline-none focus:border-indigo-500 bg-white"
+                    />
+                    <button
+                      onClick={() => updateClass(taxClass.id, { rates: taxClass.rates.filter(r => r.id !== rate.id) })}
+                      className="col-span-1 text-rose-400 hover:text-rose-600 font-black"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+                {taxClass.rates.length === 0 && (
+                  <p className="text-[10px] font-bold text-slate-400 italic">No rates: goods in this class are zero-rated.</p>
+                )}
+                <div className="flex justify-between items-center pt-1">
+                  <button
+                    onClick={() => updateClass(taxClass.id, { rates: [...taxClass.rates, { id: `RATE-${Date.now()}`, name: '', percent: 0 }] })}
+                    className="text-[10px] font-black uppercase text-indigo-500 hover:text-indigo-700"
+                  >
+                    + Add Rate
+                  </button>
+                  <div className="flex gap-3">
+                    {isDefault ? (
+                      <span className="text-[10px] font-black uppercase text-indigo-600">Store Default</span>
+                    ) : (
+                      <>
+                        <button onClick={() => setDraft(prev => ({ ...prev, defaultClassId: taxClass.id }))} className="text-[10px] font-black uppercase text-slate-400 hover:text-indigo-600">Make Default</button>
+                        <button onClick={() => removeClass(taxClass.id)} className="text-[10px] font-black uppercase text-rose-400 hover:text-rose-600">Delete</button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6 border-b">
+          <h3 className="font-bold text-slate-800">Category Classes</h3>
+          <p className="text-xs font-medium text-slate-500 mt-1">A class set on a product overrides its category.</p>
+        </div>
+        <table className="w-full text-left">
+          <tbody className="divide-y divide-slate-100 text-sm font-medium">
+            {categories.map(category => (
+              <tr key={category} className="hover:bg-slate-50 transition-colors">
+                <td className="px-6 py-3 font-bold text-slate-800">{category}</td>
+                <td className="px-6 py-3 text-right">
+                  <select
+                    value={draft.categoryClasses[category] || ''}
+                    onChange={(e) => setCategoryClass(category, e.target.value)}
+                    className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs font-bold text-slate-600 outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="">Store default</option>
+                    {draft.classes.map(c => <option key={c.id} value={c.id}>{c.name || 'Unnamed'}</option>)}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default Taxes;
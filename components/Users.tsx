@@ -0,0 +1,526 @@
+
+import React, { useState, useEffect } from 'react';
+import { UserAccount, UserRole, Role, Permission, StoreSettings, SessionEvent, CostMethod, ValuationMethod } from '../types';
+import { hashPassword, findAccount, PIN_PATTERN } from '../services/auth';
+import { listSessionEvents } from '../services/db';
+import { ADMIN_ROLE, PERMISSION_LABELS, resolveRole } from '../services/permissions';
+import { COST_METHOD_LABELS, VALUATION_METHOD_LABELS } from '../services/costing';
+
+interface UsersProps {
+  users: UserAccount[];
+  roles: Role[];
+  currentUserId: string;
+  settings: StoreSettings;
+  onSave: (account: UserAccount) => void;
+  onSaveRole: (role: Role) => void;
+  onDeleteRole: (id: string) => void;
+  onUpdateSettings: (settings: StoreSettings) => void;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+const IDLE_LOCK_OPTIONS = [0, 1, 2, 5, 10, 15, 30];
+const PARKED_CART_OPTIONS = [0, 1, 4, 8, 24, 72];
+const SESSION_EVENT_LIMIT = 50;
+
+const EVENT_STYLES: Record<SessionEvent['type'], string> = {
+  LOGIN: 'bg-emerald-50 text-emerald-600',
+  LOGOUT: 'bg-slate-100 text-slate-500',
+  LOCK: 'bg-amber-50 text-amber-600',
+  UNLOCK: 'bg-indigo-50 text-indigo-600',
+  SWITCH: 'bg-purple-50 text-purple-600'
+};
+
+const Users: React.FC<UsersProps> = ({ users, roles, currentUserId, settings, onSave, onSaveRole, onDeleteRole, onUpdateSettings }) => {
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [newRoleName, setNewRoleName] = useState('');
+  const [resetTarget, setResetTarget] = useState<UserAccount | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+  const [pinTarget, setPinTarget] = useState<UserAccount | null>(null);
+  const [newPin, setNewPin] = useState('');
+  const [sessionEvents, setSessionEvents] = useState<SessionEvent[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const activeAdmins = users.filter(u => u.active && u.role === UserRole.ADMIN).length;
+  const assignableRoles = [ADMIN_ROLE, ...roles];
+
+  useEffect(() => {
+    listSessionEvents(SESSION_EVENT_LIMIT)
+      .then(setSessionEvents)
+      .catch(err => console.error("Session log load error:", err));
+  }, []);
+
+  const closeModals = () => {
+    setIsCreateOpen(false);
+    setResetTarget(null);
+    setNewPassword('');
+    setPinTarget(null);
+    setNewPin('');
+    setError('');
+  };
+
+  const handleCreate = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const username = (formData.get('username') as string).trim();
+    const password = formData.get('password') as string;
+
+    if (findAccount(users, username)) {
+      setError('That username is already taken.');
+      return;
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      onSave({
+        id: `USER-${Date.now()}`,
+        username,
+        fullName: (formData.get('fullName') as string).trim(),
+        role: formData.get('role') as string,
+        passwordHash: await hashPassword(password),
+        active: true,
+        createdAt: new Date().toISOString()
+      });
+      closeModals();
+    } catch (err) {
+      console.error("User create error:", err);
+      setError('Could not create the account.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resetTarget) return;
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      onSave({ ...resetTarget, passwordHash: await hashPassword(newPassword) });
+      alert(`Password reset for ${resetTarget.fullName}.`);
+      closeModals();
+    } catch (err) {
+      console.error("Password reset error:", err);
+      setError('Could not reset the password.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSetPin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pinTarget) return;
+    if (!PIN_PATTERN.test(newPin)) {
+      setError('PIN must be 4 to 6 digits.');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      onSave({ ...pinTarget, pinHash: await hashPassword(newPin) });
+      alert(`PIN set for ${pinTarget.fullName}.`);
+      closeModals();
+    } catch (err) {
+      console.error("PIN set error:", err);
+      setError('Could not set the PIN.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const clearPin = () => {
+    if (!pinTarget) return;
+    onSave({ ...pinTarget, pinHash: undefined });
+    closeModals();
+  };
+
+  const toggleActive = (account: UserAccount) => {
+    if (account.id === currentUserId) return;
+    if (account.active && account.role === UserRole.ADMIN && activeAdmins <= 1) {
+      alert("At least one active administrator is required.");
+      return;
+    }
+    onSave({ ...account, active: !account.active });
+  };
+
+  const changeRole = (account: UserAccount, roleId: string) => {
+    if (account.id === currentUserId) return;
+    if (account.role === UserRole.ADMIN && account.active && activeAdmins <= 1) {
+      alert("At least one active administrator is required.");
+      return;
+    }
+    onSave({ ...account, role: roleId });
+  };
+
+  const togglePermission = (role: Role, permission: Permission) => {
+    const permissions = role.permissions.includes(permission)
+      ? role.permissions.filter(p => p !== permission)
+      : [...role.permissions, permission];
+    onSaveRole({ ...role, permissions });
+  };
+
+  const handleAddRole = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newRoleName.trim();
+    if (!name) return;
+    if (assignableRoles.some(r => r.name.toLowerCase() === name.toLowerCase())) {
+      alert("A role with that name already exists.");
+      return;
+    }
+    onSaveRole({ id: `ROLE-${Date.now()}`, name, permissions: [] });
+    setNewRoleName('');
+  };
+
+  const handleDeleteRole = (role: Role) => {
+    const holders = users.filter(u => u.role === role.id).length;
+    if (holders > 0) {
+      alert(`${holders} staff account(s) still use this role. Move them to another role first.`);
+      return;
+    }
+    onDeleteRole(role.id);
+  };
+
+  return (
+    <div className="space-y-6 animate-fadeIn">
+      <header className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-slate-800 tracking-tight">Staff Accounts</h2>
+          <p className="text-slate-500 font-medium">Create, disable and reset logins and PINs for your team.</p>
+        </div>
+        <button
+          onClick={() => { closeModals(); setIsCreateOpen(true); }}
+          className="bg-indigo-600 text-white px-6 py-2.5 rounded-xl font-bold hover:bg-indigo-700 transition shadow-lg shadow-indigo-100"
+        >
+          + Add Staff
+        </button>
+      </header>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-slate-50 text-slate-400 text-[10px] font-black uppercase tracking-widest">
+              <tr>
+                <th className="px-6 py-4">Name</th>
+                <th className="px-6 py-4">Username</th>
+                <th className="px-6 py-4">Role</th>
+                <th className="px-6 py-4">Status</th>
+                <th className="px-6 py-4 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 text-sm font-medium">
+              {users.map(u => (
+                <tr key={u.id} className={`hover:bg-slate-50 transition-colors ${u.active ? '' : 'opacity-60'}`}>
+                  <td className="px-6 py-4 font-bold text-slate-800">
+                    {u.fullName}
+                    {u.id === currentUserId && <span className="ml-2 text-[9px] font-black uppercase text-indigo-500">(You)</span>}
+                  </td>
+                  <td className="px-6 py-4 font-mono text-slate-500">{u.username}</td>
+                  <td className="px-6 py-4">
+                    {u.id === currentUserId ? (
+                      <span className="text-[10px] font-black uppercase text-slate-500 px-2 py-0.5 bg-slate-100 rounded">{resolveRole(roles, u.role)?.name || u.role}</span>
+                    ) : (
+                      <select
+                        value={u.role}
+                        onChange={(e) => changeRole(u, e.target.value)}
+                        className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-[10px] font-black uppercase text-slate-600 outline-none focus:ring-2 focus:ring-indigo-500"
+                      >
+                        {!resolveRole(roles, u.role) && <option value={u.role}>{u.role} (missing)</option>}
+                        {assignableRoles.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                      </select>
+                    )}
+                  </td>
+                  <td className="px-6 py-4">
+                    <span className={`font-bold ${u.active ? 'text-emerald-500' : 'text-rose-500'}`}>{u.active ? 'Active' : 'Disabled'}</span>
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => { closeModals(); setResetTarget(u); }}
+                        className="bg-indigo-50 text-indigo-600 px-3 py-1 rounded-lg font-black text-xs uppercase hover:bg-indigo-100 transition"
+                      >
+                        Reset Password
+                      </button>
+                      <button
+                        onClick={() => { closeModals(); setPinTarget(u); }}
+                        className="bg-slate-100 text-slate-600 px-3 py-1 rounded-lg font-black text-xs uppercase hover:bg-slate-200 transition"
+                      >
+                        {u.pinHash ? 'Change PIN' : 'Set PIN'}
+                      </button>
+                      {u.id !== currentUserId && (
+                        <button
+                          onClick={() => toggleActive(u)}
+                          className={`px-3 py-1 rounded-lg font-black text-xs uppercase transition ${u.active ? 'bg-rose-50 text-rose-600 hover:bg-rose-100' : 'bg-emerald-50 text-emerald-600 hover:bg-emerald-100'}`}
+                        >
+                          {u.active ? 'Disable' : 'Enable'}
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-6 border-b flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h3 className="font-bold text-slate-800">Roles & Permissions</h3>
+            <p className="text-xs text-slate-400 font-medium mt-1">Administrators always hold every permission.</p>
+          </div>
+          <form onSubmit={handleAddRole} className="flex gap-2">
+            <input
+              value={newRoleName}
+              onChange={(e) => setNewRoleName(e.target.value)}
+              placeholder="New role name"
+              className="px-4 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <button type="submit" className="bg-indigo-600 text-white px-4 py-2 rounded-lg font-black text-xs uppercase hover:bg-indigo-700 transition">Add Role</button>
+          </form>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="bg-slate-50 text-slate-400 text-[10px] font-black uppercase tracking-widest">
+              <tr>
+                <th className="px-6 py-4">Permission</th>
+                {assignableRoles.map(r => (
+                  <th key={r.id} className="px-4 py-4 text-center whitespace-nowrap">
+                    {r.name}
+                    {r.id !== ADMIN_ROLE.id && (
+                      <button onClick={() => handleDeleteRole(r)} className="block mx-auto mt-1 text-[9px] font-bold text-rose-400 hover:text-rose-600 normal-case tracking-normal">Delete</button>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 text-sm font-medium">
+              {Object.values(Permission).map(permission => (
+                <tr key={permission} className="hover:bg-slate-50 transition-colors">
+                  <td className="px-6 py-3">
+                    <p className="font-bold text-slate-700">{PERMISSION_LABELS[permission]}</p>
+                    <p className="text-[10px] font-mono text-slate-400">{permission}</p>
+                  </td>
+                  {assignableRoles.map(r => (
+                    <td key={r.id} className="px-4 py-3 text-center">
+                      <input
+                        type="checkbox"
+                        checked={r.permissions.includes(permission)}
+                        disabled={r.id === ADMIN_ROLE.id}
+                        onChange={() => togglePermission(r, permission)}
+                        className="w-4 h-4 rounded text-indigo-600 focus:ring-0 cursor-pointer disabled:opacity-40"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-6">
+          <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-4">
+            <div>
+              <h3 className="font-bold text-slate-800">Terminal</h3>
+              <p className="text-xs text-slate-400 font-medium mt-1">Lock the screen after inactivity. Staff unlock or switch with their PIN. Parked carts older than the limit are discarded.</p>
+            </div>
+            <div>
+              <label className="block text-xs font-black uppercase text-slate-400 mb-1">Idle Lock</label>
+              <select
+                value={settings.idleLockMinutes}
+                onChange={(e) => onUpdateSettings({ ...settings, idleLockMinutes: parseInt(e.target.value) })}
+                className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl bg-white focus:border-indigo-500 outline-none font-bold text-slate-600"
+              >
+                {IDLE_LOCK_OPTIONS.map(m => <option key={m} value={m}>{m === 0 ? 'Never' : `After ${m} min`}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-black uppercase text-slate-400 mb-1">Parked Carts Expire</label>
+              <select
+                value={settings.parkedCartHours}
+                onChange={(e) => onUpdateSettings({ ...settings, parkedCartHours: parseInt(e.target.value) })}
+                className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl bg-white focus:border-indigo-500 outline-none font-bold text-slate-600"
+              >
+                {PARKED_CART_OPTIONS.map(h => <option key={h} value={h}>{h === 0 ? 'Never' : `After ${h} hour${h === 1 ? '' : 's'}`}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-4">
+            <div>
+              <h3 className="font-bold text-slate-800">Stock Costing</h3>
+              <p className="text-xs text-slate-400 font-medium mt-1">How a restock with a known landed cost changes the product's buy price, and how sales and stock are costed in reports.</p>
+            </div>
+            <div>
+              <label className="block text-xs font-black uppercase text-slate-400 mb-1">Cost Method</label>
+              <select
+                value={settings.costing.method}
+                onChange={(e) => onUpdateSettings({ ...settings, costing: { ...settings.costing, method: e.target.value as CostMethod } })}
+                className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl bg-white focus:border-indigo-500 outline-none font-bold text-slate-600"
+              >
+                {(Object.keys(COST_METHOD_LABELS) as CostMethod[]).map(m => <option key={m} value={m}>{COST_METHOD_LABELS[m]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-black uppercase text-slate-400 mb-1">Valuation</label>
+              <select
+                value={settings.costing.valuation}
+                onChange={(e) => onUpdateSettings({ ...settings, costing: { ...settings.costing, valuation: e.target.value as ValuationMethod } })}
+                className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl bg-white focus:border-indigo-500 outline-none font-bold text-slate-600"
+              >
+                {(Object.keys(VALUATION_METHOD_LABELS) as ValuationMethod[]).map(m => <option key={m} value={m}>{VALUATION_METHOD_LABELS[m]}</option>)}
+              </select>
+            </div>
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.costing.repriceOnReceipt}
+                onChange={(e) => onUpdateSettings({ ...settings, costing: { ...settings.costing, repriceOnReceipt: e.target.checked } })}
+                className="mt-0.5 w-4 h-4 rounded text-indigo-600"
+              />
+              <span className="text-sm font-bold text-slate-600">
+                Reprice on receipt
+                <span className="block text-xs font-medium text-slate-400">Recompute the sell price from each product's margin when its buy price changes.</span>
+              </span>
+            </label>
+          </div>
+        </div>
+
+        <div className="lg:col-span-2 bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="p-6 border-b">
+            <h3 className="font-bold text-slate-800">Session Activity</h3>
+            <p className="text-xs text-slate-400 font-medium mt-1">Latest {SESSION_EVENT_LIMIT} logins, locks, unlocks and cashier switches.</p>
+          </div>
+          <div className="max-h-80 overflow-y-auto custom-scrollbar">
+            <table className="w-full text-left">
+              <tbody className="divide-y divide-slate-100 text-sm font-medium">
+                {sessionEvents.map(ev => (
+                  <tr key={ev.id}>
+                    <td className="px-6 py-3 text-xs text-slate-400 whitespace-nowrap">{new Date(ev.timestamp).toLocaleString()}</td>
+                    <td className="px-6 py-3">
+                      <span className={`text-[10px] font-black uppercase px-2 py-0.5 rounded ${EVENT_STYLES[ev.type]}`}>{ev.type}</span>
+                    </td>
+                    <td className="px-6 py-3 font-bold text-slate-700">
+                      {ev.previousUserName && <span className="text-slate-400 font-medium">{ev.previousUserName} → </span>}
+                      {ev.userName}
+                    </td>
+                    <td className="px-6 py-3 text-xs text-slate-400">{ev.reason}</td>
+                  </tr>
+                ))}
+                {sessionEvents.length === 0 && (
+                  <tr><td className="px-6 py-10 text-center text-slate-400 italic">No session activity recorded yet.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {isCreateOpen && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-3xl shadow-2xl w-full max-w-md overflow-hidden animate-slideUp">
+            <div className="bg-indigo-600 px-8 py-5 flex justify-between items-center text-white">
+              <h3 className="text-xl font-black uppercase tracking-tight">New Staff Account</h3>
+              <button onClick={closeModals}><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" /></svg></button>
+            </div>
+            <form onSubmit={handleCreate} className="p-8 space-y-4">
+              {error && <div className="bg-rose-50 border border-rose-100 text-rose-600 p-3 rounded-xl text-xs font-bold text-center">{error}</div>}
+              <div>
+                <label className="block text-xs font-black uppercase text-slate-400 mb-1">Full Name</label>
+                <input name="fullName" required className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none transition font-bold text-slate-800" />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-black uppercase text-slate-400 mb-1">Username</label>
+                  <input name="username" required className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none transition font-mono font-bold" />
+                </div>
+                <div>
+                  <label className="block text-xs font-black uppercase text-slate-400 mb-1">Role</label>
+                  <select name="role" defaultValue={UserRole.SALESPERSON} className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl bg-white focus:border-indigo-500 outline-none font-bold text-slate-600">
+                    {assignableRoles.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-black uppercase text-slate-400 mb-1">Temporary Password</label>
+                <input name="password" type="password" required className="w-full px-4 py-2.5 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none transition font-bold" />
+              </div>
+              <div className="pt-4 flex justify-end gap-3">
+                <button type="button" onClick={closeModals} className="px-6 py-3 font-bold text-slate-400 hover:text-slate-600 transition uppercase text-xs">Cancel</button>
+                <button type="submit" disabled={isSaving} className="px-10 py-3 bg-indigo-600 text-white font-black rounded-xl hover:bg-indigo-700 transition shadow-xl uppercase text-xs disabled:opacity-50">Create Account</button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {resetTarget && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-3xl shadow-2xl w-full max-w-sm overflow-hidden animate-slideUp">
+            <div className="bg-slate-900 p-6 flex justify-between items-center text-white">
+              <h3 className="font-black uppercase tracking-tight">Reset Password</h3>
+              <button onClick={closeModals}><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" /></svg></button>
+            </div>
+            <form onSubmit={handleResetPassword} className="p-6 space-y-4">
+              <p className="text-sm font-bold text-slate-600">Account: <span className="text-slate-900">{resetTarget.fullName}</span></p>
+              {error && <div className="bg-rose-50 border border-rose-100 text-rose-600 p-3 rounded-xl text-xs font-bold text-center">{error}</div>}
+              <input
+                autoFocus
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-500"
+                placeholder="New password"
+              />
+              <button type="submit" disabled={isSaving} className="w-full py-4 bg-indigo-600 text-white font-black rounded-2xl shadow-xl shadow-indigo-100 hover:bg-indigo-700 transition uppercase tracking-widest text-xs disabled:opacity-50">
+                Set New Password
+              </button>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {pinTarget && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-3xl shadow-2xl w-full max-w-sm overflow-hidden animate-slideUp">
+            <div className="bg-slate-900 p-6 flex justify-between items-center text-white">
+              <h3 className="font-black uppercase tracking-tight">Lock Screen PIN</h3>
+              <button onClick={closeModals}><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" /></svg></button>
+            </div>
+            <form onSubmit={handleSetPin} className="p-6 space-y-4">
+              <p className="text-sm font-bold text-slate-600">Account: <span className="text-slate-900">{pinTarget.fullName}</span></p>
+              {error && <div className="bg-rose-50 border border-rose-100 text-rose-600 p-3 rounded-xl text-xs font-bold text-center">{error}</div>}
+              <input
+                autoFocus
+                type="password"
+                inputMode="numeric"
+                value={newPin}
+                onChange={(e) => setNewPin(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                className="w-full px-4 py-3 border-2 border-slate-100 rounded-xl font-bold outline-none focus:border-indigo-500 text-center tracking-[0.5em]"
+                placeholder="4-6 digits"
+              />
+              <button type="submit" disabled={isSaving} className="w-full py-4 bg-indigo-600 text-white font-black rounded-2xl shadow-xl shadow-indigo-100 hover:bg-indigo-700 transition uppercase tracking-widest text-xs disabled:opacity-50">
+                Save PIN
+              </button>
+              {pinTarget.pinHash && (
+                <button type="button" onClick={clearPin} className="w-full text-[10px] font-black uppercase tracking-widest text-rose-400 hover:text-rose-600">
+                  Remove PIN
+                </button>
+              )}
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Users;
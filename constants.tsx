@@ -1,7 +1,7 @@
 
 import React from 'react';
 
-export const TAX_RATE = 0.05; // 5%
+export const TAX_RATE = 0.05; // Standard class rate on a new store; change rates under Taxes
 
 export const APP_ICONS = {
   DASHBOARD: (
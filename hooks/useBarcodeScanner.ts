@@ -0,0 +1,52 @@
+import { useEffect, useRef } from 'react';
+
+// Scanners "type" a whole code within a few ms per key; people cannot
+const MAX_KEY_GAP_MS = 50;
+const MIN_CODE_LENGTH = 4;
+
+const isEditable = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  if (!el) return false;
+  if (el.dataset?.barcodeInput !== undefined) return false;
+  return el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName);
+};
+
+/**
+ * Listens for keyboard-wedge scanners anywhere on the page: a fast burst of
+ * characters ending in Enter is reported as one code. Keys typed into other
+ * form fields are left alone; inputs marked `data-barcode-input` are still
+ * watched so a focused search box does not swallow scans.
+ */
+export const useBarcodeScanner = (onScan: (code: string) => void, enabled = true) => {
+  const handler = useRef(onScan);
+  handler.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let buffer = '';
+    let lastKeyAt = 0;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.altKey || e.metaKey || isEditable(e.target)) {
+        buffer = '';
+        return;
+      }
+      const now = performance.now();
+      if (now - lastKeyAt > MAX_KEY_GAP_MS) buffer = '';
+      lastKeyAt = now;
+
+      if (e.key === 'Enter') {
+        if (buffer.length >= MIN_CODE_LENGTH) {
+          e.preventDefault();
+          handler.current(buffer);
+        }
+        buffer = '';
+      } else if (e.key.length === 1) {
+        buffer += e.key;
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [enabled]);
+};
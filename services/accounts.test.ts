@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { AccountEntry, Customer, Sale, SaleItem } from '../types';
+import { accountBalance, ageBalance, buildStatement, checkCredit, returnCredit } from './accounts';
+
+const entry = (id: string, timestamp: string, type: AccountEntry['type'], amount: number, saleId?: string): AccountEntry => ({
+  id, customerId: 'C1', timestamp, type, amount, ...(saleId ? { saleId } : {})
+});
+
+const item = (productId: string, quantity: number, total: number, tax: number): SaleItem => ({
+  productId, name: productId, quantity, price: total / quantity, total, returnedQuantity: 0, unitFactor: 1, discount: 0, tax
+});
+
+const sale: Sale = {
+  id: 'S2', timestamp: '2026-10-10T10:00:00Z', customerId: 'C1',
+  items: [item('A', 2, 20, 2), item('B', 1, 28, 0)],
+  grossSubtotal: 48, discountTotal: 0, discounts: [], subtotal: 48, tax: 2, total: 50,
+  pricesIncludeTax: false, taxLines: [], payments: [{ id: 'PAY-1', method: 'On Account', amount: 50, customerId: 'C1' }], change: 0
+};
+
+const ledger = [
+  entry('1', '2026-08-01T10:00:00Z', 'CHARGE', 100, 'S1'),
+  entry('2', '2026-10-10T10:00:00Z', 'CHARGE', 50, 'S2')
+];
+
+const asOf = new Date('2026-10-19T12:00:00Z');
+
+describe('returnCredit', () => {
+  it('credits the charged share of the returned goods, tax included', () => {
+    expect(returnCredit(sale, [{ productId: 'A', quantity: 1 }], ledger)).toBe(11);
+  });
+
+  it('never credits more than is left of the charge', () => {
+    const credited = [...ledger, entry('3', '2026-10-15T10:00:00Z', 'CREDIT', 11, 'S2')];
+    expect(returnCredit(sale, [{ productId: 'A', quantity: 1 }, { productId: 'B', quantity: 1 }], credited)).toBe(39);
+  });
+
+  it('credits only the part of a split payment that went on account', () => {
+    const half = ledger.map(e => e.saleId === 'S2' ? { ...e, amount: 25 } : e);
+    expect(returnCredit(sale, [{ productId: 'B', quantity: 1 }], half)).toBe(14);
+  });
+
+  it('credits nothing for a sale that was not charged to an account', () => {
+    expect(returnCredit({ ...sale, id: 'S9' }, [{ productId: 'A', quantity: 2 }], ledger)).toBe(0);
+  });
+});
+
+describe('ageBalance', () => {
+  it('settles the oldest charges with payments first', () => {
+    const paid = [...ledger, entry('3', '2026-10-12T10:00:00Z', 'PAYMENT', 60)];
+    expect(ageBalance(paid, 'C1', asOf)).toEqual({ customerId: 'C1', buckets: [50, 0, 40], total: 90 });
+  });
+
+  it('takes a return credit off the charge for that sale before older ones', () => {
+    const credited = [...ledger, entry('3', '2026-10-15T10:00:00Z', 'CREDIT', 11, 'S2')];
+    expect(ageBalance(credited, 'C1', asOf)).toEqual({ customerId: 'C1', buckets: [39, 0, 100], total: 139 });
+    expect(accountBalance(credited, 'C1')).toBe(139);
+  });
+});
+
+describe('buildStatement', () => {
+  it('folds earlier entries into the opening balance and counts credits against it', () => {
+    const credited = [...ledger, entry('3', '2026-10-15T10:00:00Z', 'CREDIT', 11, 'S2')];
+    const statement = buildStatement(credited, 'C1', '2026-10-01', '2026-10-31');
+    expect(statement.openingBalance).toBe(100);
+    expect(statement.lines.map(l => l.balance)).toEqual([150, 139]);
+    expect(statement.closingBalance).toBe(139);
+  });
+});
+
+describe('checkCredit', () => {
+  const customer: Customer = { id: 'C1', name: 'Asha', address: '', phone: '0123', creditLimit: 100 };
+
+  it('passes charges within the limit and customers without one', () => {
+    expect(checkCredit(customer, 60, 40)).toEqual({ status: 'OK' });
+    expect(checkCredit({ ...customer, creditLimit: undefined }, 1000, 1000)).toEqual({ status: 'OK' });
+  });
+
+  it('blocks or warns over the limit according to the customer policy', () => {
+    expect(checkCredit(customer, 60, 50)).toEqual({ status: 'BLOCK', limit: 100, balance: 60, over: 10 });
+    expect(checkCredit({ ...customer, creditPolicy: 'WARN' }, 60, 50).status).toBe('WARN');
+  });
+});
@@ -0,0 +1,139 @@
+import { AccountEntry, Customer, ReturnLine, Sale } from '../types';
+import { roundMoney } from './pricing';
+import { sameLine } from './units';
+
+export interface AgingBucket {
+  label: string;
+  minDays: number;
+  maxDays?: number; // Open-ended when absent
+}
+
+export const AGING_BUCKETS: AgingBucket[] = [
+  { label: '0-30 days', minDays: 0, maxDays: 30 },
+  { label: '31-60 days', minDays: 31, maxDays: 60 },
+  { label: '60+ days', minDays: 61 }
+];
+
+export interface AgedBalance {
+  customerId: string;
+  buckets: number[]; // Same order as AGING_BUCKETS
+  total: number;
+}
+
+export interface StatementLine extends AccountEntry {
+  balance: number; // Owed after this entry
+}
+
+export interface Statement {
+  openingBalance: number;
+  lines: StatementLine[];
+  closingBalance: number;
+}
+
+export type CreditCheck =
+  | { status: 'OK' }
+  | { status: 'WARN' | 'BLOCK'; limit: number; balance: number; over: number };
+
+const signed = (entry: AccountEntry) => entry.type === 'CHARGE' ? entry.amount : -entry.amount;
+
+const byTime = (a: AccountEntry, b: AccountEntry) => a.timestamp.localeCompare(b.timestamp);
+
+export const entriesFor = (entries: AccountEntry[], customerId: string) =>
+  entries.filter(e => e.customerId === customerId).sort(byTime);
+
+// Positive when the customer owes the store; negative when they have paid ahead
+export const accountBalance = (entries: AccountEntry[], customerId: string) =>
+  roundMoney(entries.reduce((acc, e) => e.customerId === customerId ? acc + signed(e) : acc, 0));
+
+/**
+ * Checks a new charge against the customer's limit. Customers without a
+ * limit can always buy on account; over the limit the customer's policy
+ * decides whether checkout stops or only warns.
+ */
+export const checkCredit = (customer: Customer, balance: number, charge: number): CreditCheck => {
+  if (customer.creditLimit === undefined) return { status: 'OK' };
+  const over = roundMoney(balance + charge - customer.creditLimit);
+  if (over <= 0) return { status: 'OK' };
+  return { status: customer.creditPolicy === 'WARN' ? 'WARN' : 'BLOCK', limit: customer.creditLimit, balance, over };
+};
+
+export const describeCreditCheck = (customer: Customer, check: CreditCheck) =>
+  check.status === 'OK'
+    ? ''
+    : `${customer.name} owes $${check.balance.toFixed(2)} against a $${check.limit.toFixed(2)} limit. This charge goes $${check.over.toFixed(2)} over.`;
+
+/**
+ * Return credits first clear the charge of the sale the goods came back
+ * from. Payments and anything left over settle the oldest charges, so
+ * whatever is still owed sits on the newest charges. Each unpaid remainder
+ * is aged from its sale date.
+ */
+export const ageBalance = (entries: AccountEntry[], customerId: string, asOf: Date = new Date()): AgedBalance => {
+  const ledger = entriesFor(entries, customerId);
+  const charges = ledger.filter(e => e.type === 'CHARGE').map(entry => ({ entry, open: entry.amount }));
+  let credit = ledger.filter(e => e.type === 'PAYMENT').reduce((acc, e) => acc + e.amount, 0);
+  ledger.filter(e => e.type === 'CREDIT').forEach(entry => {
+    let left = entry.amount;
+    charges.filter(c => entry.saleId && c.entry.saleId === entry.saleId).forEach(c => {
+      const applied = Math.min(c.open, left);
+      c.open -= applied;
+      left -= applied;
+    });
+    credit += left;
+  });
+  const buckets = AGING_BUCKETS.map(() => 0);
+  charges.forEach(({ entry: charge, open: owed }) => {
+    const settled = Math.min(credit, owed);
+    credit -= settled;
+    const open = owed - settled;
+    if (open <= 0) return;
+    const days = Math.floor((asOf.getTime() - new Date(charge.timestamp).getTime()) / 86400000);
+    const idx = AGING_BUCKETS.findIndex(b => days >= b.minDays && (b.maxDays === undefined || days <= b.maxDays));
+    buckets[idx === -1 ? 0 : idx] += open;
+  });
+  const rounded = buckets.map(roundMoney);
+  return { customerId, buckets: rounded, total: roundMoney(rounded.reduce((acc, v) => acc + v, 0)) };
+};
+
+/**
+ * Ledger lines between two local dates (inclusive, YYYY-MM-DD) with a running
+ * balance. Everything earlier is folded into the opening balance.
+ */
+export const buildStatement = (entries: AccountEntry[], customerId: string, from: string, to: string): Statement => {
+  const start = new Date(`${from}T00:00:00`).getTime();
+  const end = new Date(`${to}T23:59:59.999`).getTime();
+  const ledger = entriesFor(entries, customerId);
+  const openingBalance = roundMoney(ledger
+    .filter(e => new Date(e.timestamp).getTime() < start)
+    .reduce((acc, e) => acc + signed(e), 0));
+  let running = openingBalance;
+  const lines = ledger
+    .filter(e => {
+      const time = new Date(e.timestamp).getTime();
+      return time >= start && time <= end;
+    })
+    .map(e => {
+      running = roundMoney(running + signed(e));
+      return { ...e, balance: running };
+    });
+  return { openingBalance, lines, closingBalance: running };
+};
+
+/**
+ * What goes back on account when goods are returned from a sale charged to
+ * it: the charged amount in proportion to the value of the returned lines,
+ * less anything an earlier return already credited.
+ */
+export const returnCredit = (sale: Sale, returns: ReturnLine[], entries: AccountEntry[]) => {
+  const charged = entries.filter(e => e.type === 'CHARGE' && e.saleId === sale.id).reduce((acc, e) => acc + e.amount, 0);
+  const credited = entries.filter(e => e.type === 'CREDIT' && e.saleId === sale.id).reduce((acc, e) => acc + e.amount, 0);
+  // Lines are compared at what the customer paid for them, tax included
+  const lineValue = (item: Sale['items'][number]) => item.total + (sale.pricesIncludeTax ? 0 : item.tax);
+  const saleValue = sale.items.reduce((acc, item) => acc + lineValue(item), 0);
+  if (charged <= 0 || saleValue <= 0) return 0;
+  const returnedValue = returns.reduce((acc, ret) => {
+    const line = sale.items.find(item => sameLine(item, ret));
+    return line && line.quantity > 0 ? acc + lineValue(line) * ret.quantity / line.quantity : acc;
+  }, 0);
+  return roundMoney(Math.max(Math.min(charged * returnedValue / saleValue, charged - credited), 0));
+};
@@ -0,0 +1,113 @@
+import { AuditEntry, AuditAction, AuditEntityType, User } from '../types';
+import { getLastAuditEntry, addAuditEntry, listAuditEntries } from './db';
+
+const GENESIS_HASH = '0'.repeat(64);
+
+// Secrets never enter the log; a change to them still shows up as a different marker
+const REDACTED_FIELDS = ['passwordHash', 'pinHash'];
+
+export interface AuditRecord {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  summary?: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  count: number;
+  brokenAt?: number; // seq of the first entry whose hash does not match
+}
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// JSON with sorted keys, so the same entry always hashes the same way
+const canonical = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+// Credentials never reach the log, not even in part; the marker only says whether they changed since `before`
+const redact = (value: unknown, before?: unknown): unknown => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+  const copy: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+  const previous = before && typeof before === 'object' && !Array.isArray(before) ? before as Record<string, unknown> : undefined;
+  REDACTED_FIELDS.forEach(field => {
+    if (typeof copy[field] !== 'string') return;
+    copy[field] = previous && previous[field] !== copy[field] ? '[redacted, changed]' : '[redacted]';
+  });
+  return copy;
+};
+
+const hashEntry = ({ hash, ...rest }: AuditEntry) => sha256(`${rest.prevHash}\n${canonical(rest)}`);
+
+// Appends run one at a time so each entry links to the one written before it
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Appends an entry to the chain. Failures are logged rather than thrown so
+ * a storage problem never blocks the change being audited.
+ */
+export const recordAudit = (user: User, record: AuditRecord): Promise<void> => {
+  const next = queue.then(async () => {
+    const last = await getLastAuditEntry();
+    const entry: AuditEntry = {
+      seq: (last?.seq || 0) + 1,
+      timestamp: new Date().toISOString(),
+      userId: user.id,
+      userName: user.fullName,
+      ...record,
+      before: redact(record.before),
+      after: redact(record.after, record.before),
+      prevHash: last?.hash || GENESIS_HASH,
+      hash: ''
+    };
+    // Round-trip through JSON so the hash covers exactly what IndexedDB and exports hold
+    const stored: AuditEntry = JSON.parse(JSON.stringify(entry));
+    stored.hash = await hashEntry(stored);
+    await addAuditEntry(stored);
+  }).catch(err => console.error("Audit log error:", err));
+  queue = next;
+  return next;
+};
+
+/**
+ * Recomputes every hash in order. Editing, deleting or reordering any
+ * stored entry breaks the link at that point.
+ */
+export const verifyChain = async (entries: AuditEntry[]): Promise<ChainVerification> => {
+  let prevHash = GENESIS_HASH;
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.seq !== i + 1 || entry.prevHash !== prevHash || await hashEntry(entry) !== entry.hash) {
+      return { valid: false, count: entries.length, brokenAt: entry.seq };
+    }
+    prevHash = entry.hash;
+  }
+  return { valid: true, count: entries.length };
+};
+
+export const loadAuditLog = async () => {
+  const entries = await listAuditEntries();
+  return { entries, verification: await verifyChain(entries) };
+};
+
+// Field-level differences between two snapshots, for display
+export const changedFields = (before: unknown, after: unknown): string[] => {
+  if (!before || !after || typeof before !== 'object' || typeof after !== 'object') return [];
+  const a = before as Record<string, unknown>;
+  const b = after as Record<string, unknown>;
+  return Array.from(new Set([...Object.keys(a), ...Object.keys(b)]))
+    .filter(key => canonical(a[key]) !== canonical(b[key]));
+};
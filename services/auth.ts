@@ -0,0 +1,170 @@
+import { User, UserAccount, Session, SessionEvent, SessionEventType } from '../types';
+import { getSession, putSession, deleteSession, deleteUserSessions, appendSessionEvent } from './db';
+
+const PBKDF2_ITERATIONS = 150000;
+const SESSION_KEY = 'sarkartrade_session';
+const REMEMBERED_SESSION_DAYS = 30;
+const BROWSER_SESSION_HOURS = 12;
+export const PIN_PATTERN = /^\d{4,6}$/;
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/.{2}/g) || []).map(b => parseInt(b, 16)));
+
+const randomHex = (byteLength: number) => toHex(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+const derive = async (password: string, salt: Uint8Array, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return toHex(new Uint8Array(bits));
+};
+
+/**
+ * Hashes a password with a fresh salt. The iteration count travels with the
+ * hash so it can be raised later without invalidating existing accounts.
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomHex(16);
+  const hash = await derive(password, fromHex(salt), PBKDF2_ITERATIONS);
+  return `pbkdf2$${PBKDF2_ITERATIONS}$${salt}$${hash}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, iterations, salt, expected] = stored.split('$');
+  if (scheme !== 'pbkdf2' || !salt || !expected) return false;
+  const actual = await derive(password, fromHex(salt), parseInt(iterations));
+  // Compare every character so timing does not reveal the matching prefix
+  let diff = actual.length ^ expected.length;
+  for (let i = 0; i < actual.length; i++) {
+    diff |= actual.charCodeAt(i) ^ (expected.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+};
+
+export const toSessionUser = ({ id, username, role, fullName }: UserAccount): User => ({ id, username, role, fullName });
+
+export const findAccount = (users: UserAccount[], username: string) =>
+  users.find(u => u.username.toLowerCase() === username.trim().toLowerCase());
+
+export const authenticate = async (users: UserAccount[], username: string, password: string): Promise<UserAccount> => {
+  const account = findAccount(users, username);
+  // Hash even for unknown users so response time does not reveal valid usernames
+  const valid = await verifyPassword(password, account?.passwordHash || `pbkdf2$${PBKDF2_ITERATIONS}$00$00`);
+  if (!account || !valid) {
+    throw new AuthError('Invalid username or password.');
+  }
+  if (!account.active) {
+    throw new AuthError('This account has been disabled. Contact your administrator.');
+  }
+  return account;
+};
+
+/**
+ * Checks the PIN (or, for accounts without one, the password) of the person
+ * at the lock screen. Any active account may unlock; a different account
+ * than the one that locked becomes a cashier switch.
+ */
+export const unlockAs = async (account: UserAccount, secret: string, usePassword: boolean): Promise<UserAccount> => {
+  const stored = usePassword ? account.passwordHash : account.pinHash;
+  if (!stored) {
+    throw new AuthError('No PIN is set for this account. Use the password instead.');
+  }
+  if (!(await verifyPassword(secret, stored))) {
+    throw new AuthError(usePassword ? 'Incorrect password.' : 'Incorrect PIN.');
+  }
+  if (!account.active) {
+    throw new AuthError('This account has been disabled. Contact your administrator.');
+  }
+  return account;
+};
+
+/**
+ * Starts a session and stores only its random token in the browser. A
+ * remembered session survives restarts; otherwise it ends with the tab.
+ */
+export const startSession = async (userId: string, remember: boolean) => {
+  const now = new Date();
+  const expires = new Date(now);
+  if (remember) expires.setDate(expires.getDate() + REMEMBERED_SESSION_DAYS);
+  else expires.setHours(expires.getHours() + BROWSER_SESSION_HOURS);
+
+  const session: Session = {
+    token: randomHex(32),
+    userId,
+    createdAt: now.toISOString(),
+    expiresAt: expires.toISOString()
+  };
+  await putSession(session);
+  (remember ? localStorage : sessionStorage).setItem(SESSION_KEY, session.token);
+};
+
+const readToken = () => sessionStorage.getItem(SESSION_KEY) || localStorage.getItem(SESSION_KEY);
+
+/**
+ * Resolves the stored token back to an active account, discarding it when
+ * the session has expired or the account was disabled meanwhile.
+ */
+export const restoreSession = async (users: UserAccount[]): Promise<{ account: UserAccount; locked: boolean } | null> => {
+  // Earlier builds kept the plaintext password and the whole user object here
+  localStorage.removeItem('sarkartrade_saved_creds');
+  localStorage.removeItem('sarkartrade_user');
+
+  const token = readToken();
+  if (!token) return null;
+
+  const session = await getSession(token);
+  const account = session && users.find(u => u.id === session.userId);
+  if (!session || !account || !account.active || new Date(session.expiresAt) < new Date()) {
+    await endSession();
+    return null;
+  }
+  // A reload must not skip a lock screen that was showing
+  return { account, locked: !!session.lockedAt };
+};
+
+// False when the session is gone, i.e. it was revoked while this tab was open
+const updateSession = async (changes: Partial<Session>) => {
+  const token = readToken();
+  const session = token && await getSession(token);
+  if (!session) return false;
+  await putSession({ ...session, ...changes });
+  return true;
+};
+
+export const setSessionLocked = (locked: boolean) =>
+  updateSession({ lockedAt: locked ? new Date().toISOString() : undefined });
+
+// Hands the running session to another cashier without a full login
+export const switchSessionUser = (userId: string) => updateSession({ userId, lockedAt: undefined });
+
+/**
+ * Ends every stored session of an account once it is disabled or its
+ * password or PIN changes. This tab's own session is kept when `keepCurrent`
+ * so staff who change their own credentials stay signed in here.
+ */
+export const revokeSessions = (userId: string, keepCurrent: boolean) =>
+  deleteUserSessions(userId, keepCurrent ? readToken() : null);
+
+export const logSessionEvent = (type: SessionEventType, user: User, details: Partial<SessionEvent> = {}) =>
+  appendSessionEvent({
+    id: `SES-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+    timestamp: new Date().toISOString(),
+    type,
+    userId: user.id,
+    userName: user.fullName,
+    ...details
+  }).catch(err => console.error("Session log error:", err));
+
+export const endSession = async () => {
+  const token = readToken();
+  sessionStorage.removeItem(SESSION_KEY);
+  localStorage.removeItem(SESSION_KEY);
+  if (token) await deleteSession(token);
+};
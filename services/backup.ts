@@ -0,0 +1,185 @@
+import { Collections, StoreName, STORE_NAMES, recordKey } from './db';
+import { currentVersion, upgradeRecord } from './migrations';
+import { validateRecord } from './validation';
+import { linkSalesByPhone } from './customers';
+
+const BACKUP_FORMAT = 'sarkartrade-backup';
+const BACKUP_FORMAT_VERSION = 1;
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  createdAt: string;
+  createdBy?: string;
+  // Schema version of each collection, so older backups can be migrated on restore
+  schemaVersions: Record<StoreName, number>;
+  // SHA-256 of the serialized schemaVersions and data
+  checksum: string;
+  data: Collections;
+}
+
+export interface ParsedBackup {
+  createdAt: string;
+  createdBy?: string;
+  data: Collections;
+  // Collections added to the app after this backup was made; left as-is on restore
+  missing: StoreName[];
+}
+
+export interface CollectionDiff {
+  incoming: number;
+  added: number;
+  changed: number;
+  unchanged: number;
+  // Present on this device but not in the backup; removed by a replace restore
+  localOnly: number;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export class BackupError extends Error {
+  constructor(message: string, public details: string[] = []) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const createBackup = async (data: Collections, createdBy?: string): Promise<BackupFile> => {
+  const schemaVersions = Object.fromEntries(STORE_NAMES.map(store => [store, currentVersion(store)])) as Record<StoreName, number>;
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    createdBy,
+    schemaVersions,
+    checksum: await sha256(JSON.stringify({ schemaVersions, data })),
+    data
+  };
+};
+
+/**
+ * Verifies, migrates and validates a backup file. Throws a BackupError with
+ * the individual problems when the file cannot be restored as-is.
+ */
+export const parseBackup = async (text: string): Promise<ParsedBackup> => {
+  let file: BackupFile;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new BackupError('The file is not valid JSON.');
+  }
+
+  if (file?.format !== BACKUP_FORMAT) {
+    throw new BackupError('This is not a Sarkar Trade backup file.');
+  }
+  if (file.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new BackupError('This backup was made by a newer version of the app.');
+  }
+  const checksum = await sha256(JSON.stringify({ schemaVersions: file.schemaVersions, data: file.data }));
+  if (checksum !== file.checksum) {
+    throw new BackupError('Checksum mismatch. The file is corrupted or was edited after export.');
+  }
+
+  const errors: string[] = [];
+  const missing: StoreName[] = [];
+  const data = {} as Record<StoreName, unknown[]>;
+  STORE_NAMES.forEach(store => {
+    const records = file.data?.[store];
+    if (records === undefined && file.schemaVersions?.[store] === undefined) {
+      missing.push(store);
+      data[store] = [];
+      return;
+    }
+    if (!Array.isArray(records)) {
+      errors.push(`${store} is not a list`);
+      return;
+    }
+    const version = file.schemaVersions?.[store] ?? 1;
+    data[store] = records.map((record, idx) => {
+      const path = `${store}[${idx}]`;
+      try {
+        const upgraded = upgradeRecord(store, { version, data: record });
+        errors.push(...validateRecord(store, upgraded, path));
+        return upgraded;
+      } catch (err) {
+        errors.push(`${path} could not be migrated: ${err instanceof Error ? err.message : String(err)}`);
+        return record;
+      }
+    });
+  });
+
+  if (errors.length > 0) {
+    throw new BackupError(`The backup contains ${errors.length} invalid record(s).`, errors);
+  }
+
+  const collections = data as unknown as Collections;
+  // Backups made before sales carried a customerId get the same phone-number backfill as local data
+  collections.sales = linkSalesByPhone(collections.sales, collections.customers);
+
+  return {
+    createdAt: file.createdAt,
+    createdBy: file.createdBy,
+    data: collections,
+    missing
+  };
+};
+
+export const diffBackup = (current: Collections, { data: incoming, missing }: ParsedBackup): Record<StoreName, CollectionDiff> => {
+  const result = {} as Record<StoreName, CollectionDiff>;
+  STORE_NAMES.forEach(store => {
+    if (missing.includes(store)) {
+      const count = current[store].length;
+      result[store] = { incoming: 0, added: 0, changed: 0, unchanged: count, localOnly: 0 };
+      return;
+    }
+    const existing = new Map((current[store] as unknown[]).map(r => [recordKey(store, r), JSON.stringify(r)]));
+    const incomingKeys = new Set<string>();
+    const diff: CollectionDiff = { incoming: incoming[store].length, added: 0, changed: 0, unchanged: 0, localOnly: 0 };
+
+    (incoming[store] as unknown[]).forEach(record => {
+      const key = recordKey(store, record);
+      incomingKeys.add(key);
+      const before = existing.get(key);
+      if (before === undefined) diff.added++;
+      else if (before === JSON.stringify(record)) diff.unchanged++;
+      else diff.changed++;
+    });
+    existing.forEach((_, key) => {
+      if (!incomingKeys.has(key)) diff.localOnly++;
+    });
+
+    result[store] = diff;
+  });
+  return result;
+};
+
+/**
+ * Merge keeps records that only exist on this device and lets the backup win
+ * on conflicts; replace makes the device an exact copy of the backup.
+ */
+export const applyBackup = (current: Collections, { data: incoming, missing }: ParsedBackup, mode: RestoreMode): Collections => {
+  const merged = {} as Record<StoreName, unknown[]>;
+  STORE_NAMES.forEach(store => {
+    if (missing.includes(store)) {
+      merged[store] = current[store];
+      return;
+    }
+    if (mode === 'replace') {
+      merged[store] = [...incoming[store]];
+      return;
+    }
+    const byKey = new Map((current[store] as unknown[]).map(r => [recordKey(store, r), r]));
+    (incoming[store] as unknown[]).forEach(r => byKey.set(recordKey(store, r), r));
+    merged[store] = Array.from(byKey.values());
+  });
+
+  const result = merged as unknown as Collections;
+  result.sales.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  result.categories.sort();
+  return result;
+};
@@ -0,0 +1,85 @@
+import type { DecodeHintType } from '@zxing/library';
+import { Product, ProductUnit } from '../types';
+
+// Minimal typing for the Shape Detection API, which TypeScript's DOM lib does not ship yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: CanvasImageSource): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+const RETAIL_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e', 'code_128', 'code_39', 'qr_code'];
+
+export type FrameDecoder = (video: HTMLVideoElement) => Promise<string | null>;
+
+export interface CodeMatch {
+  product: Product;
+  unit?: ProductUnit; // Set when the code belongs to a pack size
+}
+
+export const findByCode = (products: Product[], code: string): CodeMatch | undefined => {
+  const needle = code.trim().toLowerCase();
+  if (!needle) return undefined;
+  for (const product of products) {
+    if (product.barcode?.toLowerCase() === needle) return { product };
+    const unit = product.units.find(u => u.barcode?.toLowerCase() === needle);
+    if (unit) return { product, unit };
+  }
+  const bySku = products.find(p => p.sku.toLowerCase() === needle);
+  return bySku && { product: bySku };
+};
+
+const nativeDecoder = async (): Promise<FrameDecoder | null> => {
+  const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  if (!Detector) return null;
+  const supported = await Detector.getSupportedFormats();
+  const formats = RETAIL_FORMATS.filter(f => supported.includes(f));
+  if (formats.length === 0) return null;
+  const detector = new Detector({ formats });
+  return async (video) => {
+    const [first] = await detector.detect(video);
+    return first?.rawValue || null;
+  };
+};
+
+// ZXing is only fetched on browsers without BarcodeDetector (Firefox, Safari)
+const fallbackDecoder = async (): Promise<FrameDecoder> => {
+  const { MultiFormatReader, BinaryBitmap, HybridBinarizer, HTMLCanvasElementLuminanceSource, DecodeHintType, BarcodeFormat } = await import('@zxing/library');
+  const reader = new MultiFormatReader();
+  reader.setHints(new Map<DecodeHintType, unknown>([
+    [DecodeHintType.POSSIBLE_FORMATS, [
+      BarcodeFormat.EAN_13, BarcodeFormat.EAN_8, BarcodeFormat.UPC_A, BarcodeFormat.UPC_E,
+      BarcodeFormat.CODE_128, BarcodeFormat.CODE_39, BarcodeFormat.QR_CODE
+    ]],
+    [DecodeHintType.TRY_HARDER, true]
+  ]));
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  return async (video) => {
+    if (!context || video.videoWidth === 0) return null;
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    context.drawImage(video, 0, 0);
+    try {
+      const bitmap = new BinaryBitmap(new HybridBinarizer(new HTMLCanvasElementLuminanceSource(canvas)));
+      return reader.decode(bitmap).getText();
+    } catch {
+      // Most frames contain no readable code; ZXing reports that by throwing
+      return null;
+    }
+  };
+};
+
+/**
+ * Picks the camera decoder for this browser: the built-in BarcodeDetector
+ * where available, otherwise the bundled ZXing decoder.
+ */
+export const createFrameDecoder = async (): Promise<FrameDecoder> =>
+  (await nativeDecoder().catch(() => null)) || fallbackDecoder();
@@ -0,0 +1,47 @@
+import { ParkedCart, Product, SaleItem } from '../types';
+import { baseUnitsInCart, createSaleItem } from './units';
+import { availableStock } from './salesOrders';
+
+export interface ResumedItems {
+  items: SaleItem[];
+  // One line per item that was dropped, cut back or repriced
+  changes: string[];
+}
+
+// Expiry follows the current setting, so changing it applies to carts already parked
+export const cartExpiresAt = (cart: ParkedCart, hours: number) =>
+  hours > 0 ? new Date(new Date(cart.parkedAt).getTime() + hours * 3600000) : undefined;
+
+export const isCartExpired = (cart: ParkedCart, hours: number, at = new Date()) => {
+  const expiresAt = cartExpiresAt(cart, hours);
+  return !!expiresAt && expiresAt <= at;
+};
+
+/**
+ * Rebuilds saved cart lines against the catalogue as it is now. Lines for
+ * products no longer on sale are dropped, quantities are cut back to the
+ * stock not reserved for sales orders and prices are refreshed. Manual line discounts are kept.
+ */
+export const refreshCartItems = (items: SaleItem[], products: Product[], reserved: Record<string, number> = {}): ResumedItems => {
+  const changes: string[] = [];
+  const refreshed = items.reduce<SaleItem[]>((kept, item) => {
+    const product = products.find(p => p.id === item.productId);
+    const unit = item.unitId ? product?.units.find(u => u.id === item.unitId) : undefined;
+    if (!product || (item.unitId && !unit)) {
+      changes.push(`${item.name}${item.unitName ? ` (${item.unitName})` : ''} is no longer for sale.`);
+      return kept;
+    }
+    const factor = unit?.factor || 1;
+    const available = Math.floor((availableStock(product, reserved) - baseUnitsInCart(kept, product.id)) / factor);
+    const quantity = Math.min(item.quantity, available);
+    if (quantity <= 0) {
+      changes.push(`${item.name} is out of stock.`);
+      return kept;
+    }
+    if (quantity < item.quantity) changes.push(`${item.name}: only ${quantity} of ${item.quantity} in stock.`);
+    const line = createSaleItem(product, quantity, unit);
+    if (line.price !== item.price) changes.push(`${item.name}: price changed from $${item.price.toFixed(2)} to $${line.price.toFixed(2)}.`);
+    return [...kept, item.lineDiscount ? { ...line, lineDiscount: item.lineDiscount } : line];
+  }, []);
+  return { items: refreshed, changes };
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { Product, StockLog } from '../types';
+import { costItems, costLayers, issueLayers, landReceipt, layersValue, nextBuyPrice } from './costing';
+
+const log = (id: string, timestamp: string, type: StockLog['type'], amount: number, balance: number, unitCost?: number): StockLog => ({
+  id, timestamp, type, amount, balance, ...(unitCost !== undefined ? { unitCost } : {})
+});
+
+// History is kept newest first: 10 received at $2, 10 at $3, then 15 sold
+const product = (stock = 5): Product => ({
+  id: 'A', name: 'A', sku: 'A', category: 'Grocery', buyPrice: 4, marginPercent: 25, sellPrice: 5, stock, minStock: 0,
+  description: '', lastRestocked: '2026-01-02T00:00:00Z', units: [], lots: [],
+  stockHistory: [
+    log('3', '2026-01-03T00:00:00Z', 'SALE', -15, 5),
+    log('2', '2026-01-02T00:00:00Z', 'RESTOCK', 10, 20, 3),
+    log('1', '2026-01-01T00:00:00Z', 'RESTOCK', 10, 10, 2)
+  ]
+});
+
+describe('costLayers', () => {
+  it('keeps the newest purchases on the shelf under FIFO', () => {
+    expect(costLayers(product(), 'FIFO')).toEqual([{ quantity: 5, unitCost: 3 }]);
+  });
+
+  it('merges purchases into one average layer', () => {
+    expect(costLayers(product(), 'AVERAGE')).toEqual([{ quantity: 5, unitCost: 2.5 }]);
+  });
+
+  it('replays only the history up to a point in time', () => {
+    expect(costLayers(product(), 'FIFO', '2026-01-02T12:00:00Z')).toEqual([{ quantity: 10, unitCost: 2 }, { quantity: 10, unitCost: 3 }]);
+  });
+
+  it('carries stock the history never saw at the current buy price', () => {
+    expect(layersValue(costLayers(product(8), 'FIFO'))).toBe(27);
+  });
+});
+
+describe('issueLayers', () => {
+  it('takes the oldest layers first', () => {
+    expect(issueLayers([{ quantity: 2, unitCost: 1 }, { quantity: 3, unitCost: 2 }], 3, 9)).toEqual({ cost: 4, layers: [{ quantity: 2, unitCost: 2 }] });
+  });
+
+  it('costs units sold below zero at the last layer, or the fallback when there is none', () => {
+    expect(issueLayers([{ quantity: 1, unitCost: 2 }], 3, 9).cost).toBe(6);
+    expect(issueLayers([], 2, 9).cost).toBe(18);
+  });
+});
+
+describe('costItems', () => {
+  it('draws several lines of one product from the same layers', () => {
+    const items = [{ productId: 'A', quantity: 2, unitFactor: 1 }, { productId: 'A', quantity: 1, unitFactor: 4 }];
+    expect(costItems(items, [product()], 'FIFO').map(i => i.cost)).toEqual([6, 12]);
+  });
+});
+
+describe('landReceipt', () => {
+  it('spreads charges over the lines by value', () => {
+    const lines = landReceipt([{ productId: 'A', quantity: 10, unitCost: 2 }, { productId: 'B', quantity: 5, unitCost: 4 }], [{ label: 'Freight', amount: 10 }]);
+    expect(lines.map(l => l.landedCost)).toEqual([2.5, 5]);
+  });
+});
+
+describe('nextBuyPrice', () => {
+  it('averages the new cost with what is on hand', () => {
+    expect(nextBuyPrice({ ...product(10), buyPrice: 2 }, 10, 4, 'AVERAGE')).toBe(3);
+    expect(nextBuyPrice({ ...product(-5), buyPrice: 2 }, 10, 4, 'AVERAGE')).toBe(4);
+    expect(nextBuyPrice(product(10), 10, 4.5, 'LAST')).toBe(4.5);
+  });
+});
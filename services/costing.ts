@@ -0,0 +1,136 @@
+import { CostMethod, CostingSettings, LandedCharge, Product, ReceiptLine, SaleItem, StockLog, ValuationMethod } from '../types';
+import { baseQuantity } from './units';
+import { roundMoney } from './pricing';
+
+export const DEFAULT_COSTING_SETTINGS: CostingSettings = {
+  method: 'AVERAGE',
+  repriceOnReceipt: false,
+  valuation: 'FIFO'
+};
+
+export const COST_METHOD_LABELS: Record<CostMethod, string> = {
+  LAST: 'Last cost',
+  AVERAGE: 'Weighted average'
+};
+
+export const VALUATION_METHOD_LABELS: Record<ValuationMethod, string> = {
+  FIFO: 'FIFO (first in, first out)',
+  AVERAGE: 'Weighted average'
+};
+
+export const chargesTotal = (charges: LandedCharge[]) =>
+  roundMoney(charges.reduce((acc, c) => acc + c.amount, 0));
+
+/**
+ * Spreads a receipt's charges over its lines in proportion to each line's
+ * value, or by quantity when nothing on the receipt has a price.
+ */
+export const landReceipt = (lines: Omit<ReceiptLine, 'landedCost'>[], charges: LandedCharge[]): ReceiptLine[] => {
+  const extra = chargesTotal(charges);
+  const value = lines.reduce((acc, l) => acc + l.quantity * l.unitCost, 0);
+  const units = lines.reduce((acc, l) => acc + l.quantity, 0);
+  return lines.map(line => {
+    const share = value > 0 ? (line.quantity * line.unitCost) / value : units > 0 ? line.quantity / units : 0;
+    const perUnit = line.quantity > 0 ? (extra * share) / line.quantity : 0;
+    return { ...line, landedCost: roundMoney(line.unitCost + perUnit) };
+  });
+};
+
+// Buy price after receiving `quantity` base units at `landedCost` each
+export const nextBuyPrice = (product: Product, quantity: number, landedCost: number, method: CostMethod) => {
+  if (method === 'LAST') return landedCost;
+  // Stock below zero was sold before it was counted in, so it carries no cost to average against
+  const onHand = Math.max(product.stock, 0);
+  if (onHand + quantity <= 0) return landedCost;
+  return roundMoney((onHand * product.buyPrice + quantity * landedCost) / (onHand + quantity));
+};
+
+export const sellPriceFor = (buyPrice: number, marginPercent: number) =>
+  roundMoney(buyPrice * (1 + marginPercent / 100));
+
+// Units on the shelf bought at one cost; weighted average keeps a single merged layer
+export interface CostLayer {
+  quantity: number;
+  unitCost: number;
+}
+
+export const layersQuantity = (layers: CostLayer[]) => layers.reduce((acc, l) => acc + l.quantity, 0);
+
+export const layersValue = (layers: CostLayer[]) => roundMoney(layers.reduce((acc, l) => acc + l.quantity * l.unitCost, 0));
+
+const averageCost = (layers: CostLayer[]) => {
+  const quantity = layersQuantity(layers);
+  return quantity > 0 ? layers.reduce((acc, l) => acc + l.quantity * l.unitCost, 0) / quantity : undefined;
+};
+
+const addLayer = (layers: CostLayer[], quantity: number, unitCost: number, method: ValuationMethod): CostLayer[] => {
+  if (quantity <= 0) return layers;
+  if (method === 'FIFO') return [...layers, { quantity, unitCost }];
+  const held = layersQuantity(layers);
+  return [{ quantity: held + quantity, unitCost: (held * (averageCost(layers) || 0) + quantity * unitCost) / (held + quantity) }];
+};
+
+/**
+ * Takes base units off the layers, oldest first. Units beyond what the layers
+ * hold (stock sold below zero) are costed at `fallback`.
+ */
+export const issueLayers = (layers: CostLayer[], quantity: number, fallback: number): { cost: number; layers: CostLayer[] } => {
+  let left = quantity;
+  let cost = 0;
+  const remaining: CostLayer[] = [];
+  layers.forEach(layer => {
+    const taken = Math.min(layer.quantity, Math.max(left, 0));
+    cost += taken * layer.unitCost;
+    left -= taken;
+    if (layer.quantity > taken) remaining.push({ ...layer, quantity: layer.quantity - taken });
+  });
+  if (left > 0) cost += left * (layers[layers.length - 1]?.unitCost ?? fallback);
+  return { cost, layers: remaining };
+};
+
+// Brings the layers to `target` units, adding any shortfall at `unitCost`
+const settleLayers = (layers: CostLayer[], target: number, unitCost: number, method: ValuationMethod) => {
+  const held = layersQuantity(layers);
+  if (target > held) return addLayer(layers, target - held, unitCost, method);
+  if (target < held) return issueLayers(layers, held - Math.max(target, 0), unitCost).layers;
+  return layers;
+};
+
+const inboundCost = (log: StockLog, layers: CostLayer[], fallback: number) => {
+  if (log.unitCost !== undefined) return log.unitCost;
+  // Stock found on a count comes in at what the shelf is already carried at
+  if (log.type === 'ADJUSTMENT') return averageCost(layers) ?? fallback;
+  return fallback;
+};
+
+/**
+ * Replays a product's stock history into the cost layers on the shelf,
+ * optionally only up to a point in time. Each log's balance is trusted over
+ * its amount, so stock the history never saw (older products, clamped
+ * adjustments) is carried at the current buy price.
+ */
+export const costLayers = (product: Product, method: ValuationMethod, until?: string): CostLayer[] => {
+  const fallback = product.buyPrice;
+  const logs = [...product.stockHistory].reverse().filter(log => !until || log.timestamp <= until);
+  let layers = logs.reduce<CostLayer[]>((acc, log) => {
+    const opened = settleLayers(acc, log.balance - log.amount, fallback, method);
+    return settleLayers(opened, log.balance, inboundCost(log, opened, fallback), method);
+  }, []);
+  if (!until) layers = settleLayers(layers, product.stock, fallback, method);
+  return layers;
+};
+
+/**
+ * Cost of goods for each line, taken off the product's layers in cart order
+ * so several lines of one product draw on the same stock.
+ */
+export const costItems = <T extends Pick<SaleItem, 'productId' | 'quantity' | 'unitFactor'>>(items: T[], products: Product[], method: ValuationMethod): (T & { cost: number })[] => {
+  const layers = new Map<string, CostLayer[]>();
+  return items.map(item => {
+    const product = products.find(p => p.id === item.productId);
+    if (!product) return { ...item, cost: 0 };
+    const issued = issueLayers(layers.get(product.id) ?? costLayers(product, method), baseQuantity(item), product.buyPrice);
+    layers.set(product.id, issued.layers);
+    return { ...item, cost: roundMoney(issued.cost) };
+  });
+};
@@ -0,0 +1,170 @@
+import { Customer, Sale } from '../types';
+import { roundMoney } from './pricing';
+
+export interface CustomerStats {
+  visits: number;
+  lifetimeValue: number;
+  lastVisit?: string;
+}
+
+export interface CustomerImport {
+  customers: Customer[]; // New and updated records, ready to save
+  created: number;
+  updated: number;
+  errors: string[];
+}
+
+// Fields carried in the CSV, in column order
+const CSV_FIELDS = ['id', 'name', 'phone', 'address', 'email', 'taxExemptRef'] as const;
+
+// Digits only, so "+1 (555) 010-2000" and "15550102000" are the same number
+export const normalizePhone = (phone: string) => phone.replace(/\D/g, '');
+
+export const salesForCustomer = (sales: Sale[], customer: Customer) =>
+  sales.filter(s => s.customerId === customer.id);
+
+/**
+ * Links sales recorded without a customerId to the saved customer with the
+ * same phone number. Numbers shared by several customers are left alone
+ * until the duplicates are merged. Sales already linked are returned as is.
+ */
+export const linkSalesByPhone = (sales: Sale[], customers: Customer[]): Sale[] => {
+  const byPhone = new Map<string, Customer[]>();
+  customers.forEach(c => {
+    const phone = normalizePhone(c.phone);
+    if (phone) byPhone.set(phone, [...(byPhone.get(phone) || []), c]);
+  });
+  return sales.map(s => {
+    if (s.customerId || !s.customerPhone) return s;
+    const matches = byPhone.get(normalizePhone(s.customerPhone)) || [];
+    return matches.length === 1 ? { ...s, customerId: matches[0].id } : s;
+  });
+};
+
+export const customerStats = (sales: Sale[], customer: Customer): CustomerStats => {
+  const history = salesForCustomer(sales, customer);
+  return {
+    visits: history.length,
+    lifetimeValue: roundMoney(history.reduce((acc, s) => acc + s.total, 0)),
+    lastVisit: history.reduce<string | undefined>((latest, s) => !latest || s.timestamp > latest ? s.timestamp : latest, undefined)
+  };
+};
+
+// Customers sharing a phone number, oldest record first in each group
+export const findDuplicateGroups = (customers: Customer[]): Customer[][] => {
+  const groups = new Map<string, Customer[]>();
+  customers.forEach(c => {
+    const phone = normalizePhone(c.phone);
+    if (!phone) return;
+    groups.set(phone, [...(groups.get(phone) || []), c]);
+  });
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => [...group].sort((a, b) => a.id.localeCompare(b.id)));
+};
+
+/**
+ * The kept record wins; blank fields on it are filled from the duplicates in
+ * the order given.
+ */
+export const mergeCustomerRecords = (kept: Customer, duplicates: Customer[]): Customer =>
+  duplicates.reduce<Customer>((merged, dup) => ({
+    ...merged,
+    address: merged.address || dup.address,
+    ...(merged.email || dup.email ? { email: merged.email || dup.email } : {}),
+    ...(merged.taxExemptRef || dup.taxExemptRef ? { taxExemptRef: merged.taxExemptRef || dup.taxExemptRef } : {}),
+    ...(merged.creditLimit !== undefined || dup.creditLimit !== undefined ? { creditLimit: merged.creditLimit ?? dup.creditLimit } : {}),
+    ...(merged.creditPolicy || dup.creditPolicy ? { creditPolicy: merged.creditPolicy || dup.creditPolicy } : {})
+  }), kept);
+
+const csvCell = (value?: string) => `"${(value || '').replace(/"/g, '""')}"`;
+
+export const customersToCSV = (customers: Customer[]) =>
+  [CSV_FIELDS.join(','), ...customers.map(c => CSV_FIELDS.map(field => csvCell(c[field])).join(','))].join('\n');
+
+// Splits CSV text into rows of cells, honouring quoted cells with commas, quotes and line breaks
+const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c.trim()));
+};
+
+/**
+ * Reads a customer CSV with a header row. Columns are matched by name, so
+ * exports from other tools work as long as they have name and phone. Rows
+ * whose phone matches a saved customer update that customer.
+ */
+export const importCustomersCSV = (text: string, existing: Customer[]): CustomerImport => {
+  const [header, ...rows] = parseCSV(text);
+  const errors: string[] = [];
+  if (!header) return { customers: [], created: 0, updated: 0, errors: ['The file is empty.'] };
+  const columns = header.map(h => h.trim().toLowerCase());
+  const col = (field: typeof CSV_FIELDS[number]) => columns.indexOf(field.toLowerCase());
+  if (col('name') === -1 || col('phone') === -1) {
+    return { customers: [], created: 0, updated: 0, errors: ['The header row needs at least "name" and "phone" columns.'] };
+  }
+
+  const byPhone = new Map(existing.map(c => [normalizePhone(c.phone), c]));
+  const result = new Map<string, Customer>();
+  let created = 0;
+  let updated = 0;
+  rows.forEach((cells, idx) => {
+    const value = (field: typeof CSV_FIELDS[number]) => col(field) === -1 ? '' : (cells[col(field)] || '').trim();
+    const name = value('name');
+    const phone = value('phone');
+    if (!name || !normalizePhone(phone)) {
+      errors.push(`Row ${idx + 2}: name and phone are required.`);
+      return;
+    }
+    const match = result.get(normalizePhone(phone)) || byPhone.get(normalizePhone(phone));
+    const email = value('email');
+    const taxExemptRef = value('taxExemptRef');
+    const customer: Customer = {
+      ...(match || {}),
+      id: match?.id || `CUST-${Date.now()}-${idx}`,
+      name,
+      phone,
+      address: value('address') || match?.address || '',
+      ...(email ? { email } : {}),
+      ...(taxExemptRef ? { taxExemptRef } : {})
+    };
+    if (!result.has(normalizePhone(phone))) {
+      if (match) updated++;
+      else created++;
+    }
+    result.set(normalizePhone(phone), customer);
+  });
+  return { customers: Array.from(result.values()), created, updated, errors };
+};
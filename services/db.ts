@@ -0,0 +1,419 @@
+import { Product, Sale, Customer, UserAccount, Session, Role, SessionEvent, AuditEntry, Promotion, AccountEntry, LoyaltyEntry, ParkedCart, Quotation, SalesOrder, Supplier, PurchaseOrder } from '../types';
+import { DEFAULT_ROLES } from './permissions';
+import { StoredRecord, MigrationFailure, wrapRecord, upgradeRecord, currentVersion } from './migrations';
+import { linkSalesByPhone } from './customers';
+
+const DB_NAME = 'sarkartrade';
+const DB_VERSION = 13;
+
+export const DEFAULT_CATEGORIES = ['General', 'Electronics', 'Groceries', 'Beverages'];
+
+export interface Collections {
+  products: Product[];
+  sales: Sale[];
+  customers: Customer[];
+  categories: string[];
+  users: UserAccount[];
+  roles: Role[];
+  promotions: Promotion[];
+  accountEntries: AccountEntry[];
+  loyaltyEntries: LoyaltyEntry[];
+  parkedCarts: ParkedCart[];
+  quotations: Quotation[];
+  salesOrders: SalesOrder[];
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+}
+
+export type StoreName = keyof Collections;
+
+export interface LoadResult {
+  collections: Collections;
+  // Records left untouched in storage because they could not be upgraded
+  failures: MigrationFailure[];
+}
+
+// Records are stored as StoredRecord envelopes, so key paths point into `data`
+const STORE_SCHEMAS: Record<StoreName, { keyPath: string; indexes: Record<string, string> }> = {
+  products: { keyPath: 'data.id', indexes: { sku: 'data.sku' } },
+  sales: { keyPath: 'data.id', indexes: { timestamp: 'data.timestamp' } },
+  customers: { keyPath: 'data.id', indexes: {} },
+  categories: { keyPath: 'data', indexes: {} },
+  users: { keyPath: 'data.id', indexes: { username: 'data.username' } },
+  roles: { keyPath: 'data.id', indexes: {} },
+  promotions: { keyPath: 'data.id', indexes: {} },
+  accountEntries: { keyPath: 'data.id', indexes: { customerId: 'data.customerId' } },
+  loyaltyEntries: { keyPath: 'data.id', indexes: { customerId: 'data.customerId' } },
+  parkedCarts: { keyPath: 'data.id', indexes: {} },
+  quotations: { keyPath: 'data.id', indexes: { customerId: 'data.customerId' } },
+  salesOrders: { keyPath: 'data.id', indexes: { customerId: 'data.customerId' } },
+  suppliers: { keyPath: 'data.id', indexes: {} },
+  purchaseOrders: { keyPath: 'data.id', indexes: { supplierId: 'data.supplierId' } }
+};
+
+export const STORE_NAMES = Object.keys(STORE_SCHEMAS) as StoreName[];
+
+// Keys the app used before records moved into IndexedDB
+const LEGACY_KEYS = {
+  products: 'sarkartrade_products',
+  sales: 'sarkartrade_sales',
+  customers: 'sarkartrade_customers',
+  categories: 'sarkartrade_categories'
+};
+
+const LEGACY_STORES = Object.keys(LEGACY_KEYS) as (keyof typeof LEGACY_KEYS)[];
+
+const META_STORE = 'meta';
+// Login sessions live outside the record stores: they are never synced from state or backed up
+const SESSION_STORE = 'sessions';
+// Append-only record of logins, locks and cashier switches
+const SESSION_LOG_STORE = 'sessionLog';
+// Hash-chained audit trail; entries are only ever added, never updated or restored
+const AUDIT_STORE = 'audit';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const createStore = (db: IDBDatabase, store: StoreName) => {
+  const schema = STORE_SCHEMAS[store];
+  const objectStore = db.createObjectStore(store, { keyPath: schema.keyPath });
+  Object.entries(schema.indexes).forEach(([name, keyPath]) => objectStore.createIndex(name, keyPath));
+  return objectStore;
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const tx = request.transaction!;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(META_STORE);
+        }
+        if (event.oldVersion < 2) {
+          LEGACY_STORES.forEach(store => {
+            if (!db.objectStoreNames.contains(store)) {
+              createStore(db, store);
+              return;
+            }
+            // Version 1 held bare records keyed by `id`; rewrap them as v1 envelopes
+            const existing = tx.objectStore(store).getAll();
+            existing.onsuccess = () => {
+              db.deleteObjectStore(store);
+              const objectStore = createStore(db, store);
+              existing.result.forEach(record => {
+                objectStore.put({ version: 1, data: store === 'categories' ? record.name : record });
+              });
+            };
+          });
+        }
+        if (event.oldVersion < 3) {
+          createStore(db, 'users');
+          db.createObjectStore(SESSION_STORE, { keyPath: 'token' });
+        }
+        if (event.oldVersion < 4) {
+          const roles = createStore(db, 'roles');
+          DEFAULT_ROLES.forEach(data => roles.put({ version: 1, data }));
+        }
+        if (event.oldVersion < 5) {
+          const log = db.createObjectStore(SESSION_LOG_STORE, { keyPath: 'id' });
+          log.createIndex('timestamp', 'timestamp');
+        }
+        if (event.oldVersion < 6) {
+          db.createObjectStore(AUDIT_STORE, { keyPath: 'seq' });
+        }
+        if (event.oldVersion < 7) {
+          createStore(db, 'promotions');
+        }
+        if (event.oldVersion < 8) {
+          createStore(db, 'accountEntries');
+        }
+        if (event.oldVersion < 9) {
+          createStore(db, 'loyaltyEntries');
+        }
+        if (event.oldVersion < 10) {
+          createStore(db, 'parkedCarts');
+        }
+        if (event.oldVersion < 11) {
+          createStore(db, 'quotations');
+        }
+        if (event.oldVersion < 12) {
+          createStore(db, 'salesOrders');
+        }
+        if (event.oldVersion < 13) {
+          createStore(db, 'suppliers');
+          createStore(db, 'purchaseOrders');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const recordKey = (store: StoreName, record: unknown): string =>
+  store === 'categories' ? record as string : (record as { id: string }).id;
+
+// Blobs that do not parse are noted in `unreadable` and left where they are
+const readLegacy = <T>(key: string, unreadable: string[]): T[] => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return [];
+  try {
+    const parsed = JSON.parse(saved);
+    if (!Array.isArray(parsed)) throw new Error('Not a list');
+    return parsed;
+  } catch (err) {
+    console.error(`Could not parse legacy ${key}:`, err);
+    unreadable.push(key);
+    return [];
+  }
+};
+
+/**
+ * Copies the old localStorage blobs into their stores once, then frees the
+ * quota they were using. Also seeds the category list on a fresh install.
+ * A blob that cannot be read is kept so the data is not lost with it.
+ */
+const migrateLegacyStorage = async (db: IDBDatabase) => {
+  const tx = db.transaction([...LEGACY_STORES, META_STORE], 'readwrite');
+  const meta = tx.objectStore(META_STORE);
+  const migrated = await requestToPromise(meta.get('legacyMigrated'));
+  if (migrated) return;
+
+  const unreadable: string[] = [];
+  const products = readLegacy<Product>(LEGACY_KEYS.products, unreadable);
+  const legacy: Pick<Collections, typeof LEGACY_STORES[number]> = {
+    products,
+    sales: readLegacy<Sale>(LEGACY_KEYS.sales, unreadable),
+    customers: readLegacy<Customer>(LEGACY_KEYS.customers, unreadable),
+    categories: readLegacy<string>(LEGACY_KEYS.categories, unreadable)
+  };
+  if (legacy.categories.length === 0) {
+    const derived = Array.from(new Set(products.map(p => p.category)));
+    legacy.categories = derived.length > 0 ? derived : DEFAULT_CATEGORIES;
+  }
+
+  LEGACY_STORES.forEach(store => {
+    const objectStore = tx.objectStore(store);
+    // The blobs predate schema versioning, so they enter as version 1
+    (legacy[store] as unknown[]).forEach(data => objectStore.put({ version: 1, data }));
+  });
+  meta.put(new Date().toISOString(), 'legacyMigrated');
+  await transactionDone(tx);
+
+  Object.values(LEGACY_KEYS)
+    .filter(key => !unreadable.includes(key))
+    .forEach(key => localStorage.removeItem(key));
+};
+
+export const loadDatabase = async (): Promise<LoadResult> => {
+  const db = await openDatabase();
+  await migrateLegacyStorage(db);
+
+  const readTx = db.transaction(STORE_NAMES, 'readonly');
+  const stored = {} as Record<StoreName, StoredRecord[]>;
+  await Promise.all(STORE_NAMES.map(async store => {
+    const objectStore = readTx.objectStore(store);
+    const source = store === 'sales' ? objectStore.index('timestamp') : objectStore;
+    stored[store] = await requestToPromise<StoredRecord[]>(source.getAll());
+  }));
+
+  const failures: MigrationFailure[] = [];
+  const upgraded: { store: StoreName; record: StoredRecord }[] = [];
+  const collections = {} as Record<StoreName, unknown[]>;
+
+  STORE_NAMES.forEach(store => {
+    const target = currentVersion(store);
+    collections[store] = [];
+    stored[store].forEach(record => {
+      if (record.version === target) {
+        collections[store].push(record.data);
+        return;
+      }
+      try {
+        const data = upgradeRecord(store, record);
+        collections[store].push(data);
+        upgraded.push({ store, record: wrapRecord(store, data) });
+      } catch (err) {
+        failures.push({
+          store,
+          key: recordKey(store, record.data),
+          version: record.version,
+          error: err instanceof Error ? err.message : String(err)
+        });
+      }
+    });
+  });
+
+  if (upgraded.length > 0) {
+    const writeTx = db.transaction(STORE_NAMES, 'readwrite');
+    upgraded.forEach(({ store, record }) => writeTx.objectStore(store).put(record));
+    await transactionDone(writeTx);
+  }
+
+  // Sales from before customerId existed are linked by phone number, once
+  const linkTx = db.transaction(['sales', META_STORE], 'readwrite');
+  if (!(await requestToPromise(linkTx.objectStore(META_STORE).get('salesLinked')))) {
+    const sales = collections.sales as Sale[];
+    const linked = linkSalesByPhone(sales, collections.customers as Customer[]);
+    linked.forEach((sale, idx) => {
+      if (sale !== sales[idx]) linkTx.objectStore('sales').put(wrapRecord('sales', sale));
+    });
+    linkTx.objectStore(META_STORE).put(new Date().toISOString(), 'salesLinked');
+    collections.sales = linked;
+  }
+  await transactionDone(linkTx);
+
+  return {
+    collections: {
+      products: collections.products as Product[],
+      // Newest sale first, matching how the app prepends new sales
+      sales: (collections.sales as Sale[]).reverse(),
+      customers: collections.customers as Customer[],
+      categories: (collections.categories as string[]).sort(),
+      users: collections.users as UserAccount[],
+      roles: collections.roles as Role[],
+      promotions: collections.promotions as Promotion[],
+      accountEntries: collections.accountEntries as AccountEntry[],
+      loyaltyEntries: collections.loyaltyEntries as LoyaltyEntry[],
+      parkedCarts: collections.parkedCarts as ParkedCart[],
+      quotations: collections.quotations as Quotation[],
+      salesOrders: collections.salesOrders as SalesOrder[],
+      suppliers: collections.suppliers as Supplier[],
+      purchaseOrders: collections.purchaseOrders as PurchaseOrder[]
+    },
+    failures
+  };
+};
+
+/**
+ * Writes only the records that differ between two snapshots of a collection.
+ * State updates in the app are immutable, so an unchanged record keeps its
+ * object identity and can be skipped without a deep comparison.
+ */
+export const syncCollection = async <K extends StoreName>(store: K, previous: Collections[K], next: Collections[K]) => {
+  const before = new Map((previous as unknown[]).map(record => [recordKey(store, record), record]));
+  const remaining = new Set<string>();
+
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+
+  (next as unknown[]).forEach(record => {
+    const key = recordKey(store, record);
+    remaining.add(key);
+    if (before.get(key) !== record) objectStore.put(wrapRecord(store, record));
+  });
+  before.forEach((_, key) => {
+    if (!remaining.has(key)) objectStore.delete(key);
+  });
+
+  return transactionDone(tx);
+};
+
+export const getSession = async (token: string): Promise<Session | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(SESSION_STORE, 'readonly').objectStore(SESSION_STORE).get(token));
+};
+
+export const putSession = async (session: Session) => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSION_STORE, 'readwrite');
+  tx.objectStore(SESSION_STORE).put(session);
+  return transactionDone(tx);
+};
+
+export const deleteSession = async (token: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSION_STORE, 'readwrite');
+  tx.objectStore(SESSION_STORE).delete(token);
+  return transactionDone(tx);
+};
+
+export const deleteUserSessions = async (userId: string, keepToken?: string | null) => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSION_STORE, 'readwrite');
+  const objectStore = tx.objectStore(SESSION_STORE);
+  const sessions = await requestToPromise<Session[]>(objectStore.getAll());
+  sessions
+    .filter(session => session.userId === userId && session.token !== keepToken)
+    .forEach(session => objectStore.delete(session.token));
+  return transactionDone(tx);
+};
+
+export const getMeta = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(key));
+};
+
+export const putMeta = async (key: string, value: unknown) => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(value, key);
+  return transactionDone(tx);
+};
+
+export const appendSessionEvent = async (event: SessionEvent) => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSION_LOG_STORE, 'readwrite');
+  tx.objectStore(SESSION_LOG_STORE).add(event);
+  return transactionDone(tx);
+};
+
+// Newest first
+export const listSessionEvents = async (limit: number): Promise<SessionEvent[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(SESSION_LOG_STORE, 'readonly').objectStore(SESSION_LOG_STORE).index('timestamp');
+  const events: SessionEvent[] = [];
+  return new Promise((resolve, reject) => {
+    const request = index.openCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || events.length >= limit) {
+        resolve(events);
+        return;
+      }
+      events.push(cursor.value);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getLastAuditEntry = async (): Promise<AuditEntry | undefined> => {
+  const db = await openDatabase();
+  const request = db.transaction(AUDIT_STORE, 'readonly').objectStore(AUDIT_STORE).openCursor(null, 'prev');
+  const cursor = await requestToPromise(request);
+  return cursor?.value;
+};
+
+// `add` rejects an existing seq, so two writers can never fork the chain
+export const addAuditEntry = async (entry: AuditEntry) => {
+  const db = await openDatabase();
+  const tx = db.transaction(AUDIT_STORE, 'readwrite');
+  tx.objectStore(AUDIT_STORE).add(entry);
+  return transactionDone(tx);
+};
+
+// Oldest first, in chain order
+export const listAuditEntries = async (): Promise<AuditEntry[]> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(AUDIT_STORE, 'readonly').objectStore(AUDIT_STORE).getAll());
+};
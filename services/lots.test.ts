@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { Product, StockLot } from '../types';
+import { allocateLots, expiringLots, expiryStatus, fitLots, receiveLot, returnToLots, takeLots, untrackedStock } from './lots';
+
+const today = '2026-06-01';
+
+const lot = (id: string, quantity: number, expiryDate?: string, receivedAt = '2026-01-01T00:00:00Z'): StockLot => ({
+  id, quantity, receivedAt, ...(expiryDate ? { lotNumber: id, expiryDate } : {})
+});
+
+const product = (stock: number, lots: StockLot[]): Product => ({
+  id: 'MILK', name: 'Milk', sku: 'M', category: 'Dairy', buyPrice: 1, marginPercent: 0, sellPrice: 1, stock, minStock: 0,
+  description: '', lastRestocked: '2026-01-01T00:00:00Z', stockHistory: [], units: [], lots
+});
+
+describe('takeLots', () => {
+  it('sells the soonest expiry first', () => {
+    const shelf = { stock: 10, lots: [lot('LATE', 5, '2026-09-01'), lot('SOON', 5, '2026-07-01')] };
+    const { picks, lots } = takeLots(shelf, 7, today);
+    expect(picks).toEqual([
+      { lotId: 'SOON', lotNumber: 'SOON', expiryDate: '2026-07-01', quantity: 5 },
+      { lotId: 'LATE', lotNumber: 'LATE', expiryDate: '2026-09-01', quantity: 2 }
+    ]);
+    expect(lots).toEqual([lot('LATE', 3, '2026-09-01')]);
+  });
+
+  it('uses undated lots and untracked stock before expired lots', () => {
+    const shelf = { stock: 9, lots: [lot('OLD', 3, '2026-05-01'), lot('PLAIN', 2)] };
+    expect(untrackedStock(shelf)).toBe(4);
+    const { picks } = takeLots(shelf, 7, today);
+    expect(picks.map(p => [p.lotId, p.quantity])).toEqual([['PLAIN', 2], ['OLD', 1]]);
+  });
+});
+
+describe('allocateLots', () => {
+  it('lets later lines of the same product continue where earlier ones stopped', () => {
+    const milk = product(6, [lot('A', 2, '2026-07-01'), lot('B', 4, '2026-08-01')]);
+    const { items, lots } = allocateLots([
+      { productId: 'MILK', quantity: 3, unitFactor: 1 },
+      { productId: 'MILK', quantity: 1, unitFactor: 2 }
+    ], [milk], today);
+    expect(items.map(i => i.lots?.map(p => [p.lotId, p.quantity]))).toEqual([[['A', 2], ['B', 1]], [['B', 2]]]);
+    expect(lots.get('MILK')).toEqual([lot('B', 1, '2026-08-01')]);
+  });
+});
+
+describe('fitLots', () => {
+  it('trims lots to the stock left after a count, latest expiry kept longest', () => {
+    const lots = [lot('A', 4, '2026-07-01'), lot('B', 4, '2026-08-01')];
+    expect(fitLots(lots, 5, today)).toEqual([lot('A', 1, '2026-07-01'), lot('B', 4, '2026-08-01')]);
+    expect(fitLots(lots, 20, today)).toBe(lots);
+  });
+});
+
+describe('receiveLot', () => {
+  it('tops up a lot with the same number and expiry, or opens a new one', () => {
+    const lots = [lot('A', 4, '2026-07-01')];
+    expect(receiveLot(lots, 2, { lotNumber: 'A', expiryDate: '2026-07-01' }, 'NEW', '2026-02-01T00:00:00Z')).toEqual({ lots: [lot('A', 6, '2026-07-01')], lotId: 'A' });
+    expect(receiveLot(lots, 2, { lotNumber: 'C', expiryDate: '2026-10-01' }, 'NEW', '2026-02-01T00:00:00Z').lots).toHaveLength(2);
+  });
+});
+
+describe('returnToLots', () => {
+  const picks = [
+    { lotId: 'A', lotNumber: 'A', expiryDate: '2026-07-01', quantity: 2 },
+    { lotId: 'B', lotNumber: 'B', expiryDate: '2026-08-01', quantity: 3 }
+  ];
+
+  it('puts units back into the latest pick first and reopens emptied lots', () => {
+    const back = returnToLots([lot('B', 1, '2026-08-01')], picks, 0, 4, '2026-06-02T00:00:00Z');
+    expect(back).toEqual([lot('B', 4, '2026-08-01'), { ...lot('A', 1, '2026-07-01'), receivedAt: '2026-06-02T00:00:00Z' }]);
+  });
+
+  it('skips what an earlier return already put back', () => {
+    const back = returnToLots([], picks, 3, 2, '2026-06-02T00:00:00Z');
+    expect(back.map(l => [l.id, l.quantity])).toEqual([['A', 2]]);
+  });
+});
+
+describe('expiry', () => {
+  it('flags expired and near-expiry lots, soonest first', () => {
+    expect(expiryStatus(lot('X', 1, '2026-05-31'), today)).toBe('EXPIRED');
+    expect(expiryStatus(lot('X', 1, '2026-06-15'), today)).toBe('NEAR');
+    expect(expiryStatus(lot('X', 1, '2026-06-16'), today)).toBe('OK');
+    const milk = product(3, [lot('N', 1, '2026-06-10'), lot('E', 1, '2026-05-20'), lot('OK', 1, '2026-12-01')]);
+    expect(expiringLots([milk], today).map(e => [e.lot.id, e.status, e.days])).toEqual([['E', 'EXPIRED', -12], ['N', 'NEAR', 9]]);
+  });
+});
@@ -0,0 +1,148 @@
+import { LotPick, Product, SaleItem, StockLot } from '../types';
+import { baseQuantity } from './units';
+import { dayKey } from './pricing';
+
+// Lots this many days or fewer from their expiry date are flagged
+export const NEAR_EXPIRY_DAYS = 14;
+
+export type ExpiryStatus = 'EXPIRED' | 'NEAR' | 'OK';
+
+export interface LotDetails {
+  lotNumber?: string;
+  expiryDate?: string;
+}
+
+export interface ExpiringLot {
+  product: Product;
+  lot: StockLot;
+  status: ExpiryStatus;
+  days: number;
+}
+
+export const lotsQuantity = (lots: StockLot[]) => lots.reduce((acc, l) => acc + l.quantity, 0);
+
+// Stock no lot accounts for: on hand before lots were tracked, or received without lot details
+export const untrackedStock = (product: Pick<Product, 'stock' | 'lots'>) => Math.max(product.stock - lotsQuantity(product.lots), 0);
+
+export const daysToExpiry = (lot: Pick<StockLot, 'expiryDate'>, today = dayKey(new Date())) =>
+  lot.expiryDate === undefined ? undefined : Math.round((Date.parse(lot.expiryDate) - Date.parse(today)) / 86400000);
+
+export const expiryStatus = (lot: Pick<StockLot, 'expiryDate'>, today = dayKey(new Date())): ExpiryStatus => {
+  const days = daysToExpiry(lot, today);
+  if (days === undefined) return 'OK';
+  if (days < 0) return 'EXPIRED';
+  return days <= NEAR_EXPIRY_DAYS ? 'NEAR' : 'OK';
+};
+
+const pickRank = (lot: StockLot, today: string) => expiryStatus(lot, today) === 'EXPIRED' ? 2 : lot.expiryDate ? 0 : 1;
+
+const pickDetails = (lot: StockLot) => ({
+  ...(lot.lotNumber ? { lotNumber: lot.lotNumber } : {}),
+  ...(lot.expiryDate ? { expiryDate: lot.expiryDate } : {})
+});
+
+/**
+ * Takes base units off a product's lots first expiry first out. Lots without
+ * a date and untracked stock follow the dated ones, and expired lots go last
+ * so they only leave when nothing else is on the shelf.
+ */
+export const takeLots = (product: Pick<Product, 'stock' | 'lots'>, quantity: number, today = dayKey(new Date())): { lots: StockLot[]; picks: LotPick[] } => {
+  let left = quantity;
+  let untracked = untrackedStock(product);
+  const picks: LotPick[] = [];
+  [...product.lots]
+    .sort((a, b) => pickRank(a, today) - pickRank(b, today)
+      || (a.expiryDate || '').localeCompare(b.expiryDate || '')
+      || a.receivedAt.localeCompare(b.receivedAt))
+    .forEach(lot => {
+      if (pickRank(lot, today) === 2 && untracked > 0) {
+        const used = Math.min(untracked, Math.max(left, 0));
+        untracked = 0;
+        left -= used;
+      }
+      const used = Math.min(lot.quantity, Math.max(left, 0));
+      if (used <= 0) return;
+      picks.push({ lotId: lot.id, ...pickDetails(lot), quantity: used });
+      left -= used;
+    });
+  const lots = product.lots
+    .map(lot => ({ ...lot, quantity: lot.quantity - (picks.find(p => p.lotId === lot.id)?.quantity || 0) }))
+    .filter(lot => lot.quantity > 0);
+  return { lots, picks };
+};
+
+// The lot the next unit would come from once `taken` units are already spoken for; none means untracked stock
+export const nextLot = (product: Pick<Product, 'stock' | 'lots'>, taken: number, today = dayKey(new Date())): LotPick | undefined => {
+  const shelf = takeLots(product, taken, today);
+  return takeLots({ stock: product.stock - taken, lots: shelf.lots }, 1, today).picks[0];
+};
+
+/**
+ * Picks lots for each line, in cart order so several lines of one product
+ * draw on the same lots. Returns the lines with their picks and each
+ * product's remaining lots.
+ */
+export const allocateLots = <T extends Pick<SaleItem, 'productId' | 'quantity' | 'unitFactor'>>(items: T[], products: Product[], today = dayKey(new Date())) => {
+  const shelves = new Map<string, Pick<Product, 'stock' | 'lots'>>();
+  const allocated = items.map((item): T & { lots?: LotPick[] } => {
+    const product = products.find(p => p.id === item.productId);
+    if (!product) return item;
+    const shelf = shelves.get(product.id) ?? product;
+    const units = baseQuantity(item);
+    const taken = takeLots(shelf, units, today);
+    shelves.set(product.id, { stock: shelf.stock - units, lots: taken.lots });
+    return taken.picks.length > 0 ? { ...item, lots: taken.picks } : item;
+  });
+  return { items: allocated, lots: new Map(Array.from(shelves.entries()).map(([id, shelf]) => [id, shelf.lots])) };
+};
+
+// Keeps the lots within what is on hand after stock is counted down
+export const fitLots = (lots: StockLot[], stock: number, today = dayKey(new Date())) => {
+  const excess = lotsQuantity(lots) - Math.max(stock, 0);
+  return excess > 0 ? takeLots({ stock: lotsQuantity(lots), lots }, excess, today).lots : lots;
+};
+
+// Received stock joins the lot with the same number and expiry, or opens a new one
+export const receiveLot = (lots: StockLot[], quantity: number, details: LotDetails, id: string, receivedAt: string): { lots: StockLot[]; lotId: string } => {
+  const same = lots.find(l => l.lotNumber === details.lotNumber && l.expiryDate === details.expiryDate);
+  if (same) return { lots: lots.map(l => l.id === same.id ? { ...l, quantity: l.quantity + quantity } : l), lotId: same.id };
+  const lot: StockLot = {
+    id,
+    ...(details.lotNumber ? { lotNumber: details.lotNumber } : {}),
+    ...(details.expiryDate ? { expiryDate: details.expiryDate } : {}),
+    quantity,
+    receivedAt
+  };
+  return { lots: [...lots, lot], lotId: id };
+};
+
+/**
+ * Puts returned base units back into the lots a line was picked from, latest
+ * pick first and skipping units an earlier return already put back. A lot
+ * that has since been emptied is reopened; units beyond the picks came from
+ * untracked stock and stay untracked.
+ */
+export const returnToLots = (lots: StockLot[], picks: LotPick[], alreadyReturned: number, units: number, receivedAt: string): StockLot[] => {
+  let skip = alreadyReturned;
+  let left = units;
+  return [...picks].reverse().reduce((acc, pick) => {
+    const skipped = Math.min(pick.quantity, skip);
+    skip -= skipped;
+    const back = Math.min(pick.quantity - skipped, left);
+    if (back <= 0) return acc;
+    left -= back;
+    if (acc.some(l => l.id === pick.lotId)) {
+      return acc.map(l => l.id === pick.lotId ? { ...l, quantity: l.quantity + back } : l);
+    }
+    const { lotId, quantity, ...details } = pick;
+    return [...acc, { id: lotId, ...details, quantity: back, receivedAt }];
+  }, lots);
+};
+
+// Expired and near-expiry lots still on hand, soonest first
+export const expiringLots = (products: Product[], today = dayKey(new Date())): ExpiringLot[] =>
+  products
+    .flatMap(product => product.lots
+      .filter(lot => lot.quantity > 0 && expiryStatus(lot, today) !== 'OK')
+      .map(lot => ({ product, lot, status: expiryStatus(lot, today), days: daysToExpiry(lot, today)! })))
+    .sort((a, b) => a.days - b.days);
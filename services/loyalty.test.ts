@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { LoyaltyEntry, SaleItem } from '../types';
+import { loyaltyBalance, pendingExpiries, pointsToReverse } from './loyalty';
+
+const entry = (id: string, timestamp: string, type: LoyaltyEntry['type'], points: number, extra: Partial<LoyaltyEntry> = {}): LoyaltyEntry => ({
+  id, customerId: 'C1', timestamp, type, points, ...extra
+});
+
+const at = new Date('2026-06-01T00:00:00Z');
+
+// 100 points that expire on 1 March, 100 that never do, and 60 spent in between
+const history = [
+  entry('A', '2026-01-01T00:00:00Z', 'EARN', 100, { expiresAt: '2026-03-01T00:00:00Z' }),
+  entry('B', '2026-02-01T00:00:00Z', 'EARN', 100),
+  entry('R', '2026-02-10T00:00:00Z', 'REDEEM', 60)
+];
+
+describe('loyaltyBalance', () => {
+  it('spends the oldest live points first and drops them once expired', () => {
+    expect(loyaltyBalance(history, 'C1', new Date('2026-02-15T00:00:00Z'))).toBe(140);
+    expect(loyaltyBalance(history, 'C1', at)).toBe(100);
+  });
+
+  it('reverses a sale out of its own lot first', () => {
+    const live = [entry('A', '2026-01-01T00:00:00Z', 'EARN', 100), entry('V', '2026-01-05T00:00:00Z', 'REVERSE', 30, { lotId: 'A' })];
+    expect(loyaltyBalance(live, 'C1', at)).toBe(70);
+  });
+
+  it('takes back only the redeemed share of a lot that has since expired', () => {
+    const expired = [...history, entry('X', '2026-03-01T00:00:00Z', 'EXPIRE', 40, { lotId: 'A' })];
+    const reversed = [...expired, entry('V', '2026-04-01T00:00:00Z', 'REVERSE', 100, { lotId: 'A' })];
+    expect(loyaltyBalance(reversed, 'C1', at)).toBe(40);
+  });
+
+  it('applies the same cap across several partial reversals', () => {
+    const expired = [...history, entry('X', '2026-03-01T00:00:00Z', 'EXPIRE', 40, { lotId: 'A' })];
+    const reversed = [
+      ...expired,
+      entry('V1', '2026-04-01T00:00:00Z', 'REVERSE', 50, { lotId: 'A' }),
+      entry('V2', '2026-04-02T00:00:00Z', 'REVERSE', 50, { lotId: 'A' })
+    ];
+    expect(loyaltyBalance(reversed, 'C1', at)).toBe(40);
+  });
+});
+
+describe('pendingExpiries', () => {
+  it('writes off what is left of each expired lot, dated when it expired', () => {
+    expect(pendingExpiries(history, at)).toEqual([
+      { id: 'LOY-EXP-A', customerId: 'C1', timestamp: '2026-03-01T00:00:00Z', type: 'EXPIRE', points: 40, lotId: 'A' }
+    ]);
+  });
+
+  it('has nothing left to write off once the expiry is logged', () => {
+    expect(pendingExpiries([...history, ...pendingExpiries(history, at)], at)).toEqual([]);
+  });
+});
+
+describe('pointsToReverse', () => {
+  const line: SaleItem = { productId: 'A', name: 'A', quantity: 3, price: 10, total: 30, returnedQuantity: 0, unitFactor: 1, discount: 0, tax: 0, points: 10 };
+
+  it('adds up to the whole line over repeated partial returns', () => {
+    const first = pointsToReverse(line, 1);
+    const second = pointsToReverse({ ...line, returnedQuantity: 1 }, 1);
+    const third = pointsToReverse({ ...line, returnedQuantity: 2 }, 1);
+    expect([first, second, third]).toEqual([3, 3, 4]);
+  });
+
+  it('is zero for lines that earned nothing', () => {
+    expect(pointsToReverse({ ...line, points: undefined }, 3)).toBe(0);
+  });
+});
@@ -0,0 +1,141 @@
+import { LoyaltyEntry, LoyaltySettings, Payment, Product, SaleItem } from '../types';
+import { PaymentError } from './payments';
+import { roundMoney } from './pricing';
+
+export const DEFAULT_LOYALTY_SETTINGS: LoyaltySettings = {
+  enabled: false,
+  pointsPerUnit: 1,
+  categoryMultipliers: {},
+  pointValue: 0.01,
+  expiryDays: 365
+};
+
+// Points still available from one EARN entry
+interface Lot {
+  id: string;
+  remaining: number;
+  reversible: number; // Earned points not yet expired or reversed
+  expiresAt?: string;
+}
+
+const isLive = (lot: Lot, at: string) => !lot.expiresAt || lot.expiresAt > at;
+
+/**
+ * Replays a customer's log into the earn lots that still hold points.
+ * Redemptions use the oldest live points first; expiries empty the lot they
+ * name; reversals come out of the sale's own lot and then the oldest others,
+ * but only up to what the lot earned less what expired from it, so points
+ * that were never spent are not taken twice.
+ */
+const replayLots = (entries: LoyaltyEntry[], customerId: string): Lot[] => {
+  const lots: Lot[] = [];
+  const take = (entry: LoyaltyEntry) => {
+    const named = entry.lotId ? lots.find(l => l.id === entry.lotId) : undefined;
+    let left = named && entry.type === 'REVERSE' ? Math.min(entry.points, named.reversible) : entry.points;
+    if (named) {
+      const used = Math.min(named.remaining, left);
+      named.reversible -= entry.type === 'REVERSE' ? left : used;
+      named.remaining -= used;
+      left -= used;
+    }
+    if (entry.type === 'EXPIRE') return;
+    lots.forEach(lot => {
+      if (left <= 0 || !isLive(lot, entry.timestamp)) return;
+      const used = Math.min(lot.remaining, left);
+      lot.remaining -= used;
+      left -= used;
+    });
+  };
+  entries
+    .filter(e => e.customerId === customerId)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .forEach(e => {
+      if (e.type === 'EARN') lots.push({ id: e.id, remaining: e.points, reversible: e.points, expiresAt: e.expiresAt });
+      else take(e);
+    });
+  return lots;
+};
+
+export const loyaltyBalance = (entries: LoyaltyEntry[], customerId: string, at = new Date()) => {
+  const now = at.toISOString();
+  return replayLots(entries, customerId).reduce((acc, lot) => isLive(lot, now) ? acc + lot.remaining : acc, 0);
+};
+
+/**
+ * EXPIRE entries for every lot that has run out with points left on it.
+ * Each is dated when the lot expired so the log reads in order.
+ */
+export const pendingExpiries = (entries: LoyaltyEntry[], at = new Date()): LoyaltyEntry[] => {
+  const now = at.toISOString();
+  const customerIds = Array.from(new Set(entries.map(e => e.customerId)));
+  return customerIds.flatMap(customerId => replayLots(entries, customerId)
+    .filter(lot => lot.remaining > 0 && !isLive(lot, now))
+    .map(lot => ({
+      id: `LOY-EXP-${lot.id}`,
+      customerId,
+      timestamp: lot.expiresAt!,
+      type: 'EXPIRE' as const,
+      points: lot.remaining,
+      lotId: lot.id
+    })));
+};
+
+export const expiryFor = (settings: LoyaltySettings, earnedAt: string) => {
+  if (settings.expiryDays <= 0) return undefined;
+  const date = new Date(earnedAt);
+  date.setDate(date.getDate() + settings.expiryDays);
+  return date.toISOString();
+};
+
+/**
+ * Stamps each line with the points it earns. Only the pre-tax amount counts,
+ * and the share of the sale paid for with points earns nothing.
+ */
+export const earnPoints = (items: SaleItem[], products: Product[], settings: LoyaltySettings, pricesIncludeTax: boolean, total: number, paidWithPoints: number) => {
+  const share = total > 0 ? Math.max(0, 1 - paidWithPoints / total) : 0;
+  const earned = items.map(item => {
+    const category = products.find(p => p.id === item.productId)?.category;
+    const multiplier = category !== undefined ? settings.categoryMultipliers[category] ?? 1 : 1;
+    const net = pricesIncludeTax ? item.total - item.tax : item.total;
+    const points = Math.floor(net * share * settings.pointsPerUnit * multiplier + 1e-9);
+    return points > 0 ? { ...item, points } : item;
+  });
+  return { items: earned, points: earned.reduce((acc, item) => acc + (item.points || 0), 0) };
+};
+
+/**
+ * Points to take back when `returning` more of a line comes back. Worked out
+ * on the running total so repeated partial returns add up to the whole line.
+ */
+export const pointsToReverse = (item: SaleItem, returning: number) => {
+  if (!item.points || item.quantity <= 0) return 0;
+  const upTo = (quantity: number) => Math.floor(item.points! * quantity / item.quantity);
+  return upTo(item.returnedQuantity + returning) - upTo(item.returnedQuantity);
+};
+
+/**
+ * A payment that spends points towards the balance. A blank amount uses as
+ * many points as the balance and the customer allow; amounts are rounded
+ * down to whole points.
+ */
+export const createPointsPayment = (settings: LoyaltySettings, balance: number, available: number, entered?: number, customerId?: string): Payment => {
+  if (!customerId) throw new PaymentError('Select a saved customer to redeem points.');
+  if (balance <= 0) throw new PaymentError('Nothing is left to pay.');
+  const most = Math.min(available, Math.floor(balance / settings.pointValue + 1e-9));
+  const points = entered === undefined ? most : Math.floor(entered / settings.pointValue + 1e-9);
+  if (most <= 0) throw new PaymentError('The customer has no points to redeem.');
+  if (points <= 0) throw new PaymentError(`Enter at least $${settings.pointValue.toFixed(2)}, the value of one point.`);
+  if (points > most) {
+    throw new PaymentError(`Only ${most} point(s) ($${roundMoney(most * settings.pointValue).toFixed(2)}) can be used here.`);
+  }
+  return {
+    id: `PAY-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+    method: 'Points',
+    amount: roundMoney(points * settings.pointValue),
+    points,
+    customerId
+  };
+};
+
+export const pointsInPayments = (payments: Payment[]) =>
+  payments.filter(p => p.method === 'Points').reduce((acc, p) => acc + (p.points || 0), 0);
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { currentVersion, upgradeRecord } from './migrations';
+
+describe('upgradeRecord', () => {
+  it('brings a version 1 sale up to the current shape', () => {
+    const sale = upgradeRecord('sales', {
+      version: 1,
+      data: { id: 'S1', subtotal: 100, tax: 10, total: 110, paymentMethod: 'Card', items: [{ productId: 'a', total: 100 }] }
+    });
+    expect(sale.items[0]).toMatchObject({ returnedQuantity: 0, unitFactor: 1, discount: 0, tax: 10 });
+    expect(sale.taxLines).toEqual([{ name: 'Sales Tax', percent: 10, taxable: 100, amount: 10 }]);
+    expect(sale.payments).toEqual([{ id: 'PAY-S1', method: 'Card', amount: 110 }]);
+    expect(sale).not.toHaveProperty('paymentMethod');
+  });
+
+  it('costs old receipt lines at the order price', () => {
+    const order = upgradeRecord('purchaseOrders', {
+      version: 1,
+      data: { id: 'P1', items: [{ productId: 'a', unitCost: 3 }], receipts: [{ lines: [{ productId: 'a', quantity: 2 }] }] }
+    });
+    expect(order.receipts[0].charges).toEqual([]);
+    expect(order.receipts[0].lines[0]).toMatchObject({ unitCost: 3, landedCost: 3 });
+  });
+
+  it('names the failing step when a nested list is malformed', () => {
+    expect(() => upgradeRecord('sales', { version: 1, data: { id: 'S2', items: 'none' } }))
+      .toThrow('v2 (Record returnedQuantity on every sale item): items is not a list of records');
+  });
+
+  it('refuses records written by a newer schema', () => {
+    expect(() => upgradeRecord('products', { version: currentVersion('products') + 1, data: { id: 'p' } })).toThrow(/only knows/);
+  });
+});
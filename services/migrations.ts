@@ -0,0 +1,180 @@
+import { Collections, StoreName } from './db';
+
+/**
+ * Every persisted record is wrapped with the schema version of its entity
+ * at the time it was written.
+ */
+export interface StoredRecord<T = unknown> {
+  version: number;
+  data: T;
+}
+
+type RecordData = Record<string, unknown>;
+
+export interface Migration {
+  // Schema version a record is at after this step has run
+  version: number;
+  description: string;
+  up: (data: RecordData) => RecordData;
+}
+
+export interface MigrationFailure {
+  store: StoreName;
+  key: string;
+  version: number;
+  error: string;
+}
+
+const isRecordData = (value: unknown): value is RecordData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A nested list a step rewrites; anything else fails the step so the stored original is kept
+const listOf = (data: RecordData, key: string): RecordData[] => {
+  const value = data[key];
+  if (!Array.isArray(value) || !value.every(isRecordData)) throw new Error(`${key} is not a list of records`);
+  return value;
+};
+
+const numberOr = (value: unknown, fallback: number) => typeof value === 'number' ? value : fallback;
+
+/**
+ * Ordered upgrade steps per store. Version 1 is the shape records had before
+ * versioning existed; append a step here whenever a persisted type changes
+ * instead of adding fallbacks where the field is read.
+ */
+export const MIGRATIONS: Record<StoreName, Migration[]> = {
+  products: [
+    {
+      version: 2,
+      description: 'Ensure every product carries a stock history list',
+      up: (p) => ({ ...p, stockHistory: Array.isArray(p.stockHistory) ? p.stockHistory : [] })
+    },
+    {
+      version: 3,
+      description: 'Add the pack-size unit list',
+      up: (p) => ({ ...p, units: Array.isArray(p.units) ? p.units : [] })
+    },
+    {
+      version: 4,
+      description: 'Add the stock lot list; existing stock stays untracked',
+      up: (p) => ({ ...p, lots: Array.isArray(p.lots) ? p.lots : [] })
+    }
+  ],
+  sales: [
+    {
+      version: 2,
+      description: 'Record returnedQuantity on every sale item',
+      up: (s) => ({
+        ...s,
+        items: listOf(s, 'items').map(item => ({ ...item, returnedQuantity: item.returnedQuantity || 0 }))
+      })
+    },
+    {
+      version: 3,
+      description: 'Earlier sales were all in base units',
+      up: (s) => ({
+        ...s,
+        items: listOf(s, 'items').map(item => ({ ...item, unitFactor: item.unitFactor || 1 }))
+      })
+    },
+    {
+      version: 4,
+      description: 'Sales before discounts were sold at full price',
+      up: (s) => ({
+        ...s,
+        items: listOf(s, 'items').map(item => ({ ...item, discount: item.discount || 0 })),
+        grossSubtotal: s.grossSubtotal ?? s.subtotal,
+        discountTotal: s.discountTotal || 0,
+        discounts: Array.isArray(s.discounts) ? s.discounts : []
+      })
+    },
+    {
+      version: 5,
+      description: 'Split the flat sales tax into a per-rate breakdown',
+      up: (s) => {
+        // Older sales were taxed at one rate on top of the subtotal
+        const subtotal = numberOr(s.subtotal, 0);
+        const tax = numberOr(s.tax, 0);
+        const share = subtotal > 0 ? tax / subtotal : 0;
+        return {
+          ...s,
+          items: listOf(s, 'items').map(item => ({ ...item, tax: item.tax ?? Math.round(numberOr(item.total, 0) * share * 100) / 100 })),
+          pricesIncludeTax: s.pricesIncludeTax ?? false,
+          taxLines: Array.isArray(s.taxLines) ? s.taxLines : tax > 0
+            ? [{ name: 'Sales Tax', percent: Math.round(share * 10000) / 100, taxable: subtotal, amount: tax }]
+            : []
+        };
+      }
+    },
+    {
+      version: 6,
+      description: 'Replace the single payment method with a list of payments',
+      up: ({ paymentMethod, ...s }) => ({
+        ...s,
+        payments: Array.isArray(s.payments) ? s.payments : [{ id: `PAY-${s.id}`, method: paymentMethod || 'Cash', amount: s.total }],
+        change: s.change || 0
+      })
+    }
+  ],
+  customers: [],
+  categories: [],
+  users: [],
+  roles: [],
+  promotions: [],
+  accountEntries: [],
+  loyaltyEntries: [],
+  parkedCarts: [],
+  quotations: [],
+  salesOrders: [],
+  suppliers: [],
+  purchaseOrders: [
+    {
+      version: 2,
+      description: 'Cost receipt lines at the order price and record their landed charges',
+      up: (o) => ({
+        ...o,
+        receipts: listOf(o, 'receipts').map(r => ({
+          ...r,
+          charges: Array.isArray(r.charges) ? r.charges : [],
+          lines: listOf(r, 'lines').map(l => {
+            const unitCost = l.unitCost ?? listOf(o, 'items').find(item => item.productId === l.productId)?.unitCost ?? 0;
+            return { ...l, unitCost, landedCost: l.landedCost ?? unitCost };
+          })
+        }))
+      })
+    }
+  ]
+};
+
+export const currentVersion = (store: StoreName): number =>
+  MIGRATIONS[store].reduce((latest, m) => Math.max(latest, m.version), 1);
+
+export const wrapRecord = <T>(store: StoreName, data: T): StoredRecord<T> => ({
+  version: currentVersion(store),
+  data
+});
+
+/**
+ * Runs every pending step for a record. Throws without touching the input
+ * when a step fails or the record was written by a newer schema, so the
+ * caller can leave the stored original in place.
+ */
+export const upgradeRecord = <K extends StoreName>(store: K, record: StoredRecord): Collections[K][number] => {
+  const target = currentVersion(store);
+  if (record.version > target) {
+    throw new Error(`Written by schema v${record.version}, this app only knows v${target}`);
+  }
+  if (!isRecordData(record.data)) throw new Error('Not a record');
+  const upgraded = MIGRATIONS[store]
+    .filter(m => m.version > record.version)
+    .sort((a, b) => a.version - b.version)
+    .reduce((data, m) => {
+      try {
+        return m.up(data);
+      } catch (err) {
+        throw new Error(`v${m.version} (${m.description}): ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }, record.data);
+  // Steps only fill in fields; the shape checks on import are what vouch for the rest
+  return upgraded as unknown as Collections[K][number];
+};
@@ -0,0 +1,55 @@
+import { Payment, PaymentMethod, Sale } from '../types';
+import { roundMoney } from './pricing';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['Cash', 'Card', 'Transfer', 'On Account', 'Points'];
+
+// Ways money comes in when a customer pays down their account
+export const COLLECTION_METHODS: PaymentMethod[] = ['Cash', 'Card', 'Transfer'];
+
+export class PaymentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentError';
+  }
+}
+
+export const amountPaid = (payments: Payment[]) => roundMoney(payments.reduce((acc, p) => acc + p.amount, 0));
+
+export const balanceDue = (total: number, payments: Payment[]) => roundMoney(Math.max(0, total - amountPaid(payments)));
+
+export const changeDue = (payments: Payment[]) =>
+  roundMoney(payments.reduce((acc, p) => acc + (p.tendered !== undefined ? p.tendered - p.amount : 0), 0));
+
+/**
+ * Builds the next payment towards a balance. A blank amount pays the whole
+ * balance. Only cash may exceed it: the excess is tendered and comes back
+ * as change. On Account payments must name the customer being charged.
+ */
+export const createPayment = (method: PaymentMethod, balance: number, entered?: number, reference?: string, customerId?: string): Payment => {
+  const offered = roundMoney(entered ?? balance);
+  if (!(offered > 0)) throw new PaymentError('Enter an amount greater than zero.');
+  if (balance <= 0) throw new PaymentError('Nothing is left to pay.');
+  if (method !== 'Cash' && offered > balance) {
+    throw new PaymentError(`${method} payments cannot be more than the $${balance.toFixed(2)} due.`);
+  }
+  if (method === 'Points') throw new PaymentError('Points are redeemed through the loyalty balance.');
+  if (method === 'On Account' && !customerId) {
+    throw new PaymentError('Select a saved customer to sell on account.');
+  }
+  const amount = Math.min(offered, balance);
+  return {
+    id: `PAY-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+    method,
+    amount,
+    ...(method === 'Cash' ? { tendered: offered } : {}),
+    ...(reference?.trim() ? { reference: reference.trim() } : {}),
+    ...(method === 'On Account' ? { customerId } : {})
+  };
+};
+
+// "Cash + Card" style label for lists
+export const paymentLabel = (sale: Pick<Sale, 'payments'>) =>
+  Array.from(new Set(sale.payments.map(p => p.method))).join(' + ') || 'Unpaid';
+
+export const onAccountTotal = (payments: Payment[]) =>
+  roundMoney(payments.filter(p => p.method === 'On Account').reduce((acc, p) => acc + p.amount, 0));
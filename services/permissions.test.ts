@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { Permission, Role, User, UserRole } from '../types';
+import { ADMIN_ROLE, DEFAULT_ROLES, hasPermission, resolveRole } from './permissions';
+
+const user = (role: string): User => ({ id: 'U1', username: 'sam', role, fullName: 'Sam' });
+
+describe('hasPermission', () => {
+  it('grants administrators everything, even when the role list is empty', () => {
+    Object.values(Permission).forEach(permission => expect(hasPermission([], user(UserRole.ADMIN), permission)).toBe(true));
+  });
+
+  it('grants only what the role lists', () => {
+    expect(hasPermission(DEFAULT_ROLES, user(UserRole.SALESPERSON), Permission.SALES_CREATE)).toBe(true);
+    expect(hasPermission(DEFAULT_ROLES, user(UserRole.SALESPERSON), Permission.SALES_DISCOUNT)).toBe(false);
+    expect(hasPermission(DEFAULT_ROLES, user(UserRole.SALESPERSON), Permission.CUSTOMERS_MANAGE)).toBe(false);
+  });
+
+  it('grants nothing for an unknown role or no user', () => {
+    expect(hasPermission(DEFAULT_ROLES, user('DELETED'), Permission.SALES_CREATE)).toBe(false);
+    expect(hasPermission(DEFAULT_ROLES, null, Permission.SALES_CREATE)).toBe(false);
+  });
+});
+
+describe('resolveRole', () => {
+  it('uses the fixed administrator role over a stored one with the same id', () => {
+    const stored: Role[] = [{ id: UserRole.ADMIN, name: 'Tampered', permissions: [] }];
+    expect(resolveRole(stored, UserRole.ADMIN)).toBe(ADMIN_ROLE);
+  });
+});
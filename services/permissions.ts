@@ -0,0 +1,70 @@
+import { Permission, Role, User, UserRole } from '../types';
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  [Permission.INVENTORY_EDIT]: 'Add & edit products and categories',
+  [Permission.INVENTORY_ADJUST]: 'Restock and adjust stock levels',
+  [Permission.INVENTORY_DELETE]: 'Archive and restore products',
+  [Permission.PRICING_EDIT]: 'Change buy price, margin and sell price',
+  [Permission.SALES_CREATE]: 'Ring up sales at the POS',
+  [Permission.SALES_REFUND]: 'Process returns and refunds',
+  [Permission.SALES_DISCOUNT]: 'Give line and cart discounts at the POS',
+  [Permission.PROMOTIONS_MANAGE]: 'Create and edit promotions',
+  [Permission.TAX_MANAGE]: 'Configure tax classes and rates',
+  [Permission.CUSTOMERS_MANAGE]: 'Edit, merge and import customers',
+  [Permission.ACCOUNTS_MANAGE]: 'Collect account payments and set credit limits',
+  [Permission.PURCHASING_MANAGE]: 'Manage suppliers and raise purchase orders',
+  [Permission.REPORTS_VIEW]: 'View business reports',
+  [Permission.USERS_MANAGE]: 'Manage staff accounts and roles',
+  [Permission.BACKUP_MANAGE]: 'Export and restore backups',
+  [Permission.AUDIT_VIEW]: 'View and export the audit log'
+};
+
+// The administrator role is fixed so the store can never lock itself out
+export const ADMIN_ROLE: Role = {
+  id: UserRole.ADMIN,
+  name: 'Administrator',
+  permissions: Object.values(Permission)
+};
+
+// Editable roles seeded into a new database
+export const DEFAULT_ROLES: Role[] = [
+  {
+    id: UserRole.SALESPERSON,
+    name: 'Salesperson',
+    permissions: [Permission.SALES_CREATE]
+  },
+  {
+    id: 'MANAGER',
+    name: 'Manager',
+    permissions: [
+      Permission.INVENTORY_EDIT,
+      Permission.INVENTORY_ADJUST,
+      Permission.PRICING_EDIT,
+      Permission.SALES_CREATE,
+      Permission.SALES_REFUND,
+      Permission.SALES_DISCOUNT,
+      Permission.PROMOTIONS_MANAGE,
+      Permission.CUSTOMERS_MANAGE,
+      Permission.ACCOUNTS_MANAGE,
+      Permission.PURCHASING_MANAGE,
+      Permission.REPORTS_VIEW
+    ]
+  },
+  {
+    id: 'STOCK_CLERK',
+    name: 'Stock Clerk',
+    permissions: [Permission.INVENTORY_EDIT, Permission.INVENTORY_ADJUST]
+  }
+];
+
+export const resolveRole = (roles: Role[], roleId: string): Role | undefined =>
+  roleId === ADMIN_ROLE.id ? ADMIN_ROLE : roles.find(r => r.id === roleId);
+
+/**
+ * The single check every screen and mutator goes through. Unknown roles
+ * (e.g. one deleted while a user still held it) grant nothing.
+ */
+export const hasPermission = (roles: Role[], user: User | null, permission: Permission): boolean => {
+  if (!user) return false;
+  return resolveRole(roles, user.role)?.permissions.includes(permission) ?? false;
+};
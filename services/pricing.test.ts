@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { Product, Promotion } from '../types';
+import { priceCart } from './pricing';
+import { createSaleItem } from './units';
+
+const product = (id: string, sellPrice: number, category = 'Grocery'): Product => ({
+  id, name: id, sku: id, category, buyPrice: 0, marginPercent: 0, sellPrice, stock: 0, minStock: 0,
+  description: '', lastRestocked: '2026-01-01T00:00:00Z', stockHistory: [], units: [{ id: 'CTN', name: 'Carton', factor: 24, price: sellPrice * 20 }], lots: []
+});
+
+const promotion = (deal: Partial<Promotion>): Promotion => ({
+  id: 'PROMO', name: 'Deal', type: 'BUY_X_GET_Y', active: true, productIds: ['A', 'B'], createdAt: '2026-01-01T00:00:00Z', ...deal
+});
+
+const at = new Date(2026, 5, 1);
+
+describe('priceCart', () => {
+  it('takes a line discount off its own line only', () => {
+    const a = product('A', 20);
+    const cart = [{ ...createSaleItem(a, 2), lineDiscount: { type: 'PERCENT' as const, value: 10 } }, createSaleItem(product('B', 5), 1)];
+    const priced = priceCart(cart, [], [], undefined, at);
+    expect(priced.items.map(i => i.total)).toEqual([36, 5]);
+    expect(priced.discountTotal).toBe(4);
+  });
+
+  it('gives the cheapest units of each group away free', () => {
+    const cart = [createSaleItem(product('A', 10), 2), createSaleItem(product('B', 4), 1)];
+    const priced = priceCart(cart, [], [promotion({ buyQuantity: 2, getQuantity: 1 })], undefined, at);
+    expect(priced.items.map(i => i.discount)).toEqual([0, 4]);
+    expect(priced.discounts).toMatchObject([{ source: 'PROMOTION', amount: 4, lineKeys: ['B'] }]);
+  });
+
+  it('leaves lines with their own discount out of promotions', () => {
+    const cart = [{ ...createSaleItem(product('A', 10), 3), lineDiscount: { type: 'FIXED' as const, value: 1 } }];
+    const priced = priceCart(cart, [], [promotion({ buyQuantity: 2, getQuantity: 1 })], undefined, at);
+    expect(priced.discounts.map(d => d.source)).toEqual(['LINE']);
+  });
+
+  it('counts pack sizes in base units towards a bundle', () => {
+    const a = product('A', 1);
+    const cart = [createSaleItem(a, 1, a.units[0]), createSaleItem(a, 1)];
+    // 25 base units make 5 bundles of 5 for $4; the carton's units cost $20/24 each
+    const priced = priceCart(cart, [], [promotion({ type: 'BUNDLE', bundleQuantity: 5, bundlePrice: 4 })], undefined, at);
+    expect(priced.discountTotal).toBe(1);
+    expect(priced.subtotal).toBe(20);
+  });
+
+  it('prices bulk quantities without expanding every unit', () => {
+    const a = product('A', 1);
+    const cart = [createSaleItem(a, 50000, a.units[0])];
+    // 1,200,000 units at $20/24 each, bundled in threes for $2
+    const priced = priceCart(cart, [], [promotion({ type: 'BUNDLE', bundleQuantity: 3, bundlePrice: 2 })], undefined, at);
+    expect(priced.discountTotal).toBe(200000);
+  });
+
+  it('skips promotions outside their date window', () => {
+    const cart = [createSaleItem(product('A', 10), 3)];
+    const priced = priceCart(cart, [], [promotion({ buyQuantity: 2, getQuantity: 1, endsAt: '2026-05-31' })], undefined, at);
+    expect(priced.discountTotal).toBe(0);
+  });
+
+  it('spreads the cart discount over what is left of each line', () => {
+    const cart = [createSaleItem(product('A', 30), 1), createSaleItem(product('B', 10), 1)];
+    const priced = priceCart(cart, [], [], { type: 'FIXED', value: 10 }, at);
+    expect(priced.items.map(i => i.discount)).toEqual([7.5, 2.5]);
+    expect(priced.subtotal).toBe(30);
+  });
+});
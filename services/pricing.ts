@@ -0,0 +1,237 @@
+import { AppliedDiscount, Discount, Product, Promotion, SaleItem } from '../types';
+import { lineKey } from './units';
+
+export interface PricedCart {
+  items: SaleItem[];
+  discounts: AppliedDiscount[];
+  grossSubtotal: number;
+  discountTotal: number;
+  subtotal: number;
+}
+
+// Amount taken off each line, keyed by lineKey
+type LineAmounts = Map<string, number>;
+
+// Base units of a cart line, priced each, so deals can mix pack sizes of the same product
+interface UnitRun {
+  key: string;
+  price: number;
+  count: number;
+}
+
+// A deal-sized group of units; `times` identical groups in a row are kept as one
+interface UnitGroup {
+  runs: UnitRun[];
+  times: number;
+}
+
+export const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export const lineGross = (item: Pick<SaleItem, 'quantity' | 'price'>) => roundMoney(item.quantity * item.price);
+
+// Never more than the amount it applies to, and never negative
+export const discountAmount = (discount: Discount, base: number) => {
+  const raw = discount.type === 'PERCENT' ? base * discount.value / 100 : discount.value;
+  return roundMoney(Math.min(base, Math.max(0, raw)));
+};
+
+export const describeDiscount = (discount: Discount) =>
+  discount.type === 'PERCENT' ? `${discount.value}% off` : `$${discount.value.toFixed(2)} off`;
+
+// Local calendar day, matching the dates entered on a promotion
+export const dayKey = (at: Date) =>
+  `${at.getFullYear()}-${String(at.getMonth() + 1).padStart(2, '0')}-${String(at.getDate()).padStart(2, '0')}`;
+
+export const isPromotionLive = (promotion: Promotion, at = new Date()) => {
+  const day = dayKey(at);
+  return promotion.active
+    && (!promotion.startsAt || promotion.startsAt <= day)
+    && (!promotion.endsAt || day <= promotion.endsAt);
+};
+
+export const describePromotion = (promotion: Promotion) => {
+  switch (promotion.type) {
+    case 'BUY_X_GET_Y':
+      return `Buy ${promotion.buyQuantity}, get ${promotion.getQuantity} free`;
+    case 'BUNDLE':
+      return `Any ${promotion.bundleQuantity} for $${(promotion.bundlePrice || 0).toFixed(2)}`;
+    case 'CATEGORY_PERCENT':
+      return `${promotion.percent}% off ${promotion.category}`;
+  }
+};
+
+const addAmount = (amounts: LineAmounts, key: string, amount: number) =>
+  amounts.set(key, (amounts.get(key) || 0) + amount);
+
+// Most expensive first, so each deal group is filled from the top
+const unitRuns = (lines: SaleItem[]): UnitRun[] =>
+  lines
+    .map(line => ({ key: lineKey(line), price: line.price / line.unitFactor, count: line.quantity * line.unitFactor }))
+    .filter(run => run.count > 0)
+    .sort((a, b) => b.price - a.price);
+
+/**
+ * Cuts the runs into complete groups of `size` units, dropping the short
+ * group at the end. Groups wholly inside one run are counted rather than
+ * listed, so a bulk quantity costs no more than a single unit.
+ */
+const groupUnits = (runs: UnitRun[], size: number): UnitGroup[] => {
+  const groups: UnitGroup[] = [];
+  let open: UnitRun[] = [];
+  let filled = 0;
+  runs.forEach(run => {
+    let left = run.count;
+    while (left > 0) {
+      if (filled === 0 && left >= size) {
+        const times = Math.floor(left / size);
+        groups.push({ runs: [{ ...run, count: size }], times });
+        left -= times * size;
+        continue;
+      }
+      const taken = Math.min(left, size - filled);
+      open.push({ ...run, count: taken });
+      filled += taken;
+      left -= taken;
+      if (filled === size) {
+        groups.push({ runs: open, times: 1 });
+        open = [];
+        filled = 0;
+      }
+    }
+  });
+  return groups;
+};
+
+const eligibleLines = (promotion: Promotion, lines: SaleItem[], products: Product[]) => {
+  if (promotion.type === 'CATEGORY_PERCENT') {
+    return lines.filter(line => products.find(p => p.id === line.productId)?.category === promotion.category);
+  }
+  return lines.filter(line => promotion.productIds.includes(line.productId));
+};
+
+// What a promotion would take off the given lines
+const evaluatePromotion = (promotion: Promotion, lines: SaleItem[]): LineAmounts => {
+  const amounts: LineAmounts = new Map();
+  switch (promotion.type) {
+    case 'CATEGORY_PERCENT':
+      lines.forEach(line => addAmount(amounts, lineKey(line), lineGross(line) * (promotion.percent || 0) / 100));
+      break;
+    case 'BUY_X_GET_Y': {
+      const buy = promotion.buyQuantity || 0;
+      const get = promotion.getQuantity || 0;
+      if (buy < 1 || get < 1) break;
+      // The cheapest units in each group are the free ones
+      groupUnits(unitRuns(lines), buy + get).forEach(group => {
+        let position = 0;
+        group.runs.forEach(run => {
+          const free = Math.max(0, position + run.count - Math.max(position, buy));
+          position += run.count;
+          if (free > 0) addAmount(amounts, run.key, run.price * free * group.times);
+        });
+      });
+      break;
+    }
+    case 'BUNDLE': {
+      const size = promotion.bundleQuantity || 0;
+      const price = promotion.bundlePrice || 0;
+      if (size < 1) break;
+      groupUnits(unitRuns(lines), size).forEach(group => {
+        const regular = group.runs.reduce((acc, run) => acc + run.price * run.count, 0);
+        const saving = regular - price;
+        if (saving <= 0) return;
+        group.runs.forEach(run => addAmount(amounts, run.key, saving * run.price * run.count / regular * group.times));
+      });
+      break;
+    }
+  }
+  return amounts;
+};
+
+const sumAmounts = (amounts: LineAmounts) => Array.from(amounts.values()).reduce((acc, v) => acc + v, 0);
+
+/**
+ * Spreads an amount over lines in proportion to their value. Rounding
+ * leftovers land on the largest line so the parts add up exactly.
+ */
+const allocate = (amount: number, weights: { key: string; value: number }[]): LineAmounts => {
+  const amounts: LineAmounts = new Map();
+  const totalWeight = weights.reduce((acc, w) => acc + w.value, 0);
+  if (amount <= 0 || totalWeight <= 0) return amounts;
+  weights.forEach(w => amounts.set(w.key, roundMoney(amount * w.value / totalWeight)));
+  const largest = weights.reduce((a, b) => (b.value > a.value ? b : a));
+  amounts.set(largest.key, roundMoney(amounts.get(largest.key)! + amount - sumAmounts(amounts)));
+  return amounts;
+};
+
+/**
+ * Prices a cart. Cart lines come in at full price; every discount is worked
+ * out here so the POS and the stored sale always agree:
+ *
+ * 1. A line discount entered by the cashier.
+ * 2. Promotions, best saving first. A line takes part in at most one
+ *    promotion, and lines with their own discount are left out.
+ * 3. The cart discount, on what is left, spread over the lines.
+ */
+export const priceCart = (
+  cart: SaleItem[],
+  products: Product[],
+  promotions: Promotion[],
+  cartDiscount?: Discount,
+  at = new Date()
+): PricedCart => {
+  const discounts: AppliedDiscount[] = [];
+  const taken: LineAmounts = new Map();
+
+  cart.forEach(line => {
+    if (!line.lineDiscount) return;
+    const amount = discountAmount(line.lineDiscount, lineGross(line));
+    if (amount <= 0) return;
+    addAmount(taken, lineKey(line), amount);
+    discounts.push({ source: 'LINE', label: line.lineDiscount.reason || describeDiscount(line.lineDiscount), amount, lineKeys: [lineKey(line)] });
+  });
+
+  let open = cart.filter(line => !line.lineDiscount);
+  let candidates = promotions.filter(p => isPromotionLive(p, at));
+  while (open.length > 0 && candidates.length > 0) {
+    const best = candidates
+      .map(promotion => {
+        const lines = eligibleLines(promotion, open, products);
+        const amounts = evaluatePromotion(promotion, lines);
+        return { promotion, lines, amounts, total: roundMoney(sumAmounts(amounts)) };
+      })
+      .reduce((a, b) => (b.total > a.total ? b : a));
+    if (best.total <= 0) break;
+
+    const rounded: LineAmounts = new Map();
+    best.amounts.forEach((amount, key) => rounded.set(key, roundMoney(amount)));
+    // Keep the per-line parts summing to the promotion total
+    const [firstKey] = rounded.keys();
+    rounded.set(firstKey, roundMoney(rounded.get(firstKey)! + best.total - sumAmounts(rounded)));
+    rounded.forEach((amount, key) => addAmount(taken, key, amount));
+    discounts.push({ source: 'PROMOTION', label: best.promotion.name, amount: best.total, promotionId: best.promotion.id, lineKeys: Array.from(rounded.keys()) });
+
+    const claimed = new Set(best.lines.map(lineKey));
+    open = open.filter(line => !claimed.has(lineKey(line)));
+    candidates = candidates.filter(p => p !== best.promotion);
+  }
+
+  if (cartDiscount) {
+    const weights = cart.map(line => ({ key: lineKey(line), value: roundMoney(lineGross(line) - (taken.get(lineKey(line)) || 0)) }));
+    const amount = discountAmount(cartDiscount, roundMoney(weights.reduce((acc, w) => acc + w.value, 0)));
+    const shares = allocate(amount, weights);
+    if (amount > 0) {
+      shares.forEach((share, key) => addAmount(taken, key, share));
+      discounts.push({ source: 'CART', label: cartDiscount.reason || describeDiscount(cartDiscount), amount, lineKeys: Array.from(shares.keys()) });
+    }
+  }
+
+  const items = cart.map(line => {
+    const gross = lineGross(line);
+    const discount = roundMoney(Math.min(gross, taken.get(lineKey(line)) || 0));
+    return { ...line, discount, total: roundMoney(gross - discount) };
+  });
+  const grossSubtotal = roundMoney(cart.reduce((acc, line) => acc + lineGross(line), 0));
+  const subtotal = roundMoney(items.reduce((acc, item) => acc + item.total, 0));
+
+  return { items, discounts, grossSubtotal, discountTotal: roundMoney(grossSubtotal - subtotal), subtotal };
+};
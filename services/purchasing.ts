@@ -0,0 +1,49 @@
+import { Product, PurchaseOrder, PurchaseOrderItem, PurchaseOrderStatus, ReceiptLine } from '../types';
+import { roundMoney } from './pricing';
+
+export class ReceiptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReceiptError';
+  }
+}
+
+export const remainingToReceive = (item: PurchaseOrderItem) => item.quantity - item.receivedQuantity;
+
+// Goods can only be booked in once the order has gone to the supplier
+export const canReceiveOrder = (order: PurchaseOrder) => order.status === 'SENT' || order.status === 'PARTIAL';
+
+export const purchaseOrderTotal = (order: PurchaseOrder) =>
+  roundMoney(order.items.reduce((acc, item) => acc + item.quantity * item.unitCost, 0));
+
+// What the received goods actually cost, charges included
+export const receivedValue = (order: PurchaseOrder) =>
+  roundMoney(order.receipts.reduce((acc, r) => acc + r.lines.reduce((sum, l) => sum + l.quantity * l.landedCost, 0), 0));
+
+// An order closes by itself once every line has arrived in full
+export const purchaseStatusFor = (items: PurchaseOrderItem[]): PurchaseOrderStatus => {
+  if (items.every(item => remainingToReceive(item) <= 0)) return 'CLOSED';
+  return items.some(item => item.receivedQuantity > 0) ? 'PARTIAL' : 'SENT';
+};
+
+/**
+ * Marks the received quantities on the order. Throws when a line is not on
+ * the order, more arrives than is still outstanding, or the product is gone.
+ */
+export const applyReceipt = (order: PurchaseOrder, lines: ReceiptLine[], products: Product[]): PurchaseOrderItem[] => {
+  if (!canReceiveOrder(order)) throw new ReceiptError('Only sent orders can be received.');
+  if (lines.length === 0) throw new ReceiptError('Enter a quantity for at least one line.');
+  lines.forEach(line => {
+    const item = order.items.find(i => i.productId === line.productId);
+    if (!item) throw new ReceiptError(`${line.productId} is not on this order.`);
+    if (!products.some(p => p.id === line.productId)) throw new ReceiptError(`${item.name} is no longer in the inventory.`);
+    if (!(line.unitCost >= 0)) throw new ReceiptError(`Enter the unit cost of ${item.name}.`);
+    if (line.quantity > remainingToReceive(item)) {
+      throw new ReceiptError(`Only ${remainingToReceive(item)} of ${item.name} is still outstanding.`);
+    }
+  });
+  return order.items.map(item => {
+    const line = lines.find(l => l.productId === item.productId);
+    return line ? { ...item, receivedQuantity: item.receivedQuantity + line.quantity } : item;
+  });
+};
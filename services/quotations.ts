@@ -0,0 +1,24 @@
+import { Quotation } from '../types';
+import { dayKey } from './pricing';
+
+export const DEFAULT_QUOTE_VALIDITY_DAYS = 14;
+
+export const validityDate = (days: number, from = new Date()) => {
+  const date = new Date(from);
+  date.setDate(date.getDate() + days);
+  return dayKey(date);
+};
+
+// Open quotations lapse the day after their validity date
+export const isQuotationLapsed = (quotation: Quotation, today = dayKey(new Date())) =>
+  (quotation.status === 'DRAFT' || quotation.status === 'SENT') && quotation.validUntil < today;
+
+export const canConvertQuotation = (quotation: Quotation) =>
+  quotation.status === 'DRAFT' || quotation.status === 'SENT';
+
+// A renewed quotation goes back to where it was before it lapsed
+export const renewQuotation = (quotation: Quotation, days = DEFAULT_QUOTE_VALIDITY_DAYS): Quotation => ({
+  ...quotation,
+  status: quotation.sentAt ? 'SENT' : 'DRAFT',
+  validUntil: validityDate(days)
+});
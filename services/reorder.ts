@@ -0,0 +1,73 @@
+import { Product, PurchaseOrder, ReorderSettings, Supplier } from '../types';
+import { remainingToReceive } from './purchasing';
+
+export const DEFAULT_REORDER_SETTINGS: ReorderSettings = {
+  salesWindowDays: 30,
+  leadTimeDays: 7,
+  safetyDays: 3,
+  coverDays: 14
+};
+
+export interface ReorderSuggestion {
+  product: Product;
+  supplierId?: string;
+  dailySales: number;
+  leadTimeDays: number;
+  reorderPoint: number;
+  available: number; // On hand less what open sales orders hold
+  onOrder: number;
+  quantity: number;
+}
+
+// Base units sold per day over the trailing window, order deliveries included
+export const averageDailySales = (product: Product, windowDays: number, now = new Date()) => {
+  if (windowDays <= 0) return 0;
+  const since = new Date(now.getTime() - windowDays * 86400000).toISOString();
+  const sold = product.stockHistory
+    .filter(log => log.type === 'SALE' && log.timestamp >= since)
+    .reduce((acc, log) => acc - log.amount, 0);
+  return sold / windowDays;
+};
+
+// Still to arrive on orders that are not closed; drafts count so a suggestion is not raised twice
+export const onOrderUnits = (orders: PurchaseOrder[], productId: string) =>
+  orders
+    .filter(o => o.status !== 'CLOSED')
+    .reduce((acc, o) => acc + o.items.filter(i => i.productId === productId).reduce((sum, i) => sum + Math.max(remainingToReceive(i), 0), 0), 0);
+
+/**
+ * Products whose available plus incoming stock has fallen to the reorder
+ * point: sales over the supplier's lead time plus the safety days, and never
+ * below the product's own minimum. Each suggestion tops stock up to cover
+ * `coverDays` more of sales past that point.
+ */
+export const reorderSuggestions = (
+  products: Product[],
+  suppliers: Supplier[],
+  orders: PurchaseOrder[],
+  reserved: Record<string, number>,
+  settings: ReorderSettings,
+  now = new Date()
+): ReorderSuggestion[] =>
+  products
+    .filter(p => !p.archivedAt)
+    .flatMap(product => {
+      const supplier = suppliers.find(s => s.id === product.supplierId);
+      const leadTimeDays = supplier?.leadTimeDays ?? settings.leadTimeDays;
+      const dailySales = averageDailySales(product, settings.salesWindowDays, now);
+      const reorderPoint = Math.max(Math.ceil(dailySales * (leadTimeDays + settings.safetyDays)), product.minStock);
+      const available = product.stock - (reserved[product.id] || 0);
+      const onOrder = onOrderUnits(orders, product.id);
+      if (available + onOrder > reorderPoint) return [];
+      const target = Math.max(reorderPoint + Math.ceil(dailySales * settings.coverDays), reorderPoint + 1);
+      return [{
+        product,
+        supplierId: supplier?.id,
+        dailySales,
+        leadTimeDays,
+        reorderPoint,
+        available,
+        onOrder,
+        quantity: target - available - onOrder
+      }];
+    });
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { Product, SalesOrder, SalesOrderItem } from '../types';
+import { DEFAULT_TAX_SETTINGS } from './tax';
+import { roundMoney } from './pricing';
+import { applyDelivery, invoiceLines, orderStatusFor, reservedStock } from './salesOrders';
+
+const product = (id: string, stock: number): Product => ({
+  id, name: id, sku: id, category: 'Grocery', buyPrice: 0, marginPercent: 0, sellPrice: 0, stock, minStock: 0,
+  description: '', lastRestocked: '2026-01-01T00:00:00Z', stockHistory: [], units: [], lots: []
+});
+
+const item = (productId: string, quantity: number, deliveredQuantity: number, unitFactor = 1, unitId?: string): SalesOrderItem => ({
+  productId, name: productId, quantity, price: 10, total: quantity * 10, returnedQuantity: 0, unitFactor, discount: 0, tax: 0, deliveredQuantity,
+  ...(unitId ? { unitId } : {})
+});
+
+const order = (items: SalesOrderItem[], status: SalesOrder['status'] = 'OPEN'): SalesOrder => ({
+  id: 'SO-1', createdAt: '2026-01-01T00:00:00Z', status, customerName: 'Asha', customerAddress: '', customerPhone: '0123',
+  items, grossSubtotal: 0, discountTotal: 0, discounts: [], subtotal: 0, tax: 0, total: 0, pricesIncludeTax: false, taxLines: [], deliveries: []
+});
+
+describe('reservedStock', () => {
+  it('holds what open orders still owe, in base units', () => {
+    const orders = [
+      order([item('A', 3, 1), item('A', 2, 0, 6, 'BOX')], 'PARTIAL'),
+      order([item('A', 5, 0)], 'CANCELLED')
+    ];
+    expect(reservedStock(orders)).toEqual({ A: 14 });
+  });
+});
+
+describe('applyDelivery', () => {
+  const open = order([item('A', 3, 1), item('B', 2, 0)], 'PARTIAL');
+
+  it('adds the delivered quantities to the order lines', () => {
+    const items = applyDelivery(open, [{ productId: 'A', quantity: 2 }], [product('A', 5)]);
+    expect(items.map(i => i.deliveredQuantity)).toEqual([3, 0]);
+    expect(orderStatusFor(items)).toBe('PARTIAL');
+  });
+
+  it('refuses more than is still owed or on the shelf', () => {
+    expect(() => applyDelivery(open, [{ productId: 'A', quantity: 3 }], [product('A', 5)])).toThrow('Only 2 of A is still to be delivered.');
+    expect(() => applyDelivery(open, [{ productId: 'B', quantity: 2 }], [product('B', 1)])).toThrow('Not enough B on hand for this delivery.');
+  });
+
+  it('refuses lines that are not on the order', () => {
+    expect(() => applyDelivery(open, [{ productId: 'C', quantity: 1 }], [product('C', 5)])).toThrow('C is not on this order.');
+  });
+});
+
+describe('invoiceLines', () => {
+  it('cuts a partly delivered order back to what went out and taxes it again', () => {
+    const partial = order([item('A', 4, 2), item('B', 2, 0)], 'CANCELLED');
+    const invoice = invoiceLines(partial, [product('A', 0), product('B', 0)], DEFAULT_TAX_SETTINGS);
+    expect(invoice.items).toHaveLength(1);
+    expect(invoice.items[0]).toMatchObject({ productId: 'A', quantity: 2, total: 20 });
+    expect(invoice.subtotal).toBe(20);
+    expect(invoice.tax).toBeGreaterThan(0);
+    expect(invoice.total).toBe(roundMoney(20 + invoice.tax));
+  });
+});
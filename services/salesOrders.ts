@@ -0,0 +1,112 @@
+import { DeliveryLine, Product, SaleItem, SalesOrder, SalesOrderItem, SalesOrderStatus, TaxSettings } from '../types';
+import { lineKey, sameLine } from './units';
+import { applyTax } from './tax';
+import { roundMoney } from './pricing';
+
+export class DeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeliveryError';
+  }
+}
+
+export const remainingQuantity = (item: SalesOrderItem) => item.quantity - item.deliveredQuantity;
+
+export const isOrderOpen = (order: SalesOrder) => order.status === 'OPEN' || order.status === 'PARTIAL';
+
+// Cancelled orders can still be invoiced for whatever went out before they were cancelled
+export const canInvoiceOrder = (order: SalesOrder) =>
+  !order.saleId && (order.status === 'FULFILLED' || (order.status === 'CANCELLED' && order.items.some(item => item.deliveredQuantity > 0)));
+
+/**
+ * Base units still owed to customers on open orders, by product. These are
+ * on the shelf but spoken for, so the POS and new orders cannot sell them.
+ */
+export const reservedStock = (orders: SalesOrder[]): Record<string, number> =>
+  orders.filter(isOrderOpen).reduce<Record<string, number>>((acc, order) => {
+    order.items.forEach(item => {
+      acc[item.productId] = (acc[item.productId] || 0) + remainingQuantity(item) * item.unitFactor;
+    });
+    return acc;
+  }, {});
+
+export const availableStock = (product: Product, reserved: Record<string, number>) =>
+  product.stock - (reserved[product.id] || 0);
+
+export const orderStatusFor = (items: SalesOrderItem[]): SalesOrderStatus => {
+  if (items.every(item => remainingQuantity(item) <= 0)) return 'FULFILLED';
+  return items.some(item => item.deliveredQuantity > 0) ? 'PARTIAL' : 'OPEN';
+};
+
+// Base units of one product leaving the shelf with a delivery
+export const deliveryUnits = (order: SalesOrder, lines: DeliveryLine[], productId: string) =>
+  lines.filter(l => l.productId === productId)
+    .reduce((acc, l) => acc + l.quantity * (order.items.find(item => sameLine(item, l))?.unitFactor || 1), 0);
+
+export const toOrderItems = (items: SaleItem[]): SalesOrderItem[] =>
+  items.map(item => ({ ...item, deliveredQuantity: 0 }));
+
+/**
+ * Marks the delivered quantities on the order. Throws when a line is not on
+ * the order, more goes out than is still owed, or the shelf is short.
+ */
+export const applyDelivery = (order: SalesOrder, lines: DeliveryLine[], products: Product[]): SalesOrderItem[] => {
+  if (!isOrderOpen(order)) throw new DeliveryError('Only open orders can be delivered.');
+  if (lines.length === 0) throw new DeliveryError('Enter a quantity for at least one line.');
+  const items = order.items.map(item => {
+    const line = lines.find(l => sameLine(l, item));
+    if (!line) return item;
+    if (line.quantity > remainingQuantity(item)) {
+      throw new DeliveryError(`Only ${remainingQuantity(item)} of ${item.name} is still to be delivered.`);
+    }
+    return { ...item, deliveredQuantity: item.deliveredQuantity + line.quantity };
+  });
+  lines.forEach(line => {
+    if (!order.items.some(item => sameLine(item, line))) throw new DeliveryError(`${lineKey(line)} is not on this order.`);
+  });
+  Array.from(new Set(lines.map(l => l.productId))).forEach(productId => {
+    const product = products.find(p => p.id === productId);
+    if (!product || deliveryUnits(order, lines, productId) > product.stock) {
+      throw new DeliveryError(`Not enough ${product?.name || 'stock'} on hand for this delivery.`);
+    }
+  });
+  return items;
+};
+
+/**
+ * Lines and totals to invoice. A fully delivered order is invoiced as it was
+ * priced; otherwise each line is cut back to what was delivered, keeping its
+ * share of the discounts, and tax is worked out again on what is left.
+ */
+export const invoiceLines = (order: SalesOrder, products: Product[], taxSettings: TaxSettings) => {
+  if (order.items.every(item => item.deliveredQuantity === item.quantity)) {
+    return {
+      items: order.items.map(({ deliveredQuantity, ...item }) => item),
+      grossSubtotal: order.grossSubtotal,
+      discountTotal: order.discountTotal,
+      discounts: order.discounts,
+      taxLines: order.taxLines,
+      subtotal: order.subtotal,
+      tax: order.tax,
+      total: order.total
+    };
+  }
+  const delivered = order.items
+    .filter(item => item.deliveredQuantity > 0)
+    .map(({ deliveredQuantity, ...item }) => {
+      const share = deliveredQuantity / item.quantity;
+      return { ...item, quantity: deliveredQuantity, total: roundMoney(item.total * share), discount: roundMoney(item.discount * share) };
+    });
+  const taxed = applyTax(delivered, products, { ...taxSettings, pricesIncludeTax: order.pricesIncludeTax }, !!order.taxExemptRef);
+  const discountTotal = roundMoney(delivered.reduce((acc, item) => acc + item.discount, 0));
+  return {
+    items: taxed.items,
+    grossSubtotal: roundMoney(delivered.reduce((acc, item) => acc + item.quantity * item.price, 0)),
+    discountTotal,
+    discounts: discountTotal > 0 ? [{ source: 'CART' as const, label: 'Order discounts on delivered goods', amount: discountTotal, lineKeys: delivered.map(lineKey) }] : [],
+    taxLines: taxed.taxLines,
+    subtotal: taxed.subtotal,
+    tax: taxed.tax,
+    total: taxed.total
+  };
+};
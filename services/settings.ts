@@ -0,0 +1,26 @@
+import { StoreSettings } from '../types';
+import { getMeta, putMeta } from './db';
+import { DEFAULT_TAX_SETTINGS } from './tax';
+import { DEFAULT_LOYALTY_SETTINGS } from './loyalty';
+import { DEFAULT_COSTING_SETTINGS } from './costing';
+import { DEFAULT_REORDER_SETTINGS } from './reorder';
+
+const SETTINGS_KEY = 'settings';
+
+export const DEFAULT_SETTINGS: StoreSettings = {
+  idleLockMinutes: 5,
+  parkedCartHours: 24,
+  tax: DEFAULT_TAX_SETTINGS,
+  loyalty: DEFAULT_LOYALTY_SETTINGS,
+  costing: DEFAULT_COSTING_SETTINGS,
+  reorder: DEFAULT_REORDER_SETTINGS
+};
+
+// Stored settings are merged over the defaults so new options pick up a value
+export const loadSettings = async (): Promise<StoreSettings> => {
+  const saved = await getMeta<Partial<StoreSettings>>(SETTINGS_KEY);
+  // Costing gained options after it was first saved, so it is merged a level deeper
+  return { ...DEFAULT_SETTINGS, ...saved, costing: { ...DEFAULT_SETTINGS.costing, ...saved?.costing } };
+};
+
+export const saveSettings = (settings: StoreSettings) => putMeta(SETTINGS_KEY, settings);
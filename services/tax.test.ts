@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { Product, SaleItem, TaxSettings } from '../types';
+import { applyTax, canExemptSale, taxClassFor } from './tax';
+
+const settings: TaxSettings = {
+  pricesIncludeTax: false,
+  classes: [
+    { id: 'STANDARD', name: 'Standard', rates: [{ id: 'VAT', name: 'VAT', percent: 10 }] },
+    { id: 'FOOD', name: 'Food', rates: [{ id: 'VAT5', name: 'VAT', percent: 5 }] }
+  ],
+  defaultClassId: 'STANDARD',
+  categoryClasses: { Grocery: 'FOOD' }
+};
+
+const product = (id: string, category: string, taxClassId?: string): Product => ({
+  id, name: id, sku: id, category, buyPrice: 0, marginPercent: 0, sellPrice: 0, stock: 0, minStock: 0,
+  description: '', lastRestocked: '2026-01-01T00:00:00Z', stockHistory: [], units: [], lots: [],
+  ...(taxClassId ? { taxClassId } : {})
+});
+
+const line = (productId: string, total: number): SaleItem => ({
+  productId, name: productId, quantity: 1, price: total, total, returnedQuantity: 0, unitFactor: 1, discount: 0, tax: 0
+});
+
+const products = [product('RICE', 'Grocery'), product('SOAP', 'Household'), product('SALT', 'Grocery', 'STANDARD')];
+
+describe('taxClassFor', () => {
+  it('prefers the product class, then the category class, then the default', () => {
+    expect(taxClassFor(settings, products[2])?.id).toBe('STANDARD');
+    expect(taxClassFor(settings, products[0])?.id).toBe('FOOD');
+    expect(taxClassFor(settings, products[1])?.id).toBe('STANDARD');
+  });
+
+  it('falls through a class that no longer exists', () => {
+    expect(taxClassFor(settings, product('X', 'Grocery', 'GONE'))?.id).toBe('FOOD');
+  });
+});
+
+describe('applyTax', () => {
+  it('adds tax on top of exclusive prices, one line per rate', () => {
+    const taxed = applyTax([line('RICE', 20), line('SOAP', 10)], products, settings, false);
+    expect(taxed.items.map(i => i.tax)).toEqual([1, 1]);
+    expect(taxed.taxLines).toEqual([
+      { name: 'VAT', percent: 5, taxable: 20, amount: 1 },
+      { name: 'VAT', percent: 10, taxable: 10, amount: 1 }
+    ]);
+    expect(taxed).toMatchObject({ subtotal: 30, tax: 2, total: 32 });
+  });
+
+  it('backs tax out of inclusive prices', () => {
+    const taxed = applyTax([line('SOAP', 11)], products, { ...settings, pricesIncludeTax: true }, false);
+    expect(taxed).toMatchObject({ subtotal: 10, tax: 1, total: 11 });
+  });
+
+  it('rounds each rate once over the whole sale', () => {
+    const taxed = applyTax([line('RICE', 0.1), line('RICE', 0.1), line('RICE', 0.1)], products, settings, false);
+    expect(taxed.tax).toBe(0.02);
+  });
+
+  it('charges nothing on an exempt sale', () => {
+    const taxed = applyTax([line('RICE', 20), line('SOAP', 10)], products, settings, true);
+    expect(taxed).toMatchObject({ taxLines: [], tax: 0, total: 30 });
+  });
+});
+
+describe('canExemptSale', () => {
+  it('lets anyone sell tax-free on the certificate the customer has on file', () => {
+    expect(canExemptSale('CERT-1', { taxExemptRef: 'CERT-1' }, false)).toBe(true);
+  });
+
+  it('needs the discount permission for any other certificate', () => {
+    expect(canExemptSale('CERT-2', { taxExemptRef: 'CERT-1' }, false)).toBe(false);
+    expect(canExemptSale('CERT-2', undefined, false)).toBe(false);
+    expect(canExemptSale('CERT-2', undefined, true)).toBe(true);
+  });
+
+  it('allows sales that claim no exemption', () => {
+    expect(canExemptSale(undefined, undefined, false)).toBe(true);
+  });
+});
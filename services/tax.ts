@@ -0,0 +1,76 @@
+import { Customer, Product, SaleItem, SaleTaxLine, TaxClass, TaxSettings } from '../types';
+import { TAX_RATE } from '../constants';
+import { roundMoney } from './pricing';
+
+export const DEFAULT_TAX_CLASS_ID = 'STANDARD';
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  pricesIncludeTax: false,
+  classes: [
+    { id: DEFAULT_TAX_CLASS_ID, name: 'Standard', rates: [{ id: 'SALES_TAX', name: 'Sales Tax', percent: TAX_RATE * 100 }] },
+    { id: 'ZERO', name: 'Zero Rated', rates: [] }
+  ],
+  defaultClassId: DEFAULT_TAX_CLASS_ID,
+  categoryClasses: {}
+};
+
+export interface TaxedCart {
+  items: SaleItem[];
+  taxLines: SaleTaxLine[];
+  subtotal: number; // Excluding tax
+  tax: number;
+  total: number;
+}
+
+/**
+ * The product's own class wins, then its category's, then the store
+ * default. A class id that no longer exists falls through to the next.
+ */
+export const taxClassFor = (settings: TaxSettings, product?: Pick<Product, 'taxClassId' | 'category'>): TaxClass | undefined => {
+  const find = (id?: string) => id ? settings.classes.find(c => c.id === id) : undefined;
+  return find(product?.taxClassId) || find(product ? settings.categoryClasses[product.category] : undefined) || find(settings.defaultClassId);
+};
+
+export const combinedPercent = (taxClass?: TaxClass) =>
+  (taxClass?.rates || []).reduce((acc, rate) => acc + rate.percent, 0);
+
+// Same name and percent file together, even when defined on different classes
+const rateKey = (name: string, percent: number) => `${name}@${percent}`;
+
+/**
+ * Works out tax on priced lines. In tax-inclusive mode line totals already
+ * hold the tax and it is backed out; otherwise it is added on top. Each
+ * rate is rounded once over the whole sale, so the breakdown matches what
+ * is filed.
+ */
+export const applyTax = (items: SaleItem[], products: Product[], settings: TaxSettings, exempt: boolean): TaxedCart => {
+  const lines = new Map<string, SaleTaxLine>();
+
+  const taxedItems = items.map(item => {
+    const taxClass = taxClassFor(settings, products.find(p => p.id === item.productId));
+    const rates = exempt ? [] : taxClass?.rates || [];
+    const percent = rates.reduce((acc, rate) => acc + rate.percent, 0);
+    const taxable = settings.pricesIncludeTax ? item.total / (1 + percent / 100) : item.total;
+    let itemTax = 0;
+    rates.forEach(rate => {
+      const amount = taxable * rate.percent / 100;
+      const key = rateKey(rate.name, rate.percent);
+      const line = lines.get(key) || { name: rate.name, percent: rate.percent, taxable: 0, amount: 0 };
+      lines.set(key, { ...line, taxable: line.taxable + taxable, amount: line.amount + amount });
+      itemTax += amount;
+    });
+    return { ...item, taxClassId: taxClass?.id, tax: roundMoney(itemTax) };
+  });
+
+  const taxLines = Array.from(lines.values()).map(line => ({ ...line, taxable: roundMoney(line.taxable), amount: roundMoney(line.amount) }));
+  const tax = roundMoney(taxLines.reduce((acc, line) => acc + line.amount, 0));
+  const lineTotal = roundMoney(items.reduce((acc, item) => acc + item.total, 0));
+
+  return settings.pricesIncludeTax
+    ? { items: taxedItems, taxLines, subtotal: roundMoney(lineTotal - tax), tax, total: lineTotal }
+    : { items: taxedItems, taxLines, subtotal: lineTotal, tax, total: roundMoney(lineTotal + tax) };
+};
+
+// Waiving tax needs the discount permission unless it is the customer's own certificate on file
+export const canExemptSale = (ref: string | undefined, customer: Pick<Customer, 'taxExemptRef'> | undefined, mayWaiveTax: boolean) =>
+  !ref || mayWaiveTax || customer?.taxExemptRef === ref;
@@ -0,0 +1,33 @@
+import { Product, ProductUnit, SaleItem } from '../types';
+
+type LineRef = { productId: string; unitId?: string };
+
+// The same product can sit on several lines of a sale, one per pack size
+export const lineKey = ({ productId, unitId }: LineRef) => unitId ? `${productId}:${unitId}` : productId;
+
+export const sameLine = (a: LineRef, b: LineRef) => lineKey(a) === lineKey(b);
+
+export const unitPrice = (product: Product, unit?: ProductUnit) =>
+  unit ? unit.price ?? product.sellPrice * unit.factor : product.sellPrice;
+
+export const baseQuantity = (item: Pick<SaleItem, 'quantity' | 'unitFactor'>) => item.quantity * item.unitFactor;
+
+// Base units of a product already committed across every line of a cart
+export const baseUnitsInCart = (items: SaleItem[], productId: string) =>
+  items.filter(item => item.productId === productId).reduce((acc, item) => acc + baseQuantity(item), 0);
+
+export const createSaleItem = (product: Product, quantity: number, unit?: ProductUnit): SaleItem => {
+  const price = unitPrice(product, unit);
+  return {
+    productId: product.id,
+    name: product.name,
+    quantity,
+    price,
+    total: quantity * price,
+    returnedQuantity: 0,
+    unitFactor: unit?.factor || 1,
+    discount: 0,
+    tax: 0,
+    ...(unit ? { unitId: unit.id, unitName: unit.name } : {})
+  };
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { validateRecord } from './validation';
+
+const customer = { id: 'C1', name: 'Asha', address: '', phone: '0123' };
+
+describe('validateRecord', () => {
+  it('accepts a record that matches its type', () => {
+    expect(validateRecord('customers', customer, 'customers[0]')).toEqual([]);
+  });
+
+  it('names each field that is missing or of the wrong type', () => {
+    expect(validateRecord('customers', { ...customer, phone: 123, creditPolicy: 'MAYBE' }, 'customers[0]')).toEqual([
+      'customers[0].phone is missing or invalid',
+      'customers[0].creditPolicy is missing or invalid'
+    ]);
+  });
+
+  it('reports values that are not objects at all', () => {
+    expect(validateRecord('customers', null, 'customers[1]')).toEqual(['customers[1] is not an object']);
+    expect(validateRecord('customers', ['C1'], 'customers[2]')).toEqual(['customers[2] is not an object']);
+  });
+
+  it('checks categories as plain names', () => {
+    expect(validateRecord('categories', 'Grocery', 'categories[0]')).toEqual([]);
+    expect(validateRecord('categories', '  ', 'categories[1]')).toEqual(['categories[1] is not a category name']);
+    expect(validateRecord('categories', { name: 'Grocery' }, 'categories[2]')).toEqual(['categories[2] is not a category name']);
+  });
+
+  it('accepts return credits on customer accounts', () => {
+    const entry = { id: 'A1', customerId: 'C1', timestamp: '2026-01-01T00:00:00Z', type: 'CREDIT', amount: 5, saleId: 'S1' };
+    expect(validateRecord('accountEntries', entry, 'accountEntries[0]')).toEqual([]);
+  });
+
+  it('only accepts known permissions on a role', () => {
+    expect(validateRecord('roles', { id: 'R', name: 'Clerk', permissions: ['sales.create'] }, 'roles[0]')).toEqual([]);
+    expect(validateRecord('roles', { id: 'R', name: 'Clerk', permissions: ['everything'] }, 'roles[0]')).toEqual(['roles[0].permissions is missing or invalid']);
+  });
+
+  it('checks the lines and charges of each goods receipt', () => {
+    const order = {
+      id: 'PO1', supplierId: 'SUP1', supplierName: 'Acme', createdAt: '2026-01-01T00:00:00Z', status: 'PARTIAL',
+      items: [{ productId: 'P1', name: 'Rice', quantity: 10, unitCost: 2, receivedQuantity: 4 }],
+      receipts: [{ id: 'R1', timestamp: '2026-01-02T00:00:00Z', lines: [{ productId: 'P1', quantity: 4, unitCost: 2 }], charges: [{ label: 'Freight' }] }]
+    };
+    expect(validateRecord('purchaseOrders', order, 'purchaseOrders[0]')).toEqual([
+      'purchaseOrders[0].receipts[0].lines[0].landedCost is missing or invalid',
+      'purchaseOrders[0].receipts[0].charges[0].amount is missing or invalid'
+    ]);
+  });
+});
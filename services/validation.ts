@@ -0,0 +1,465 @@
+import { Permission } from '../types';
+import { StoreName } from './db';
+
+/**
+ * Structural checks mirroring the interfaces in types.ts. Used on data that
+ * arrives from outside the app (backup files, imports) before it reaches state.
+ */
+type Check = (value: unknown) => boolean;
+
+type Fields = Record<string, unknown>;
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isFields = (v: unknown): v is Fields => typeof v === 'object' && v !== null && !Array.isArray(v);
+const optional = (check: Check): Check => (v) => v === undefined || v === null || check(v);
+const oneOf = (...values: string[]): Check => (v) => isString(v) && values.includes(v);
+
+type Shape = Record<string, Check>;
+
+const checkShape = (value: unknown, shape: Shape, path: string, errors: string[]) => {
+  if (!isFields(value)) {
+    errors.push(`${path} is not an object`);
+    return;
+  }
+  Object.entries(shape).forEach(([field, check]) => {
+    if (!check(value[field])) errors.push(`${path}.${field} is missing or invalid`);
+  });
+};
+
+const checkList = (value: unknown, shape: Shape, path: string, errors: string[]) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} is not a list`);
+    return;
+  }
+  value.forEach((item, idx) => checkShape(item, shape, `${path}[${idx}]`, errors));
+};
+
+// The records of a list that checkList has already passed
+const entries = (value: unknown): Fields[] => Array.isArray(value) ? value.filter(isFields) : [];
+
+// For lists nested inside a shape, where only pass or fail is reported
+const listOf = (shape: Shape): Check => (v) => {
+  const errors: string[] = [];
+  checkList(v, shape, '', errors);
+  return errors.length === 0;
+};
+
+const STOCK_LOG: Shape = {
+  id: isString,
+  timestamp: isString,
+  type: oneOf('RESTOCK', 'SALE', 'ADJUSTMENT', 'INITIAL', 'WRITE_OFF'),
+  amount: isNumber,
+  balance: isNumber,
+  reason: optional(isString),
+  purchaseOrderId: optional(isString),
+  unitCost: optional(isNumber),
+  lotId: optional(isString)
+};
+
+const STOCK_LOT: Shape = {
+  id: isString,
+  lotNumber: optional(isString),
+  expiryDate: optional(isString),
+  quantity: isNumber,
+  receivedAt: isString
+};
+
+const LOT_PICK: Shape = {
+  lotId: isString,
+  lotNumber: optional(isString),
+  expiryDate: optional(isString),
+  quantity: isNumber
+};
+
+const PRODUCT: Shape = {
+  id: isString,
+  name: isString,
+  sku: isString,
+  barcode: optional(isString),
+  category: isString,
+  buyPrice: isNumber,
+  marginPercent: isNumber,
+  sellPrice: isNumber,
+  stock: isNumber,
+  minStock: isNumber,
+  description: optional(isString),
+  lastRestocked: isString,
+  taxClassId: optional(isString),
+  archivedAt: optional(isString),
+  supplierId: optional(isString)
+};
+
+const PRODUCT_UNIT: Shape = {
+  id: isString,
+  name: isString,
+  barcode: optional(isString),
+  factor: (v) => isNumber(v) && v > 0,
+  price: optional(isNumber)
+};
+
+const DISCOUNT: Shape = {
+  type: oneOf('PERCENT', 'FIXED'),
+  value: isNumber,
+  reason: optional(isString)
+};
+
+const isDiscount: Check = (v) => {
+  const errors: string[] = [];
+  checkShape(v, DISCOUNT, 'discount', errors);
+  return errors.length === 0;
+};
+
+const APPLIED_DISCOUNT: Shape = {
+  source: oneOf('LINE', 'CART', 'PROMOTION'),
+  label: isString,
+  amount: isNumber,
+  promotionId: optional(isString),
+  lineKeys: (v) => Array.isArray(v) && v.every(isString)
+};
+
+const SALE_ITEM: Shape = {
+  productId: isString,
+  name: isString,
+  quantity: isNumber,
+  price: isNumber,
+  total: isNumber,
+  returnedQuantity: isNumber,
+  unitId: optional(isString),
+  unitName: optional(isString),
+  unitFactor: (v) => isNumber(v) && v > 0,
+  lineDiscount: optional(isDiscount),
+  discount: isNumber,
+  taxClassId: optional(isString),
+  tax: isNumber,
+  points: optional(isNumber),
+  cost: optional(isNumber),
+  lots: optional(listOf(LOT_PICK))
+};
+
+const SALE_TAX_LINE: Shape = {
+  name: isString,
+  percent: isNumber,
+  taxable: isNumber,
+  amount: isNumber
+};
+
+const PAYMENT: Shape = {
+  id: isString,
+  method: oneOf('Cash', 'Card', 'Transfer', 'On Account', 'Points'),
+  amount: isNumber,
+  tendered: optional(isNumber),
+  reference: optional(isString),
+  customerId: optional(isString),
+  points: optional(isNumber)
+};
+
+const SALE: Shape = {
+  id: isString,
+  timestamp: isString,
+  customerId: optional(isString),
+  customerName: optional(isString),
+  customerAddress: optional(isString),
+  customerPhone: optional(isString),
+  subtotal: isNumber,
+  grossSubtotal: isNumber,
+  discountTotal: isNumber,
+  cartDiscount: optional(isDiscount),
+  tax: isNumber,
+  total: isNumber,
+  pricesIncludeTax: (v) => typeof v === 'boolean',
+  taxExemptRef: optional(isString),
+  change: isNumber,
+  pointsEarned: optional(isNumber),
+  quotationId: optional(isString),
+  salesOrderId: optional(isString),
+  processedBy: optional(isString),
+  processedById: optional(isString)
+};
+
+const CUSTOMER: Shape = {
+  id: isString,
+  name: isString,
+  address: isString,
+  phone: isString,
+  email: optional(isString),
+  taxExemptRef: optional(isString),
+  creditLimit: optional(isNumber),
+  creditPolicy: optional(oneOf('BLOCK', 'WARN'))
+};
+
+const ACCOUNT_ENTRY: Shape = {
+  id: isString,
+  customerId: isString,
+  timestamp: isString,
+  type: oneOf('CHARGE', 'PAYMENT', 'CREDIT'),
+  amount: (v) => isNumber(v) && v > 0,
+  saleId: optional(isString),
+  method: optional(oneOf('Cash', 'Card', 'Transfer')),
+  reference: optional(isString),
+  note: optional(isString),
+  recordedBy: optional(isString),
+  recordedById: optional(isString)
+};
+
+const LOYALTY_ENTRY: Shape = {
+  id: isString,
+  customerId: isString,
+  timestamp: isString,
+  type: oneOf('EARN', 'REDEEM', 'EXPIRE', 'REVERSE'),
+  points: (v) => isNumber(v) && v > 0,
+  saleId: optional(isString),
+  lotId: optional(isString),
+  expiresAt: optional(isString)
+};
+
+const PARKED_CART: Shape = {
+  id: isString,
+  name: isString,
+  parkedAt: isString,
+  parkedBy: optional(isString),
+  parkedById: optional(isString),
+  cartDiscount: optional(isDiscount),
+  customerId: optional(isString),
+  customerName: isString,
+  customerAddress: isString,
+  customerPhone: isString,
+  taxExempt: (v) => typeof v === 'boolean',
+  taxExemptRef: isString,
+  quotationId: optional(isString)
+};
+
+const QUOTATION: Shape = {
+  id: isString,
+  createdAt: isString,
+  validUntil: isString,
+  status: oneOf('DRAFT', 'SENT', 'ACCEPTED', 'EXPIRED'),
+  sentAt: optional(isString),
+  customerId: optional(isString),
+  customerName: isString,
+  customerAddress: isString,
+  customerPhone: isString,
+  grossSubtotal: isNumber,
+  discountTotal: isNumber,
+  cartDiscount: optional(isDiscount),
+  subtotal: isNumber,
+  tax: isNumber,
+  total: isNumber,
+  pricesIncludeTax: (v) => typeof v === 'boolean',
+  taxExemptRef: optional(isString),
+  notes: optional(isString),
+  saleId: optional(isString),
+  createdBy: optional(isString),
+  createdById: optional(isString)
+};
+
+const SALES_ORDER_ITEM: Shape = {
+  ...SALE_ITEM,
+  deliveredQuantity: isNumber
+};
+
+const DELIVERY_LINE: Shape = {
+  productId: isString,
+  unitId: optional(isString),
+  quantity: (v) => isNumber(v) && v > 0
+};
+
+const DELIVERY: Shape = {
+  id: isString,
+  timestamp: isString,
+  note: optional(isString),
+  deliveredBy: optional(isString),
+  deliveredById: optional(isString)
+};
+
+const SALES_ORDER: Shape = {
+  id: isString,
+  createdAt: isString,
+  status: oneOf('OPEN', 'PARTIAL', 'FULFILLED', 'INVOICED', 'CANCELLED'),
+  customerId: optional(isString),
+  customerName: isString,
+  customerAddress: isString,
+  customerPhone: isString,
+  grossSubtotal: isNumber,
+  discountTotal: isNumber,
+  cartDiscount: optional(isDiscount),
+  subtotal: isNumber,
+  tax: isNumber,
+  total: isNumber,
+  pricesIncludeTax: (v) => typeof v === 'boolean',
+  taxExemptRef: optional(isString),
+  notes: optional(isString),
+  saleId: optional(isString),
+  cancelledAt: optional(isString),
+  createdBy: optional(isString),
+  createdById: optional(isString)
+};
+
+const SUPPLIER: Shape = {
+  id: isString,
+  name: isString,
+  contactName: optional(isString),
+  phone: isString,
+  email: optional(isString),
+  address: isString,
+  notes: optional(isString),
+  leadTimeDays: optional(isNumber)
+};
+
+const PURCHASE_ORDER_ITEM: Shape = {
+  productId: isString,
+  name: isString,
+  quantity: (v) => isNumber(v) && v > 0,
+  unitCost: isNumber,
+  receivedQuantity: isNumber
+};
+
+const RECEIPT_LINE: Shape = {
+  productId: isString,
+  quantity: (v) => isNumber(v) && v > 0,
+  unitCost: isNumber,
+  landedCost: isNumber,
+  lotNumber: optional(isString),
+  expiryDate: optional(isString)
+};
+
+const LANDED_CHARGE: Shape = {
+  label: isString,
+  amount: isNumber
+};
+
+const PURCHASE_RECEIPT: Shape = {
+  id: isString,
+  timestamp: isString,
+  note: optional(isString),
+  receivedBy: optional(isString),
+  receivedById: optional(isString)
+};
+
+const PURCHASE_ORDER: Shape = {
+  id: isString,
+  supplierId: isString,
+  supplierName: isString,
+  createdAt: isString,
+  status: oneOf('DRAFT', 'SENT', 'PARTIAL', 'CLOSED'),
+  expectedDate: optional(isString),
+  sentAt: optional(isString),
+  closedAt: optional(isString),
+  notes: optional(isString),
+  createdBy: optional(isString),
+  createdById: optional(isString)
+};
+
+const USER_ACCOUNT: Shape = {
+  id: isString,
+  username: isString,
+  fullName: isString,
+  role: isString,
+  passwordHash: isString,
+  pinHash: optional(isString),
+  active: (v) => typeof v === 'boolean',
+  createdAt: isString
+};
+
+const PROMOTION: Shape = {
+  id: isString,
+  name: isString,
+  type: oneOf('BUY_X_GET_Y', 'BUNDLE', 'CATEGORY_PERCENT'),
+  active: (v) => typeof v === 'boolean',
+  productIds: (v) => Array.isArray(v) && v.every(isString),
+  category: optional(isString),
+  buyQuantity: optional(isNumber),
+  getQuantity: optional(isNumber),
+  bundleQuantity: optional(isNumber),
+  bundlePrice: optional(isNumber),
+  percent: optional(isNumber),
+  startsAt: optional(isString),
+  endsAt: optional(isString),
+  createdAt: isString
+};
+
+const ROLE: Shape = {
+  id: isString,
+  name: isString,
+  permissions: (v) => Array.isArray(v) && v.every(p => (Object.values(Permission) as unknown[]).includes(p))
+};
+
+/**
+ * Returns a readable list of problems with a record; an empty list means the
+ * record matches its type.
+ */
+export const validateRecord = (store: StoreName, record: unknown, path: string): string[] => {
+  if (store === 'categories') {
+    return isString(record) && record.trim() ? [] : [`${path} is not a category name`];
+  }
+  if (!isFields(record)) return [`${path} is not an object`];
+  const errors: string[] = [];
+  switch (store) {
+    case 'products':
+      checkShape(record, PRODUCT, path, errors);
+      if (errors.length === 0) checkList(record.stockHistory, STOCK_LOG, `${path}.stockHistory`, errors);
+      if (errors.length === 0) checkList(record.units, PRODUCT_UNIT, `${path}.units`, errors);
+      if (errors.length === 0) checkList(record.lots, STOCK_LOT, `${path}.lots`, errors);
+      break;
+    case 'sales':
+      checkShape(record, SALE, path, errors);
+      if (errors.length === 0) checkList(record.items, SALE_ITEM, `${path}.items`, errors);
+      if (errors.length === 0) checkList(record.discounts, APPLIED_DISCOUNT, `${path}.discounts`, errors);
+      if (errors.length === 0) checkList(record.taxLines, SALE_TAX_LINE, `${path}.taxLines`, errors);
+      if (errors.length === 0) checkList(record.payments, PAYMENT, `${path}.payments`, errors);
+      break;
+    case 'customers':
+      checkShape(record, CUSTOMER, path, errors);
+      break;
+    case 'users':
+      checkShape(record, USER_ACCOUNT, path, errors);
+      break;
+    case 'roles':
+      checkShape(record, ROLE, path, errors);
+      break;
+    case 'promotions':
+      checkShape(record, PROMOTION, path, errors);
+      break;
+    case 'accountEntries':
+      checkShape(record, ACCOUNT_ENTRY, path, errors);
+      break;
+    case 'loyaltyEntries':
+      checkShape(record, LOYALTY_ENTRY, path, errors);
+      break;
+    case 'parkedCarts':
+      checkShape(record, PARKED_CART, path, errors);
+      if (errors.length === 0) checkList(record.items, SALE_ITEM, `${path}.items`, errors);
+      break;
+    case 'salesOrders':
+      checkShape(record, SALES_ORDER, path, errors);
+      if (errors.length === 0) checkList(record.items, SALES_ORDER_ITEM, `${path}.items`, errors);
+      if (errors.length === 0) checkList(record.discounts, APPLIED_DISCOUNT, `${path}.discounts`, errors);
+      if (errors.length === 0) checkList(record.taxLines, SALE_TAX_LINE, `${path}.taxLines`, errors);
+      if (errors.length === 0) checkList(record.deliveries, DELIVERY, `${path}.deliveries`, errors);
+      if (errors.length === 0) {
+        entries(record.deliveries).forEach((d, idx) => checkList(d.lines, DELIVERY_LINE, `${path}.deliveries[${idx}].lines`, errors));
+      }
+      break;
+    case 'suppliers':
+      checkShape(record, SUPPLIER, path, errors);
+      break;
+    case 'purchaseOrders':
+      checkShape(record, PURCHASE_ORDER, path, errors);
+      if (errors.length === 0) checkList(record.items, PURCHASE_ORDER_ITEM, `${path}.items`, errors);
+      if (errors.length === 0) checkList(record.receipts, PURCHASE_RECEIPT, `${path}.receipts`, errors);
+      if (errors.length === 0) {
+        entries(record.receipts).forEach((r, idx) => {
+          checkList(r.lines, RECEIPT_LINE, `${path}.receipts[${idx}].lines`, errors);
+          checkList(r.charges, LANDED_CHARGE, `${path}.receipts[${idx}].charges`, errors);
+        });
+      }
+      break;
+    case 'quotations':
+      checkShape(record, QUOTATION, path, errors);
+      if (errors.length === 0) checkList(record.items, SALE_ITEM, `${path}.items`, errors);
+      if (errors.length === 0) checkList(record.discounts, APPLIED_DISCOUNT, `${path}.discounts`, errors);
+      if (errors.length === 0) checkList(record.taxLines, SALE_TAX_LINE, `${path}.taxLines`, errors);
+      break;
+  }
+  return errors;
+};
@@ -2,16 +2,46 @@
 export interface StockLog {
   id: string;
   timestamp: string;
-  type: 'RESTOCK' | 'SALE' | 'ADJUSTMENT' | 'INITIAL';
+  type: 'RESTOCK' | 'SALE' | 'ADJUSTMENT' | 'INITIAL' | 'WRITE_OFF';
   amount: number;
   balance: number;
   reason?: string;
+  purchaseOrderId?: string; // RESTOCK: purchase order the goods were received against
+  unitCost?: number; // RESTOCK: landed cost per base unit, when it was recorded
+  lotId?: string; // RESTOCK into or WRITE_OFF of a single lot
+}
+
+// Stock received together under one batch number and expiry date
+export interface StockLot {
+  id: string;
+  lotNumber?: string;
+  expiryDate?: string; // YYYY-MM-DD; the lot is expired from the following day
+  quantity: number; // Base units still on hand
+  receivedAt: string;
+}
+
+// Base units a sale line took from one lot, kept so returns can go back to it
+export interface LotPick {
+  lotId: string;
+  lotNumber?: string;
+  expiryDate?: string;
+  quantity: number;
+}
+
+// A pack size sold under its own barcode, e.g. a 6-pack or carton of the base unit
+export interface ProductUnit {
+  id: string;
+  name: string;
+  barcode?: string;
+  factor: number; // Base units per pack
+  price?: number; // Defaults to sellPrice x factor
 }
 
 export interface Product {
   id: string;
   name: string;
   sku: string;
+  barcode?: string; // Scanned code (EAN/UPC) when it differs from the SKU
   category: string;
   buyPrice: number;
   marginPercent: number;
@@ -21,6 +51,11 @@ export interface Product {
   description: string;
   lastRestocked: string;
   stockHistory: StockLog[];
+  units: ProductUnit[];
+  taxClassId?: string; // Overrides the class set for the product's category
+  archivedAt?: string; // Archived products leave POS and the default inventory list but keep their history
+  supplierId?: string; // Preferred supplier; reorder suggestions are grouped by it
+  lots: StockLot[]; // Tracked part of stock; whatever stock exceeds their total has no lot
 }
 
 export interface Customer {
@@ -29,6 +64,50 @@ export interface Customer {
   address: string;
   phone: string;
   email?: string;
+  taxExemptRef?: string; // Exemption certificate; present only for tax-exempt customers
+  creditLimit?: number; // Most the customer may owe on account; absent means no limit
+  creditPolicy?: CreditPolicy; // What checkout does when a charge would pass the limit
+}
+
+export type CreditPolicy = 'BLOCK' | 'WARN';
+
+export type AccountEntryType = 'CHARGE' | 'PAYMENT' | 'CREDIT';
+
+// One line of a customer's credit ledger; the balance is charges less payments and credits
+export interface AccountEntry {
+  id: string;
+  customerId: string;
+  timestamp: string;
+  type: AccountEntryType;
+  amount: number; // Always positive
+  saleId?: string; // CHARGE: the sale put on account; CREDIT: the sale goods were returned from
+  method?: PaymentMethod; // PAYMENT: how the money was collected
+  reference?: string;
+  note?: string;
+  recordedBy?: string;
+  recordedById?: string;
+}
+
+export interface LoyaltySettings {
+  enabled: boolean;
+  pointsPerUnit: number; // Points earned per currency unit spent
+  categoryMultipliers: Record<string, number>; // Category name -> multiplier; unlisted categories earn 1x
+  pointValue: number; // Currency value of one point when redeemed
+  expiryDays: number; // 0 means points never expire
+}
+
+export type LoyaltyEntryType = 'EARN' | 'REDEEM' | 'EXPIRE' | 'REVERSE';
+
+// One line of a customer's points log; the balance is earned less everything else
+export interface LoyaltyEntry {
+  id: string;
+  customerId: string;
+  timestamp: string;
+  type: LoyaltyEntryType;
+  points: number; // Always positive
+  saleId?: string;
+  lotId?: string; // EXPIRE and REVERSE: the EARN entry the points come out of
+  expiresAt?: string; // EARN only
 }
 
 export interface SaleItem {
@@ -36,41 +115,433 @@ export interface SaleItem {
   name: string;
   quantity: number;
   price: number;
-  total: number;
-  returnedQuantity?: number;
+  total: number; // quantity x price less discount
+  returnedQuantity: number; // In the same unit as quantity
+  unitId?: string; // Absent when sold in the base unit
+  unitName?: string;
+  unitFactor: number; // Base units taken from stock per quantity
+  lineDiscount?: Discount; // Entered by the cashier for this line
+  discount: number; // Everything taken off this line: its own discount, promotions and its share of the cart discount
+  taxClassId?: string;
+  tax: number; // Tax contained in or added to total
+  points?: number; // Loyalty points earned on this line
+  cost?: number; // Cost of goods for the whole line when it left the shelf; absent on older sales
+  lots?: LotPick[]; // Lots the line was picked from, first expiry first
+}
+
+export type DiscountType = 'PERCENT' | 'FIXED';
+
+export interface Discount {
+  type: DiscountType;
+  value: number; // Percent off, or an amount off the whole line/cart
+  reason?: string;
+}
+
+export type AppliedDiscountSource = 'LINE' | 'CART' | 'PROMOTION';
+
+// One entry per discount that changed the price of a sale, kept for reporting
+export interface AppliedDiscount {
+  source: AppliedDiscountSource;
+  label: string;
+  amount: number;
+  promotionId?: string;
+  lineKeys: string[]; // Lines the amount was taken from
+}
+
+// One component of a tax class, e.g. the state or central part of GST
+export interface TaxRate {
+  id: string;
+  name: string;
+  percent: number;
+}
+
+export interface TaxClass {
+  id: string;
+  name: string;
+  rates: TaxRate[]; // Empty for zero-rated goods
+}
+
+export interface TaxSettings {
+  pricesIncludeTax: boolean; // Sell prices already contain tax; it is backed out rather than added
+  classes: TaxClass[];
+  defaultClassId: string;
+  categoryClasses: Record<string, string>; // Category name to class id
+}
+
+// Tax collected at one rate on a sale, as needed for filing
+export interface SaleTaxLine {
+  name: string;
+  percent: number;
+  taxable: number; // Amount the rate was charged on, excluding tax
+  amount: number;
+}
+
+export type PromotionType = 'BUY_X_GET_Y' | 'BUNDLE' | 'CATEGORY_PERCENT';
+
+export interface Promotion {
+  id: string;
+  name: string;
+  type: PromotionType;
+  active: boolean;
+  productIds: string[]; // BUY_X_GET_Y and BUNDLE: products that count towards the deal
+  category?: string; // CATEGORY_PERCENT
+  buyQuantity?: number; // BUY_X_GET_Y: units paid for...
+  getQuantity?: number; // ...and units given free on top, cheapest first
+  bundleQuantity?: number; // BUNDLE: this many units...
+  bundlePrice?: number; // ...sell together for this price
+  percent?: number; // CATEGORY_PERCENT
+  startsAt?: string; // Inclusive date window (YYYY-MM-DD); open-ended when absent
+  endsAt?: string;
+  createdAt: string;
+}
+
+export interface ReturnLine {
+  productId: string;
+  unitId?: string;
+  quantity: number;
+}
+
+export type PaymentMethod = 'Cash' | 'Card' | 'Transfer' | 'On Account' | 'Points';
+
+export interface Payment {
+  id: string;
+  method: PaymentMethod;
+  amount: number; // Applied to the sale; cash change is not included
+  tendered?: number; // Cash: what the customer handed over
+  reference?: string; // Card approval code or transfer reference
+  customerId?: string; // On Account and Points: the customer charged
+  points?: number; // Points: how many were redeemed for amount
 }
 
 export interface Sale {
   id: string;
   timestamp: string;
+  customerId?: string; // Saved customer the sale belongs to; the fields below are what the receipt printed
   customerName?: string;
   customerAddress?: string;
   customerPhone?: string;
   items: SaleItem[];
-  subtotal: number;
+  grossSubtotal: number; // Sum of quantity x price before any discount
+  discountTotal: number;
+  discounts: AppliedDiscount[];
+  cartDiscount?: Discount;
+  subtotal: number; // After discounts, excluding tax
   tax: number;
   total: number;
-  paymentMethod: 'Cash' | 'Card' | 'Transfer';
+  pricesIncludeTax: boolean;
+  taxLines: SaleTaxLine[];
+  taxExemptRef?: string; // Set when the sale was made tax-free
+  payments: Payment[];
+  change: number; // Cash handed back
+  pointsEarned?: number; // Loyalty points credited to the customer
+  quotationId?: string; // Quotation the sale was converted from
+  salesOrderId?: string; // Set on the invoice raised for a sales order
   processedBy?: string; // Track which user made the sale
+  processedById?: string;
+}
+
+export type SalesOrderStatus = 'OPEN' | 'PARTIAL' | 'FULFILLED' | 'INVOICED' | 'CANCELLED';
+
+export interface SalesOrderItem extends SaleItem {
+  deliveredQuantity: number; // In the same unit as quantity
 }
 
+export interface DeliveryLine {
+  productId: string;
+  unitId?: string;
+  quantity: number; // In the order line's unit
+}
+
+// One delivery note: what went out against an order in a single trip
+export interface Delivery {
+  id: string;
+  timestamp: string;
+  lines: DeliveryLine[];
+  note?: string;
+  deliveredBy?: string;
+  deliveredById?: string;
+}
+
+// Goods ordered ahead of delivery; undelivered quantities are reserved out of stock
+export interface SalesOrder {
+  id: string;
+  createdAt: string;
+  status: SalesOrderStatus;
+  customerId?: string;
+  customerName: string;
+  customerAddress: string;
+  customerPhone: string;
+  items: SalesOrderItem[];
+  grossSubtotal: number;
+  discountTotal: number;
+  discounts: AppliedDiscount[];
+  cartDiscount?: Discount;
+  subtotal: number;
+  tax: number;
+  total: number;
+  pricesIncludeTax: boolean;
+  taxLines: SaleTaxLine[];
+  taxExemptRef?: string;
+  deliveries: Delivery[];
+  notes?: string;
+  saleId?: string; // Invoice raised for what was delivered
+  cancelledAt?: string;
+  createdBy?: string;
+  createdById?: string;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName?: string;
+  phone: string;
+  email?: string;
+  address: string;
+  notes?: string;
+  leadTimeDays?: number; // Days from ordering to delivery; absent uses the store default
+}
+
+export type PurchaseOrderStatus = 'DRAFT' | 'SENT' | 'PARTIAL' | 'CLOSED';
+
+export interface PurchaseOrderItem {
+  productId: string;
+  name: string;
+  quantity: number; // Base units ordered
+  unitCost: number; // Agreed buy price per base unit
+  receivedQuantity: number;
+}
+
+export interface ReceiptLine {
+  productId: string;
+  quantity: number; // Base units
+  unitCost: number; // Supplier's price per base unit on this delivery
+  landedCost: number; // unitCost plus the line's share of the receipt's charges
+  lotNumber?: string;
+  expiryDate?: string; // YYYY-MM-DD
+}
+
+// Freight, duties and other costs of getting a delivery onto the shelf
+export interface LandedCharge {
+  label: string;
+  amount: number;
+}
+
+// Goods that arrived against a purchase order in one shipment
+export interface PurchaseReceipt {
+  id: string;
+  timestamp: string;
+  lines: ReceiptLine[];
+  charges: LandedCharge[];
+  note?: string;
+  receivedBy?: string;
+  receivedById?: string;
+}
+
+// Stock ordered from a supplier; receiving it restocks the products
+export interface PurchaseOrder {
+  id: string;
+  supplierId: string;
+  supplierName: string;
+  createdAt: string;
+  status: PurchaseOrderStatus;
+  expectedDate?: string; // YYYY-MM-DD
+  sentAt?: string;
+  closedAt?: string;
+  items: PurchaseOrderItem[];
+  receipts: PurchaseReceipt[];
+  notes?: string;
+  createdBy?: string;
+  createdById?: string;
+}
+
+export type QuotationStatus = 'DRAFT' | 'SENT' | 'ACCEPTED' | 'EXPIRED';
+
+// Prices offered to a customer ahead of a sale; no stock is taken or held for it
+export interface Quotation {
+  id: string;
+  createdAt: string;
+  validUntil: string; // Last day the offer stands, as YYYY-MM-DD
+  status: QuotationStatus;
+  sentAt?: string;
+  customerId?: string;
+  customerName: string;
+  customerAddress: string;
+  customerPhone: string;
+  items: SaleItem[];
+  grossSubtotal: number;
+  discountTotal: number;
+  discounts: AppliedDiscount[];
+  cartDiscount?: Discount;
+  subtotal: number;
+  tax: number;
+  total: number;
+  pricesIncludeTax: boolean;
+  taxLines: SaleTaxLine[];
+  taxExemptRef?: string;
+  notes?: string;
+  saleId?: string; // Set once the quotation is converted
+  createdBy?: string;
+  createdById?: string;
+}
+
+// A POS cart set aside so the cashier can serve someone else; no stock is held for it
+export interface ParkedCart {
+  id: string;
+  name: string;
+  parkedAt: string;
+  parkedBy?: string;
+  parkedById?: string;
+  items: SaleItem[];
+  cartDiscount?: Discount;
+  customerId?: string;
+  customerName: string;
+  customerAddress: string;
+  customerPhone: string;
+  taxExempt: boolean;
+  taxExemptRef: string;
+  quotationId?: string; // Quotation being converted when the cart was parked
+}
+
+// Ids of the roles every store starts with; custom roles get generated ids
 export enum UserRole {
   ADMIN = 'ADMIN',
   SALESPERSON = 'SALESPERSON'
 }
 
+export enum Permission {
+  INVENTORY_EDIT = 'inventory.edit',
+  INVENTORY_ADJUST = 'inventory.adjust',
+  INVENTORY_DELETE = 'inventory.delete',
+  PRICING_EDIT = 'pricing.edit',
+  SALES_CREATE = 'sales.create',
+  SALES_REFUND = 'sales.refund',
+  SALES_DISCOUNT = 'sales.discount',
+  PROMOTIONS_MANAGE = 'promotions.manage',
+  TAX_MANAGE = 'tax.manage',
+  CUSTOMERS_MANAGE = 'customers.manage',
+  ACCOUNTS_MANAGE = 'accounts.manage',
+  PURCHASING_MANAGE = 'purchasing.manage',
+  REPORTS_VIEW = 'reports.view',
+  USERS_MANAGE = 'users.manage',
+  BACKUP_MANAGE = 'backup.manage',
+  AUDIT_VIEW = 'audit.view'
+}
+
+export interface Role {
+  id: string;
+  name: string;
+  permissions: Permission[];
+}
+
 export interface User {
   id: string;
   username: string;
-  role: UserRole;
+  role: string; // Role id
   fullName: string;
 }
 
+// Stored directory entry; only the User fields are kept in the active session
+export interface UserAccount extends User {
+  passwordHash: string; // pbkdf2$<iterations>$<salt>$<hash>
+  pinHash?: string; // Same format; unlocks the lock screen
+  active: boolean;
+  createdAt: string;
+}
+
+export interface Session {
+  token: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+  lockedAt?: string;
+}
+
+export type SessionEventType = 'LOGIN' | 'LOGOUT' | 'LOCK' | 'UNLOCK' | 'SWITCH';
+
+export interface SessionEvent {
+  id: string;
+  timestamp: string;
+  type: SessionEventType;
+  userId: string;
+  userName: string;
+  previousUserId?: string; // SWITCH: the cashier who was signed in before
+  previousUserName?: string;
+  reason?: string;
+}
+
+export type AuditAction =
+  | 'PRODUCT_CREATE' | 'PRODUCT_UPDATE' | 'PRODUCT_BULK_UPDATE' | 'PRODUCT_ARCHIVE' | 'PRODUCT_RESTORE'
+  | 'STOCK_ADJUST' | 'STOCK_RESTOCK' | 'STOCK_WRITE_OFF'
+  | 'CATEGORY_CREATE' | 'CATEGORY_RENAME' | 'CATEGORY_DELETE'
+  | 'SALE_CREATE' | 'SALE_RETURN'
+  | 'CUSTOMER_SAVE' | 'CUSTOMER_MERGE' | 'CUSTOMER_IMPORT' | 'ACCOUNT_PAYMENT'
+  | 'PROMOTION_SAVE' | 'PROMOTION_DELETE'
+  | 'QUOTATION_SAVE' | 'QUOTATION_DELETE'
+  | 'ORDER_CREATE' | 'ORDER_DELIVER' | 'ORDER_CANCEL'
+  | 'SUPPLIER_SAVE' | 'SUPPLIER_DELETE'
+  | 'PO_SAVE' | 'PO_DELETE' | 'PO_RECEIVE' | 'PO_CLOSE'
+  | 'USER_SAVE' | 'ROLE_SAVE' | 'ROLE_DELETE'
+  | 'SETTINGS_UPDATE' | 'BACKUP_RESTORE';
+
+export type AuditEntityType = 'product' | 'category' | 'sale' | 'quotation' | 'order' | 'supplier' | 'purchaseOrder' | 'customer' | 'promotion' | 'user' | 'role' | 'settings' | 'backup';
+
+export interface AuditEntry {
+  seq: number; // Position in the chain, starting at 1
+  timestamp: string;
+  userId: string;
+  userName: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  summary?: string;
+  before?: unknown;
+  after?: unknown;
+  prevHash: string;
+  hash: string; // SHA-256 of prevHash and every other field
+}
+
+export type CostMethod = 'LAST' | 'AVERAGE';
+
+export type ValuationMethod = 'FIFO' | 'AVERAGE';
+
+export interface CostingSettings {
+  method: CostMethod; // How received stock moves a product's buy price
+  repriceOnReceipt: boolean; // Recompute sellPrice from marginPercent when the buy price moves
+  valuation: ValuationMethod; // How stock on hand and cost of goods sold are costed
+}
+
+export interface ReorderSettings {
+  salesWindowDays: number; // Days of SALE history averaged into daily sales
+  leadTimeDays: number; // Default days from ordering to receiving; suppliers may override
+  safetyDays: number; // Extra days of sales held back as safety stock
+  coverDays: number; // Days of sales each order should cover beyond the reorder point
+}
+
+export interface StoreSettings {
+  idleLockMinutes: number; // 0 disables the idle lock
+  parkedCartHours: number; // 0 keeps parked carts until they are resumed
+  tax: TaxSettings;
+  loyalty: LoyaltySettings;
+  costing: CostingSettings;
+  reorder: ReorderSettings;
+}
+
 export enum View {
   DASHBOARD = 'DASHBOARD',
   INVENTORY = 'INVENTORY',
   POS = 'POS',
   REPORTS = 'REPORTS',
   HISTORY = 'HISTORY',
-  CUSTOMERS = 'CUSTOMERS'
+  CUSTOMERS = 'CUSTOMERS',
+  BACKUP = 'BACKUP',
+  PROMOTIONS = 'PROMOTIONS',
+  TAXES = 'TAXES',
+  USERS = 'USERS',
+  AUDIT = 'AUDIT',
+  ACCOUNTS = 'ACCOUNTS',
+  QUOTATIONS = 'QUOTATIONS',
+  ORDERS = 'ORDERS',
+  SUPPLIERS = 'SUPPLIERS',
+  PURCHASE_ORDERS = 'PURCHASE_ORDERS',
+  REORDER = 'REORDER'
 }